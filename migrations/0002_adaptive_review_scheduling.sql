@@ -0,0 +1,14 @@
+-- Migration: Adaptive spaced repetition scheduling
+-- Created: 2024-02-01
+
+-- Per-resource SM-2 scheduling state stored alongside interval_days
+ALTER TABLE resources ADD COLUMN ease_factor REAL CHECK (ease_factor IS NULL OR ease_factor >= 1.3);
+ALTER TABLE resources ADD COLUMN stability REAL CHECK (stability IS NULL OR stability >= 0);
+
+-- Migrate resources scheduled on the fixed 3/7/14/30 day ladder:
+-- default ease, and the current ladder interval as proven stability
+UPDATE resources
+SET ease_factor = 2.5,
+    stability = interval_days
+WHERE interval_days IS NOT NULL
+  AND status IN ('reviewing', 'done');
@@ -0,0 +1,21 @@
+-- Migration: Review history log
+-- Created: 2024-02-08
+
+-- Reviews table: one row per review or snooze of a resource
+CREATE TABLE reviews (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    user_id TEXT NOT NULL,
+    resource_id TEXT NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('review', 'snooze')),
+    grade TEXT CHECK (grade IS NULL OR grade IN ('again', 'hard', 'good', 'easy')),
+    interval_days INTEGER, -- Interval scheduled by this review
+    next_review_date INTEGER, -- Unix timestamp
+    reviewed_at INTEGER NOT NULL DEFAULT (unixepoch()),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (resource_id) REFERENCES resources(id) ON DELETE CASCADE
+);
+
+-- Create indexes for reviews
+CREATE INDEX idx_reviews_user_id ON reviews(user_id);
+CREATE INDEX idx_reviews_resource_id ON reviews(resource_id);
+CREATE INDEX idx_reviews_reviewed_at ON reviews(reviewed_at);
\ No newline at end of file
@@ -0,0 +1,25 @@
+-- Migration: Subjects table
+-- Created: 2024-02-15
+
+-- Subjects table for custom and template-derived subjects
+-- Stats (study time, resources, goals) are computed from the other tables on read
+CREATE TABLE subjects (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    description TEXT,
+    color TEXT NOT NULL DEFAULT '#3B82F6',
+    created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+    updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    UNIQUE (user_id, name)
+);
+
+-- Create index for subjects
+CREATE INDEX idx_subjects_user_id ON subjects(user_id);
+
+CREATE TRIGGER update_subjects_updated_at 
+AFTER UPDATE ON subjects
+BEGIN
+    UPDATE subjects SET updated_at = unixepoch() WHERE id = NEW.id;
+END;
\ No newline at end of file
@@ -0,0 +1,128 @@
+-- Migration: Two-way sync change log
+-- Created: 2024-02-22
+
+-- Sessions get a version column like the other synced tables
+ALTER TABLE sessions ADD COLUMN updated_at INTEGER NOT NULL DEFAULT 0;
+UPDATE sessions SET updated_at = created_at;
+
+-- Append-only change log; seq is the cursor clients pull from.
+-- Deletes stay here as tombstones so they can win over older offline edits.
+CREATE TABLE sync_changes (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL,
+    entity TEXT NOT NULL CHECK (entity IN ('resource', 'session', 'goal', 'subject')),
+    record_id TEXT NOT NULL,
+    op TEXT NOT NULL CHECK (op IN ('upsert', 'delete')),
+    updated_at INTEGER NOT NULL, -- Record version, or deletion time for tombstones
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Create indexes for sync_changes
+CREATE INDEX idx_sync_changes_user_seq ON sync_changes(user_id, seq);
+CREATE INDEX idx_sync_changes_record ON sync_changes(user_id, entity, record_id);
+
+-- Only bump updated_at when the writer didn't supply a version of its own,
+-- so synced records keep the timestamp of the device that edited them
+DROP TRIGGER update_resources_updated_at;
+CREATE TRIGGER update_resources_updated_at
+AFTER UPDATE ON resources
+WHEN NEW.updated_at = OLD.updated_at
+BEGIN
+    UPDATE resources SET updated_at = unixepoch() WHERE id = NEW.id;
+END;
+
+DROP TRIGGER update_goals_updated_at;
+CREATE TRIGGER update_goals_updated_at
+AFTER UPDATE ON goals
+WHEN NEW.updated_at = OLD.updated_at
+BEGIN
+    UPDATE goals SET updated_at = unixepoch() WHERE id = NEW.id;
+END;
+
+DROP TRIGGER update_subjects_updated_at;
+CREATE TRIGGER update_subjects_updated_at
+AFTER UPDATE ON subjects
+WHEN NEW.updated_at = OLD.updated_at
+BEGIN
+    UPDATE subjects SET updated_at = unixepoch() WHERE id = NEW.id;
+END;
+
+CREATE TRIGGER update_sessions_updated_at
+AFTER UPDATE ON sessions
+WHEN NEW.updated_at = OLD.updated_at
+BEGIN
+    UPDATE sessions SET updated_at = unixepoch() WHERE id = NEW.id;
+END;
+
+-- Record every write in the change log
+CREATE TRIGGER sync_resources_insert AFTER INSERT ON resources
+BEGIN
+    INSERT INTO sync_changes (user_id, entity, record_id, op, updated_at)
+    VALUES (NEW.user_id, 'resource', NEW.id, 'upsert', NEW.updated_at);
+END;
+
+CREATE TRIGGER sync_resources_update AFTER UPDATE ON resources
+BEGIN
+    INSERT INTO sync_changes (user_id, entity, record_id, op, updated_at)
+    VALUES (NEW.user_id, 'resource', NEW.id, 'upsert', NEW.updated_at);
+END;
+
+CREATE TRIGGER sync_resources_delete AFTER DELETE ON resources
+BEGIN
+    INSERT INTO sync_changes (user_id, entity, record_id, op, updated_at)
+    VALUES (OLD.user_id, 'resource', OLD.id, 'delete', unixepoch());
+END;
+
+CREATE TRIGGER sync_sessions_insert AFTER INSERT ON sessions
+BEGIN
+    INSERT INTO sync_changes (user_id, entity, record_id, op, updated_at)
+    VALUES (NEW.user_id, 'session', NEW.id, 'upsert', NEW.updated_at);
+END;
+
+CREATE TRIGGER sync_sessions_update AFTER UPDATE ON sessions
+BEGIN
+    INSERT INTO sync_changes (user_id, entity, record_id, op, updated_at)
+    VALUES (NEW.user_id, 'session', NEW.id, 'upsert', NEW.updated_at);
+END;
+
+CREATE TRIGGER sync_sessions_delete AFTER DELETE ON sessions
+BEGIN
+    INSERT INTO sync_changes (user_id, entity, record_id, op, updated_at)
+    VALUES (OLD.user_id, 'session', OLD.id, 'delete', unixepoch());
+END;
+
+CREATE TRIGGER sync_goals_insert AFTER INSERT ON goals
+BEGIN
+    INSERT INTO sync_changes (user_id, entity, record_id, op, updated_at)
+    VALUES (NEW.user_id, 'goal', NEW.id, 'upsert', NEW.updated_at);
+END;
+
+CREATE TRIGGER sync_goals_update AFTER UPDATE ON goals
+BEGIN
+    INSERT INTO sync_changes (user_id, entity, record_id, op, updated_at)
+    VALUES (NEW.user_id, 'goal', NEW.id, 'upsert', NEW.updated_at);
+END;
+
+CREATE TRIGGER sync_goals_delete AFTER DELETE ON goals
+BEGIN
+    INSERT INTO sync_changes (user_id, entity, record_id, op, updated_at)
+    VALUES (OLD.user_id, 'goal', OLD.id, 'delete', unixepoch());
+END;
+
+CREATE TRIGGER sync_subjects_insert AFTER INSERT ON subjects
+BEGIN
+    INSERT INTO sync_changes (user_id, entity, record_id, op, updated_at)
+    VALUES (NEW.user_id, 'subject', NEW.id, 'upsert', NEW.updated_at);
+END;
+
+CREATE TRIGGER sync_subjects_update AFTER UPDATE ON subjects
+BEGIN
+    INSERT INTO sync_changes (user_id, entity, record_id, op, updated_at)
+    VALUES (NEW.user_id, 'subject', NEW.id, 'upsert', NEW.updated_at);
+END;
+
+CREATE TRIGGER sync_subjects_delete AFTER DELETE ON subjects
+BEGIN
+    INSERT INTO sync_changes (user_id, entity, record_id, op, updated_at)
+    VALUES (OLD.user_id, 'subject', OLD.id, 'delete', unixepoch());
+END;
\ No newline at end of file
@@ -0,0 +1,27 @@
+-- Migration: Server-authoritative XP ledger
+-- Created: 2024-03-01
+
+-- XP ledger: one row per XP grant, adjustment or reversal
+-- settings.xp is the sum of a user's entries; existing totals are rebuilt from
+-- sessions, resources and goals the first time progress is recalculated
+CREATE TABLE xp_ledger (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    user_id TEXT NOT NULL,
+    source_type TEXT NOT NULL CHECK (source_type IN ('session', 'resource', 'goal')),
+    source_id TEXT NOT NULL,
+    amount INTEGER NOT NULL, -- Negative for reversals
+    reason TEXT NOT NULL,
+    created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Create indexes for xp_ledger
+CREATE INDEX idx_xp_ledger_user_id ON xp_ledger(user_id);
+CREATE INDEX idx_xp_ledger_source ON xp_ledger(user_id, source_type, source_id);
+
+-- Entries are never edited; corrections are new entries
+CREATE TRIGGER prevent_xp_ledger_update
+BEFORE UPDATE ON xp_ledger
+BEGIN
+    SELECT RAISE(ABORT, 'xp_ledger is append-only');
+END;
\ No newline at end of file
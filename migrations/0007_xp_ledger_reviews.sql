@@ -0,0 +1,32 @@
+-- Migration: Award XP for reviews in the XP ledger
+-- Created: 2024-03-05
+
+-- SQLite can't alter a CHECK constraint, so rebuild xp_ledger with 'review'
+-- as a source type. Existing entries keep their ids and timestamps.
+CREATE TABLE xp_ledger_new (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    user_id TEXT NOT NULL,
+    source_type TEXT NOT NULL CHECK (source_type IN ('session', 'resource', 'goal', 'review')),
+    source_id TEXT NOT NULL,
+    amount INTEGER NOT NULL, -- Negative for reversals
+    reason TEXT NOT NULL,
+    created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+INSERT INTO xp_ledger_new (id, user_id, source_type, source_id, amount, reason, created_at)
+SELECT id, user_id, source_type, source_id, amount, reason, created_at FROM xp_ledger;
+
+DROP TABLE xp_ledger;
+ALTER TABLE xp_ledger_new RENAME TO xp_ledger;
+
+-- Recreate indexes for xp_ledger
+CREATE INDEX idx_xp_ledger_user_id ON xp_ledger(user_id);
+CREATE INDEX idx_xp_ledger_source ON xp_ledger(user_id, source_type, source_id);
+
+-- Entries are never edited; corrections are new entries
+CREATE TRIGGER prevent_xp_ledger_update
+BEFORE UPDATE ON xp_ledger
+BEGIN
+    SELECT RAISE(ABORT, 'xp_ledger is append-only');
+END;
\ No newline at end of file
@@ -0,0 +1,16 @@
+-- Migration: Achievements
+-- Created: 2024-03-08
+
+-- Achievements table: one row per unlocked achievement
+-- Definitions live in src/lib/achievements.ts; unlocks are never revoked
+CREATE TABLE achievements (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    user_id TEXT NOT NULL,
+    achievement_id TEXT NOT NULL,
+    unlocked_at INTEGER NOT NULL DEFAULT (unixepoch()),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    UNIQUE (user_id, achievement_id)
+);
+
+-- Create index for achievements
+CREATE INDEX idx_achievements_user_id ON achievements(user_id);
\ No newline at end of file
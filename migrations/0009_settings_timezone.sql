@@ -0,0 +1,6 @@
+-- Migration: User timezone for streaks
+-- Created: 2024-03-12
+
+-- IANA timezone (e.g. 'Europe/Berlin') that streak days are counted in
+-- NULL until a device reports one; streaks are then counted in UTC
+ALTER TABLE settings ADD COLUMN timezone TEXT;
\ No newline at end of file
@@ -0,0 +1,24 @@
+-- Migration: Pomodoro settings and break log
+-- Created: 2024-03-15
+
+-- Pomodoro cycle lengths, in minutes
+ALTER TABLE settings ADD COLUMN pomodoro_work_min INTEGER NOT NULL DEFAULT 25;
+ALTER TABLE settings ADD COLUMN pomodoro_short_break_min INTEGER NOT NULL DEFAULT 5;
+ALTER TABLE settings ADD COLUMN pomodoro_long_break_min INTEGER NOT NULL DEFAULT 15;
+ALTER TABLE settings ADD COLUMN pomodoro_cycles INTEGER NOT NULL DEFAULT 4; -- Work blocks before a long break
+
+-- Breaks table: one row per Pomodoro break, for focus-to-break stats
+-- Breaks are kept apart from sessions so they never earn XP or count towards streaks
+CREATE TABLE breaks (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    user_id TEXT NOT NULL,
+    started_at INTEGER NOT NULL, -- Unix timestamp
+    duration_min INTEGER NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('short', 'long')),
+    created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Create indexes for breaks
+CREATE INDEX idx_breaks_user_id ON breaks(user_id);
+CREATE INDEX idx_breaks_started_at ON breaks(started_at);
\ No newline at end of file
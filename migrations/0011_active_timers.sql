@@ -0,0 +1,17 @@
+-- Migration: Active timers
+-- Created: 2024-03-18
+
+-- Active timers table: the running study timer, at most one per user
+-- Elapsed time is elapsed_sec plus the time since resumed_at; a NULL
+-- resumed_at means the timer is paused. Stopping turns the row into a session.
+CREATE TABLE active_timers (
+    user_id TEXT PRIMARY KEY,
+    started_at INTEGER NOT NULL,
+    resumed_at INTEGER,
+    elapsed_sec INTEGER NOT NULL DEFAULT 0 CHECK (elapsed_sec >= 0),
+    subject TEXT,
+    resource_id TEXT,
+    updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (resource_id) REFERENCES resources(id) ON DELETE SET NULL
+);
\ No newline at end of file
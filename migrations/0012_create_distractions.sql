@@ -0,0 +1,18 @@
+-- Migration: Distractions logged during focus sessions
+-- Created: 2024-03-19
+
+-- Distractions table: one row per "I got distracted" tap, owned by the session it interrupted
+CREATE TABLE distractions (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    user_id TEXT NOT NULL,
+    session_id TEXT NOT NULL,
+    occurred_at INTEGER NOT NULL, -- Unix timestamp
+    category TEXT CHECK (category IN ('phone', 'noise', 'hunger', 'people', 'thoughts', 'other')), -- NULL when untagged
+    created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+);
+
+-- Create indexes for distractions
+CREATE INDEX idx_distractions_user_id ON distractions(user_id);
+CREATE INDEX idx_distractions_session_id ON distractions(session_id);
\ No newline at end of file
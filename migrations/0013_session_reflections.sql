@@ -0,0 +1,7 @@
+-- Migration: Session reflections
+-- Created: 2024-03-20
+
+-- Quick reflection captured when a session is logged; all optional
+ALTER TABLE sessions ADD COLUMN notes TEXT; -- What the user worked on
+ALTER TABLE sessions ADD COLUMN focus_rating INTEGER CHECK (focus_rating BETWEEN 1 AND 5); -- Self-rated focus quality
+ALTER TABLE sessions ADD COLUMN energy TEXT CHECK (energy IN ('low', 'medium', 'high'));
\ No newline at end of file
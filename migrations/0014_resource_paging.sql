@@ -0,0 +1,7 @@
+-- Migration: Paging indexes for resources
+-- Created: 2024-03-21
+
+-- Keyset pagination walks these in sort order
+CREATE INDEX idx_resources_user_created ON resources(user_id, created_at, id);
+CREATE INDEX idx_resources_user_updated ON resources(user_id, updated_at, id);
+CREATE INDEX idx_resources_user_priority ON resources(user_id, priority, id);
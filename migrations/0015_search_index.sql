@@ -0,0 +1,128 @@
+-- Migration: Search index across resources, goals, subjects and session notes
+-- Created: 2024-03-22
+
+-- One full-text index for everything the command palette searches, so matches rank against each other.
+-- Each indexed record gets an integer id here that doubles as its rowid in search_index, so
+-- triggers reach index rows by rowid instead of scanning for the record's TEXT id
+CREATE TABLE search_records (
+    id INTEGER PRIMARY KEY,
+    entity TEXT NOT NULL,
+    record_id TEXT NOT NULL,
+    UNIQUE (entity, record_id)
+);
+
+-- owner: the record's user_id, matched in every query so searches only touch that user's rows
+-- title: resource title, goal name, subject name (empty for sessions)
+-- body: resource notes and URL, subject description, session notes
+CREATE VIRTUAL TABLE search_index USING fts5(
+    owner,
+    title,
+    body,
+    tokenize = 'unicode61 remove_diacritics 2'
+);
+
+INSERT INTO search_records (entity, record_id) SELECT 'resource', id FROM resources;
+INSERT INTO search_records (entity, record_id) SELECT 'goal', id FROM goals;
+INSERT INTO search_records (entity, record_id) SELECT 'subject', id FROM subjects;
+INSERT INTO search_records (entity, record_id)
+SELECT 'session', id FROM sessions WHERE notes IS NOT NULL AND notes != '';
+
+INSERT INTO search_index (rowid, owner, title, body)
+SELECT sr.id, r.user_id, r.title, COALESCE(r.notes, '') || ' ' || r.url
+FROM search_records sr JOIN resources r ON sr.entity = 'resource' AND r.id = sr.record_id;
+
+INSERT INTO search_index (rowid, owner, title, body)
+SELECT sr.id, g.user_id, g.name, ''
+FROM search_records sr JOIN goals g ON sr.entity = 'goal' AND g.id = sr.record_id;
+
+INSERT INTO search_index (rowid, owner, title, body)
+SELECT sr.id, s.user_id, s.name, COALESCE(s.description, '')
+FROM search_records sr JOIN subjects s ON sr.entity = 'subject' AND s.id = sr.record_id;
+
+INSERT INTO search_index (rowid, owner, title, body)
+SELECT sr.id, s.user_id, '', s.notes
+FROM search_records sr JOIN sessions s ON sr.entity = 'session' AND s.id = sr.record_id;
+
+-- Keep the index in step
+CREATE TRIGGER search_resources_insert AFTER INSERT ON resources
+BEGIN
+    INSERT INTO search_records (entity, record_id) VALUES ('resource', NEW.id);
+    INSERT INTO search_index (rowid, owner, title, body)
+    VALUES ((SELECT id FROM search_records WHERE entity = 'resource' AND record_id = NEW.id), NEW.user_id, NEW.title, COALESCE(NEW.notes, '') || ' ' || NEW.url);
+END;
+
+CREATE TRIGGER search_resources_update AFTER UPDATE OF title, notes, url ON resources
+BEGIN
+    UPDATE search_index SET title = NEW.title, body = COALESCE(NEW.notes, '') || ' ' || NEW.url
+    WHERE rowid = (SELECT id FROM search_records WHERE entity = 'resource' AND record_id = NEW.id);
+END;
+
+CREATE TRIGGER search_resources_delete AFTER DELETE ON resources
+BEGIN
+    DELETE FROM search_index WHERE rowid = (SELECT id FROM search_records WHERE entity = 'resource' AND record_id = OLD.id);
+    DELETE FROM search_records WHERE entity = 'resource' AND record_id = OLD.id;
+END;
+
+CREATE TRIGGER search_goals_insert AFTER INSERT ON goals
+BEGIN
+    INSERT INTO search_records (entity, record_id) VALUES ('goal', NEW.id);
+    INSERT INTO search_index (rowid, owner, title, body)
+    VALUES ((SELECT id FROM search_records WHERE entity = 'goal' AND record_id = NEW.id), NEW.user_id, NEW.name, '');
+END;
+
+CREATE TRIGGER search_goals_update AFTER UPDATE OF name ON goals
+BEGIN
+    UPDATE search_index SET title = NEW.name, body = ''
+    WHERE rowid = (SELECT id FROM search_records WHERE entity = 'goal' AND record_id = NEW.id);
+END;
+
+CREATE TRIGGER search_goals_delete AFTER DELETE ON goals
+BEGIN
+    DELETE FROM search_index WHERE rowid = (SELECT id FROM search_records WHERE entity = 'goal' AND record_id = OLD.id);
+    DELETE FROM search_records WHERE entity = 'goal' AND record_id = OLD.id;
+END;
+
+CREATE TRIGGER search_subjects_insert AFTER INSERT ON subjects
+BEGIN
+    INSERT INTO search_records (entity, record_id) VALUES ('subject', NEW.id);
+    INSERT INTO search_index (rowid, owner, title, body)
+    VALUES ((SELECT id FROM search_records WHERE entity = 'subject' AND record_id = NEW.id), NEW.user_id, NEW.name, COALESCE(NEW.description, ''));
+END;
+
+CREATE TRIGGER search_subjects_update AFTER UPDATE OF name, description ON subjects
+BEGIN
+    UPDATE search_index SET title = NEW.name, body = COALESCE(NEW.description, '')
+    WHERE rowid = (SELECT id FROM search_records WHERE entity = 'subject' AND record_id = NEW.id);
+END;
+
+CREATE TRIGGER search_subjects_delete AFTER DELETE ON subjects
+BEGIN
+    DELETE FROM search_index WHERE rowid = (SELECT id FROM search_records WHERE entity = 'subject' AND record_id = OLD.id);
+    DELETE FROM search_records WHERE entity = 'subject' AND record_id = OLD.id;
+END;
+
+-- Only sessions with notes are searchable
+CREATE TRIGGER search_sessions_insert AFTER INSERT ON sessions
+WHEN NEW.notes IS NOT NULL AND NEW.notes != ''
+BEGIN
+    INSERT INTO search_records (entity, record_id) VALUES ('session', NEW.id);
+    INSERT INTO search_index (rowid, owner, title, body)
+    VALUES ((SELECT id FROM search_records WHERE entity = 'session' AND record_id = NEW.id), NEW.user_id, '', NEW.notes);
+END;
+
+-- Notes can be added or cleared, so the session's index row is dropped and re-added
+CREATE TRIGGER search_sessions_update AFTER UPDATE OF notes ON sessions
+BEGIN
+    DELETE FROM search_index WHERE rowid = (SELECT id FROM search_records WHERE entity = 'session' AND record_id = NEW.id);
+    DELETE FROM search_records WHERE entity = 'session' AND record_id = NEW.id;
+    INSERT INTO search_records (entity, record_id)
+    SELECT 'session', NEW.id WHERE NEW.notes IS NOT NULL AND NEW.notes != '';
+    INSERT INTO search_index (rowid, owner, title, body)
+    SELECT id, NEW.user_id, '', NEW.notes FROM search_records WHERE entity = 'session' AND record_id = NEW.id;
+END;
+
+CREATE TRIGGER search_sessions_delete AFTER DELETE ON sessions
+BEGIN
+    DELETE FROM search_index WHERE rowid = (SELECT id FROM search_records WHERE entity = 'session' AND record_id = OLD.id);
+    DELETE FROM search_records WHERE entity = 'session' AND record_id = OLD.id;
+END;
\ No newline at end of file
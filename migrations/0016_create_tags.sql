@@ -0,0 +1,24 @@
+-- Migration: Tags on resources
+-- Created: 2024-03-23
+
+-- Tags table: one row per tag name a user has used, normalized to lowercase by the app
+CREATE TABLE tags (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    UNIQUE (user_id, name)
+);
+
+-- Resource tags: many-to-many between resources and tags
+CREATE TABLE resource_tags (
+    resource_id TEXT NOT NULL,
+    tag_id TEXT NOT NULL,
+    PRIMARY KEY (resource_id, tag_id),
+    FOREIGN KEY (resource_id) REFERENCES resources(id) ON DELETE CASCADE,
+    FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
+);
+
+-- Create index for finding resources by tag
+CREATE INDEX idx_resource_tags_tag_id ON resource_tags(tag_id);
\ No newline at end of file
@@ -0,0 +1,10 @@
+-- Migration: Resource progress
+-- Created: 2024-03-24
+
+-- Optional unit-by-unit progress on resources (pages of a book, lessons of a course...)
+ALTER TABLE resources ADD COLUMN progress_unit TEXT CHECK (progress_unit IN ('pages', 'chapters', 'lessons', 'modules', 'episodes', 'videos'));
+ALTER TABLE resources ADD COLUMN total_units INTEGER CHECK (total_units > 0);
+ALTER TABLE resources ADD COLUMN current_unit INTEGER CHECK (current_unit >= 0); -- Units finished so far
+
+-- Units a session got through on its resource
+ALTER TABLE sessions ADD COLUMN units_completed INTEGER CHECK (units_completed >= 0);
\ No newline at end of file
@@ -0,0 +1,20 @@
+-- Migration: Checklist sub-items on resources
+-- Created: 2024-03-25
+
+-- Resource items table: the ordered steps a resource is broken into
+CREATE TABLE resource_items (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    user_id TEXT NOT NULL,
+    resource_id TEXT NOT NULL,
+    position INTEGER NOT NULL, -- 0-based order within the resource
+    title TEXT NOT NULL,
+    done INTEGER NOT NULL DEFAULT 0 CHECK (done IN (0, 1)),
+    estimate_min INTEGER CHECK (estimate_min > 0), -- NULL when not estimated
+    created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+    updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (resource_id) REFERENCES resources(id) ON DELETE CASCADE
+);
+
+-- Create index for loading a resource's items in order
+CREATE INDEX idx_resource_items_resource_position ON resource_items(resource_id, position);
\ No newline at end of file
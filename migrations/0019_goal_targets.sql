@@ -0,0 +1,18 @@
+-- Migration: Measurable goal targets
+-- Created: 2024-03-26
+
+-- How a goal's progress is measured; progress_pct is computed unless manual
+ALTER TABLE goals ADD COLUMN measure TEXT NOT NULL DEFAULT 'manual' CHECK (measure IN ('manual', 'minutes', 'resources', 'items'));
+ALTER TABLE goals ADD COLUMN target_minutes INTEGER CHECK (target_minutes > 0); -- Minutes to study in the goal's subject
+
+-- Goal resources table: the resources a goal is measured on
+CREATE TABLE goal_resources (
+    goal_id TEXT NOT NULL,
+    resource_id TEXT NOT NULL,
+    PRIMARY KEY (goal_id, resource_id),
+    FOREIGN KEY (goal_id) REFERENCES goals(id) ON DELETE CASCADE,
+    FOREIGN KEY (resource_id) REFERENCES resources(id) ON DELETE CASCADE
+);
+
+-- Create index for finding the goals a resource counts towards
+CREATE INDEX idx_goal_resources_resource_id ON goal_resources(resource_id);
\ No newline at end of file
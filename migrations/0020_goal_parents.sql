@@ -0,0 +1,9 @@
+-- Migration: Sub-goals
+-- Created: 2024-03-27
+
+-- Parent of a sub-goal (milestone). No foreign key: sub-goals may sync before
+-- their parent, and a sub-goal whose parent is deleted shows as a top-level goal.
+ALTER TABLE goals ADD COLUMN parent_id TEXT;
+
+-- Create index for loading a goal's sub-goals
+CREATE INDEX idx_goals_parent_id ON goals(parent_id);
\ No newline at end of file
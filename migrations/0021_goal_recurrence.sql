@@ -0,0 +1,8 @@
+-- Migration: Recurring goals
+-- Created: 2024-03-28
+
+-- Habits: goals that come round daily, on weekdays or some days a week. A day
+-- counts once the subject's sessions that day reach daily_minutes.
+ALTER TABLE goals ADD COLUMN recurrence TEXT CHECK (recurrence IN ('daily', 'weekdays', 'weekly'));
+ALTER TABLE goals ADD COLUMN times_per_week INTEGER CHECK (times_per_week BETWEEN 1 AND 7); -- Weekly habits only
+ALTER TABLE goals ADD COLUMN daily_minutes INTEGER CHECK (daily_minutes > 0);
\ No newline at end of file
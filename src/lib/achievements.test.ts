@@ -0,0 +1,127 @@
+/**
+ * Unit tests for achievement rules
+ */
+
+import {
+  ACHIEVEMENTS,
+  evaluateAchievements,
+  countResourcesReviewedToDone,
+  getMaxSubjectsInWeek,
+  getAchievement,
+  type AchievementData
+} from './achievements.js';
+
+const emptyData: AchievementData = { sessions: [], resources: [], reviews: [], goals: [], xp: 0 };
+
+function dailySessions(days: number, durationMin = 20) {
+  return Array.from({ length: days }, (_, i) => ({
+    startedAt: new Date(2024, 0, 1 + i, 10, 0),
+    durationMin
+  }));
+}
+
+function unlockedIds(data: Partial<AchievementData>): string[] {
+  return evaluateAchievements({ ...emptyData, ...data }, []).map(a => a.id);
+}
+
+describe('Achievements', () => {
+  test('should have unique ids', () => {
+    const ids = ACHIEVEMENTS.map(a => a.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  test('should unlock nothing for a new user', () => {
+    expect(unlockedIds({})).toEqual([]);
+  });
+
+  describe('first 25-minute session', () => {
+    test('should unlock on a session of at least 25 minutes', () => {
+      expect(unlockedIds({ sessions: dailySessions(1, 25) })).toContain('first-focus-session');
+    });
+
+    test('should not unlock on shorter sessions', () => {
+      expect(unlockedIds({ sessions: dailySessions(1, 24) })).not.toContain('first-focus-session');
+    });
+  });
+
+  describe('streaks', () => {
+    test('should unlock the 7-day streak after 7 consecutive days', () => {
+      const ids = unlockedIds({ sessions: dailySessions(7) });
+      expect(ids).toContain('streak-3');
+      expect(ids).toContain('streak-7');
+    });
+
+    test('should not unlock the 7-day streak with a gap', () => {
+      const sessions = dailySessions(8).filter((_, i) => i !== 3);
+      const ids = unlockedIds({ sessions });
+      expect(ids).toContain('streak-3');
+      expect(ids).not.toContain('streak-7');
+    });
+  });
+
+  describe('resources reviewed to done', () => {
+    const resources = Array.from({ length: 10 }, (_, i) => ({ id: `res-${i}`, status: 'done' }));
+    const reviews = resources.map(r => ({ resourceId: r.id, action: 'review' }));
+
+    test('should count only done resources that were reviewed', () => {
+      expect(countResourcesReviewedToDone({
+        resources: [...resources, { id: 'res-manual', status: 'done' }, { id: 'res-new', status: 'new' }],
+        reviews: [...reviews, { resourceId: 'res-new', action: 'review' }]
+      })).toBe(10);
+    });
+
+    test('should not count snoozes as reviews', () => {
+      expect(countResourcesReviewedToDone({
+        resources,
+        reviews: reviews.map(r => ({ ...r, action: 'snooze' }))
+      })).toBe(0);
+    });
+
+    test('should unlock at 10 resources', () => {
+      expect(unlockedIds({ resources, reviews })).toContain('reviewed-to-done-10');
+      expect(unlockedIds({ resources: resources.slice(1), reviews })).not.toContain('reviewed-to-done-10');
+    });
+  });
+
+  describe('subjects in a week', () => {
+    const subjects = ['Math', 'Physics', 'History', 'Spanish'];
+
+    test('should count distinct subjects within 7 days', () => {
+      const sessions = subjects.map((subject, i) => ({
+        startedAt: new Date(2024, 0, 1 + i * 2, 10, 0), // Days 1, 3, 5 and 7
+        durationMin: 20,
+        subject
+      }));
+
+      expect(getMaxSubjectsInWeek(sessions)).toBe(4);
+      expect(unlockedIds({ sessions })).toContain('subjects-in-week-4');
+    });
+
+    test('should not combine subjects more than a week apart', () => {
+      const sessions = subjects.map((subject, i) => ({
+        startedAt: new Date(2024, 0, 1 + i * 3, 10, 0), // Days 1, 4, 7 and 10
+        durationMin: 20,
+        subject
+      }));
+
+      expect(getMaxSubjectsInWeek(sessions)).toBe(3);
+      expect(unlockedIds({ sessions })).not.toContain('subjects-in-week-4');
+    });
+  });
+
+  describe('evaluateAchievements', () => {
+    test('should stamp new unlocks with the evaluation time', () => {
+      const now = new Date('2024-02-01T08:00:00Z');
+      const unlocked = evaluateAchievements({ ...emptyData, goals: [{ status: 'completed' }] }, [], now);
+
+      expect(unlocked).toEqual([{ id: 'first-goal', unlockedAt: now }]);
+      expect(getAchievement('first-goal')?.name).toBe('Goal Getter');
+    });
+
+    test('should skip achievements that are already unlocked', () => {
+      const data = { ...emptyData, xp: 150, goals: [{ status: 'completed' }] };
+
+      expect(evaluateAchievements(data, [{ id: 'first-goal' }]).map(a => a.id)).toEqual(['xp-100']);
+    });
+  });
+});
\ No newline at end of file
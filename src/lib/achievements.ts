@@ -0,0 +1,129 @@
+/**
+ * Achievements for ADHD Hub
+ *
+ * Declarative milestone badges evaluated against the user's data. Each rule is
+ * a plain predicate, so the same definitions run in the browser and on the
+ * server. Once unlocked, an achievement stays unlocked.
+ */
+
+import type { AchievementUnlock } from './models.js';
+import { calculateStreak } from './xp.js';
+
+export interface AchievementData {
+  sessions: Array<{ startedAt: Date; durationMin: number; subject?: string }>;
+  resources: Array<{ id: string; status: string }>;
+  reviews: Array<{ resourceId: string; action: string }>;
+  goals: Array<{ status: string }>;
+  xp: number;
+  timeZone?: string; // IANA timezone streak days are counted in
+}
+
+export interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  isUnlocked: (data: AchievementData) => boolean;
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Resources finished through spaced repetition rather than marked done by hand
+ */
+export function countResourcesReviewedToDone(data: Pick<AchievementData, 'resources' | 'reviews'>): number {
+  const reviewed = new Set(data.reviews.filter(r => r.action === 'review').map(r => r.resourceId));
+  return data.resources.filter(r => r.status === 'done' && reviewed.has(r.id)).length;
+}
+
+/**
+ * Most distinct subjects studied within any rolling 7-day window
+ */
+export function getMaxSubjectsInWeek(sessions: AchievementData['sessions']): number {
+  const studied = sessions
+    .filter(s => s.subject && s.durationMin > 0)
+    .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+
+  let max = 0;
+  studied.forEach((session, i) => {
+    const weekEnd = session.startedAt.getTime() + WEEK_MS;
+    const subjects = new Set<string>();
+    for (let j = i; j < studied.length && studied[j].startedAt.getTime() < weekEnd; j++) {
+      subjects.add(studied[j].subject!);
+    }
+    max = Math.max(max, subjects.size);
+  });
+
+  return max;
+}
+
+export const ACHIEVEMENTS: readonly Achievement[] = [
+  {
+    id: 'first-focus-session',
+    name: 'Deep Breath',
+    description: 'Finish your first 25-minute study session',
+    icon: '🍅',
+    isUnlocked: data => data.sessions.some(s => s.durationMin >= 25)
+  },
+  {
+    id: 'streak-3',
+    name: 'Warming Up',
+    description: 'Study 3 days in a row',
+    icon: '🔥',
+    isUnlocked: data => calculateStreak(data.sessions, { timeZone: data.timeZone }).longestStreak >= 3
+  },
+  {
+    id: 'streak-7',
+    name: 'Week Warrior',
+    description: 'Study 7 days in a row',
+    icon: '📅',
+    isUnlocked: data => calculateStreak(data.sessions, { timeZone: data.timeZone }).longestStreak >= 7
+  },
+  {
+    id: 'reviewed-to-done-10',
+    name: 'It Stuck!',
+    description: 'Review 10 resources all the way to done',
+    icon: '🧠',
+    isUnlocked: data => countResourcesReviewedToDone(data) >= 10
+  },
+  {
+    id: 'subjects-in-week-4',
+    name: 'Curious Mind',
+    description: 'Study 4 different subjects within a week',
+    icon: '🌈',
+    isUnlocked: data => getMaxSubjectsInWeek(data.sessions) >= 4
+  },
+  {
+    id: 'first-goal',
+    name: 'Goal Getter',
+    description: 'Complete your first goal',
+    icon: '🎯',
+    isUnlocked: data => data.goals.some(g => g.status === 'completed')
+  },
+  {
+    id: 'xp-100',
+    name: 'Century',
+    description: 'Earn 100 XP',
+    icon: '💯',
+    isUnlocked: data => data.xp >= 100
+  }
+];
+
+/**
+ * Achievements the data qualifies for that aren't unlocked yet
+ */
+export function evaluateAchievements(
+  data: AchievementData,
+  unlocked: Array<{ id: string }>,
+  now: Date = new Date()
+): AchievementUnlock[] {
+  const known = new Set(unlocked.map(a => a.id));
+
+  return ACHIEVEMENTS
+    .filter(achievement => !known.has(achievement.id) && achievement.isUnlocked(data))
+    .map(achievement => ({ id: achievement.id, unlockedAt: now }));
+}
+
+export function getAchievement(id: string): Achievement | undefined {
+  return ACHIEVEMENTS.find(achievement => achievement.id === id);
+}
\ No newline at end of file
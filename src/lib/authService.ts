@@ -3,6 +3,10 @@
  * Handles login, signup, logout, and authentication state
  */
 
+import { getAll, setAll } from './storage.js';
+import { prepareSyncRequest, completeSync, type SyncResult } from './sync.js';
+import { getDeviceTimeZone } from './xp.js';
+
 export interface User {
   id: string;
   email: string;
@@ -176,25 +180,14 @@ class AuthService {
   }
 
   /**
-   * Sync local data to cloud after login/signup
+   * Two-way sync between this device and the cloud after login/signup.
+   * Pushes local edits since the last sync and applies what the server sends back.
    */
   async syncLocalDataToCloud(): Promise<{ success: boolean; error?: string }> {
     try {
-      // Get local data from localStorage
-      const localData = localStorage.getItem('adhd-hub-data');
-      if (!localData) {
-        return { success: true }; // No data to sync
-      }
-
-      const parsedData = JSON.parse(localData);
-
-      // Prepare data for sync API
-      const syncData = {
-        resources: parsedData.resources || [],
-        sessions: parsedData.sessions || [],
-        goals: parsedData.goals || [],
-        settings: parsedData.settings
-      };
+      const startedAt = new Date();
+      const localData = getAll();
+      const { cursor, changes } = prepareSyncRequest(localData);
 
       const response = await fetch('/api/sync', {
         method: 'POST',
@@ -202,17 +195,57 @@ class AuthService {
           'Content-Type': 'application/json'
         },
         credentials: 'include',
-        body: JSON.stringify(syncData)
+        body: JSON.stringify({
+          cursor,
+          changes,
+          settings: {
+            theme: localData.settings.theme,
+            selected_subject_id: localData.settings.selectedSubjectId,
+            timezone: localData.settings.timezone ?? getDeviceTimeZone(),
+            ...(localData.settings.pomodoro && {
+              pomodoro_work_min: localData.settings.pomodoro.workMin,
+              pomodoro_short_break_min: localData.settings.pomodoro.shortBreakMin,
+              pomodoro_long_break_min: localData.settings.pomodoro.longBreakMin,
+              pomodoro_cycles: localData.settings.pomodoro.cyclesBeforeLongBreak
+            })
+          }
+        })
       });
 
-      if (response.ok) {
-        const result = await response.json();
-        console.log('Data synced to cloud:', result.synced);
-        return { success: true };
-      } else {
+      if (!response.ok) {
         const error = await response.json();
         return { success: false, error: error.error || 'Sync failed' };
       }
+
+      const result: SyncResult & { settings?: any } = await response.json();
+
+      // Re-read in case something was edited while the request was in flight
+      const merged = completeSync(getAll(), result, startedAt);
+      if (result.settings) {
+        merged.settings = {
+          ...merged.settings,
+          theme: result.settings.theme,
+          xp: result.settings.xp,
+          level: result.settings.level,
+          streak: result.settings.streak,
+          longestStreak: result.settings.longest_streak,
+          selectedSubjectId: result.settings.selected_subject_id ?? undefined,
+          timezone: result.settings.timezone ?? undefined,
+          pomodoro: {
+            workMin: result.settings.pomodoro_work_min,
+            shortBreakMin: result.settings.pomodoro_short_break_min,
+            longBreakMin: result.settings.pomodoro_long_break_min,
+            cyclesBeforeLongBreak: result.settings.pomodoro_cycles
+          }
+        };
+      }
+      setAll(merged);
+
+      if (result.rejected.length > 0) {
+        console.warn('Sync rejected changes:', result.rejected);
+      }
+      console.log(`Data synced: ${result.applied.length} pushed, ${result.changes.length} pulled, ${result.conflicts.length} conflicts`);
+      return { success: true };
     } catch (error) {
       console.error('Sync error:', error);
       return { success: false, error: 'Network error' };
@@ -0,0 +1,150 @@
+/**
+ * Unit tests for bookmark import
+ */
+
+import {
+  parseBookmarksHtml,
+  parseBookmarksCsv,
+  parseCsv,
+  parseOpml,
+  parseImportFile,
+  detectImportFormat,
+  getUrlKey,
+  previewImport,
+  toNewResource
+} from './bookmarkImport.js';
+
+const BOOKMARKS_HTML = `<!DOCTYPE NETSCAPE-Bookmark-file-1>
+<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">
+<TITLE>Bookmarks</TITLE>
+<H1>Bookmarks</H1>
+<DL><p>
+    <DT><H3 ADD_DATE="1700000000" PERSONAL_TOOLBAR_FOLDER="true">Bookmarks bar</H3>
+    <DL><p>
+        <DT><A HREF="https://news.example.com/" ADD_DATE="1700000000">News</A>
+        <DT><H3>Math</H3>
+        <DL><p>
+            <DT><A HREF="https://www.youtube.com/watch?v=abc" TAGS="linear algebra,Lecture">Vectors &amp; Spaces</A>
+            <DD>Chapter 1 of the series
+            <DT><A HREF="javascript:void(0)">Bookmarklet</A>
+        </DL><p>
+        <DT><A HREF="https://example.com/paper.pdf">Attention paper</A>
+    </DL><p>
+</DL><p>`;
+
+const POCKET_CSV = `title,url,time_added,tags,status
+"Learning, the hard way",https://example.com/learn,1700000000,study|ml,unread
+,https://example.com/untitled,1700000001,,archive`;
+
+const INSTAPAPER_CSV = `URL,Title,Selection,Folder,Timestamp
+https://example.com/a,Essay,"A quote with ""quotes""",Unread,1700000000
+https://example.com/b,Favourite,,Starred,1700000001
+https://example.com/c,Physics read,,Physics,1700000002`;
+
+const PODCAST_OPML = `<?xml version="1.0" encoding="utf-8"?>
+<opml version="1.0">
+  <head><title>Subscriptions</title></head>
+  <body>
+    <outline text="feeds">
+      <outline type="rss" text="Math Talks" xmlUrl="https://feeds.example.com/math.xml" description="Weekly &lt;3"/>
+      <outline text="History">
+        <outline type="rss" text="Past Times" title="Past Times Podcast" xmlUrl="https://feeds.example.com/past.xml"/>
+      </outline>
+    </outline>
+  </body>
+</opml>`;
+
+describe('Bookmark import', () => {
+  describe('parseBookmarksHtml', () => {
+    test('should map the innermost folder to the subject, ignoring browser root folders', () => {
+      const bookmarks = parseBookmarksHtml(BOOKMARKS_HTML);
+
+      expect(bookmarks.map(b => [b.title, b.folder])).toEqual([
+        ['News', undefined],
+        ['Vectors & Spaces', 'Math'],
+        ['Attention paper', undefined]
+      ]);
+    });
+
+    test('should keep tags, descriptions and the type guessed from the URL', () => {
+      const [, video, paper] = parseBookmarksHtml(BOOKMARKS_HTML);
+
+      expect(video).toMatchObject({ type: 'video', tags: ['lecture', 'linear algebra'], notes: 'Chapter 1 of the series' });
+      expect(paper.type).toBe('article');
+    });
+  });
+
+  describe('parseCsv', () => {
+    test('should handle quoted commas, escaped quotes, newlines and CRLF', () => {
+      expect(parseCsv('a,b\r\n"x, y","say ""hi""\nthere"\r\n\r\n')).toEqual([['a', 'b'], ['x, y', 'say "hi"\nthere']]);
+    });
+  });
+
+  describe('parseBookmarksCsv', () => {
+    test('should read Pocket exports', () => {
+      expect(parseBookmarksCsv(POCKET_CSV)).toEqual([
+        expect.objectContaining({ title: 'Learning, the hard way', tags: ['ml', 'study'], status: 'new' }),
+        expect.objectContaining({ title: 'https://example.com/untitled', tags: [], status: 'done' })
+      ]);
+    });
+
+    test('should read Instapaper exports, with custom folders as subjects', () => {
+      const [essay, favourite, physics] = parseBookmarksCsv(INSTAPAPER_CSV);
+
+      expect(essay).toMatchObject({ notes: 'A quote with "quotes"', folder: undefined, favorite: false });
+      expect(favourite).toMatchObject({ favorite: true, folder: undefined });
+      expect(physics.folder).toBe('Physics');
+    });
+  });
+
+  describe('parseOpml', () => {
+    test('should import every feed as a podcast under its folder', () => {
+      expect(parseOpml(PODCAST_OPML)).toEqual([
+        expect.objectContaining({ title: 'Math Talks', url: 'https://feeds.example.com/math.xml', type: 'podcast', folder: undefined, notes: 'Weekly <3' }),
+        expect.objectContaining({ title: 'Past Times Podcast', type: 'podcast', folder: 'History' })
+      ]);
+    });
+  });
+
+  describe('parseImportFile', () => {
+    test('should detect the format from the extension or the content', () => {
+      expect(detectImportFormat('bookmarks_2024.html', '')).toBe('bookmarks');
+      expect(detectImportFormat('export', BOOKMARKS_HTML)).toBe('bookmarks');
+      expect(detectImportFormat('subs.xml', PODCAST_OPML)).toBe('opml');
+      expect(detectImportFormat('pocket.csv', POCKET_CSV)).toBe('csv');
+      expect(detectImportFormat('notes.txt', 'hello')).toBeNull();
+    });
+
+    test('should reject files it cannot read', () => {
+      expect(() => parseImportFile('notes.txt', 'hello')).toThrow('Unsupported file');
+    });
+  });
+
+  describe('previewImport', () => {
+    test('should treat spellings of the same page as one URL', () => {
+      expect(getUrlKey('http://www.Example.com/post/?utm_source=x&id=2#top')).toBe(getUrlKey('https://example.com/post?id=2'));
+      expect(getUrlKey('https://example.com/post?id=2')).not.toBe(getUrlKey('https://example.com/post?id=3'));
+    });
+
+    test('should mark links already saved or repeated in the file', () => {
+      const bookmarks = parseBookmarksCsv(`url,title
+https://example.com/saved/,Saved
+https://example.com/new,New
+https://www.example.com/new#again,New again`);
+
+      const preview = previewImport(bookmarks, [{ url: 'https://example.com/saved' }]);
+
+      expect(preview.map(item => item.duplicate)).toEqual(['saved', undefined, 'file']);
+    });
+  });
+
+  describe('toNewResource', () => {
+    test('should use the folder as subject, or the fallback', () => {
+      const [news, video] = parseBookmarksHtml(BOOKMARKS_HTML);
+
+      expect(toNewResource(video, 'Inbox')).toMatchObject({ subject: 'Math', priority: 3, status: 'new' });
+      expect(toNewResource(news, 'Inbox').subject).toBe('Inbox');
+      expect(toNewResource(news).subject).toBe('Imported');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,282 @@
+/**
+ * Bookmark import for ADHD Hub
+ *
+ * Turns the files other tools export into resources:
+ * - Browser bookmarks (the Netscape HTML every browser exports); folders become subjects
+ * - Pocket and Instapaper CSV exports; archived links come in as done
+ * - Podcast OPML; every feed comes in as a podcast
+ *
+ * Parsing only reads the file. The preview marks links that are already saved
+ * (or appear twice in the file) so the user can pick what to bring in.
+ */
+
+import type { Resource, ResourceStatus, ResourceType } from './models.js';
+import { decodeEntities, guessResourceType, parseAttributes } from './urlMetadata.js';
+import { normalizeTags, MAX_TAGS_PER_RESOURCE } from './tags.js';
+
+export const MAX_IMPORT_RESOURCES = 1000;
+export const DEFAULT_IMPORT_SUBJECT = 'Imported';
+
+export type ImportFormat = 'bookmarks' | 'csv' | 'opml';
+
+export interface ImportedBookmark {
+  title: string;
+  url: string;
+  folder?: string; // becomes the subject
+  type: ResourceType;
+  tags: string[];
+  notes: string;
+  favorite: boolean;
+  status: ResourceStatus;
+}
+
+export interface ImportPreviewItem extends ImportedBookmark {
+  duplicate?: 'saved' | 'file'; // already a resource, or earlier in the same file
+}
+
+// Folders browsers and podcast apps put everything under, which say nothing about the subject
+const ROOT_FOLDERS = [
+  'bookmarks bar', 'bookmarks toolbar', 'bookmarks menu', 'other bookmarks',
+  'mobile bookmarks', 'favorites bar', 'favourites bar', 'imported', 'feeds', 'subscriptions'
+];
+
+function innermostFolder(folders: Array<string | undefined>): string | undefined {
+  return [...folders].reverse().find(name => name && !ROOT_FOLDERS.includes(name.toLowerCase()));
+}
+
+// Tracking parameters that make the same page look like different links
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|ref|ref_src)$/i;
+
+function text(html: string): string {
+  return decodeEntities(html.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim();
+}
+
+function isWebUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+/**
+ * The same page under its different spellings: scheme, www., trailing slash,
+ * fragment and tracking parameters don't count
+ */
+export function getUrlKey(url: string): string {
+  try {
+    const parsed = new URL(url.trim());
+    const params = [...parsed.searchParams].filter(([name]) => !TRACKING_PARAMS.test(name));
+    const query = params.length > 0 ? `?${new URLSearchParams(params)}` : '';
+    const path = parsed.pathname.replace(/\/+$/, '');
+    return `${parsed.hostname.toLowerCase().replace(/^www\./, '')}${parsed.port ? `:${parsed.port}` : ''}${path}${query}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+function bookmark(url: string, fields: Partial<ImportedBookmark> = {}): ImportedBookmark {
+  return {
+    title: fields.title || url,
+    url,
+    folder: fields.folder,
+    type: fields.type ?? guessResourceType(url),
+    tags: normalizeTags(fields.tags ?? []).slice(0, MAX_TAGS_PER_RESOURCE),
+    notes: fields.notes ?? '',
+    favorite: fields.favorite ?? false,
+    status: fields.status ?? 'new'
+  };
+}
+
+/**
+ * Netscape bookmark HTML, as exported by Chrome, Firefox, Safari and Edge
+ */
+export function parseBookmarksHtml(html: string): ImportedBookmark[] {
+  const bookmarks: ImportedBookmark[] = [];
+  const folders: Array<string | undefined> = [];
+  let pendingFolder: string | undefined;
+
+  const tokens = /<h3\b[^>]*>([\s\S]*?)<\/h3>|<a\b([^>]*)>([\s\S]*?)<\/a>|<dl\b[^>]*>|<\/dl>|<dd>([^<]*)/gi;
+  for (const [token, folderName, anchorAttributes, anchorText, description] of html.matchAll(tokens)) {
+    if (folderName !== undefined) {
+      pendingFolder = text(folderName);
+    } else if (anchorAttributes !== undefined) {
+      const attributes = parseAttributes(anchorAttributes);
+      const url = decodeEntities(attributes.href ?? '').trim();
+      if (!isWebUrl(url)) continue; // javascript:, place: and file: bookmarks
+
+      bookmarks.push(bookmark(url, {
+        title: text(anchorText),
+        folder: innermostFolder(folders),
+        tags: attributes.tags ? decodeEntities(attributes.tags).split(',') : []
+      }));
+    } else if (description !== undefined) {
+      const last = bookmarks[bookmarks.length - 1];
+      if (last && !last.notes) last.notes = text(description);
+    } else if (token.startsWith('</')) {
+      folders.pop();
+    } else {
+      folders.push(pendingFolder);
+      pendingFolder = undefined;
+    }
+  }
+
+  return bookmarks;
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may hold commas, quotes ("") and newlines
+ */
+export function parseCsv(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && csv[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Pocket (title, url, time_added, tags, status) and Instapaper
+ * (URL, Title, Selection, Folder, Timestamp) exports, told apart by their headers
+ */
+export function parseBookmarksCsv(csv: string): ImportedBookmark[] {
+  const [header, ...rows] = parseCsv(csv.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+
+  const columns = header.map(name => name.trim().toLowerCase());
+  const column = (row: string[], name: string) => {
+    const index = columns.indexOf(name);
+    return index === -1 ? '' : (row[index] ?? '').trim();
+  };
+
+  return rows.flatMap(row => {
+    const url = column(row, 'url');
+    if (!isWebUrl(url)) return [];
+
+    // Instapaper keeps state in Folder, Pocket in status
+    const folder = column(row, 'folder');
+    const state = (column(row, 'status') || folder).toLowerCase();
+    return [bookmark(url, {
+      title: column(row, 'title'),
+      folder: ['unread', 'archive', 'starred', ''].includes(folder.toLowerCase()) ? undefined : folder,
+      tags: column(row, 'tags').split(/[|,]/).map(tag => tag.replace(/[[\]"]/g, '')), // Pocket uses a|b, Instapaper ["a","b"]
+      notes: column(row, 'selection'),
+      favorite: state === 'starred',
+      status: state === 'archive' ? 'done' : 'new'
+    })];
+  });
+}
+
+/**
+ * OPML subscription lists from podcast apps; outlines without a feed are folders
+ */
+export function parseOpml(xml: string): ImportedBookmark[] {
+  const bookmarks: ImportedBookmark[] = [];
+  const folders: Array<string | undefined> = [];
+
+  for (const [, attributeText, selfClosing] of xml.matchAll(/<outline\b([^>]*?)(\/?)>|<\/outline>/gi)) {
+    if (attributeText === undefined) {
+      folders.pop();
+      continue;
+    }
+
+    const attributes = parseAttributes(attributeText);
+    const feedUrl = decodeEntities(attributes.xmlurl ?? '').trim();
+    const name = text(attributes.title ?? attributes.text ?? '');
+    if (isWebUrl(feedUrl)) {
+      bookmarks.push(bookmark(feedUrl, {
+        title: name,
+        folder: innermostFolder(folders),
+        type: 'podcast',
+        notes: text(attributes.description ?? '')
+      }));
+    }
+    if (!selfClosing) folders.push(isWebUrl(feedUrl) ? undefined : name || undefined);
+  }
+
+  return bookmarks;
+}
+
+export function detectImportFormat(fileName: string, content: string): ImportFormat | null {
+  const extension = fileName.toLowerCase().match(/\.([a-z]+)$/)?.[1];
+  if (extension === 'opml' || /<opml\b/i.test(content.slice(0, 1000))) return 'opml';
+  if (extension === 'html' || extension === 'htm' || /NETSCAPE-Bookmark-file/i.test(content.slice(0, 1000))) return 'bookmarks';
+  if (extension === 'csv') return 'csv';
+  return null;
+}
+
+/**
+ * Parse an export file, whatever the format; throws when it isn't one we read
+ */
+export function parseImportFile(fileName: string, content: string): ImportedBookmark[] {
+  switch (detectImportFormat(fileName, content)) {
+    case 'bookmarks':
+      return parseBookmarksHtml(content);
+    case 'csv':
+      return parseBookmarksCsv(content);
+    case 'opml':
+      return parseOpml(content);
+    default:
+      throw new Error('Unsupported file. Use a browser bookmarks .html, a Pocket or Instapaper .csv, or an .opml file.');
+  }
+}
+
+/**
+ * Mark links already saved as resources or repeated within the file
+ */
+export function previewImport(bookmarks: ImportedBookmark[], existing: Array<Pick<Resource, 'url'>>): ImportPreviewItem[] {
+  const saved = new Set(existing.map(resource => getUrlKey(resource.url)));
+  const seen = new Set<string>();
+
+  return bookmarks.map(item => {
+    const key = getUrlKey(item.url);
+    const duplicate = saved.has(key) ? 'saved' : seen.has(key) ? 'file' : undefined;
+    seen.add(key);
+    return duplicate ? { ...item, duplicate } : { ...item };
+  });
+}
+
+/**
+ * Resource to save for an imported link; links outside any folder get the fallback subject
+ */
+export function toNewResource(item: ImportedBookmark, fallbackSubject: string = DEFAULT_IMPORT_SUBJECT): Omit<Resource, 'id' | 'createdAt' | 'updatedAt'> {
+  return {
+    title: item.title,
+    url: item.url,
+    subject: item.folder || fallbackSubject,
+    type: item.type,
+    priority: 3,
+    notes: item.notes,
+    tags: item.tags,
+    favorite: item.favorite,
+    status: item.status
+  };
+}
\ No newline at end of file
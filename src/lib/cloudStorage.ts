@@ -3,7 +3,24 @@
  * API-based storage operations for authenticated users
  */
 
-import type { AppData, Resource, Session, Goal, Settings } from './models';
+import type { AppData, Resource, ResourceItem, Session, SessionReflection, BreakLog, Distraction, ActiveTimer, Goal, Settings, Subject, ReviewLog, XPLedgerEntry, AchievementUnlock } from './models';
+import { defaultSubjectTemplates } from './storage';
+import type { SyncChange, SyncResult } from './sync';
+import type { ResourcePage, ResourcePageRequest, ResourceQuery } from './resourceQuery';
+import type { SearchResult } from './search';
+import type { UrlMetadata } from './urlMetadata';
+import type { ItemUpdate } from './resourceItems';
+
+/**
+ * Failed API response, keeps the HTTP status so callers can tell
+ * rejected requests from ones worth retrying
+ */
+export class ApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
 
 class CloudStorageService {
   /**
@@ -21,7 +38,7 @@ class CloudStorageService {
 
     if (!response.ok) {
       const error = await response.json().catch(() => ({ error: 'Request failed' }));
-      throw new Error(error.error || `Request failed with status ${response.status}`);
+      throw new ApiError(error.error || `Request failed with status ${response.status}`, response.status);
     }
 
     return response.json();
@@ -32,51 +49,46 @@ class CloudStorageService {
    */
   async getAll(): Promise<AppData> {
     try {
-      const [resourcesRes, sessionsRes, goalsRes, settingsRes] = await Promise.all([
-        this.request<{ resources: Resource[] }>('/api/resources'),
-        this.request<{ sessions: Session[] }>('/api/sessions'),
+      const [resourcesRes, sessionsRes, breaks, distractions, goalsRes, subjectsRes, reviewsRes, xpLedger, achievements, settingsRes] = await Promise.all([
+        this.request<{ resources: any[] }>('/api/resources'),
+        this.request<{ sessions: any[] }>('/api/sessions'),
+        this.getBreaks(),
+        this.getDistractions(),
         this.request<{ goals: Goal[] }>('/api/goals'),
-        this.request<{ settings: Settings }>('/api/settings')
+        this.request<{ subjects: any[] }>('/api/subjects'),
+        this.request<{ reviews: any[] }>('/api/reviews'),
+        this.getXPLedger(),
+        this.getAchievements(),
+        this.request<{ settings: any }>('/api/settings')
       ]);
 
       // Convert timestamps back to Date objects
-      const resources = resourcesRes.resources.map(r => ({
-        ...r,
-        createdAt: new Date(r.created_at * 1000),
-        updatedAt: new Date(r.updated_at * 1000),
-        nextReviewDate: r.next_review_date ? new Date(r.next_review_date * 1000) : undefined,
-        lastReviewInterval: r.interval_days || undefined
-      }));
-
-      const sessions = sessionsRes.sessions.map(s => ({
-        ...s,
-        startedAt: new Date(s.started_at * 1000),
-        resourceId: s.resource_id || undefined,
-        durationMin: s.duration_min
-      }));
-
-      const goals = goalsRes.goals.map(g => ({
-        ...g,
-        dueDate: new Date(g.due_date * 1000),
-        progressPct: g.progress_pct,
-        createdAt: new Date(g.created_at * 1000),
-        updatedAt: new Date(g.updated_at * 1000)
-      }));
-
-      const settings: Settings = {
-        theme: settingsRes.settings.theme,
-        xp: settingsRes.settings.xp,
-        level: settingsRes.settings.level,
-        streak: settingsRes.settings.streak,
-        longestStreak: settingsRes.settings.longest_streak,
-        selectedSubjectId: settingsRes.settings.selected_subject_id
-      };
+      const resources = resourcesRes.resources.map(r => this.toResource(r));
+
+      const sessions = sessionsRes.sessions.map(s => this.toSession(s));
+
+      const goals = goalsRes.goals.map(g => this.toGoal(g));
+
+      // Templates are built in; only user subjects live in the cloud
+      const subjects = [
+        ...defaultSubjectTemplates,
+        ...subjectsRes.subjects.map(s => this.toSubject(s))
+      ];
+
+      const reviews = reviewsRes.reviews.map(r => this.toReviewLog(r));
+
+      const settings = this.toSettings(settingsRes.settings);
 
       return {
         resources,
         sessions,
+        breaks,
+        distractions,
         goals,
-        subjects: [], // TODO: Add subjects API
+        subjects,
+        reviews,
+        xpLedger,
+        achievements,
         settings
       };
     } catch (error) {
@@ -85,7 +97,57 @@ class CloudStorageService {
     }
   }
 
+  // Search operations
+  async search(query: string, limit: number): Promise<SearchResult[]> {
+    const params = new URLSearchParams({ q: query, limit: String(limit) });
+    const result = await this.request<{ results: any[] }>(`/api/search?${params}`);
+    return result.results.map(r => ({
+      entity: r.entity,
+      id: r.record_id,
+      title: r.title,
+      snippet: r.snippet,
+      date: r.started_at ? new Date(r.started_at * 1000) : undefined
+    }));
+  }
+
+  // URL metadata
+  async getUrlMetadata(url: string): Promise<UrlMetadata> {
+    const params = new URLSearchParams({ url });
+    const result = await this.request<{ metadata: UrlMetadata }>(`/api/metadata?${params}`);
+    return result.metadata;
+  }
+
+  // Sync operations
+  async pushChanges(cursor: number | null, changes: SyncChange[]): Promise<SyncResult> {
+    return this.request<SyncResult>('/api/sync', {
+      method: 'POST',
+      body: JSON.stringify({ cursor, changes })
+    });
+  }
+
   // Resource operations
+  /**
+   * One page of resources, filtered and sorted by the server
+   */
+  async queryResources(query: ResourceQuery, page: ResourcePageRequest = {}): Promise<ResourcePage> {
+    const params = new URLSearchParams({ sort: query.sort ?? 'created' });
+    if (query.search) params.set('q', query.search);
+    if (query.subject) params.set('subject', query.subject);
+    if (query.type) params.set('type', query.type);
+    if (query.priority) params.set('priority', String(query.priority));
+    if (query.status) params.set('status', query.status);
+    query.tags?.forEach(tag => params.append('tag', tag));
+    if (query.dueBefore) params.set('due_before', String(Math.floor(query.dueBefore.getTime() / 1000)));
+    if (page.limit) params.set('limit', String(page.limit));
+    if (page.cursor) params.set('cursor', page.cursor);
+
+    const result = await this.request<{ resources: any[]; next_cursor: string | null }>(`/api/resources?${params}`);
+    return {
+      resources: result.resources.map(r => this.toResource(r)),
+      nextCursor: result.next_cursor
+    };
+  }
+
   async saveResource(resource: Omit<Resource, 'id' | 'createdAt' | 'updatedAt'>): Promise<Resource> {
     const data = {
       title: resource.title,
@@ -94,10 +156,16 @@ class CloudStorageService {
       type: resource.type,
       priority: resource.priority,
       notes: resource.notes,
+      tags: resource.tags,
       favorite: resource.favorite,
       status: resource.status,
       next_review_date: resource.nextReviewDate ? Math.floor(resource.nextReviewDate.getTime() / 1000) : null,
-      interval_days: resource.lastReviewInterval || null
+      interval_days: resource.lastReviewInterval || null,
+      ease_factor: resource.easeFactor ?? null,
+      stability: resource.stability ?? null,
+      progress_unit: resource.progressUnit ?? null,
+      total_units: resource.totalUnits ?? null,
+      current_unit: resource.currentUnit ?? null
     };
 
     const result = await this.request<{ resource: any }>('/api/resources', {
@@ -105,22 +173,32 @@ class CloudStorageService {
       body: JSON.stringify(data)
     });
 
-    const r = result.resource;
-    return {
-      id: r.id,
-      title: r.title,
-      url: r.url,
-      subject: r.subject,
-      type: r.type,
-      priority: r.priority,
-      notes: r.notes,
-      favorite: r.favorite,
-      status: r.status,
-      nextReviewDate: r.next_review_date ? new Date(r.next_review_date * 1000) : undefined,
-      lastReviewInterval: r.interval_days || undefined,
-      createdAt: new Date(r.created_at * 1000),
-      updatedAt: new Date(r.updated_at * 1000)
-    };
+    return this.toResource(result.resource);
+  }
+
+  /**
+   * Bulk create, keeping the IDs the resources already have locally
+   */
+  async importResources(resources: Resource[]): Promise<{ resources: Resource[]; skipped: string[] }> {
+    const result = await this.request<{ resources: any[]; skipped: string[] }>('/api/resources/import', {
+      method: 'POST',
+      body: JSON.stringify({
+        resources: resources.map(resource => ({
+          id: resource.id,
+          title: resource.title,
+          url: resource.url,
+          subject: resource.subject,
+          type: resource.type,
+          priority: resource.priority,
+          notes: resource.notes,
+          tags: resource.tags,
+          favorite: resource.favorite,
+          status: resource.status
+        }))
+      })
+    });
+
+    return { resources: result.resources.map(r => this.toResource(r)), skipped: result.skipped };
   }
 
   async updateResource(id: string, updates: Partial<Resource>): Promise<Resource | null> {
@@ -132,19 +210,71 @@ class CloudStorageService {
     if (updates.type !== undefined) data.type = updates.type;
     if (updates.priority !== undefined) data.priority = updates.priority;
     if (updates.notes !== undefined) data.notes = updates.notes;
+    if (updates.tags !== undefined) data.tags = updates.tags;
     if (updates.favorite !== undefined) data.favorite = updates.favorite;
     if (updates.status !== undefined) data.status = updates.status;
     if (updates.nextReviewDate !== undefined) {
       data.next_review_date = updates.nextReviewDate ? Math.floor(updates.nextReviewDate.getTime() / 1000) : null;
     }
     if (updates.lastReviewInterval !== undefined) data.interval_days = updates.lastReviewInterval;
+    if (updates.easeFactor !== undefined) data.ease_factor = updates.easeFactor;
+    if (updates.stability !== undefined) data.stability = updates.stability;
+    if ('progressUnit' in updates) data.progress_unit = updates.progressUnit ?? null;
+    if ('totalUnits' in updates) data.total_units = updates.totalUnits ?? null;
+    if ('currentUnit' in updates) data.current_unit = updates.currentUnit ?? null;
 
     const result = await this.request<{ resource: any }>(`/api/resources?id=${id}`, {
       method: 'PUT',
       body: JSON.stringify(data)
     });
 
-    const r = result.resource;
+    return this.toResource(result.resource);
+  }
+
+  async deleteResource(id: string): Promise<boolean> {
+    try {
+      await this.request(`/api/resources?id=${id}`, {
+        method: 'DELETE'
+      });
+      return true;
+    } catch (error) {
+      console.error('Failed to delete resource:', error);
+      return false;
+    }
+  }
+
+  // Resource item operations
+  async createResourceItem(resourceId: string, item: ResourceItem): Promise<void> {
+    await this.request(`/api/resources/${encodeURIComponent(resourceId)}/items`, {
+      method: 'POST',
+      body: JSON.stringify({
+        id: item.id,
+        title: item.title,
+        done: item.done,
+        estimate_min: item.estimateMin ?? null
+      })
+    });
+  }
+
+  async updateResourceItem(resourceId: string, itemId: string, changes: ItemUpdate): Promise<void> {
+    await this.request(`/api/resources/${encodeURIComponent(resourceId)}/items?id=${encodeURIComponent(itemId)}`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        title: changes.title,
+        done: changes.done,
+        estimate_min: changes.estimateMin,
+        position: changes.position
+      })
+    });
+  }
+
+  async deleteResourceItem(resourceId: string, itemId: string): Promise<void> {
+    await this.request(`/api/resources/${encodeURIComponent(resourceId)}/items?id=${encodeURIComponent(itemId)}`, {
+      method: 'DELETE'
+    });
+  }
+
+  private toResource(r: any): Resource {
     return {
       id: r.id,
       title: r.title,
@@ -153,34 +283,38 @@ class CloudStorageService {
       type: r.type,
       priority: r.priority,
       notes: r.notes,
+      tags: r.tags ?? [],
       favorite: r.favorite,
       status: r.status,
       nextReviewDate: r.next_review_date ? new Date(r.next_review_date * 1000) : undefined,
       lastReviewInterval: r.interval_days || undefined,
+      easeFactor: r.ease_factor ?? undefined,
+      stability: r.stability ?? undefined,
+      progressUnit: r.progress_unit ?? undefined,
+      totalUnits: r.total_units ?? undefined,
+      currentUnit: r.current_unit ?? undefined,
+      items: (r.items ?? []).map((item: any) => ({
+        id: item.id,
+        title: item.title,
+        done: Boolean(item.done),
+        estimateMin: item.estimate_min ?? undefined
+      })),
       createdAt: new Date(r.created_at * 1000),
       updatedAt: new Date(r.updated_at * 1000)
     };
   }
 
-  async deleteResource(id: string): Promise<boolean> {
-    try {
-      await this.request(`/api/resources?id=${id}`, {
-        method: 'DELETE'
-      });
-      return true;
-    } catch (error) {
-      console.error('Failed to delete resource:', error);
-      return false;
-    }
-  }
-
   // Session operations
   async saveSession(session: Omit<Session, 'id'>): Promise<Session> {
     const data = {
       started_at: Math.floor(session.startedAt.getTime() / 1000),
       duration_min: session.durationMin,
       subject: session.subject,
-      resource_id: session.resourceId
+      resource_id: session.resourceId,
+      notes: session.notes,
+      focus_rating: session.focusRating,
+      energy: session.energy,
+      units_completed: session.unitsCompleted
     };
 
     const result = await this.request<{ session: any }>('/api/sessions', {
@@ -188,13 +322,143 @@ class CloudStorageService {
       body: JSON.stringify(data)
     });
 
-    const s = result.session;
+    return this.toSession(result.session);
+  }
+
+  async updateSession(id: string, updates: Partial<Omit<Session, 'id'>>): Promise<Session | null> {
+    const data: any = {};
+    
+    if (updates.startedAt !== undefined) data.started_at = Math.floor(updates.startedAt.getTime() / 1000);
+    if (updates.durationMin !== undefined) data.duration_min = updates.durationMin;
+    if ('subject' in updates) data.subject = updates.subject ?? '';
+    if ('resourceId' in updates) data.resource_id = updates.resourceId ?? '';
+    if ('notes' in updates) data.notes = updates.notes ?? '';
+    if ('focusRating' in updates) data.focus_rating = updates.focusRating ?? null;
+    if ('energy' in updates) data.energy = updates.energy ?? null;
+    if ('unitsCompleted' in updates) data.units_completed = updates.unitsCompleted ?? null;
+
+    const result = await this.request<{ session: any }>(`/api/sessions?id=${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data)
+    });
+
+    return this.toSession(result.session);
+  }
+
+  async deleteSession(id: string): Promise<boolean> {
+    try {
+      await this.request(`/api/sessions?id=${id}`, {
+        method: 'DELETE'
+      });
+      return true;
+    } catch (error) {
+      console.error('Failed to delete session:', error);
+      return false;
+    }
+  }
+
+  private toSession(s: any): Session {
     return {
       id: s.id,
       startedAt: new Date(s.started_at * 1000),
       durationMin: s.duration_min,
-      subject: s.subject,
-      resourceId: s.resource_id
+      subject: s.subject ?? undefined,
+      resourceId: s.resource_id ?? undefined,
+      notes: s.notes ?? undefined,
+      focusRating: s.focus_rating ?? undefined,
+      energy: s.energy ?? undefined,
+      unitsCompleted: s.units_completed ?? undefined,
+      updatedAt: new Date(s.updated_at * 1000)
+    };
+  }
+
+  // Active timer operations
+  async getTimer(): Promise<ActiveTimer | null> {
+    const result = await this.request<{ timer: any }>('/api/timer');
+    return result.timer ? this.toActiveTimer(result.timer) : null;
+  }
+
+  /**
+   * Start the timer. If another device already started one, that timer is
+   * returned instead so this device can follow it.
+   */
+  async startTimer(timer: Pick<ActiveTimer, 'startedAt' | 'subject' | 'resourceId'>): Promise<ActiveTimer> {
+    try {
+      const result = await this.request<{ timer: any }>('/api/timer', {
+        method: 'POST',
+        body: JSON.stringify({
+          action: 'start',
+          started_at: Math.floor(timer.startedAt.getTime() / 1000),
+          subject: timer.subject,
+          resource_id: timer.resourceId
+        })
+      });
+      return this.toActiveTimer(result.timer);
+    } catch (error) {
+      const current = error instanceof ApiError && error.status === 409 ? await this.getTimer() : null;
+      if (!current) throw error;
+      return current;
+    }
+  }
+
+  /**
+   * Pause or resume the timer; returns the timer as the server has it
+   */
+  async setTimerRunning(running: boolean): Promise<ActiveTimer | null> {
+    try {
+      const result = await this.request<{ timer: any }>('/api/timer', {
+        method: 'POST',
+        body: JSON.stringify({ action: running ? 'resume' : 'pause' })
+      });
+      return this.toActiveTimer(result.timer);
+    } catch (error) {
+      // Already in that state, or stopped on another device
+      if (error instanceof ApiError && error.status === 409) return this.getTimer();
+      throw error;
+    }
+  }
+
+  /**
+   * Stop the timer and log it as a session, or null if it was already stopped
+   */
+  async stopTimer(details: Pick<Session, 'subject' | 'resourceId'> & SessionReflection): Promise<Session | null> {
+    try {
+      const result = await this.request<{ session: any }>('/api/timer', {
+        method: 'POST',
+        body: JSON.stringify({
+          action: 'stop',
+          subject: details.subject,
+          resource_id: details.resourceId,
+          notes: details.notes,
+          focus_rating: details.focusRating,
+          energy: details.energy,
+          units_completed: details.unitsCompleted
+        })
+      });
+      return this.toSession(result.session);
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  async discardTimer(): Promise<boolean> {
+    try {
+      await this.request('/api/timer', { method: 'DELETE' });
+      return true;
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) return false;
+      throw error;
+    }
+  }
+
+  private toActiveTimer(t: any): ActiveTimer {
+    return {
+      startedAt: new Date(t.started_at * 1000),
+      resumedAt: t.resumed_at ? new Date(t.resumed_at * 1000) : null,
+      elapsedSeconds: t.elapsed_sec,
+      subject: t.subject ?? undefined,
+      resourceId: t.resource_id ?? undefined
     };
   }
 
@@ -205,7 +469,14 @@ class CloudStorageService {
       subject: goal.subject,
       due_date: Math.floor(goal.dueDate.getTime() / 1000),
       progress_pct: goal.progressPct,
-      status: goal.status
+      status: goal.status,
+      measure: goal.measure ?? 'manual',
+      target_minutes: goal.targetMinutes ?? null,
+      resource_ids: goal.resourceIds ?? [],
+      parent_id: goal.parentId ?? null,
+      recurrence: goal.recurrence ?? null,
+      times_per_week: goal.timesPerWeek ?? null,
+      daily_minutes: goal.dailyMinutes ?? null
     };
 
     const result = await this.request<{ goal: any }>('/api/goals', {
@@ -213,17 +484,7 @@ class CloudStorageService {
       body: JSON.stringify(data)
     });
 
-    const g = result.goal;
-    return {
-      id: g.id,
-      name: g.name,
-      subject: g.subject,
-      dueDate: new Date(g.due_date * 1000),
-      progressPct: g.progress_pct,
-      status: g.status,
-      createdAt: new Date(g.created_at * 1000),
-      updatedAt: new Date(g.updated_at * 1000)
-    };
+    return this.toGoal(result.goal);
   }
 
   async updateGoal(id: string, updates: Partial<Goal>): Promise<Goal | null> {
@@ -234,13 +495,35 @@ class CloudStorageService {
     if (updates.dueDate !== undefined) data.due_date = Math.floor(updates.dueDate.getTime() / 1000);
     if (updates.progressPct !== undefined) data.progress_pct = updates.progressPct;
     if (updates.status !== undefined) data.status = updates.status;
+    if ('measure' in updates) data.measure = updates.measure ?? 'manual';
+    if ('targetMinutes' in updates) data.target_minutes = updates.targetMinutes ?? null;
+    if (updates.resourceIds !== undefined) data.resource_ids = updates.resourceIds;
+    if ('parentId' in updates) data.parent_id = updates.parentId ?? null;
+    if ('recurrence' in updates) data.recurrence = updates.recurrence ?? null;
+    if ('timesPerWeek' in updates) data.times_per_week = updates.timesPerWeek ?? null;
+    if ('dailyMinutes' in updates) data.daily_minutes = updates.dailyMinutes ?? null;
 
     const result = await this.request<{ goal: any }>(`/api/goals?id=${id}`, {
       method: 'PUT',
       body: JSON.stringify(data)
     });
 
-    const g = result.goal;
+    return this.toGoal(result.goal);
+  }
+
+  async deleteGoal(id: string): Promise<boolean> {
+    try {
+      await this.request(`/api/goals?id=${id}`, {
+        method: 'DELETE'
+      });
+      return true;
+    } catch (error) {
+      console.error('Failed to delete goal:', error);
+      return false;
+    }
+  }
+
+  private toGoal(g: any): Goal {
     return {
       id: g.id,
       name: g.name,
@@ -248,47 +531,236 @@ class CloudStorageService {
       dueDate: new Date(g.due_date * 1000),
       progressPct: g.progress_pct,
       status: g.status,
+      measure: g.measure ?? undefined,
+      targetMinutes: g.target_minutes ?? undefined,
+      resourceIds: g.resource_ids ?? [],
+      parentId: g.parent_id ?? undefined,
+      recurrence: g.recurrence ?? undefined,
+      timesPerWeek: g.times_per_week ?? undefined,
+      dailyMinutes: g.daily_minutes ?? undefined,
       createdAt: new Date(g.created_at * 1000),
       updatedAt: new Date(g.updated_at * 1000)
     };
   }
 
-  async deleteGoal(id: string): Promise<boolean> {
+  // Subject operations
+  async saveSubject(subject: Omit<Subject, 'id' | 'createdAt' | 'updatedAt'>): Promise<Subject> {
+    const data = {
+      name: subject.name,
+      description: subject.description || null,
+      color: subject.color
+    };
+
+    const result = await this.request<{ subject: any }>('/api/subjects', {
+      method: 'POST',
+      body: JSON.stringify(data)
+    });
+
+    return this.toSubject(result.subject);
+  }
+
+  async updateSubject(id: string, updates: Partial<Subject>): Promise<Subject | null> {
+    const data: any = {};
+    
+    if (updates.name !== undefined) data.name = updates.name;
+    if (updates.description !== undefined) data.description = updates.description || null;
+    if (updates.color !== undefined) data.color = updates.color;
+
+    const result = await this.request<{ subject: any }>(`/api/subjects?id=${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data)
+    });
+
+    return this.toSubject(result.subject);
+  }
+
+  async deleteSubject(id: string): Promise<boolean> {
     try {
-      await this.request(`/api/goals?id=${id}`, {
+      await this.request(`/api/subjects?id=${id}`, {
         method: 'DELETE'
       });
       return true;
     } catch (error) {
-      console.error('Failed to delete goal:', error);
+      console.error('Failed to delete subject:', error);
       return false;
     }
   }
 
+  private toSubject(s: any): Subject {
+    return {
+      id: s.id,
+      name: s.name,
+      description: s.description || undefined,
+      color: s.color,
+      isTemplate: false,
+      stats: {
+        totalStudyTime: s.total_study_time,
+        totalResources: s.total_resources,
+        completedResources: s.completed_resources,
+        totalGoals: s.total_goals,
+        completedGoals: s.completed_goals,
+        lastStudied: s.last_studied ? new Date(s.last_studied * 1000) : undefined
+      },
+      createdAt: new Date(s.created_at * 1000),
+      updatedAt: new Date(s.updated_at * 1000)
+    };
+  }
+
+  // Review operations
+  async getReviews(resourceId?: string): Promise<ReviewLog[]> {
+    const query = resourceId ? `?resource_id=${resourceId}` : '';
+    const result = await this.request<{ reviews: any[] }>(`/api/reviews${query}`);
+    return result.reviews.map(r => this.toReviewLog(r));
+  }
+
+  async saveReview(review: Omit<ReviewLog, 'reviewedAt'>): Promise<ReviewLog> {
+    const data = {
+      id: review.id,
+      resource_id: review.resourceId,
+      action: review.action,
+      grade: review.grade ?? null,
+      interval_days: review.intervalDays ?? null,
+      next_review_date: review.nextReviewDate ? Math.floor(review.nextReviewDate.getTime() / 1000) : null
+    };
+
+    const result = await this.request<{ review: any }>('/api/reviews', {
+      method: 'POST',
+      body: JSON.stringify(data)
+    });
+
+    return this.toReviewLog(result.review);
+  }
+
+  private toReviewLog(r: any): ReviewLog {
+    return {
+      id: r.id,
+      resourceId: r.resource_id,
+      action: r.action,
+      grade: r.grade || undefined,
+      intervalDays: r.interval_days ?? undefined,
+      nextReviewDate: r.next_review_date ? new Date(r.next_review_date * 1000) : undefined,
+      reviewedAt: new Date(r.reviewed_at * 1000)
+    };
+  }
+
+  // Break operations
+  async getBreaks(): Promise<BreakLog[]> {
+    const result = await this.request<{ breaks: any[] }>('/api/breaks');
+    return result.breaks.map(b => this.toBreakLog(b));
+  }
+
+  async saveBreak(pause: BreakLog): Promise<BreakLog> {
+    const result = await this.request<{ break: any }>('/api/breaks', {
+      method: 'POST',
+      body: JSON.stringify({
+        id: pause.id,
+        started_at: Math.floor(pause.startedAt.getTime() / 1000),
+        duration_min: pause.durationMin,
+        kind: pause.kind
+      })
+    });
+
+    return this.toBreakLog(result.break);
+  }
+
+  private toBreakLog(b: any): BreakLog {
+    return {
+      id: b.id,
+      startedAt: new Date(b.started_at * 1000),
+      durationMin: b.duration_min,
+      kind: b.kind
+    };
+  }
+
+  // Distraction operations
+  async getDistractions(): Promise<Distraction[]> {
+    const result = await this.request<{ distractions: any[] }>('/api/distractions');
+    return result.distractions.map(d => this.toDistraction(d));
+  }
+
+  async saveDistraction(distraction: Distraction): Promise<Distraction> {
+    const result = await this.request<{ distraction: any }>('/api/distractions', {
+      method: 'POST',
+      body: JSON.stringify({
+        id: distraction.id,
+        session_id: distraction.sessionId,
+        occurred_at: Math.floor(distraction.occurredAt.getTime() / 1000),
+        category: distraction.category ?? null
+      })
+    });
+
+    return this.toDistraction(result.distraction);
+  }
+
+  private toDistraction(d: any): Distraction {
+    return {
+      id: d.id,
+      sessionId: d.session_id,
+      occurredAt: new Date(d.occurred_at * 1000),
+      category: d.category ?? undefined
+    };
+  }
+
+  // XP ledger operations
+  async getXPLedger(): Promise<XPLedgerEntry[]> {
+    const result = await this.request<{ entries: any[] }>('/api/xp-ledger');
+    return result.entries.map(e => ({
+      id: e.id,
+      sourceType: e.source_type,
+      sourceId: e.source_id,
+      amount: e.amount,
+      reason: e.reason,
+      createdAt: new Date(e.created_at * 1000)
+    }));
+  }
+
+  // Achievement operations
+  async getAchievements(): Promise<AchievementUnlock[]> {
+    const result = await this.request<{ achievements: any[] }>('/api/achievements');
+    return result.achievements.map(a => ({
+      id: a.achievement_id,
+      unlockedAt: new Date(a.unlocked_at * 1000)
+    }));
+  }
+
   // Settings operations
   async updateSettings(updates: Partial<Settings>): Promise<Settings> {
     const data: any = {};
     
+    // XP, level and streaks are derived by the server and can't be set
     if (updates.theme !== undefined) data.theme = updates.theme;
-    if (updates.xp !== undefined) data.xp = updates.xp;
-    if (updates.level !== undefined) data.level = updates.level;
-    if (updates.streak !== undefined) data.streak = updates.streak;
-    if (updates.longestStreak !== undefined) data.longest_streak = updates.longestStreak;
     if (updates.selectedSubjectId !== undefined) data.selected_subject_id = updates.selectedSubjectId;
+    if (updates.timezone !== undefined) data.timezone = updates.timezone;
+    if (updates.pomodoro !== undefined) {
+      data.pomodoro_work_min = updates.pomodoro.workMin;
+      data.pomodoro_short_break_min = updates.pomodoro.shortBreakMin;
+      data.pomodoro_long_break_min = updates.pomodoro.longBreakMin;
+      data.pomodoro_cycles = updates.pomodoro.cyclesBeforeLongBreak;
+    }
 
     const result = await this.request<{ settings: any }>('/api/settings', {
       method: 'PUT',
       body: JSON.stringify(data)
     });
 
-    const s = result.settings;
+    return this.toSettings(result.settings);
+  }
+
+  private toSettings(s: any): Settings {
     return {
       theme: s.theme,
       xp: s.xp,
       level: s.level,
       streak: s.streak,
       longestStreak: s.longest_streak,
-      selectedSubjectId: s.selected_subject_id
+      selectedSubjectId: s.selected_subject_id ?? undefined,
+      timezone: s.timezone ?? undefined,
+      pomodoro: {
+        workMin: s.pomodoro_work_min,
+        shortBreakMin: s.pomodoro_short_break_min,
+        longBreakMin: s.pomodoro_long_break_min,
+        cyclesBeforeLongBreak: s.pomodoro_cycles
+      }
     };
   }
 }
@@ -0,0 +1,239 @@
+/**
+ * Unit tests for the D1 database service
+ */
+
+import type { D1Database } from '@cloudflare/workers-types';
+import { DatabaseService } from './db.js';
+
+type Row = Record<string, unknown>;
+type Responder = (sql: string, params: unknown[]) => Row[];
+
+/**
+ * Stand-in for a D1 binding that records every statement it runs and answers
+ * from the given responder
+ */
+class FakeD1 {
+  statements: Array<{ sql: string; params: unknown[] }> = [];
+
+  constructor(private respond: Responder = () => []) {}
+
+  prepare(sql: string) {
+    const statement = (params: unknown[]) => {
+      const run = () => {
+        const normalized = sql.replace(/\s+/g, ' ').trim();
+        this.statements.push({ sql: normalized, params });
+        const results = this.respond(normalized, params);
+        return { results, success: true, changes: results.length, meta: { changes: results.length } };
+      };
+      return {
+        bind: (...values: unknown[]) => statement(values),
+        first: async () => run().results[0] ?? null,
+        all: async () => run(),
+        run: async () => run(),
+        execute: run
+      };
+    };
+    return statement([]);
+  }
+
+  async batch(statements: Array<{ execute: () => unknown }>) {
+    return statements.map(statement => statement.execute());
+  }
+
+  asD1(): D1Database {
+    return this as unknown as D1Database;
+  }
+}
+
+const reviewRow = {
+  id: 'rev-1',
+  user_id: 'user-1',
+  resource_id: 'res-1',
+  action: 'review',
+  grade: 'good',
+  interval_days: 6,
+  next_review_date: 1709800000,
+  reviewed_at: 1709280000
+};
+
+const subjectRow = {
+  id: 'sub-1',
+  user_id: 'user-1',
+  name: 'Linear Algebra',
+  description: null,
+  color: '#3B82F6',
+  total_study_time: 90,
+  total_resources: 2,
+  completed_resources: 1,
+  total_goals: 1,
+  completed_goals: 0,
+  last_studied: 1709280000,
+  created_at: 1709000000,
+  updated_at: 1709280000
+};
+
+describe('DatabaseService', () => {
+  describe('createReview', () => {
+    test('should only log reviews against the user\'s own resources', async () => {
+      const d1 = new FakeD1(() => [reviewRow]);
+      const review = await new DatabaseService(d1.asD1()).createReview('user-1', {
+        resource_id: 'res-1',
+        action: 'review',
+        grade: 'good',
+        interval_days: 6,
+        next_review_date: 1709800000
+      });
+
+      expect(review).toEqual(reviewRow);
+      const [insert] = d1.statements;
+      expect(insert.sql).toContain('FROM resources WHERE id = ? AND user_id = ?');
+      expect(insert.params).toEqual([null, 'user-1', 'review', 'good', 6, 1709800000, 'res-1', 'user-1']);
+    });
+
+    test('should return the logged review when a request with the same id is retried', async () => {
+      const d1 = new FakeD1(sql => sql.startsWith('SELECT * FROM reviews') ? [reviewRow] : []);
+      const review = await new DatabaseService(d1.asD1()).createReview('user-1', {
+        id: 'rev-1',
+        resource_id: 'res-1',
+        action: 'review',
+        grade: 'good',
+        interval_days: 6,
+        next_review_date: 1709800000
+      });
+
+      expect(review).toEqual(reviewRow);
+      expect(d1.statements[0].sql).toContain('ON CONFLICT(id) DO NOTHING');
+      expect(d1.statements[1].params).toEqual(['rev-1', 'user-1']);
+    });
+
+    test('should return null for a resource the user doesn\'t own', async () => {
+      const d1 = new FakeD1(() => []);
+      const review = await new DatabaseService(d1.asD1()).createReview('user-2', {
+        resource_id: 'res-1',
+        action: 'snooze',
+        grade: null,
+        interval_days: null,
+        next_review_date: 1709800000
+      });
+
+      expect(review).toBeNull();
+    });
+  });
+
+  describe('createBreak and createDistraction', () => {
+    test('should not log a retried break or distraction twice', async () => {
+      const breakRow = { id: 'brk-1', user_id: 'user-1', started_at: 1709280000, duration_min: 5, kind: 'short', created_at: 1709280000 };
+      const distractionRow = { id: 'dis-1', user_id: 'user-1', session_id: 'ses-1', occurred_at: 1709280000, category: 'phone', created_at: 1709280000 };
+      const d1 = new FakeD1(sql =>
+        sql.startsWith('SELECT * FROM breaks') ? [breakRow] : sql.startsWith('SELECT * FROM distractions') ? [distractionRow] : []
+      );
+      const db = new DatabaseService(d1.asD1());
+
+      expect(await db.createBreak('user-1', { id: 'brk-1', started_at: 1709280000, duration_min: 5, kind: 'short' })).toEqual(breakRow);
+      expect(await db.createDistraction('user-1', { id: 'dis-1', session_id: 'ses-1', occurred_at: 1709280000, category: 'phone' })).toEqual(distractionRow);
+      expect(d1.statements.filter(s => s.sql.startsWith('INSERT')).every(s => s.sql.includes('ON CONFLICT(id) DO NOTHING'))).toBe(true);
+    });
+  });
+
+  describe('createResourceItem', () => {
+    test('should return the step already added when a request with the same id is retried', async () => {
+      const itemRow = { id: 'item-1', user_id: 'user-1', resource_id: 'res-1', position: 0, title: 'Quiz', done: 0, estimate_min: null, created_at: 1710500000, updated_at: 1710500000 };
+      const d1 = new FakeD1(sql => sql.startsWith('SELECT * FROM resource_items') ? [itemRow] : []);
+      const item = await new DatabaseService(d1.asD1()).createResourceItem('user-1', 'res-1', { id: 'item-1', title: 'Quiz', done: 0, estimate_min: null });
+
+      expect(item).toEqual(itemRow);
+      expect(d1.statements[0].sql).toContain('ON CONFLICT(id) DO NOTHING');
+      expect(d1.statements[0].params[0]).toBe('item-1');
+      expect(d1.statements.at(-1)!.params).toEqual(['item-1', 'res-1', 'user-1']);
+    });
+  });
+
+  describe('updateSubject', () => {
+    test('should carry a rename over to the subject\'s records in the same batch', async () => {
+      const d1 = new FakeD1(sql => sql.startsWith('UPDATE subjects') ? [{ id: 'sub-1' }] : sql.startsWith('SELECT') ? [subjectRow] : []);
+      const subject = await new DatabaseService(d1.asD1()).updateSubject('sub-1', 'user-1', { name: 'Linear Algebra' });
+
+      expect(subject).toEqual(subjectRow);
+      const renames = d1.statements.filter(s => s.sql.includes('SET subject = ?'));
+      expect(renames.map(s => s.sql.split(' ')[1])).toEqual(['resources', 'sessions', 'goals', 'active_timers']);
+      renames.forEach(rename => {
+        expect(rename.sql).toContain('subject = (SELECT name FROM subjects WHERE id = ? AND user_id = ?)');
+        expect(rename.params).toEqual(['Linear Algebra', 'user-1', 'Linear Algebra', 'sub-1', 'user-1']);
+      });
+      expect(d1.statements.findIndex(s => s.sql.startsWith('UPDATE subjects'))).toBe(4);
+    });
+
+    test('should leave records alone when the name isn\'t updated', async () => {
+      const d1 = new FakeD1(sql => sql.startsWith('UPDATE subjects') ? [{ id: 'sub-1' }] : sql.startsWith('SELECT') ? [subjectRow] : []);
+      await new DatabaseService(d1.asD1()).updateSubject('sub-1', 'user-1', { color: '#10B981' });
+
+      expect(d1.statements.some(s => s.sql.includes('SET subject = ?'))).toBe(false);
+    });
+
+    test('should return the subject unchanged for an empty update and null for a missing one', async () => {
+      const d1 = new FakeD1(sql => sql.startsWith('SELECT') ? [subjectRow] : []);
+      const db = new DatabaseService(d1.asD1());
+
+      expect(await db.updateSubject('sub-1', 'user-1', {})).toEqual(subjectRow);
+      expect(await db.updateSubject('sub-9', 'user-1', { name: 'Topology' })).toBeNull();
+    });
+  });
+
+  describe('reconcileXPLedger', () => {
+    test('should take each source\'s difference inside one batch of inserts', async () => {
+      const d1 = new FakeD1();
+      const batch = vi.spyOn(d1, 'batch');
+      await new DatabaseService(d1.asD1()).reconcileXPLedger('user-1', [
+        { source_type: 'session', source_id: 'ses-1', amount: 10, reason: 'Focus session (25 min)' },
+        { source_type: 'goal', source_id: 'goal-1', amount: 0, reason: 'Goal no longer completed' }
+      ]);
+
+      expect(batch).toHaveBeenCalledTimes(1);
+      expect(d1.statements).toHaveLength(2);
+      d1.statements.forEach(statement => {
+        expect(statement.sql).toMatch(/^INSERT INTO xp_ledger .* SELECT .* - recorded/);
+        expect(statement.sql).toContain('WHERE recorded != ?');
+      });
+      expect(d1.statements[1].params).toEqual([
+        'user-1', 'goal', 'goal-1', 0, 0, 'Goal no longer completed', 'Goal no longer completed', 'user-1', 'goal', 'goal-1', 0
+      ]);
+    });
+
+    test('should not run anything for no sources', async () => {
+      const d1 = new FakeD1();
+      await new DatabaseService(d1.asD1()).reconcileXPLedger('user-1', []);
+
+      expect(d1.statements).toEqual([]);
+    });
+  });
+
+  describe('unlockAchievements', () => {
+    test('should unlock achievements in one batch', async () => {
+      const d1 = new FakeD1();
+      const batch = vi.spyOn(d1, 'batch');
+      await new DatabaseService(d1.asD1()).unlockAchievements('user-1', ['first-goal', 'xp-100']);
+
+      expect(batch).toHaveBeenCalledTimes(1);
+      expect(d1.statements.map(s => s.params)).toEqual([['user-1', 'first-goal'], ['user-1', 'xp-100']]);
+    });
+  });
+
+  describe('search', () => {
+    test('should only match the user\'s rows, joined back to records by rowid', async () => {
+      const d1 = new FakeD1(() => [{ entity: 'resource', record_id: 'res-1', title: 'Closures explained', snippet: 'scope chains', started_at: null }]);
+      const hits = await new DatabaseService(d1.asD1()).search('user-1', 'scope', 10);
+
+      expect(hits).toHaveLength(1);
+      const [statement] = d1.statements;
+      expect(statement.sql).toContain('JOIN search_records sr ON sr.id = search_index.rowid');
+      expect(statement.params).toEqual(['owner : "user-1" AND {title body} : ("scope"*)', 10]);
+    });
+
+    test('should scope resource list searches the same way', async () => {
+      const d1 = new FakeD1();
+      await new DatabaseService(d1.asD1()).queryResources('user-1', { search: 'closures', sort: 'created' });
+
+      expect(d1.statements[0].params).toContain('owner : "user-1" AND {title body} : ("closures"*)');
+    });
+  });
+});
\ No newline at end of file
@@ -4,7 +4,11 @@
  */
 
 import { z } from 'zod';
-import type { D1Database } from '@cloudflare/workers-types';
+import type { D1Database, D1PreparedStatement } from '@cloudflare/workers-types';
+import type { SyncEntity } from './models';
+import type { SyncChange, SyncVersion } from './sync';
+import { RESOURCE_SORTS, toFtsQuery, type ResourceCursor, type ResourceSort } from './resourceQuery';
+import { getUrlKey } from './bookmarkImport';
 
 // Database schemas for validation
 export const UserSchema = z.object({
@@ -23,10 +27,29 @@ export const ResourceSchema = z.object({
   type: z.enum(['video', 'article', 'book', 'course', 'podcast', 'other']),
   priority: z.number().min(1).max(5),
   notes: z.string(),
+  tags: z.string().default('[]').transform(tags => JSON.parse(tags) as string[]), // JSON array from RESOURCE_TAGS_COLUMN
   favorite: z.number().min(0).max(1),
   status: z.enum(['new', 'learning', 'reviewing', 'done']),
   next_review_date: z.number().nullable(),
   interval_days: z.number().nullable(),
+  ease_factor: z.number().nullable(),
+  stability: z.number().nullable(),
+  progress_unit: z.enum(['pages', 'chapters', 'lessons', 'modules', 'episodes', 'videos']).nullable(),
+  total_units: z.number().int().nullable(),
+  current_unit: z.number().int().nullable(),
+  items: z.string().default('[]').transform(items => JSON.parse(items) as ResourceItemEntry[]), // JSON array from RESOURCE_ITEMS_COLUMN
+  created_at: z.number(),
+  updated_at: z.number()
+});
+
+export const ResourceItemSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  resource_id: z.string(),
+  position: z.number().int().min(0),
+  title: z.string(),
+  done: z.number().min(0).max(1),
+  estimate_min: z.number().int().nullable(),
   created_at: z.number(),
   updated_at: z.number()
 });
@@ -38,7 +61,12 @@ export const SessionSchema = z.object({
   duration_min: z.number().min(0),
   subject: z.string().nullable(),
   resource_id: z.string().nullable(),
-  created_at: z.number()
+  notes: z.string().nullable(),
+  focus_rating: z.number().int().min(1).max(5).nullable(),
+  energy: z.enum(['low', 'medium', 'high']).nullable(),
+  units_completed: z.number().int().nullable(),
+  created_at: z.number(),
+  updated_at: z.number()
 });
 
 export const GoalSchema = z.object({
@@ -49,10 +77,97 @@ export const GoalSchema = z.object({
   due_date: z.number(),
   progress_pct: z.number().min(0).max(100),
   status: z.enum(['active', 'completed', 'paused', 'cancelled']),
+  measure: z.enum(['manual', 'minutes', 'resources', 'items']),
+  target_minutes: z.number().int().nullable(),
+  resource_ids: z.string().default('[]').transform(ids => JSON.parse(ids) as string[]), // JSON array from GOAL_RESOURCES_COLUMN
+  parent_id: z.string().nullable(),
+  recurrence: z.enum(['daily', 'weekdays', 'weekly']).nullable(),
+  times_per_week: z.number().int().nullable(),
+  daily_minutes: z.number().int().nullable(),
   created_at: z.number(),
   updated_at: z.number()
 });
 
+export const SubjectSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  color: z.string(),
+  total_study_time: z.number().min(0),
+  total_resources: z.number().min(0),
+  completed_resources: z.number().min(0),
+  total_goals: z.number().min(0),
+  completed_goals: z.number().min(0),
+  last_studied: z.number().nullable(),
+  created_at: z.number(),
+  updated_at: z.number()
+});
+
+export const ReviewSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  resource_id: z.string(),
+  action: z.enum(['review', 'snooze']),
+  grade: z.enum(['again', 'hard', 'good', 'easy']).nullable(),
+  interval_days: z.number().nullable(),
+  next_review_date: z.number().nullable(),
+  reviewed_at: z.number()
+});
+
+export const BreakSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  started_at: z.number(),
+  duration_min: z.number().min(0),
+  kind: z.enum(['short', 'long']),
+  created_at: z.number()
+});
+
+export const DistractionSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  session_id: z.string(),
+  occurred_at: z.number(),
+  category: z.enum(['phone', 'noise', 'hunger', 'people', 'thoughts', 'other']).nullable(),
+  created_at: z.number()
+});
+
+export const SearchHitSchema = z.object({
+  entity: z.enum(['resource', 'goal', 'subject', 'session']),
+  record_id: z.string(),
+  title: z.string(),
+  snippet: z.string(),
+  started_at: z.number().nullable() // sessions only
+});
+
+export const ActiveTimerSchema = z.object({
+  user_id: z.string(),
+  started_at: z.number(),
+  resumed_at: z.number().nullable(),
+  elapsed_sec: z.number().min(0),
+  subject: z.string().nullable(),
+  resource_id: z.string().nullable(),
+  updated_at: z.number()
+});
+
+export const XPLedgerEntrySchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  source_type: z.enum(['session', 'resource', 'goal', 'review']),
+  source_id: z.string(),
+  amount: z.number(),
+  reason: z.string(),
+  created_at: z.number()
+});
+
+export const AchievementSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  achievement_id: z.string(),
+  unlocked_at: z.number()
+});
+
 export const SettingsSchema = z.object({
   id: z.string(),
   user_id: z.string(),
@@ -62,6 +177,11 @@ export const SettingsSchema = z.object({
   streak: z.number().min(0),
   longest_streak: z.number().min(0),
   selected_subject_id: z.string().nullable(),
+  timezone: z.string().nullable(),
+  pomodoro_work_min: z.number().int().min(1),
+  pomodoro_short_break_min: z.number().int().min(1),
+  pomodoro_long_break_min: z.number().int().min(1),
+  pomodoro_cycles: z.number().int().min(1),
   created_at: z.number(),
   updated_at: z.number()
 });
@@ -69,10 +189,118 @@ export const SettingsSchema = z.object({
 // Type definitions
 export type User = z.infer<typeof UserSchema>;
 export type Resource = z.infer<typeof ResourceSchema>;
+export type ResourceItem = z.infer<typeof ResourceItemSchema>;
 export type Session = z.infer<typeof SessionSchema>;
 export type Goal = z.infer<typeof GoalSchema>;
+export type Subject = z.infer<typeof SubjectSchema>;
+export type Review = z.infer<typeof ReviewSchema>;
+export type Break = z.infer<typeof BreakSchema>;
+export type Distraction = z.infer<typeof DistractionSchema>;
+export type SearchHit = z.infer<typeof SearchHitSchema>;
+export type ActiveTimer = z.infer<typeof ActiveTimerSchema>;
+export type XPLedgerEntry = z.infer<typeof XPLedgerEntrySchema>;
+export type Achievement = z.infer<typeof AchievementSchema>;
+
+type SubjectStats = 'total_study_time' | 'total_resources' | 'completed_resources' | 'total_goals' | 'completed_goals' | 'last_studied';
+
+// Subject stats are derived from sessions, resources and goals rather than stored
+const SUBJECT_WITH_STATS_SELECT = `
+  SELECT s.*,
+    (SELECT COALESCE(SUM(duration_min), 0) FROM sessions WHERE user_id = s.user_id AND subject = s.name) AS total_study_time,
+    (SELECT COUNT(*) FROM resources WHERE user_id = s.user_id AND subject = s.name) AS total_resources,
+    (SELECT COUNT(*) FROM resources WHERE user_id = s.user_id AND subject = s.name AND status = 'done') AS completed_resources,
+    (SELECT COUNT(*) FROM goals WHERE user_id = s.user_id AND subject = s.name) AS total_goals,
+    (SELECT COUNT(*) FROM goals WHERE user_id = s.user_id AND subject = s.name AND status = 'completed') AS completed_goals,
+    (SELECT MAX(started_at) FROM sessions WHERE user_id = s.user_id AND subject = s.name) AS last_studied
+  FROM subjects s
+`;
 export type Settings = z.infer<typeof SettingsSchema>;
 
+// Tag names of each resource as a JSON array, for selects from resources
+const RESOURCE_TAGS_COLUMN = `(
+  SELECT json_group_array(name) FROM (
+    SELECT t.name FROM resource_tags rt JOIN tags t ON t.id = rt.tag_id
+    WHERE rt.resource_id = resources.id ORDER BY t.name
+  )
+) AS tags`;
+
+// A resource's checklist, as carried on the resource itself
+export interface ResourceItemEntry {
+  id: string;
+  title: string;
+  done: boolean;
+  estimate_min: number | null;
+}
+
+// Checklist items of each resource in order as a JSON array, for selects from resources
+const RESOURCE_ITEMS_COLUMN = `(
+  SELECT json_group_array(json_object(
+    'id', id, 'title', title, 'done', json(CASE done WHEN 1 THEN 'true' ELSE 'false' END), 'estimate_min', estimate_min
+  )) FROM (
+    SELECT * FROM resource_items WHERE resource_id = resources.id ORDER BY position
+  )
+) AS items`;
+
+// Linked resource IDs of each goal as a JSON array, for selects from goals
+const GOAL_RESOURCES_COLUMN = `(
+  SELECT json_group_array(resource_id) FROM goal_resources WHERE goal_id = goals.id
+) AS resource_ids`;
+
+// Synced tables and the columns a device may write; table names never come from input.
+// select adds columns stored outside the table, e.g. resource tags and goal links
+const SYNC_TABLES: Record<SyncEntity, { table: string; columns: string[]; select?: string }> = {
+  resource: {
+    table: 'resources',
+    select: `*, ${RESOURCE_TAGS_COLUMN}, ${RESOURCE_ITEMS_COLUMN}`,
+    columns: [
+      'title', 'url', 'subject', 'type', 'priority', 'notes', 'favorite', 'status',
+      'next_review_date', 'interval_days', 'ease_factor', 'stability', 'progress_unit', 'total_units',
+      'current_unit', 'created_at', 'updated_at'
+    ]
+  },
+  session: {
+    table: 'sessions',
+    columns: [
+      'started_at', 'duration_min', 'subject', 'resource_id', 'notes', 'focus_rating', 'energy',
+      'units_completed', 'created_at', 'updated_at'
+    ]
+  },
+  goal: {
+    table: 'goals',
+    select: `*, ${GOAL_RESOURCES_COLUMN}`,
+    columns: [
+      'name', 'subject', 'due_date', 'progress_pct', 'status', 'measure', 'target_minutes', 'parent_id', 'recurrence',
+      'times_per_week', 'daily_minutes', 'created_at', 'updated_at'
+    ]
+  },
+  subject: {
+    table: 'subjects',
+    columns: ['name', 'description', 'color', 'created_at', 'updated_at']
+  }
+};
+
+// Sort keys map to fixed SQL expressions; cursors compare against the same expression
+const RESOURCE_SORT_COLUMNS: Record<ResourceSort, string> = {
+  priority: 'priority',
+  updated: 'updated_at',
+  created: 'created_at',
+  title: 'LOWER(title)'
+};
+
+// Search terms only match titles and bodies, and only in the given user's rows of search_index
+function toUserFtsQuery(userId: string, match: string): string {
+  return `owner : "${userId.replace(/"/g, '""')}" AND {title body} : (${match})`;
+}
+
+export type ResourceListQuery = Partial<Pick<Resource, 'subject' | 'type' | 'priority' | 'status'>> & {
+  search?: string;
+  tags?: string[]; // resources carrying all of them
+  due_before?: number; // Unix timestamp
+  sort: ResourceSort;
+  limit?: number; // all matches when omitted
+  after?: ResourceCursor;
+};
+
 /**
  * Database utility class
  */
@@ -113,20 +341,87 @@ export class DatabaseService {
   // Resource operations
   async getResourcesByUserId(userId: string): Promise<Resource[]> {
     const result = await this.db.prepare(`
-      SELECT * FROM resources WHERE user_id = ?
+      SELECT *, ${RESOURCE_TAGS_COLUMN}, ${RESOURCE_ITEMS_COLUMN} FROM resources WHERE user_id = ?
       ORDER BY created_at DESC
     `).bind(userId).all();
 
     return result.results.map(row => ResourceSchema.parse(row));
   }
 
-  async createResource(userId: string, data: Omit<Resource, 'id' | 'user_id' | 'created_at' | 'updated_at'>): Promise<Resource> {
+  /**
+   * One page of a user's resources, filtered and sorted. Ties are broken by id so
+   * the cursor (the last row's sort value and id) picks up exactly where the page ended.
+   */
+  async queryResources(userId: string, query: ResourceListQuery): Promise<{ resources: Resource[]; next_cursor: ResourceCursor | null }> {
+    const column = RESOURCE_SORT_COLUMNS[query.sort];
+    const ascending = RESOURCE_SORTS[query.sort].direction === 'asc';
+    const conditions = ['user_id = ?'];
+    const params: unknown[] = [userId];
+
+    for (const field of ['subject', 'type', 'priority', 'status'] as const) {
+      if (query[field] !== undefined) {
+        conditions.push(`${field} = ?`);
+        params.push(query[field]);
+      }
+    }
+
+    for (const tag of query.tags ?? []) {
+      conditions.push(`id IN (
+        SELECT rt.resource_id FROM resource_tags rt JOIN tags t ON t.id = rt.tag_id
+        WHERE t.user_id = ? AND t.name = ?
+      )`);
+      params.push(userId, tag);
+    }
+
+    const match = toFtsQuery(query.search);
+    if (match) {
+      conditions.push(`id IN (
+        SELECT sr.record_id FROM search_index JOIN search_records sr ON sr.id = search_index.rowid
+        WHERE search_index MATCH ? AND sr.entity = 'resource'
+      )`);
+      params.push(toUserFtsQuery(userId, match));
+    }
+
+    if (query.due_before !== undefined) {
+      conditions.push("status != 'done' AND next_review_date < ?");
+      params.push(query.due_before);
+    }
+
+    if (query.after) {
+      conditions.push(`(${column}, id) ${ascending ? '>' : '<'} (?, ?)`);
+      params.push(...query.after);
+    }
+
+    let sql = `
+      SELECT *, ${RESOURCE_TAGS_COLUMN}, ${RESOURCE_ITEMS_COLUMN}, ${column} AS sort_key FROM resources
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY ${column} ${ascending ? 'ASC' : 'DESC'}, id ${ascending ? 'ASC' : 'DESC'}
+    `;
+    if (query.limit !== undefined) {
+      sql += ' LIMIT ?';
+      params.push(query.limit + 1); // one extra row tells whether another page follows
+    }
+
+    const result = await this.db.prepare(sql).bind(...params).all();
+    const rows = query.limit !== undefined ? result.results.slice(0, query.limit) : result.results;
+    const last = rows[rows.length - 1];
+
+    return {
+      resources: rows.map(row => ResourceSchema.parse(row)),
+      next_cursor: rows.length < result.results.length && last
+        ? [last.sort_key as number | string, last.id as string]
+        : null
+    };
+  }
+
+  async createResource(userId: string, data: Omit<Resource, 'id' | 'user_id' | 'items' | 'created_at' | 'updated_at'>): Promise<Resource> {
     const result = await this.db.prepare(`
       INSERT INTO resources (
         user_id, title, url, subject, type, priority, notes, favorite, 
-        status, next_review_date, interval_days
+        status, next_review_date, interval_days, ease_factor, stability,
+        progress_unit, total_units, current_unit
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       RETURNING *
     `).bind(
       userId,
@@ -139,27 +434,40 @@ export class DatabaseService {
       data.favorite,
       data.status,
       data.next_review_date,
-      data.interval_days
+      data.interval_days,
+      data.ease_factor ?? null,
+      data.stability ?? null,
+      data.progress_unit ?? null,
+      data.total_units ?? null,
+      data.current_unit ?? null
     ).first();
 
     if (!result) {
       throw new Error('Failed to create resource');
     }
 
-    return ResourceSchema.parse(result);
+    const resource = ResourceSchema.parse(result);
+    await this.setResourceTags(userId, resource.id, data.tags);
+    return { ...resource, tags: data.tags };
   }
 
-  async updateResource(id: string, userId: string, data: Partial<Omit<Resource, 'id' | 'user_id' | 'created_at' | 'updated_at'>>): Promise<Resource | null> {
+  async updateResource(id: string, userId: string, data: Partial<Omit<Resource, 'id' | 'user_id' | 'items' | 'created_at' | 'updated_at'>>): Promise<Resource | null> {
+    const { tags, ...columns } = data;
     const fields: string[] = [];
     const values: any[] = [];
 
-    Object.entries(data).forEach(([key, value]) => {
+    Object.entries(columns).forEach(([key, value]) => {
       if (value !== undefined) {
         fields.push(`${key} = ?`);
         values.push(value);
       }
     });
 
+    // Tags live in resource_tags; touching the row still logs the change for other devices
+    if (tags !== undefined) {
+      fields.push('updated_at = unixepoch()');
+    }
+
     if (fields.length === 0) {
       return null;
     }
@@ -170,10 +478,108 @@ export class DatabaseService {
       UPDATE resources 
       SET ${fields.join(', ')}
       WHERE id = ? AND user_id = ?
-      RETURNING *
+      RETURNING *, ${RESOURCE_TAGS_COLUMN}, ${RESOURCE_ITEMS_COLUMN}
     `).bind(...values).first();
 
-    return result ? ResourceSchema.parse(result) : null;
+    if (!result) {
+      return null;
+    }
+
+    const resource = ResourceSchema.parse(result);
+    if (tags === undefined) {
+      return resource;
+    }
+
+    await this.setResourceTags(userId, id, tags);
+    return { ...resource, tags };
+  }
+
+  /**
+   * Insert many resources in one batch, e.g. from a bookmark import. Links the
+   * user already saved are skipped, so retrying an import adds nothing twice.
+   */
+  async importResources(
+    userId: string,
+    resources: Array<Omit<Resource, 'id' | 'user_id' | 'items' | 'created_at' | 'updated_at'> & { id?: string }>
+  ): Promise<{ resources: Resource[]; skipped: string[] }> {
+    const existing = await this.db.prepare(`
+      SELECT url FROM resources WHERE user_id = ?
+    `).bind(userId).all<{ url: string }>();
+
+    const saved = new Set(existing.results.map(r => getUrlKey(r.url)));
+    const skipped: string[] = [];
+    const toInsert = resources.filter(resource => {
+      const key = getUrlKey(resource.url);
+      if (saved.has(key)) {
+        skipped.push(resource.url);
+        return false;
+      }
+      saved.add(key);
+      return true;
+    }).map(resource => ({ ...resource, id: resource.id ?? crypto.randomUUID().replace(/-/g, '') }));
+
+    if (toInsert.length === 0) return { resources: [], skipped };
+
+    const results = await this.db.batch([
+      ...toInsert.map(data => this.db.prepare(`
+        INSERT INTO resources (
+          id, user_id, title, url, subject, type, priority, notes, favorite,
+          status, next_review_date, interval_days, ease_factor, stability
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        RETURNING *
+      `).bind(
+        data.id,
+        userId,
+        data.title,
+        data.url,
+        data.subject,
+        data.type,
+        data.priority,
+        data.notes,
+        data.favorite,
+        data.status,
+        data.next_review_date,
+        data.interval_days,
+        data.ease_factor ?? null,
+        data.stability ?? null
+      )),
+      ...toInsert.flatMap(data => this.tagStatements(userId, data.id, data.tags))
+    ]);
+
+    return {
+      resources: toInsert.map((data, index) => ({ ...ResourceSchema.parse(results[index].results[0]), tags: data.tags })),
+      skipped
+    };
+  }
+
+  // Statements linking a resource to its tags, creating tags the user hasn't used yet
+  private tagStatements(userId: string, resourceId: string, tags: string[]): D1PreparedStatement[] {
+    return tags.flatMap(tag => [
+      this.db.prepare(`
+        INSERT INTO tags (user_id, name) VALUES (?, ?)
+        ON CONFLICT (user_id, name) DO NOTHING
+      `).bind(userId, tag),
+      this.db.prepare(`
+        INSERT INTO resource_tags (resource_id, tag_id)
+        SELECT ?, id FROM tags WHERE user_id = ? AND name = ?
+      `).bind(resourceId, userId, tag)
+    ]);
+  }
+
+  /**
+   * Replace the tags of one of the user's resources. Tags are created on first
+   * use and removed once no resource carries them.
+   */
+  async setResourceTags(userId: string, resourceId: string, tags: string[]): Promise<void> {
+    await this.db.batch([
+      this.db.prepare(`DELETE FROM resource_tags WHERE resource_id = ?`).bind(resourceId),
+      ...this.tagStatements(userId, resourceId, tags),
+      this.db.prepare(`
+        DELETE FROM tags
+        WHERE user_id = ? AND NOT EXISTS (SELECT 1 FROM resource_tags WHERE tag_id = tags.id)
+      `).bind(userId)
+    ]);
   }
 
   async deleteResource(id: string, userId: string): Promise<boolean> {
@@ -184,6 +590,129 @@ export class DatabaseService {
     return result.changes > 0;
   }
 
+  // Resource item operations
+  async getResourceItems(userId: string, resourceId: string): Promise<ResourceItem[]> {
+    const result = await this.db.prepare(`
+      SELECT * FROM resource_items WHERE resource_id = ? AND user_id = ?
+      ORDER BY position
+    `).bind(resourceId, userId).all();
+
+    return result.results.map(row => ResourceItemSchema.parse(row));
+  }
+
+  /**
+   * Add a step at the end of one of the user's resources. Returns null if the
+   * resource doesn't exist or belongs to someone else. A step retried with the
+   * same id returns the one already added.
+   */
+  async createResourceItem(
+    userId: string,
+    resourceId: string,
+    data: Pick<ResourceItem, 'title' | 'done' | 'estimate_min'> & { id?: string }
+  ): Promise<ResourceItem | null> {
+    const [inserted] = await this.db.batch([
+      this.db.prepare(`
+        INSERT INTO resource_items (id, user_id, resource_id, position, title, done, estimate_min)
+        SELECT COALESCE(?, lower(hex(randomblob(16)))), user_id, id,
+          (SELECT COALESCE(MAX(position) + 1, 0) FROM resource_items WHERE resource_id = resources.id), ?, ?, ?
+        FROM resources WHERE id = ? AND user_id = ?
+        ON CONFLICT(id) DO NOTHING
+        RETURNING *
+      `).bind(data.id ?? null, data.title, data.done, data.estimate_min, resourceId, userId),
+      this.touchResource(userId, resourceId)
+    ]);
+
+    const row = inserted.results[0] ?? (data.id ? await this.db.prepare(`
+      SELECT * FROM resource_items WHERE id = ? AND resource_id = ? AND user_id = ?
+    `).bind(data.id, resourceId, userId).first() : null);
+    return row ? ResourceItemSchema.parse(row) : null;
+  }
+
+  /**
+   * Edit a step; a new position moves it there and shifts the steps in between
+   */
+  async updateResourceItem(
+    userId: string,
+    resourceId: string,
+    id: string,
+    data: Partial<Pick<ResourceItem, 'title' | 'done' | 'estimate_min' | 'position'>>
+  ): Promise<ResourceItem | null> {
+    const { position, ...columns } = data;
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    Object.entries(columns).forEach(([key, value]) => {
+      if (value !== undefined) {
+        fields.push(`${key} = ?`);
+        values.push(value);
+      }
+    });
+
+    const items = await this.getResourceItems(userId, resourceId);
+    const index = items.findIndex(item => item.id === id);
+    if (index === -1) {
+      return null;
+    }
+
+    const statements: D1PreparedStatement[] = [];
+    if (fields.length > 0) {
+      statements.push(this.db.prepare(`
+        UPDATE resource_items SET ${fields.join(', ')}, updated_at = unixepoch()
+        WHERE id = ? AND user_id = ?
+      `).bind(...values, id, userId));
+    }
+
+    if (position !== undefined) {
+      const order = items.map(item => item.id);
+      order.splice(index, 1);
+      order.splice(Math.min(position, order.length), 0, id);
+      statements.push(...order.map((itemId, newPosition) => this.db.prepare(`
+        UPDATE resource_items SET position = ? WHERE id = ? AND user_id = ?
+      `).bind(newPosition, itemId, userId)));
+    }
+
+    if (statements.length > 0) {
+      await this.db.batch([...statements, this.touchResource(userId, resourceId)]);
+    }
+
+    const updated = await this.db.prepare(`
+      SELECT * FROM resource_items WHERE id = ? AND user_id = ?
+    `).bind(id, userId).first();
+
+    return updated ? ResourceItemSchema.parse(updated) : null;
+  }
+
+  async deleteResourceItem(userId: string, resourceId: string, id: string): Promise<boolean> {
+    const [deleted] = await this.db.batch([
+      this.db.prepare(`
+        DELETE FROM resource_items WHERE id = ? AND resource_id = ? AND user_id = ?
+      `).bind(id, resourceId, userId),
+      this.touchResource(userId, resourceId)
+    ]);
+
+    return deleted.meta.changes > 0;
+  }
+
+  /**
+   * Replace a resource's whole checklist, e.g. from a synced resource
+   */
+  async setResourceItems(userId: string, resourceId: string, items: ResourceItemEntry[]): Promise<void> {
+    await this.db.batch([
+      this.db.prepare(`DELETE FROM resource_items WHERE resource_id = ? AND user_id = ?`).bind(resourceId, userId),
+      ...items.map((item, position) => this.db.prepare(`
+        INSERT INTO resource_items (id, user_id, resource_id, position, title, done, estimate_min)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).bind(item.id, userId, resourceId, position, item.title, item.done ? 1 : 0, item.estimate_min ?? null))
+    ]);
+  }
+
+  // Items live in resource_items; touching the row still logs the change for other devices
+  private touchResource(userId: string, resourceId: string): D1PreparedStatement {
+    return this.db.prepare(`
+      UPDATE resources SET updated_at = unixepoch() WHERE id = ? AND user_id = ?
+    `).bind(resourceId, userId);
+  }
+
   // Session operations
   async getSessionsByUserId(userId: string): Promise<Session[]> {
     const result = await this.db.prepare(`
@@ -194,17 +723,21 @@ export class DatabaseService {
     return result.results.map(row => SessionSchema.parse(row));
   }
 
-  async createSession(userId: string, data: Omit<Session, 'id' | 'user_id' | 'created_at'>): Promise<Session> {
+  async createSession(userId: string, data: Omit<Session, 'id' | 'user_id' | 'created_at' | 'updated_at'>): Promise<Session> {
     const result = await this.db.prepare(`
-      INSERT INTO sessions (user_id, started_at, duration_min, subject, resource_id)
-      VALUES (?, ?, ?, ?, ?)
+      INSERT INTO sessions (user_id, started_at, duration_min, subject, resource_id, notes, focus_rating, energy, units_completed, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, unixepoch())
       RETURNING *
     `).bind(
       userId,
       data.started_at,
       data.duration_min,
       data.subject,
-      data.resource_id
+      data.resource_id,
+      data.notes,
+      data.focus_rating,
+      data.energy,
+      data.units_completed ?? null
     ).first();
 
     if (!result) {
@@ -214,10 +747,45 @@ export class DatabaseService {
     return SessionSchema.parse(result);
   }
 
+  async updateSession(id: string, userId: string, data: Partial<Omit<Session, 'id' | 'user_id' | 'created_at' | 'updated_at'>>): Promise<Session | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    Object.entries(data).forEach(([key, value]) => {
+      if (value !== undefined) {
+        fields.push(`${key} = ?`);
+        values.push(value);
+      }
+    });
+
+    if (fields.length === 0) {
+      return null;
+    }
+
+    values.push(id, userId);
+
+    const result = await this.db.prepare(`
+      UPDATE sessions 
+      SET ${fields.join(', ')}
+      WHERE id = ? AND user_id = ?
+      RETURNING *
+    `).bind(...values).first();
+
+    return result ? SessionSchema.parse(result) : null;
+  }
+
+  async deleteSession(id: string, userId: string): Promise<boolean> {
+    const result = await this.db.prepare(`
+      DELETE FROM sessions WHERE id = ? AND user_id = ?
+    `).bind(id, userId).run();
+
+    return result.changes > 0;
+  }
+
   // Goal operations
   async getGoalsByUserId(userId: string): Promise<Goal[]> {
     const result = await this.db.prepare(`
-      SELECT * FROM goals WHERE user_id = ?
+      SELECT *, ${GOAL_RESOURCES_COLUMN} FROM goals WHERE user_id = ?
       ORDER BY due_date ASC
     `).bind(userId).all();
 
@@ -226,8 +794,11 @@ export class DatabaseService {
 
   async createGoal(userId: string, data: Omit<Goal, 'id' | 'user_id' | 'created_at' | 'updated_at'>): Promise<Goal> {
     const result = await this.db.prepare(`
-      INSERT INTO goals (user_id, name, subject, due_date, progress_pct, status)
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT INTO goals (
+        user_id, name, subject, due_date, progress_pct, status, measure, target_minutes, parent_id, recurrence,
+        times_per_week, daily_minutes
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       RETURNING *
     `).bind(
       userId,
@@ -235,27 +806,41 @@ export class DatabaseService {
       data.subject,
       data.due_date,
       data.progress_pct,
-      data.status
+      data.status,
+      data.measure,
+      data.target_minutes ?? null,
+      data.parent_id ?? null,
+      data.recurrence ?? null,
+      data.times_per_week ?? null,
+      data.daily_minutes ?? null
     ).first();
 
     if (!result) {
       throw new Error('Failed to create goal');
     }
 
-    return GoalSchema.parse(result);
+    const goal = GoalSchema.parse(result);
+    await this.setGoalResources(userId, goal.id, data.resource_ids);
+    return { ...goal, resource_ids: data.resource_ids };
   }
 
   async updateGoal(id: string, userId: string, data: Partial<Omit<Goal, 'id' | 'user_id' | 'created_at' | 'updated_at'>>): Promise<Goal | null> {
+    const { resource_ids, ...columns } = data;
     const fields: string[] = [];
     const values: any[] = [];
 
-    Object.entries(data).forEach(([key, value]) => {
+    Object.entries(columns).forEach(([key, value]) => {
       if (value !== undefined) {
         fields.push(`${key} = ?`);
         values.push(value);
       }
     });
 
+    // Links live in goal_resources; touching the row still logs the change for other devices
+    if (resource_ids !== undefined) {
+      fields.push('updated_at = unixepoch()');
+    }
+
     if (fields.length === 0) {
       return null;
     }
@@ -266,10 +851,34 @@ export class DatabaseService {
       UPDATE goals 
       SET ${fields.join(', ')}
       WHERE id = ? AND user_id = ?
-      RETURNING *
+      RETURNING *, ${GOAL_RESOURCES_COLUMN}
     `).bind(...values).first();
 
-    return result ? GoalSchema.parse(result) : null;
+    if (!result) {
+      return null;
+    }
+
+    const goal = GoalSchema.parse(result);
+    if (resource_ids === undefined) {
+      return goal;
+    }
+
+    await this.setGoalResources(userId, id, resource_ids);
+    return { ...goal, resource_ids };
+  }
+
+  /**
+   * Replace the resources one of the user's goals is measured on. IDs of
+   * resources the user doesn't own are dropped.
+   */
+  async setGoalResources(userId: string, goalId: string, resourceIds: string[]): Promise<void> {
+    await this.db.batch([
+      this.db.prepare(`DELETE FROM goal_resources WHERE goal_id = ?`).bind(goalId),
+      ...[...new Set(resourceIds)].map(resourceId => this.db.prepare(`
+        INSERT INTO goal_resources (goal_id, resource_id)
+        SELECT ?, id FROM resources WHERE id = ? AND user_id = ?
+      `).bind(goalId, resourceId, userId))
+    ]);
   }
 
   async deleteGoal(id: string, userId: string): Promise<boolean> {
@@ -280,6 +889,559 @@ export class DatabaseService {
     return result.changes > 0;
   }
 
+  // Subject operations
+  async getSubjectsByUserId(userId: string): Promise<Subject[]> {
+    const result = await this.db.prepare(`
+      ${SUBJECT_WITH_STATS_SELECT}
+      WHERE s.user_id = ?
+      ORDER BY s.created_at ASC
+    `).bind(userId).all();
+
+    return result.results.map(row => SubjectSchema.parse(row));
+  }
+
+  async getSubjectById(id: string, userId: string): Promise<Subject | null> {
+    const result = await this.db.prepare(`
+      ${SUBJECT_WITH_STATS_SELECT}
+      WHERE s.id = ? AND s.user_id = ?
+    `).bind(id, userId).first();
+
+    return result ? SubjectSchema.parse(result) : null;
+  }
+
+  async getSubjectByName(name: string, userId: string): Promise<Subject | null> {
+    const result = await this.db.prepare(`
+      ${SUBJECT_WITH_STATS_SELECT}
+      WHERE s.name = ? AND s.user_id = ?
+    `).bind(name, userId).first();
+
+    return result ? SubjectSchema.parse(result) : null;
+  }
+
+  async createSubject(userId: string, data: Omit<Subject, 'id' | 'user_id' | 'created_at' | 'updated_at' | SubjectStats>): Promise<Subject> {
+    const result = await this.db.prepare(`
+      INSERT INTO subjects (user_id, name, description, color)
+      VALUES (?, ?, ?, ?)
+      RETURNING id
+    `).bind(
+      userId,
+      data.name,
+      data.description,
+      data.color
+    ).first();
+
+    const subject = result ? await this.getSubjectById(result.id as string, userId) : null;
+    if (!subject) {
+      throw new Error('Failed to create subject');
+    }
+
+    return subject;
+  }
+
+  async updateSubject(id: string, userId: string, data: Partial<Omit<Subject, 'id' | 'user_id' | 'created_at' | 'updated_at' | SubjectStats>>): Promise<Subject | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    Object.entries(data).forEach(([key, value]) => {
+      if (value !== undefined) {
+        fields.push(`${key} = ?`);
+        values.push(value);
+      }
+    });
+
+    if (fields.length === 0) {
+      return this.getSubjectById(id, userId);
+    }
+
+    values.push(id, userId);
+
+    // Records refer to their subject by name, so a rename carries over to them
+    // in the same batch, before the subject's old name is gone
+    const renames = data.name === undefined ? [] : ['resources', 'sessions', 'goals', 'active_timers'].map(table =>
+      this.db.prepare(`
+        UPDATE ${table} SET subject = ?
+        WHERE user_id = ? AND subject != ?
+          AND subject = (SELECT name FROM subjects WHERE id = ? AND user_id = ?)
+      `).bind(data.name, userId, data.name, id, userId)
+    );
+
+    const results = await this.db.batch([
+      ...renames,
+      this.db.prepare(`
+        UPDATE subjects 
+        SET ${fields.join(', ')}
+        WHERE id = ? AND user_id = ?
+        RETURNING id
+      `).bind(...values)
+    ]);
+
+    return results[renames.length].results.length > 0 ? this.getSubjectById(id, userId) : null;
+  }
+
+  async deleteSubject(id: string, userId: string): Promise<boolean> {
+    const result = await this.db.prepare(`
+      DELETE FROM subjects WHERE id = ? AND user_id = ?
+    `).bind(id, userId).run();
+
+    return result.changes > 0;
+  }
+
+  // Review operations
+  async getReviewsByUserId(userId: string, resourceId?: string): Promise<Review[]> {
+    const result = resourceId
+      ? await this.db.prepare(`
+          SELECT * FROM reviews WHERE user_id = ? AND resource_id = ?
+          ORDER BY reviewed_at DESC
+        `).bind(userId, resourceId).all()
+      : await this.db.prepare(`
+          SELECT * FROM reviews WHERE user_id = ?
+          ORDER BY reviewed_at DESC
+        `).bind(userId).all();
+
+    return result.results.map(row => ReviewSchema.parse(row));
+  }
+
+  async createReview(userId: string, data: Omit<Review, 'id' | 'user_id' | 'reviewed_at'> & { id?: string }): Promise<Review | null> {
+    // Only log reviews against resources owned by the user
+    const result = await this.db.prepare(`
+      INSERT INTO reviews (id, user_id, resource_id, action, grade, interval_days, next_review_date)
+      SELECT COALESCE(?, lower(hex(randomblob(16)))), ?, id, ?, ?, ?, ? FROM resources WHERE id = ? AND user_id = ?
+      ON CONFLICT(id) DO NOTHING
+      RETURNING *
+    `).bind(
+      data.id ?? null,
+      userId,
+      data.action,
+      data.grade,
+      data.interval_days,
+      data.next_review_date,
+      data.resource_id,
+      userId
+    ).first() ?? await this.getLoggedRow('reviews', data.id, userId);
+
+    return result ? ReviewSchema.parse(result) : null;
+  }
+
+  /**
+   * The row a client id was already logged under, so a retried write returns
+   * it instead of logging it twice
+   */
+  private async getLoggedRow(table: 'reviews' | 'breaks' | 'distractions', id: string | undefined, userId: string) {
+    if (!id) return null;
+    return this.db.prepare(`
+      SELECT * FROM ${table} WHERE id = ? AND user_id = ?
+    `).bind(id, userId).first();
+  }
+
+  // Break operations
+  async getBreaksByUserId(userId: string): Promise<Break[]> {
+    const result = await this.db.prepare(`
+      SELECT * FROM breaks WHERE user_id = ?
+      ORDER BY started_at DESC
+    `).bind(userId).all();
+
+    return result.results.map(row => BreakSchema.parse(row));
+  }
+
+  async createBreak(userId: string, data: Omit<Break, 'id' | 'user_id' | 'created_at'> & { id?: string }): Promise<Break> {
+    const result = await this.db.prepare(`
+      INSERT INTO breaks (id, user_id, started_at, duration_min, kind)
+      VALUES (COALESCE(?, lower(hex(randomblob(16)))), ?, ?, ?, ?)
+      ON CONFLICT(id) DO NOTHING
+      RETURNING *
+    `).bind(
+      data.id ?? null,
+      userId,
+      data.started_at,
+      data.duration_min,
+      data.kind
+    ).first() ?? await this.getLoggedRow('breaks', data.id, userId);
+
+    if (!result) {
+      throw new Error('Failed to create break');
+    }
+
+    return BreakSchema.parse(result);
+  }
+
+  // Distraction operations
+  async getDistractionsByUserId(userId: string): Promise<Distraction[]> {
+    const result = await this.db.prepare(`
+      SELECT * FROM distractions WHERE user_id = ?
+      ORDER BY occurred_at DESC
+    `).bind(userId).all();
+
+    return result.results.map(row => DistractionSchema.parse(row));
+  }
+
+  /**
+   * Log a distraction against one of the user's sessions. Returns null if the
+   * session doesn't exist or belongs to someone else.
+   */
+  async createDistraction(userId: string, data: Omit<Distraction, 'id' | 'user_id' | 'created_at'> & { id?: string }): Promise<Distraction | null> {
+    const result = await this.db.prepare(`
+      INSERT INTO distractions (id, user_id, session_id, occurred_at, category)
+      SELECT COALESCE(?, lower(hex(randomblob(16)))), user_id, id, ?, ? FROM sessions WHERE id = ? AND user_id = ?
+      ON CONFLICT(id) DO NOTHING
+      RETURNING *
+    `).bind(
+      data.id ?? null,
+      data.occurred_at,
+      data.category,
+      data.session_id,
+      userId
+    ).first() ?? await this.getLoggedRow('distractions', data.id, userId);
+
+    return result ? DistractionSchema.parse(result) : null;
+  }
+
+  // Active timer operations
+  async getActiveTimer(userId: string): Promise<ActiveTimer | null> {
+    const result = await this.db.prepare(`
+      SELECT * FROM active_timers WHERE user_id = ?
+    `).bind(userId).first();
+
+    return result ? ActiveTimerSchema.parse(result) : null;
+  }
+
+  /**
+   * Start a timer, or return null if one is already running on another device
+   */
+  async startActiveTimer(userId: string, data: Pick<ActiveTimer, 'started_at' | 'subject' | 'resource_id'>): Promise<ActiveTimer | null> {
+    const result = await this.db.prepare(`
+      INSERT INTO active_timers (user_id, started_at, resumed_at, subject, resource_id)
+      VALUES (?, ?, unixepoch(), ?, ?)
+      ON CONFLICT (user_id) DO NOTHING
+      RETURNING *
+    `).bind(
+      userId,
+      data.started_at,
+      data.subject,
+      data.resource_id
+    ).first();
+
+    return result ? ActiveTimerSchema.parse(result) : null;
+  }
+
+  async pauseActiveTimer(userId: string): Promise<ActiveTimer | null> {
+    const result = await this.db.prepare(`
+      UPDATE active_timers
+      SET elapsed_sec = elapsed_sec + MAX(unixepoch() - resumed_at, 0), resumed_at = NULL, updated_at = unixepoch()
+      WHERE user_id = ? AND resumed_at IS NOT NULL
+      RETURNING *
+    `).bind(userId).first();
+
+    return result ? ActiveTimerSchema.parse(result) : null;
+  }
+
+  async resumeActiveTimer(userId: string): Promise<ActiveTimer | null> {
+    const result = await this.db.prepare(`
+      UPDATE active_timers
+      SET resumed_at = unixepoch(), updated_at = unixepoch()
+      WHERE user_id = ? AND resumed_at IS NULL
+      RETURNING *
+    `).bind(userId).first();
+
+    return result ? ActiveTimerSchema.parse(result) : null;
+  }
+
+  /**
+   * Turn the active timer into a session. Both statements run in one batch
+   * (a single transaction), so a timer stopped from two devices is logged once.
+   */
+  async stopActiveTimer(
+    userId: string,
+    data: Partial<Pick<Session, 'subject' | 'resource_id' | 'notes' | 'focus_rating' | 'energy' | 'units_completed'>> = {}
+  ): Promise<Session | null> {
+    const [inserted] = await this.db.batch([
+      this.db.prepare(`
+        INSERT INTO sessions (user_id, started_at, duration_min, subject, resource_id, notes, focus_rating, energy, units_completed, updated_at)
+        SELECT user_id, started_at,
+          CAST(ROUND((elapsed_sec + COALESCE(MAX(unixepoch() - resumed_at, 0), 0)) / 60.0) AS INTEGER),
+          COALESCE(?, subject), COALESCE(?, resource_id), ?, ?, ?, ?, unixepoch()
+        FROM active_timers WHERE user_id = ?
+        RETURNING *
+      `).bind(
+        data.subject ?? null,
+        data.resource_id ?? null,
+        data.notes ?? null,
+        data.focus_rating ?? null,
+        data.energy ?? null,
+        data.units_completed ?? null,
+        userId
+      ),
+      this.db.prepare(`
+        DELETE FROM active_timers WHERE user_id = ?
+      `).bind(userId)
+    ]);
+
+    const row = inserted.results[0];
+    return row ? SessionSchema.parse(row) : null;
+  }
+
+  async discardActiveTimer(userId: string): Promise<boolean> {
+    const result = await this.db.prepare(`
+      DELETE FROM active_timers WHERE user_id = ?
+    `).bind(userId).run();
+
+    return result.changes > 0;
+  }
+
+  // Search operations
+  /**
+   * Best matches across resources, goals, subjects and session notes, ranked by
+   * bm25 with title matches weighted above body matches
+   */
+  async search(userId: string, search: string, limit: number): Promise<SearchHit[]> {
+    const match = toFtsQuery(search);
+    if (!match) return [];
+
+    const result = await this.db.prepare(`
+      SELECT sr.entity, sr.record_id,
+        CASE WHEN sr.entity = 'session' THEN COALESCE(sessions.subject, '') ELSE search_index.title END AS title,
+        TRIM(snippet(search_index, 2, '', '', '…', 12)) AS snippet,
+        sessions.started_at
+      FROM search_index
+      JOIN search_records sr ON sr.id = search_index.rowid
+      LEFT JOIN sessions ON sr.entity = 'session' AND sessions.id = sr.record_id
+      WHERE search_index MATCH ?
+      ORDER BY bm25(search_index, 0, 10.0, 1.0)
+      LIMIT ?
+    `).bind(toUserFtsQuery(userId, match), limit).all();
+
+    return result.results.map(row => SearchHitSchema.parse(row));
+  }
+
+  // Sync operations
+  async getSyncVersion(userId: string, entity: SyncEntity, id: string): Promise<SyncVersion | null> {
+    const { table } = SYNC_TABLES[entity];
+    const record = await this.db.prepare(`
+      SELECT updated_at FROM ${table} WHERE id = ? AND user_id = ?
+    `).bind(id, userId).first();
+
+    if (record) {
+      return { op: 'upsert', updated_at: record.updated_at as number };
+    }
+
+    const tombstone = await this.db.prepare(`
+      SELECT updated_at FROM sync_changes
+      WHERE user_id = ? AND entity = ? AND record_id = ? AND op = 'delete'
+      ORDER BY seq DESC LIMIT 1
+    `).bind(userId, entity, id).first();
+
+    return tombstone ? { op: 'delete', updated_at: tombstone.updated_at as number } : null;
+  }
+
+  async getSyncChange(userId: string, entity: SyncEntity, id: string): Promise<SyncChange | null> {
+    const { table, select = '*' } = SYNC_TABLES[entity];
+    const record = await this.db.prepare(`
+      SELECT ${select} FROM ${table} WHERE id = ? AND user_id = ?
+    `).bind(id, userId).first();
+
+    if (record) {
+      return this.toSyncChange(entity, record);
+    }
+
+    const version = await this.getSyncVersion(userId, entity, id);
+    return version ? { entity, id, ...version } : null;
+  }
+
+  async upsertSyncRecord(userId: string, change: SyncChange): Promise<boolean> {
+    const { table, columns } = SYNC_TABLES[change.entity];
+    const data: Record<string, any> = { ...change.data, updated_at: change.updated_at };
+    const values = columns.map(column =>
+      column === 'favorite' ? (data.favorite ? 1 : 0) : data[column] ?? null
+    );
+
+    // Never take over a row that belongs to another user
+    const result = await this.db.prepare(`
+      INSERT INTO ${table} (id, user_id, ${columns.join(', ')})
+      VALUES (?, ?, ${columns.map(() => '?').join(', ')})
+      ON CONFLICT(id) DO UPDATE SET ${columns.map(column => `${column} = excluded.${column}`).join(', ')}
+      WHERE ${table}.user_id = excluded.user_id
+    `).bind(change.id, userId, ...values).run();
+
+    if (result.changes === 0) {
+      return false;
+    }
+
+    // Devices that predate tags, items or goal links don't send them; leave the stored ones alone
+    if (change.entity === 'resource' && Array.isArray(data.tags)) {
+      await this.setResourceTags(userId, change.id, data.tags);
+    }
+    if (change.entity === 'resource' && Array.isArray(data.items)) {
+      await this.setResourceItems(userId, change.id, data.items);
+    }
+    if (change.entity === 'goal' && Array.isArray(data.resource_ids)) {
+      await this.setGoalResources(userId, change.id, data.resource_ids);
+    }
+
+    return true;
+  }
+
+  async deleteSyncRecord(userId: string, change: SyncChange): Promise<boolean> {
+    const { table } = SYNC_TABLES[change.entity];
+    const result = await this.db.prepare(`
+      DELETE FROM ${table} WHERE id = ? AND user_id = ?
+    `).bind(change.id, userId).run();
+
+    if (result.changes === 0) {
+      return false;
+    }
+
+    // Stamp the tombstone with the device's deletion time instead of the server's
+    await this.db.prepare(`
+      UPDATE sync_changes SET updated_at = ?
+      WHERE seq = (
+        SELECT MAX(seq) FROM sync_changes
+        WHERE user_id = ? AND entity = ? AND record_id = ? AND op = 'delete'
+      )
+    `).bind(change.updated_at, userId, change.entity, change.id).run();
+
+    return true;
+  }
+
+  async getSyncChangesSince(userId: string, cursor: number): Promise<{ cursor: number; changes: SyncChange[] }> {
+    // Latest change per record; SQLite returns the bare columns of the MAX(seq) row
+    const result = await this.db.prepare(`
+      SELECT entity, record_id, op, updated_at, MAX(seq) AS seq
+      FROM sync_changes
+      WHERE user_id = ? AND seq > ?
+      GROUP BY entity, record_id
+      ORDER BY seq ASC
+    `).bind(userId, cursor).all();
+
+    const latest = result.results as Array<{ entity: SyncEntity; record_id: string; op: SyncChange['op']; updated_at: number; seq: number }>;
+    const records = new Map<string, any>();
+
+    for (const entity of new Set(latest.filter(row => row.op === 'upsert').map(row => row.entity))) {
+      const { table, select = '*' } = SYNC_TABLES[entity];
+      const rows = await this.db.prepare(`
+        SELECT ${select} FROM ${table}
+        WHERE user_id = ? AND id IN (
+          SELECT record_id FROM sync_changes WHERE user_id = ? AND entity = ? AND seq > ?
+        )
+      `).bind(userId, userId, entity, cursor).all();
+
+      rows.results.forEach((row: any) => records.set(`${entity}:${row.id}`, row));
+    }
+
+    const changes: SyncChange[] = [];
+    for (const row of latest) {
+      if (row.op === 'delete') {
+        changes.push({ entity: row.entity, id: row.record_id, op: 'delete', updated_at: row.updated_at });
+        continue;
+      }
+
+      const record = records.get(`${row.entity}:${row.record_id}`);
+      if (record) {
+        changes.push(this.toSyncChange(row.entity, record));
+      }
+    }
+
+    return {
+      cursor: latest.reduce((max, row) => Math.max(max, row.seq), cursor),
+      changes
+    };
+  }
+
+  private toSyncChange(entity: SyncEntity, row: any): SyncChange {
+    const { id, user_id, ...data } = row;
+    if (entity === 'resource') {
+      data.favorite = Boolean(data.favorite);
+      data.tags = JSON.parse(data.tags ?? '[]');
+      data.items = JSON.parse(data.items ?? '[]');
+    }
+    if (entity === 'goal') {
+      data.resource_ids = JSON.parse(data.resource_ids ?? '[]');
+    }
+
+    return { entity, id, op: 'upsert', updated_at: data.updated_at, data };
+  }
+
+  // XP ledger operations
+  async getXPLedgerByUserId(userId: string): Promise<XPLedgerEntry[]> {
+    const result = await this.db.prepare(`
+      SELECT * FROM xp_ledger WHERE user_id = ?
+      ORDER BY created_at DESC
+    `).bind(userId).all();
+
+    return result.results.map(row => XPLedgerEntrySchema.parse(row));
+  }
+
+  /**
+   * Sources whose ledger entries don't cancel out, i.e. that currently hold XP
+   */
+  async getXPLedgerSources(userId: string): Promise<Array<Pick<XPLedgerEntry, 'source_type' | 'source_id'>>> {
+    const result = await this.db.prepare(`
+      SELECT source_type, source_id FROM xp_ledger WHERE user_id = ?
+      GROUP BY source_type, source_id
+      HAVING SUM(amount) != 0
+    `).bind(userId).all();
+
+    return result.results as Array<Pick<XPLedgerEntry, 'source_type' | 'source_id'>>;
+  }
+
+  /**
+   * Append whatever each source's entries are short of the amount it is
+   * currently worth. The difference is taken inside each insert and the batch
+   * runs as one transaction, so concurrent writes can't grant the same XP twice.
+   */
+  async reconcileXPLedger(userId: string, targets: Array<Pick<XPLedgerEntry, 'source_type' | 'source_id' | 'amount' | 'reason'>>): Promise<void> {
+    if (targets.length === 0) return;
+
+    await this.db.batch(targets.map(target => this.db.prepare(`
+      INSERT INTO xp_ledger (user_id, source_type, source_id, amount, reason)
+      SELECT ?, ?, ?, ? - recorded, CASE WHEN recorded = 0 OR ? = 0 THEN ? ELSE 'Adjusted: ' || ? END
+      FROM (
+        SELECT COALESCE(SUM(amount), 0) AS recorded FROM xp_ledger
+        WHERE user_id = ? AND source_type = ? AND source_id = ?
+      )
+      WHERE recorded != ?
+    `).bind(
+      userId,
+      target.source_type,
+      target.source_id,
+      target.amount,
+      target.amount,
+      target.reason,
+      target.reason,
+      userId,
+      target.source_type,
+      target.source_id,
+      target.amount
+    )));
+  }
+
+  async getXPTotal(userId: string): Promise<number> {
+    const result = await this.db.prepare(`
+      SELECT COALESCE(SUM(amount), 0) AS xp FROM xp_ledger WHERE user_id = ?
+    `).bind(userId).first();
+
+    return Math.max(0, (result?.xp as number | undefined) ?? 0);
+  }
+
+  // Achievement operations
+  async getAchievementsByUserId(userId: string): Promise<Achievement[]> {
+    const result = await this.db.prepare(`
+      SELECT * FROM achievements WHERE user_id = ?
+      ORDER BY unlocked_at ASC
+    `).bind(userId).all();
+
+    return result.results.map(row => AchievementSchema.parse(row));
+  }
+
+  async unlockAchievements(userId: string, achievementIds: string[]): Promise<void> {
+    if (achievementIds.length === 0) return;
+
+    // Already unlocked achievements keep their original unlock time
+    await this.db.batch(achievementIds.map(achievementId => this.db.prepare(`
+      INSERT INTO achievements (user_id, achievement_id)
+      VALUES (?, ?)
+      ON CONFLICT (user_id, achievement_id) DO NOTHING
+    `).bind(userId, achievementId)));
+  }
+
   // Settings operations
   async getSettingsByUserId(userId: string): Promise<Settings | null> {
     const result = await this.db.prepare(`
@@ -0,0 +1,75 @@
+/**
+ * Unit tests for distraction stats
+ */
+
+import {
+  getInterruptsPerHour,
+  getSessionDistractions,
+  getDistractionsBySubject
+} from './distractions.js';
+import type { Distraction } from './models.js';
+
+const at = new Date('2024-03-15T09:10:00Z');
+
+function distraction(sessionId: string, category?: Distraction['category']): Distraction {
+  return { id: `${sessionId}-${category ?? 'untagged'}-${Math.random()}`, sessionId, occurredAt: at, category };
+}
+
+describe('Distractions', () => {
+  describe('getInterruptsPerHour', () => {
+    test('should divide interrupts by hours of focus', () => {
+      expect(getInterruptsPerHour(3, 90)).toBe(2);
+    });
+
+    test('should be null without focus time', () => {
+      expect(getInterruptsPerHour(2, 0)).toBeNull();
+    });
+  });
+
+  describe('getSessionDistractions', () => {
+    test('should only keep distractions of the given sessions', () => {
+      const distractions = [distraction('s1', 'phone'), distraction('s2', 'noise'), distraction('s3')];
+
+      expect(getSessionDistractions([{ id: 's1' }, { id: 's3' }], distractions).map(d => d.sessionId)).toEqual(['s1', 's3']);
+    });
+  });
+
+  describe('getDistractionsBySubject', () => {
+    const sessions = [
+      { id: 's1', subject: 'Math' },
+      { id: 's2', subject: 'Math' },
+      { id: 's3', subject: 'History' },
+      { id: 's4' }
+    ];
+
+    test('should rank subjects and their categories by count', () => {
+      const result = getDistractionsBySubject(sessions, [
+        distraction('s1', 'phone'),
+        distraction('s2', 'phone'),
+        distraction('s2', 'hunger'),
+        distraction('s3', 'noise')
+      ]);
+
+      expect(result).toEqual([
+        { subject: 'Math', total: 3, categories: [{ category: 'phone', count: 2 }, { category: 'hunger', count: 1 }] },
+        { subject: 'History', total: 1, categories: [{ category: 'noise', count: 1 }] }
+      ]);
+    });
+
+    test('should count untagged distractions without a category', () => {
+      const result = getDistractionsBySubject(sessions, [distraction('s3'), distraction('s3', 'people')]);
+
+      expect(result).toEqual([{ subject: 'History', total: 2, categories: [{ category: 'people', count: 1 }] }]);
+    });
+
+    test('should group sessions without a subject together', () => {
+      const result = getDistractionsBySubject(sessions, [distraction('s4', 'thoughts')]);
+
+      expect(result[0].subject).toBe('No subject');
+    });
+
+    test('should skip distractions of unknown sessions', () => {
+      expect(getDistractionsBySubject(sessions, [distraction('deleted', 'phone')])).toEqual([]);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,73 @@
+/**
+ * Distraction stats for ADHD Hub
+ *
+ * Interruptions are logged against the focus session they happened in, so
+ * they can be counted per hour of focus and grouped by the session's subject.
+ */
+
+import type { Distraction, DistractionCategory } from './models.js';
+
+export const DISTRACTION_CATEGORIES: Record<DistractionCategory, { label: string; icon: string }> = {
+  phone: { label: 'Phone', icon: '📱' },
+  noise: { label: 'Noise', icon: '🔊' },
+  hunger: { label: 'Hunger', icon: '🍪' },
+  people: { label: 'People', icon: '🗣️' },
+  thoughts: { label: 'Wandering mind', icon: '💭' },
+  other: { label: 'Other', icon: '🌀' }
+};
+
+export interface SubjectDistractions {
+  subject: string;
+  total: number;
+  categories: Array<{ category: DistractionCategory; count: number }>; // most common first
+}
+
+/**
+ * Interruptions per hour of focus, or null without any focus time
+ */
+export function getInterruptsPerHour(count: number, focusMinutes: number): number | null {
+  return focusMinutes > 0 ? count / (focusMinutes / 60) : null;
+}
+
+/**
+ * Distractions that belong to the given sessions, e.g. those in the selected period
+ */
+export function getSessionDistractions(sessions: Array<{ id: string }>, distractions: Distraction[]): Distraction[] {
+  const ids = new Set(sessions.map(s => s.id));
+  return distractions.filter(d => ids.has(d.sessionId));
+}
+
+/**
+ * Distractions grouped by the subject of their session, most distracted subject
+ * first. Untagged distractions count towards the total but not a category.
+ */
+export function getDistractionsBySubject(
+  sessions: Array<{ id: string; subject?: string }>,
+  distractions: Distraction[],
+  noSubjectLabel: string = 'No subject'
+): SubjectDistractions[] {
+  const subjects = new Map(sessions.map(s => [s.id, s.subject || noSubjectLabel]));
+  const grouped = new Map<string, { total: number; categories: Map<DistractionCategory, number> }>();
+
+  distractions.forEach(distraction => {
+    const subject = subjects.get(distraction.sessionId);
+    if (subject === undefined) return;
+
+    const group = grouped.get(subject) ?? { total: 0, categories: new Map() };
+    group.total++;
+    if (distraction.category) {
+      group.categories.set(distraction.category, (group.categories.get(distraction.category) ?? 0) + 1);
+    }
+    grouped.set(subject, group);
+  });
+
+  return [...grouped.entries()]
+    .map(([subject, group]) => ({
+      subject,
+      total: group.total,
+      categories: [...group.categories.entries()]
+        .map(([category, count]) => ({ category, count }))
+        .sort((a, b) => b.count - a.count)
+    }))
+    .sort((a, b) => b.total - a.total);
+}
\ No newline at end of file
@@ -0,0 +1,88 @@
+/**
+ * Unit tests for focus quality
+ */
+
+import {
+  getHourOfDay,
+  getTimeOfDay,
+  getSessionLength,
+  getAverageFocus,
+  getFocusByTimeOfDay,
+  getFocusBySessionLength
+} from './focusQuality.js';
+
+function session(startedAt: string, durationMin: number, focusRating?: number) {
+  return { startedAt: new Date(startedAt), durationMin, focusRating };
+}
+
+describe('Focus quality', () => {
+  describe('buckets', () => {
+    test('should read the hour in the given timezone', () => {
+      const date = new Date('2024-03-15T23:30:00Z');
+
+      expect(getHourOfDay(date, 'UTC')).toBe(23);
+      expect(getHourOfDay(date, 'Europe/Berlin')).toBe(0);
+    });
+
+    test('should wrap night around midnight', () => {
+      expect(getTimeOfDay(5)).toBe('morning');
+      expect(getTimeOfDay(12)).toBe('afternoon');
+      expect(getTimeOfDay(21)).toBe('evening');
+      expect(getTimeOfDay(22)).toBe('night');
+      expect(getTimeOfDay(0)).toBe('night');
+      expect(getTimeOfDay(4)).toBe('night');
+    });
+
+    test('should bucket session lengths', () => {
+      expect(getSessionLength(10)).toBe('short');
+      expect(getSessionLength(25)).toBe('pomodoro');
+      expect(getSessionLength(89)).toBe('long');
+      expect(getSessionLength(240)).toBe('marathon');
+    });
+  });
+
+  describe('getAverageFocus', () => {
+    test('should only average rated sessions', () => {
+      expect(getAverageFocus([
+        session('2024-03-15T09:00:00Z', 25, 4),
+        session('2024-03-15T10:00:00Z', 25),
+        session('2024-03-15T11:00:00Z', 25, 2)
+      ])).toBe(3);
+    });
+
+    test('should be null without ratings', () => {
+      expect(getAverageFocus([session('2024-03-15T09:00:00Z', 25)])).toBeNull();
+    });
+  });
+
+  describe('correlations', () => {
+    const sessions = [
+      session('2024-03-15T08:00:00Z', 25, 5),
+      session('2024-03-15T09:00:00Z', 50, 4),
+      session('2024-03-15T15:00:00Z', 100, 2),
+      session('2024-03-15T23:00:00Z', 10)
+    ];
+
+    test('should average focus per time of day', () => {
+      const result = getFocusByTimeOfDay(sessions, 'UTC');
+
+      expect(result.map(b => [b.id, b.averageRating, b.ratedSessions])).toEqual([
+        ['morning', 4.5, 2],
+        ['afternoon', 2, 1],
+        ['evening', null, 0],
+        ['night', null, 0]
+      ]);
+    });
+
+    test('should average focus per session length', () => {
+      const result = getFocusBySessionLength(sessions);
+
+      expect(result.map(b => [b.id, b.averageRating])).toEqual([
+        ['short', null],
+        ['pomodoro', 5],
+        ['long', 4],
+        ['marathon', 2]
+      ]);
+    });
+  });
+});
\ No newline at end of file
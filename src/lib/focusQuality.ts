@@ -0,0 +1,95 @@
+/**
+ * Focus quality for ADHD Hub
+ *
+ * Sessions can carry a self-rated 1-5 focus score. Averaging it per time of
+ * day and per session length shows when, and for how long, the user focuses best.
+ */
+
+import type { EnergyLevel } from './models.js';
+
+export interface RatedSession {
+  startedAt: Date;
+  durationMin: number;
+  focusRating?: number;
+}
+
+export interface FocusBucket {
+  id: string;
+  label: string;
+  averageRating: number | null; // null when no session in the bucket was rated
+  ratedSessions: number;
+}
+
+export const ENERGY_LEVELS: Record<EnergyLevel, { label: string; icon: string }> = {
+  low: { label: 'Low', icon: '🪫' },
+  medium: { label: 'Medium', icon: '🔋' },
+  high: { label: 'High', icon: '⚡' }
+};
+
+// Hours are in the user's timezone; night wraps around midnight
+export const TIMES_OF_DAY = [
+  { id: 'morning', label: '🌅 Morning', fromHour: 5, toHour: 12 },
+  { id: 'afternoon', label: '☀️ Afternoon', fromHour: 12, toHour: 17 },
+  { id: 'evening', label: '🌆 Evening', fromHour: 17, toHour: 22 },
+  { id: 'night', label: '🌙 Night', fromHour: 22, toHour: 5 }
+] as const;
+
+export const SESSION_LENGTHS = [
+  { id: 'short', label: 'Under 25 min', fromMin: 0, toMin: 25 },
+  { id: 'pomodoro', label: '25–49 min', fromMin: 25, toMin: 50 },
+  { id: 'long', label: '50–89 min', fromMin: 50, toMin: 90 },
+  { id: 'marathon', label: '90+ min', fromMin: 90, toMin: Infinity }
+] as const;
+
+const hourFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Hour of the day (0-23) a moment falls on in the given timezone
+ */
+export function getHourOfDay(date: Date, timeZone: string): number {
+  let formatter = hourFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', hourCycle: 'h23' });
+    hourFormatters.set(timeZone, formatter);
+  }
+
+  return Number(formatter.formatToParts(date).find(p => p.type === 'hour')!.value);
+}
+
+export function getTimeOfDay(hour: number): typeof TIMES_OF_DAY[number]['id'] {
+  const bucket = TIMES_OF_DAY.find(t => t.fromHour < t.toHour
+    ? hour >= t.fromHour && hour < t.toHour
+    : hour >= t.fromHour || hour < t.toHour);
+  return bucket!.id;
+}
+
+export function getSessionLength(durationMin: number): typeof SESSION_LENGTHS[number]['id'] {
+  return SESSION_LENGTHS.find(l => durationMin >= l.fromMin && durationMin < l.toMin)!.id;
+}
+
+/**
+ * Average focus rating of the rated sessions, or null if none were rated
+ */
+export function getAverageFocus(sessions: RatedSession[]): number | null {
+  const ratings = sessions.map(s => s.focusRating).filter((r): r is number => r !== undefined);
+  return ratings.length > 0 ? ratings.reduce((sum, r) => sum + r, 0) / ratings.length : null;
+}
+
+function groupFocus(
+  sessions: RatedSession[],
+  buckets: ReadonlyArray<{ id: string; label: string }>,
+  bucketOf: (session: RatedSession) => string
+): FocusBucket[] {
+  return buckets.map(({ id, label }) => {
+    const rated = sessions.filter(s => s.focusRating !== undefined && bucketOf(s) === id);
+    return { id, label, averageRating: getAverageFocus(rated), ratedSessions: rated.length };
+  });
+}
+
+export function getFocusByTimeOfDay(sessions: RatedSession[], timeZone: string): FocusBucket[] {
+  return groupFocus(sessions, TIMES_OF_DAY, s => getTimeOfDay(getHourOfDay(new Date(s.startedAt), timeZone)));
+}
+
+export function getFocusBySessionLength(sessions: RatedSession[]): FocusBucket[] {
+  return groupFocus(sessions, SESSION_LENGTHS, s => getSessionLength(s.durationMin));
+}
\ No newline at end of file
@@ -0,0 +1,76 @@
+/**
+ * Unit tests for goal progress
+ */
+
+import { measureGoal, getGoalProgress, withGoalProgress, describeMeasurement, type GoalProgressData, type MeasuredGoal } from './goalProgress.js';
+
+const createdAt = new Date('2024-03-10T00:00:00Z');
+
+function goal(overrides: Partial<MeasuredGoal> = {}): MeasuredGoal {
+  return { subject: 'Math', progressPct: 30, createdAt, ...overrides };
+}
+
+const data: GoalProgressData = {
+  sessions: [
+    { startedAt: new Date('2024-03-09T10:00:00Z'), durationMin: 60, subject: 'Math' }, // before the goal
+    { startedAt: new Date('2024-03-11T10:00:00Z'), durationMin: 45, subject: 'Math' },
+    { startedAt: new Date('2024-03-12T10:00:00Z'), durationMin: 75, subject: 'Math' },
+    { startedAt: new Date('2024-03-12T12:00:00Z'), durationMin: 90, subject: 'History' }
+  ],
+  resources: [
+    { id: 'r1', status: 'done', items: [{ done: true }, { done: true }] },
+    { id: 'r2', status: 'learning', items: [{ done: true }, { done: false }, { done: false }] },
+    { id: 'r3', status: 'done' }
+  ]
+};
+
+describe('Goal progress', () => {
+  test('should keep the stored progress of manual goals', () => {
+    expect(measureGoal(goal(), data)).toBeNull();
+    expect(getGoalProgress(goal({ measure: 'manual' }), data)).toBe(30);
+  });
+
+  test('should count subject minutes studied since the goal was set', () => {
+    const minutesGoal = goal({ measure: 'minutes', targetMinutes: 240 });
+
+    expect(measureGoal(minutesGoal, data)).toEqual({ current: 120, target: 240 });
+    expect(getGoalProgress(minutesGoal, data)).toBe(50);
+    expect(getGoalProgress({ ...minutesGoal, targetMinutes: 100 }, data)).toBe(100);
+  });
+
+  test('should count linked resources done and ignore deleted ones', () => {
+    const resourcesGoal = goal({ measure: 'resources', resourceIds: ['r1', 'r2', 'gone'] });
+
+    expect(measureGoal(resourcesGoal, data)).toEqual({ current: 1, target: 2 });
+    expect(getGoalProgress(resourcesGoal, data)).toBe(50);
+    expect(getGoalProgress(goal({ measure: 'resources', resourceIds: [] }), data)).toBe(0);
+  });
+
+  test('should count steps done across linked resources', () => {
+    const itemsGoal = goal({ measure: 'items', resourceIds: ['r1', 'r2', 'r3'] });
+
+    expect(measureGoal(itemsGoal, data)).toEqual({ current: 3, target: 5 });
+    expect(getGoalProgress(itemsGoal, data)).toBe(60);
+  });
+
+  test('should show how far along the current period of habits is', () => {
+    const habit = goal({ recurrence: 'daily', dailyMinutes: 150, createdAt: new Date('2024-03-12T00:00:00Z') });
+
+    expect(getGoalProgress(habit, { ...data, timeZone: 'UTC', now: new Date('2024-03-12T20:00:00Z') })).toBe(50);
+  });
+
+  test('should only recompute measured goals', () => {
+    const manual = goal();
+    const [kept, computed] = withGoalProgress([manual, goal({ measure: 'minutes', targetMinutes: 480 })], data);
+
+    expect(kept).toBe(manual);
+    expect(computed.progressPct).toBe(25);
+  });
+
+  test('should describe where a measured goal stands', () => {
+    expect(describeMeasurement(goal({ measure: 'minutes', targetMinutes: 240 }), data)).toBe('120 / 240 min in Math');
+    expect(describeMeasurement(goal({ measure: 'resources', resourceIds: ['r1', 'r3'] }), data)).toBe('2 / 2 resources done');
+    expect(describeMeasurement(goal({ measure: 'items', resourceIds: ['r3'] }), data)).toBe('Add steps to the linked resources to measure this goal');
+    expect(describeMeasurement(goal(), data)).toBeNull();
+  });
+});
\ No newline at end of file
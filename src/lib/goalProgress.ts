@@ -0,0 +1,106 @@
+/**
+ * Goal progress for ADHD Hub
+ *
+ * Instead of being bumped by hand, a goal can be measured against the work it
+ * is about: minutes studied in its subject since it was set, linked resources
+ * reaching done, or checklist steps completed across those resources.
+ * Habits show how far along the current period is instead, see habits.ts.
+ * storage.ts and GET /api/goals both compute progress with these rules.
+ */
+
+import type { Goal, GoalMeasure, Resource } from './models.js';
+import { isHabit, getHabitProgress, type HabitGoal } from './habits.js';
+
+export const MAX_GOAL_RESOURCES = 50;
+
+export const GOAL_MEASURES: Record<GoalMeasure, { label: string }> = {
+  manual: { label: 'Manual' },
+  minutes: { label: 'Minutes studied in the subject' },
+  resources: { label: 'Linked resources done' },
+  items: { label: 'Steps done in linked resources' }
+};
+
+export type MeasuredGoal = Pick<Goal, 'subject' | 'progressPct' | 'measure' | 'targetMinutes' | 'resourceIds' | 'createdAt'> &
+  Partial<HabitGoal>;
+
+export interface GoalProgressData {
+  sessions: { startedAt: Date; durationMin: number; subject?: string }[];
+  resources: { id: string; status: Resource['status']; items?: { done: boolean }[] }[];
+  timeZone?: string; // day boundaries of habits, defaults to the runtime's
+  now?: Date;
+}
+
+export interface GoalMeasurement {
+  current: number;
+  target: number;
+}
+
+export function isMeasuredGoal(goal: Pick<Goal, 'measure'>): boolean {
+  return goal.measure !== undefined && goal.measure !== 'manual';
+}
+
+/**
+ * Where a measured goal stands, or null for manual goals.
+ * Linked resources that have since been deleted no longer count.
+ */
+export function measureGoal(goal: MeasuredGoal, data: GoalProgressData): GoalMeasurement | null {
+  switch (goal.measure) {
+    case 'minutes': {
+      const since = new Date(goal.createdAt).getTime();
+      const current = data.sessions
+        .filter(s => s.subject === goal.subject && new Date(s.startedAt).getTime() >= since)
+        .reduce((sum, s) => sum + s.durationMin, 0);
+      return { current, target: goal.targetMinutes ?? 0 };
+    }
+    case 'resources': {
+      const linked = data.resources.filter(r => goal.resourceIds?.includes(r.id));
+      return { current: linked.filter(r => r.status === 'done').length, target: linked.length };
+    }
+    case 'items': {
+      const items = data.resources
+        .filter(r => goal.resourceIds?.includes(r.id))
+        .flatMap(r => r.items ?? []);
+      return { current: items.filter(item => item.done).length, target: items.length };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Percent done, 0-100; manual goals keep their stored progress
+ */
+export function getGoalProgress(goal: MeasuredGoal, data: GoalProgressData): number {
+  if (isHabit(goal)) {
+    return getHabitProgress(goal, data.sessions, { timeZone: data.timeZone, now: data.now });
+  }
+
+  const measurement = measureGoal(goal, data);
+  if (!measurement) return goal.progressPct;
+  if (measurement.target <= 0) return 0;
+  return Math.min(100, Math.round((measurement.current / measurement.target) * 100));
+}
+
+export function withGoalProgress<T extends MeasuredGoal>(goals: T[], data: GoalProgressData): T[] {
+  return goals.map(goal =>
+    isMeasuredGoal(goal) || isHabit(goal) ? { ...goal, progressPct: getGoalProgress(goal, data) } : goal
+  );
+}
+
+/**
+ * Line shown under a measured goal's bar, e.g. "320 / 600 min in Math"
+ */
+export function describeMeasurement(goal: MeasuredGoal, data: GoalProgressData): string | null {
+  const measurement = measureGoal(goal, data);
+  if (!measurement) return null;
+
+  const { current, target } = measurement;
+  switch (goal.measure) {
+    case 'minutes':
+      return `${current} / ${target} min in ${goal.subject}`;
+    case 'resources':
+      return target > 0 ? `${current} / ${target} resources done` : 'Link resources to measure this goal';
+    default:
+      return target > 0 ? `${current} / ${target} steps done` : 'Add steps to the linked resources to measure this goal';
+  }
+}
\ No newline at end of file
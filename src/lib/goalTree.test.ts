@@ -0,0 +1,91 @@
+/**
+ * Unit tests for the goal hierarchy
+ */
+
+import { buildGoalTree, getDescendantIds, canNestUnder, rollUpProgress, withRolledUpProgress, getNextMilestone } from './goalTree.js';
+import type { Goal } from './models.js';
+
+function goal(id: string, overrides: Partial<Goal> = {}): Goal {
+  const createdAt = new Date('2024-03-01T00:00:00Z');
+  return {
+    id, name: id, subject: 'Cloud', dueDate: new Date('2024-06-01T00:00:00Z'), progressPct: 0,
+    status: 'active', createdAt, updatedAt: createdAt,
+    ...overrides
+  };
+}
+
+// aws
+// ├── iam (completed)
+// ├── ec2 (40%)
+// │   ├── ec2-labs (60%)
+// │   └── ec2-quiz (cancelled)
+// └── s3 (20%)
+const goals = [
+  goal('aws', { progressPct: 5 }),
+  goal('iam', { parentId: 'aws', status: 'completed', progressPct: 70, dueDate: new Date('2024-04-01T00:00:00Z') }),
+  goal('ec2', { parentId: 'aws', progressPct: 40, dueDate: new Date('2024-05-01T00:00:00Z') }),
+  goal('ec2-labs', { parentId: 'ec2', progressPct: 60 }),
+  goal('ec2-quiz', { parentId: 'ec2', status: 'cancelled', progressPct: 0 }),
+  goal('s3', { parentId: 'aws', progressPct: 20, dueDate: new Date('2024-04-15T00:00:00Z') })
+];
+
+describe('Goal tree', () => {
+  test('should nest sub-goals under their parents in order', () => {
+    const [aws] = buildGoalTree(goals);
+
+    expect(buildGoalTree(goals)).toHaveLength(1);
+    expect(aws.children.map(child => child.goal.id)).toEqual(['iam', 'ec2', 's3']);
+    expect(aws.children[1].children.map(child => child.goal.id)).toEqual(['ec2-labs', 'ec2-quiz']);
+  });
+
+  test('should show goals under a deleted or looping parent at the top level', () => {
+    const tree = buildGoalTree([
+      goal('orphan', { parentId: 'deleted' }),
+      goal('a', { parentId: 'b' }),
+      goal('b', { parentId: 'a' }),
+      goal('c', { parentId: 'a' })
+    ]);
+
+    expect(tree.map(node => node.goal.id)).toEqual(['orphan', 'a', 'b']);
+    expect(tree[1].children.map(child => child.goal.id)).toEqual(['c']);
+  });
+
+  test('should not let a goal move under itself or its descendants', () => {
+    expect([...getDescendantIds(goals, 'ec2')]).toEqual(['ec2-labs', 'ec2-quiz']);
+    expect(canNestUnder(goals, 's3', 'ec2')).toBe(true);
+    expect(canNestUnder(goals, 'aws', 'ec2-labs')).toBe(false);
+    expect(canNestUnder(goals, 'ec2', 'ec2')).toBe(false);
+    expect(canNestUnder(goals, 'ec2', 'missing')).toBe(false);
+  });
+
+  describe('rollUpProgress', () => {
+    test('should average sub-goals, counting completed as done and skipping cancelled', () => {
+      const progress = rollUpProgress(goals);
+
+      expect(progress.get('ec2')).toBe(60); // only ec2-labs counts
+      expect(progress.get('aws')).toBe(60); // (100 + 60 + 20) / 3
+      expect(progress.get('s3')).toBe(20);
+      expect(progress.get('iam')).toBe(70);
+    });
+
+    test('should keep the own progress of goals whose sub-goals are all cancelled', () => {
+      const progress = rollUpProgress([goal('exam', { progressPct: 35 }), goal('quiz', { parentId: 'exam', status: 'cancelled' })]);
+
+      expect(progress.get('exam')).toBe(35);
+    });
+
+    test('should only copy goals whose progress changed', () => {
+      const rolled = withRolledUpProgress(goals);
+
+      expect(rolled[0].progressPct).toBe(60);
+      expect(rolled[5]).toBe(goals[5]);
+    });
+  });
+
+  test('should pick the unfinished sub-goal due soonest as the next milestone', () => {
+    const [aws] = buildGoalTree(goals);
+
+    expect(getNextMilestone(aws)?.id).toBe('s3');
+    expect(getNextMilestone(aws.children[2])).toBeNull();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,127 @@
+/**
+ * Goal hierarchy for ADHD Hub
+ *
+ * Big goals ("pass the AWS exam") are broken into sub-goals, each with its
+ * own due date, which act as the parent's milestones. A goal with sub-goals
+ * takes its progress from them instead of its own measure; sub-goals can be
+ * nested any number of levels deep.
+ */
+
+import type { Goal } from './models.js';
+
+export type TreeGoal = Pick<Goal, 'id' | 'parentId'>;
+export type RollUpGoal = TreeGoal & Pick<Goal, 'progressPct' | 'status'>;
+
+export interface GoalNode<T extends TreeGoal> {
+  goal: T;
+  children: GoalNode<T>[];
+}
+
+/**
+ * Parent a goal hangs under, or undefined for a top-level goal. Links to a
+ * deleted goal, or that loop back on themselves after edits on two devices,
+ * are ignored so every goal still shows up once.
+ */
+function getEffectiveParentId(goal: TreeGoal, byId: Map<string, TreeGoal>): string | undefined {
+  if (!goal.parentId || !byId.has(goal.parentId)) return undefined;
+
+  const seen = new Set<string>();
+  for (let id: string | undefined = goal.parentId; id && !seen.has(id); id = byId.get(id)?.parentId) {
+    if (id === goal.id) return undefined;
+    seen.add(id);
+  }
+  return goal.parentId;
+}
+
+/**
+ * Top-level goals with their sub-goals nested under them, in the given order
+ */
+export function buildGoalTree<T extends TreeGoal>(goals: T[]): GoalNode<T>[] {
+  const byId = new Map<string, TreeGoal>(goals.map(goal => [goal.id, goal]));
+  const nodes = new Map(goals.map(goal => [goal.id, { goal, children: [] as GoalNode<T>[] }]));
+  const roots: GoalNode<T>[] = [];
+
+  goals.forEach(goal => {
+    const parentId = getEffectiveParentId(goal, byId);
+    const node = nodes.get(goal.id)!;
+    if (parentId) {
+      nodes.get(parentId)!.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  return roots;
+}
+
+/**
+ * IDs of every goal nested under this one, at any depth
+ */
+export function getDescendantIds(goals: TreeGoal[], id: string): Set<string> {
+  const descendants = new Set<string>();
+  const collect = (node: GoalNode<TreeGoal>) => node.children.forEach(child => {
+    descendants.add(child.goal.id);
+    collect(child);
+  });
+
+  const find = (nodes: GoalNode<TreeGoal>[]): GoalNode<TreeGoal> | undefined => {
+    for (const node of nodes) {
+      const found = node.goal.id === id ? node : find(node.children);
+      if (found) return found;
+    }
+    return undefined;
+  };
+
+  const node = find(buildGoalTree(goals));
+  if (node) collect(node);
+  return descendants;
+}
+
+/**
+ * Whether a goal may move under parentId without ending up inside itself
+ */
+export function canNestUnder(goals: TreeGoal[], id: string, parentId: string): boolean {
+  return id !== parentId && goals.some(goal => goal.id === parentId) && !getDescendantIds(goals, id).has(parentId);
+}
+
+/**
+ * Rules:
+ * - A goal with sub-goals is as far along as the average of its sub-goals
+ * - Completed sub-goals count as 100%, cancelled ones don't count
+ * - Goals without (counted) sub-goals keep their own progress
+ */
+export function rollUpProgress(goals: RollUpGoal[]): Map<string, number> {
+  const progress = new Map<string, number>();
+
+  const visit = (node: GoalNode<RollUpGoal>): number => {
+    const childProgress = node.children.map(child => ({ status: child.goal.status, pct: visit(child) }));
+    const counted = childProgress
+      .filter(child => child.status !== 'cancelled')
+      .map(child => child.status === 'completed' ? 100 : child.pct);
+
+    const pct = counted.length > 0
+      ? Math.round(counted.reduce((sum, value) => sum + value, 0) / counted.length)
+      : node.goal.progressPct;
+    progress.set(node.goal.id, pct);
+    return pct;
+  };
+
+  buildGoalTree(goals).forEach(visit);
+  return progress;
+}
+
+export function withRolledUpProgress<T extends RollUpGoal>(goals: T[]): T[] {
+  const progress = rollUpProgress(goals);
+  return goals.map(goal => progress.get(goal.id) === goal.progressPct ? goal : { ...goal, progressPct: progress.get(goal.id)! });
+}
+
+/**
+ * The unfinished sub-goal due soonest, shown as the goal's next milestone
+ */
+export function getNextMilestone<T extends TreeGoal & Pick<Goal, 'status' | 'dueDate'>>(node: GoalNode<T>): T | null {
+  const open = node.children
+    .map(child => child.goal)
+    .filter(goal => goal.status === 'active' || goal.status === 'paused')
+    .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
+  return open[0] ?? null;
+}
\ No newline at end of file
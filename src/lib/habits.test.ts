@@ -0,0 +1,105 @@
+/**
+ * Unit tests for habits
+ */
+
+import { getHabitPeriods, calculateHabitStreak, getHabitProgress, describeHabitPeriod, type HabitGoal } from './habits.js';
+
+const timeZone = 'UTC';
+
+function habit(overrides: Partial<HabitGoal> = {}): HabitGoal {
+  return { subject: 'Spanish', createdAt: new Date('2024-03-10T08:00:00Z'), recurrence: 'daily', dailyMinutes: 20, ...overrides };
+}
+
+function session(date: string, durationMin: number, subject: string = 'Spanish') {
+  return { startedAt: new Date(`${date}T18:00:00Z`), durationMin, subject };
+}
+
+describe('Habits', () => {
+  describe('daily habits', () => {
+    // Sun 10 to Fri 15 March 2024
+    const sessions = [
+      session('2024-03-09', 60), // before the habit was set
+      session('2024-03-10', 25),
+      session('2024-03-11', 10),
+      session('2024-03-11', 15),
+      session('2024-03-12', 40, 'History'),
+      session('2024-03-13', 30),
+      session('2024-03-14', 20),
+      session('2024-03-15', 5)
+    ];
+    const now = new Date('2024-03-15T20:00:00Z');
+
+    test('should count a day once the subject minutes reach the target', () => {
+      const periods = getHabitPeriods(habit(), sessions, { timeZone, now });
+
+      expect(periods.map(period => period.met)).toEqual([true, true, false, true, true, false]);
+      expect(periods[1].done).toBe(25);
+      expect(periods.at(-1)).toMatchObject({ done: 5, target: 20 });
+    });
+
+    test('should keep the streak while today is still running', () => {
+      expect(calculateHabitStreak(habit(), sessions, { timeZone, now })).toEqual({ currentStreak: 2, longestStreak: 2 });
+      expect(calculateHabitStreak(habit(), sessions, { timeZone, now: new Date('2024-03-16T09:00:00Z') }))
+        .toEqual({ currentStreak: 0, longestStreak: 2 });
+    });
+
+    test('should show how far along today is', () => {
+      expect(getHabitProgress(habit(), sessions, { timeZone, now })).toBe(25);
+      expect(describeHabitPeriod(habit(), getHabitPeriods(habit(), sessions, { timeZone, now }).at(-1), { timeZone, now }))
+        .toBe('5 / 20 min today');
+    });
+  });
+
+  describe('weekday habits', () => {
+    const weekdays = habit({ recurrence: 'weekdays', createdAt: new Date('2024-03-08T08:00:00Z') });
+    const sessions = ['2024-03-08', '2024-03-11', '2024-03-12', '2024-03-13', '2024-03-14', '2024-03-15']
+      .map(date => session(date, 20));
+
+    test('should skip weekends without breaking the streak', () => {
+      const now = new Date('2024-03-18T09:00:00Z'); // Monday, nothing logged yet
+
+      expect(getHabitPeriods(weekdays, sessions, { timeZone, now })).toHaveLength(7);
+      expect(calculateHabitStreak(weekdays, sessions, { timeZone, now })).toEqual({ currentStreak: 6, longestStreak: 6 });
+    });
+
+    test('should show Friday over the weekend and break on a missed Friday', () => {
+      const now = new Date('2024-03-16T09:00:00Z'); // Saturday
+      const missedFriday = sessions.slice(0, -1);
+      const periods = getHabitPeriods(weekdays, missedFriday, { timeZone, now });
+
+      expect(describeHabitPeriod(weekdays, periods.at(-1), { timeZone, now })).toBe('0 / 20 min on Friday');
+      expect(calculateHabitStreak(weekdays, missedFriday, { timeZone, now }).currentStreak).toBe(0);
+    });
+
+    test('should have no period before the first weekday', () => {
+      const saturday = habit({ recurrence: 'weekdays', createdAt: new Date('2024-03-16T08:00:00Z') });
+      const now = new Date('2024-03-17T09:00:00Z');
+
+      expect(getHabitPeriods(saturday, [], { timeZone, now })).toEqual([]);
+      expect(getHabitProgress(saturday, [], { timeZone, now })).toBe(0);
+      expect(describeHabitPeriod(saturday, undefined)).toBe('Starts on the next weekday');
+    });
+  });
+
+  describe('weekly habits', () => {
+    const weekly = habit({ recurrence: 'weekly', timesPerWeek: 3, createdAt: new Date('2024-03-04T08:00:00Z') });
+    const sessions = [
+      session('2024-03-04', 20), session('2024-03-06', 30), session('2024-03-09', 25), // 3 days: met
+      session('2024-03-12', 20), session('2024-03-14', 10), session('2024-03-15', 20), // 2 days: missed
+      session('2024-03-19', 45)
+    ];
+    const now = new Date('2024-03-20T12:00:00Z'); // Wednesday
+
+    test('should count the days that reached the daily minutes in each week', () => {
+      const periods = getHabitPeriods(weekly, sessions, { timeZone, now });
+
+      expect(periods.map(period => [period.done, period.met])).toEqual([[3, true], [2, false], [1, false]]);
+      expect(describeHabitPeriod(weekly, periods.at(-1))).toBe('1 / 3 days this week');
+    });
+
+    test('should count streaks in weeks and progress in days this week', () => {
+      expect(calculateHabitStreak(weekly, sessions, { timeZone, now })).toEqual({ currentStreak: 0, longestStreak: 1 });
+      expect(getHabitProgress(weekly, sessions, { timeZone, now })).toBe(33);
+    });
+  });
+});
\ No newline at end of file
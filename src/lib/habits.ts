@@ -0,0 +1,144 @@
+/**
+ * Habits for ADHD Hub
+ *
+ * A recurring goal ("Spanish 20 min every weekday") is checked off period by
+ * period from the sessions logged in its subject. Each habit keeps its own
+ * streak, separate from the global study streak in xp.ts.
+ */
+
+import type { Goal, GoalRecurrence } from './models.js';
+import { getDayNumber, getDeviceTimeZone } from './xp.js';
+
+export const RECURRENCES: Record<GoalRecurrence, { label: string }> = {
+  daily: { label: 'Every day' },
+  weekdays: { label: 'Every weekday' },
+  weekly: { label: 'Some days a week' }
+};
+
+export type HabitGoal = Pick<Goal, 'subject' | 'createdAt' | 'recurrence' | 'timesPerWeek' | 'dailyMinutes'>;
+
+export interface HabitOptions {
+  timeZone?: string; // IANA timezone, defaults to the runtime's
+  now?: Date;
+}
+
+export interface HabitPeriod {
+  start: number; // first day of the period, as returned by getDayNumber
+  done: number; // daily and weekday habits: minutes that day; weekly habits: counted days
+  target: number;
+  met: boolean;
+}
+
+type HabitSession = { startedAt: Date; durationMin: number; subject?: string };
+
+export function isHabit(goal: Pick<Goal, 'recurrence'>): boolean {
+  return goal.recurrence !== undefined;
+}
+
+// Day numbers count from Thursday 1 January 1970
+function getWeekday(day: number): number {
+  return (day + 4) % 7; // 0 = Sunday
+}
+
+function getWeekStart(day: number): number {
+  return day - ((day + 3) % 7); // Monday
+}
+
+/**
+ * Every period from the one the habit was set in up to the current one, oldest first.
+ *
+ * Rules:
+ * - A day counts once the subject's sessions that day add up to dailyMinutes
+ * - Daily habits need every day, weekday habits Monday to Friday (weekends
+ *   neither count nor break the streak), weekly habits timesPerWeek counted
+ *   days in each Monday-to-Sunday week
+ * - Only sessions from the day the habit was set count
+ */
+export function getHabitPeriods(goal: HabitGoal, sessions: HabitSession[], options: HabitOptions = {}): HabitPeriod[] {
+  const timeZone = options.timeZone ?? getDeviceTimeZone();
+  const firstDay = getDayNumber(new Date(goal.createdAt), timeZone);
+  const today = getDayNumber(options.now ?? new Date(), timeZone);
+  const dailyTarget = Math.max(1, goal.dailyMinutes ?? 1);
+
+  const minutesByDay = new Map<number, number>();
+  sessions.forEach(session => {
+    if (session.subject !== goal.subject) return;
+    const day = getDayNumber(new Date(session.startedAt), timeZone);
+    if (day < firstDay || day > today) return;
+    minutesByDay.set(day, (minutesByDay.get(day) ?? 0) + session.durationMin);
+  });
+
+  const periods: HabitPeriod[] = [];
+
+  if (goal.recurrence === 'weekly') {
+    const target = Math.min(7, Math.max(1, goal.timesPerWeek ?? 1));
+    for (let start = getWeekStart(firstDay); start <= today; start += 7) {
+      let done = 0;
+      for (let day = start; day < start + 7; day++) {
+        if ((minutesByDay.get(day) ?? 0) >= dailyTarget) done++;
+      }
+      periods.push({ start, done, target, met: done >= target });
+    }
+    return periods;
+  }
+
+  for (let day = firstDay; day <= today; day++) {
+    const weekday = getWeekday(day);
+    if (goal.recurrence === 'weekdays' && (weekday === 0 || weekday === 6)) continue;
+
+    const done = minutesByDay.get(day) ?? 0;
+    periods.push({ start: day, done, target: dailyTarget, met: done >= dailyTarget });
+  }
+  return periods;
+}
+
+/**
+ * Streaks in periods (days or weeks) the habit was kept up in a row. The
+ * period running today never breaks a streak while it is still running.
+ */
+export function calculateHabitStreak(
+  goal: HabitGoal,
+  sessions: HabitSession[],
+  options: HabitOptions = {}
+): { currentStreak: number; longestStreak: number } {
+  const periods = getHabitPeriods(goal, sessions, options);
+  const today = getDayNumber(options.now ?? new Date(), options.timeZone ?? getDeviceTimeZone());
+  const periodDays = goal.recurrence === 'weekly' ? 7 : 1;
+
+  let runLength = 0;
+  let longestStreak = 0;
+
+  periods.forEach((period, index) => {
+    const running = index === periods.length - 1 && today < period.start + periodDays;
+    if (period.met) {
+      runLength++;
+    } else if (!running) {
+      runLength = 0;
+    }
+    longestStreak = Math.max(longestStreak, runLength);
+  });
+
+  return { currentStreak: runLength, longestStreak };
+}
+
+/**
+ * Percent of the current period done, 0-100; 0 before the first period
+ * (e.g. a weekday habit set on a Saturday)
+ */
+export function getHabitProgress(goal: HabitGoal, sessions: HabitSession[], options: HabitOptions = {}): number {
+  const current = getHabitPeriods(goal, sessions, options).at(-1);
+  if (!current) return 0;
+  return Math.min(100, Math.round((current.done / current.target) * 100));
+}
+
+/**
+ * Line for the latest period, e.g. "12 / 20 min today" or "2 / 3 days this week"
+ */
+export function describeHabitPeriod(goal: HabitGoal, period: HabitPeriod | undefined, options: HabitOptions = {}): string {
+  if (!period) return 'Starts on the next weekday';
+  if (goal.recurrence === 'weekly') return `${period.done} / ${period.target} days this week`;
+
+  // Weekday habits still show Friday over the weekend
+  const today = getDayNumber(options.now ?? new Date(), options.timeZone ?? getDeviceTimeZone());
+  return `${period.done} / ${period.target} min ${period.start === today ? 'today' : 'on Friday'}`;
+}
\ No newline at end of file
@@ -6,29 +6,103 @@ export interface Resource {
   type: 'video' | 'article' | 'book' | 'course' | 'podcast' | 'other';
   priority: 1 | 2 | 3 | 4 | 5;
   notes: string;
+  tags: string[]; // normalized, see tags.ts
   favorite: boolean;
   status: 'new' | 'learning' | 'reviewing' | 'done';
   nextReviewDate?: Date;
   lastReviewInterval?: number; // in days, tracks current interval for spaced repetition
+  easeFactor?: number; // SM-2 ease factor, grows with easy reviews and shrinks with hard ones
+  stability?: number; // in days, how long the material is expected to stay remembered
+  progressUnit?: ProgressUnit; // set for resources tracked unit by unit, see resourceProgress.ts
+  totalUnits?: number;
+  currentUnit?: number; // units finished so far
+  items?: ResourceItem[]; // checklist steps in order, see resourceItems.ts
   createdAt: Date;
   updatedAt: Date;
 }
 
+// One step of a resource broken into a checklist
+export interface ResourceItem {
+  id: string;
+  title: string;
+  done: boolean;
+  estimateMin?: number;
+}
+
+export interface ReviewLog {
+  id: string;
+  resourceId: string;
+  action: 'review' | 'snooze';
+  grade?: ReviewGrade; // only set for reviews
+  intervalDays?: number; // interval scheduled by this review
+  nextReviewDate?: Date;
+  reviewedAt: Date;
+}
+
 export interface Session {
   id: string;
   startedAt: Date;
   durationMin: number;
   subject?: string;
   resourceId?: string;
+  notes?: string; // what the user worked on
+  focusRating?: number; // 1-5, self-rated when logging
+  energy?: EnergyLevel;
+  unitsCompleted?: number; // progress made on resourceId, in its progressUnit
+  updatedAt?: Date;
+}
+
+export type EnergyLevel = 'low' | 'medium' | 'high';
+export type ProgressUnit = 'pages' | 'chapters' | 'lessons' | 'modules' | 'episodes' | 'videos';
+
+// The quick reflection asked for when stopping the timer
+export type SessionReflection = Pick<Session, 'notes' | 'focusRating' | 'energy' | 'unitsCompleted'>;
+
+export interface BreakLog {
+  id: string;
+  startedAt: Date;
+  durationMin: number;
+  kind: 'short' | 'long'; // Pomodoro break type; breaks never earn XP
 }
 
+export type DistractionCategory = 'phone' | 'noise' | 'hunger' | 'people' | 'thoughts' | 'other';
+
+// An interruption logged during a focus session, stored as a child of that session
+export interface Distraction {
+  id: string;
+  sessionId: string;
+  occurredAt: Date;
+  category?: DistractionCategory; // untagged when the user just hit "I got distracted"
+}
+
+// Server-side timer for signed-in users, so a session can be finished on another device
+export interface ActiveTimer {
+  startedAt: Date;
+  resumedAt: Date | null; // null while paused
+  elapsedSeconds: number; // time banked before resumedAt
+  subject?: string;
+  resourceId?: string;
+}
+
+// What a goal's progress is measured in; manual goals are bumped by hand
+export type GoalMeasure = 'manual' | 'minutes' | 'resources' | 'items';
+// How often a habit goal comes round; weekly habits need timesPerWeek days a week
+export type GoalRecurrence = 'daily' | 'weekdays' | 'weekly';
+
 export interface Goal {
   id: string;
   name: string;
   subject: string;
   dueDate: Date;
-  progressPct: number;
+  progressPct: number; // computed for measured goals, see goalProgress.ts
   status: 'active' | 'completed' | 'paused' | 'cancelled';
+  measure?: GoalMeasure; // manual when unset
+  targetMinutes?: number; // minutes goals: minutes to study in the subject
+  resourceIds?: string[]; // resources and items goals: the linked resources
+  parentId?: string; // set on sub-goals (milestones), see goalTree.ts
+  recurrence?: GoalRecurrence; // set on habits, see habits.ts; dueDate is when the habit ends
+  timesPerWeek?: number; // weekly habits: days a week, 1-7
+  dailyMinutes?: number; // habits: minutes in the subject that make a day count
   createdAt: Date;
   updatedAt: Date;
 }
@@ -51,6 +125,27 @@ export interface Subject {
   updatedAt: Date;
 }
 
+export interface XPLedgerEntry {
+  id: string;
+  sourceType: 'session' | 'resource' | 'goal' | 'review';
+  sourceId: string; // record that earned the XP
+  amount: number; // negative for reversals
+  reason: string;
+  createdAt: Date;
+}
+
+export interface AchievementUnlock {
+  id: string; // achievement id from achievements.ts
+  unlockedAt: Date;
+}
+
+export interface PomodoroSettings {
+  workMin: number;
+  shortBreakMin: number;
+  longBreakMin: number;
+  cyclesBeforeLongBreak: number;
+}
+
 export interface Settings {
   theme: 'dark' | 'light';
   xp: number;
@@ -58,16 +153,40 @@ export interface Settings {
   streak: number;
   longestStreak: number;
   selectedSubjectId?: string; // currently selected subject on dashboard
+  timezone?: string; // IANA timezone for day boundaries, defaults to the device's
+  pomodoro?: PomodoroSettings; // defaults to 25/5/15 with a long break every 4 blocks
 }
 
 export interface AppData {
   resources: Resource[];
   sessions: Session[];
+  breaks: BreakLog[];
+  distractions: Distraction[];
   goals: Goal[];
   subjects: Subject[];
+  reviews: ReviewLog[];
+  xpLedger: XPLedgerEntry[];
+  achievements: AchievementUnlock[];
   settings: Settings;
+  sync?: SyncState; // only present once the device has synced or deleted something
 }
 
+export interface SyncTombstone {
+  entity: SyncEntity;
+  id: string;
+  deletedAt: Date;
+}
+
+export interface SyncState {
+  cursor: number | null; // server change cursor from the last successful sync
+  lastSyncedAt?: Date;
+  tombstones: SyncTombstone[]; // local deletes not yet pushed to the server
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+export type ReviewAction = ReviewLog['action'];
+export type SyncEntity = 'resource' | 'session' | 'goal' | 'subject';
+
 export type ResourceType = Resource['type'];
 export type ResourceStatus = Resource['status'];
 export type ResourcePriority = Resource['priority'];
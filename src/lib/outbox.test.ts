@@ -0,0 +1,140 @@
+/**
+ * Unit tests for the offline outbox
+ */
+
+import {
+  addToOutbox,
+  removeFromOutbox,
+  markAttemptFailed,
+  markRejected,
+  retryConflict,
+  discardConflict,
+  getRetryDelay,
+  isRejectedStatus,
+  describeOutboxEntry,
+  coversChanges,
+  OUTBOX_RULES,
+  type OutboxState
+} from './outbox.js';
+import type { SyncChange } from './sync.js';
+
+const empty: OutboxState = { entries: [], conflicts: [] };
+const now = new Date('2024-02-01T08:00:00Z');
+
+function goalChange(id: string, progress: number, updatedAt = 1706774400): SyncChange {
+  return { entity: 'goal', id, op: 'upsert', updated_at: updatedAt, data: { progress_pct: progress } };
+}
+
+describe('Offline Outbox', () => {
+  describe('addToOutbox', () => {
+    test('should keep operations in the order they were queued', () => {
+      let state = addToOutbox(empty, { kind: 'change', change: goalChange('goal-1', 10) }, now);
+      state = addToOutbox(state, { kind: 'review', review: { id: 'rev-1', resourceId: 'res-1', action: 'review', grade: 'good' } }, now);
+      state = addToOutbox(state, { kind: 'change', change: goalChange('goal-2', 50) }, now);
+
+      expect(state.entries.map(e => e.kind)).toEqual(['change', 'review', 'change']);
+    });
+
+    test('should replace a pending change to the same record in place', () => {
+      let state = addToOutbox(empty, { kind: 'change', change: goalChange('goal-1', 10) }, now);
+      state = addToOutbox(state, { kind: 'change', change: goalChange('goal-2', 50) }, now);
+      state = addToOutbox(state, { kind: 'change', change: goalChange('goal-1', 20) }, now);
+
+      expect(state.entries).toHaveLength(2);
+      expect(state.entries[0].kind === 'change' && state.entries[0].change.data?.progress_pct).toBe(20);
+    });
+
+    test('should merge pending settings updates', () => {
+      let state = addToOutbox(empty, { kind: 'settings', settings: { theme: 'light' } }, now);
+      state = addToOutbox(state, { kind: 'settings', settings: { xp: 120 } }, now);
+
+      expect(state.entries).toHaveLength(1);
+      expect(state.entries[0]).toMatchObject({ kind: 'settings', settings: { theme: 'light', xp: 120 } });
+    });
+
+    test('should always append reviews', () => {
+      const review = { kind: 'review' as const, review: { id: 'rev-1', resourceId: 'res-1', action: 'review' as const, grade: 'good' as const } };
+      const state = addToOutbox(addToOutbox(empty, review, now), review, now);
+
+      expect(state.entries).toHaveLength(2);
+    });
+
+    test('should let a new change supersede a conflict on the same record', () => {
+      let state = addToOutbox(empty, { kind: 'change', change: goalChange('goal-1', 10) }, now);
+      state = markRejected(state, state.entries[0].id, 'Validation failed', now);
+      state = addToOutbox(state, { kind: 'change', change: goalChange('goal-1', 15) }, now);
+
+      expect(state.conflicts).toHaveLength(0);
+      expect(state.entries).toHaveLength(1);
+    });
+  });
+
+  describe('retries', () => {
+    test('should back off exponentially up to the maximum delay', () => {
+      expect(getRetryDelay(1)).toBe(2000);
+      expect(getRetryDelay(2)).toBe(4000);
+      expect(getRetryDelay(5)).toBe(32000);
+      expect(getRetryDelay(20)).toBe(OUTBOX_RULES.MAX_RETRY_DELAY_MS);
+    });
+
+    test('should schedule the next attempt after a failure', () => {
+      let state = addToOutbox(empty, { kind: 'change', change: goalChange('goal-1', 10) }, now);
+      const id = state.entries[0].id;
+      state = markAttemptFailed(state, id, 'Network error', now);
+      state = markAttemptFailed(state, id, 'Network error', now);
+
+      expect(state.entries[0]).toMatchObject({ attempts: 2, lastError: 'Network error' });
+      expect(state.entries[0].nextAttemptAt).toEqual(new Date(now.getTime() + 4000));
+    });
+
+    test('should remove an entry once delivered', () => {
+      const state = addToOutbox(empty, { kind: 'change', change: goalChange('goal-1', 10) }, now);
+
+      expect(removeFromOutbox(state, state.entries[0].id).entries).toHaveLength(0);
+    });
+  });
+
+  describe('conflicts', () => {
+    test('should treat client errors as rejections but retry auth and rate limits', () => {
+      expect(isRejectedStatus(400)).toBe(true);
+      expect(isRejectedStatus(404)).toBe(true);
+      expect(isRejectedStatus(409)).toBe(true);
+      expect(isRejectedStatus(401)).toBe(false);
+      expect(isRejectedStatus(429)).toBe(false);
+      expect(isRejectedStatus(500)).toBe(false);
+    });
+
+    test('should move a rejected entry to conflicts and back on retry', () => {
+      let state = addToOutbox(empty, { kind: 'change', change: goalChange('goal-1', 10) }, now);
+      const id = state.entries[0].id;
+
+      state = markRejected(state, id, 'Validation failed', now);
+      expect(state.entries).toHaveLength(0);
+      expect(state.conflicts[0]).toMatchObject({ id, error: 'Validation failed' });
+      expect(describeOutboxEntry(state.conflicts[0])).toBe('Goal update');
+
+      state = retryConflict(state, id);
+      expect(state.conflicts).toHaveLength(0);
+      expect(state.entries[0]).toMatchObject({ id, attempts: 0, lastError: 'Validation failed' });
+    });
+
+    test('should drop a discarded conflict', () => {
+      let state = addToOutbox(empty, { kind: 'settings', settings: { theme: 'dark' } }, now);
+      state = markRejected(state, state.entries[0].id, 'Validation failed', now);
+
+      expect(discardConflict(state, state.conflicts[0].id).conflicts).toHaveLength(0);
+    });
+  });
+
+  describe('coversChanges', () => {
+    test('should cover local changes that are queued or in conflict', () => {
+      let state = addToOutbox(empty, { kind: 'change', change: goalChange('goal-1', 10) }, now);
+      state = addToOutbox(state, { kind: 'change', change: goalChange('goal-2', 50) }, now);
+      state = markRejected(state, state.entries[1].id, 'Validation failed', now);
+
+      expect(coversChanges(state, [goalChange('goal-1', 20), goalChange('goal-2', 50)])).toBe(true);
+      expect(coversChanges(state, [goalChange('goal-1', 20), goalChange('goal-3', 0)])).toBe(false);
+      expect(coversChanges(empty, [])).toBe(true);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,246 @@
+/**
+ * Offline Outbox
+ *
+ * Cloud writes are applied to local storage first and queued here until the
+ * server accepts them. Entries replay in order; transient failures back off
+ * and retry, while requests the server rejects become conflicts the user can
+ * retry or discard.
+ */
+
+import type { BreakLog, Distraction, Resource, ReviewLog, Settings } from './models.js';
+import { generateId } from './storage.js';
+import { syncKey, type SyncChange } from './sync.js';
+import type { ItemChange } from './resourceItems.js';
+
+const OUTBOX_KEY = 'adhd-hub-outbox';
+
+/**
+ * Retry rules:
+ * - First retry after 2 seconds, doubling on every failed attempt
+ * - Never wait more than 5 minutes between attempts
+ */
+export const OUTBOX_RULES = {
+  BASE_RETRY_DELAY_MS: 2000,
+  MAX_RETRY_DELAY_MS: 5 * 60 * 1000
+} as const;
+
+export type OutboxOperation =
+  | { kind: 'change'; change: SyncChange }
+  // Logs keep their local id so a retried request can't create them twice
+  | { kind: 'review'; review: Omit<ReviewLog, 'reviewedAt'> }
+  | { kind: 'break'; breakLog: BreakLog }
+  | { kind: 'distraction'; distraction: Distraction }
+  | { kind: 'item'; resourceId: string; change: ItemChange } // checklist steps go one by one, not with their resource
+  | { kind: 'settings'; settings: Partial<Settings> }
+  | { kind: 'import'; resources: Resource[] }; // one bulk request instead of a change per resource
+
+export type OutboxEntry = OutboxOperation & {
+  id: string;
+  queuedAt: Date;
+  attempts: number;
+  nextAttemptAt?: Date;
+  lastError?: string;
+};
+
+export type OutboxConflict = OutboxEntry & {
+  error: string;
+  rejectedAt: Date;
+};
+
+export interface OutboxState {
+  entries: OutboxEntry[];
+  conflicts: OutboxConflict[];
+}
+
+const emptyOutbox: OutboxState = { entries: [], conflicts: [] };
+
+function isSameTarget(entry: OutboxEntry, operation: OutboxOperation): boolean {
+  if (entry.kind === 'change' && operation.kind === 'change') {
+    return syncKey(entry.change) === syncKey(operation.change);
+  }
+  return entry.kind === 'settings' && operation.kind === 'settings';
+}
+
+/**
+ * Queue an operation. A pending change to the same record (or pending settings
+ * update) is replaced in place, so the queue keeps its order without growing
+ * on every keystroke. A new change also supersedes a conflict on that record.
+ */
+export function addToOutbox(state: OutboxState, operation: OutboxOperation, now: Date = new Date()): OutboxState {
+  const index = state.entries.findIndex(entry => isSameTarget(entry, operation));
+  const existing = index !== -1 ? state.entries[index] : undefined;
+
+  const merged: OutboxOperation = existing?.kind === 'settings' && operation.kind === 'settings'
+    ? { kind: 'settings', settings: { ...existing.settings, ...operation.settings } }
+    : operation;
+
+  const entry = { ...merged, id: generateId(), queuedAt: existing?.queuedAt ?? now, attempts: 0 } as OutboxEntry;
+  const entries = [...state.entries];
+  if (existing) {
+    entries[index] = entry;
+  } else {
+    entries.push(entry);
+  }
+
+  const conflicts = operation.kind === 'change'
+    ? state.conflicts.filter(c => !(c.kind === 'change' && syncKey(c.change) === syncKey(operation.change)))
+    : state.conflicts;
+
+  return { entries, conflicts };
+}
+
+export function removeFromOutbox(state: OutboxState, id: string): OutboxState {
+  return { ...state, entries: state.entries.filter(entry => entry.id !== id) };
+}
+
+/**
+ * Exponential backoff for the given number of failed attempts
+ */
+export function getRetryDelay(attempts: number): number {
+  const delay = OUTBOX_RULES.BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1));
+  return Math.min(delay, OUTBOX_RULES.MAX_RETRY_DELAY_MS);
+}
+
+export function markAttemptFailed(state: OutboxState, id: string, error: string, now: Date = new Date()): OutboxState {
+  return {
+    ...state,
+    entries: state.entries.map(entry => {
+      if (entry.id !== id) return entry;
+      const attempts = entry.attempts + 1;
+      return {
+        ...entry,
+        attempts,
+        lastError: error,
+        nextAttemptAt: new Date(now.getTime() + getRetryDelay(attempts))
+      };
+    })
+  };
+}
+
+/**
+ * Move an entry the server refused into the conflict list
+ */
+export function markRejected(state: OutboxState, id: string, error: string, now: Date = new Date()): OutboxState {
+  const entry = state.entries.find(e => e.id === id);
+  if (!entry) return state;
+
+  return {
+    entries: state.entries.filter(e => e.id !== id),
+    conflicts: [...state.conflicts, { ...entry, error, rejectedAt: now }]
+  };
+}
+
+/**
+ * Put a conflict back at the end of the queue for another attempt
+ */
+export function retryConflict(state: OutboxState, id: string): OutboxState {
+  const conflict = state.conflicts.find(c => c.id === id);
+  if (!conflict) return state;
+
+  const { error, rejectedAt, ...entry } = conflict;
+  return {
+    entries: [...state.entries, { ...entry, attempts: 0, nextAttemptAt: undefined, lastError: error }],
+    conflicts: state.conflicts.filter(c => c.id !== id)
+  };
+}
+
+export function discardConflict(state: OutboxState, id: string): OutboxState {
+  return { ...state, conflicts: state.conflicts.filter(c => c.id !== id) };
+}
+
+/**
+ * Whether every given local change is queued or already in the conflict list,
+ * so a full sync would only push them again
+ */
+export function coversChanges(state: OutboxState, changes: SyncChange[]): boolean {
+  const queued = new Set(
+    [...state.entries, ...state.conflicts].flatMap(entry => entry.kind === 'change' ? [syncKey(entry.change)] : [])
+  );
+  return changes.every(change => queued.has(syncKey(change)));
+}
+
+/**
+ * Client errors mean the request itself is wrong and retrying won't help.
+ * Auth, timeout and rate-limit responses are worth retrying later.
+ */
+export function isRejectedStatus(status: number): boolean {
+  return status >= 400 && status < 500 && ![401, 408, 429].includes(status);
+}
+
+/**
+ * Short human-readable label for an entry, e.g. "Goal update"
+ */
+export function describeOutboxEntry(entry: OutboxEntry): string {
+  switch (entry.kind) {
+    case 'change': {
+      const entity = entry.change.entity.charAt(0).toUpperCase() + entry.change.entity.slice(1);
+      return `${entity} ${entry.change.op === 'delete' ? 'deletion' : 'update'}`;
+    }
+    case 'review':
+      return entry.review.action === 'snooze' ? 'Resource snooze' : 'Resource review';
+    case 'break':
+      return entry.breakLog.kind === 'long' ? 'Long break' : 'Short break';
+    case 'distraction':
+      return 'Distraction';
+    case 'item':
+      return entry.change.action === 'add' ? 'Checklist step added' : entry.change.action === 'remove' ? 'Checklist step removed' : 'Checklist step update';
+    case 'settings':
+      return 'Settings update';
+    case 'import':
+      return `Import of ${entry.resources.length} resource${entry.resources.length === 1 ? '' : 's'}`;
+  }
+}
+
+function deserializeOutbox(state: OutboxState): OutboxState {
+  const revive = <T extends OutboxEntry>(entry: T): T => {
+    const revived = {
+      ...entry,
+      queuedAt: new Date(entry.queuedAt),
+      nextAttemptAt: entry.nextAttemptAt ? new Date(entry.nextAttemptAt) : undefined
+    };
+
+    // Payloads sent as-is need their dates back too
+    if (revived.kind === 'break') {
+      revived.breakLog = { ...revived.breakLog, startedAt: new Date(revived.breakLog.startedAt) };
+    } else if (revived.kind === 'distraction') {
+      revived.distraction = { ...revived.distraction, occurredAt: new Date(revived.distraction.occurredAt) };
+    } else if (revived.kind === 'import') {
+      revived.resources = revived.resources.map(r => ({ ...r, createdAt: new Date(r.createdAt), updatedAt: new Date(r.updatedAt) }));
+    }
+    return revived;
+  };
+
+  return {
+    entries: (state.entries || []).map(revive),
+    conflicts: (state.conflicts || []).map(c => ({ ...revive(c), rejectedAt: new Date(c.rejectedAt) }))
+  };
+}
+
+export function getOutbox(): OutboxState {
+  if (typeof localStorage === 'undefined') {
+    return emptyOutbox;
+  }
+
+  try {
+    const stored = localStorage.getItem(OUTBOX_KEY);
+    return stored ? deserializeOutbox(JSON.parse(stored)) : emptyOutbox;
+  } catch (error) {
+    console.error('Failed to parse outbox:', error);
+    return emptyOutbox;
+  }
+}
+
+export function setOutbox(state: OutboxState): void {
+  if (typeof localStorage === 'undefined') {
+    return;
+  }
+
+  try {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(state));
+    window.dispatchEvent(new CustomEvent('outbox-updated', {
+      detail: { pending: state.entries.length, conflicts: state.conflicts.length }
+    }));
+  } catch (error) {
+    console.error('Failed to save outbox:', error);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for Pomodoro cycles
+ */
+
+import {
+  DEFAULT_POMODORO,
+  advancePomodoro,
+  getPomodoroSettings,
+  getNextPhase,
+  getCyclePosition,
+  getBreakKind,
+  getFocusToBreakRatio,
+  type PomodoroTimer
+} from './pomodoro.js';
+
+const MIN_MS = 60 * 1000;
+const start = new Date('2024-03-15T09:00:00Z').getTime();
+
+function runningTimer(overrides: Partial<PomodoroTimer> = {}): PomodoroTimer {
+  return { phase: 'work', completedWorkBlocks: 0, startTime: start, elapsedSeconds: 0, isRunning: true, ...overrides };
+}
+
+describe('Pomodoro', () => {
+  describe('getPomodoroSettings', () => {
+    test('should fall back to the defaults', () => {
+      expect(getPomodoroSettings({})).toEqual(DEFAULT_POMODORO);
+    });
+
+    test('should use the lengths from settings', () => {
+      const pomodoro = { workMin: 50, shortBreakMin: 10, longBreakMin: 30, cyclesBeforeLongBreak: 3 };
+      expect(getPomodoroSettings({ pomodoro })).toEqual(pomodoro);
+    });
+  });
+
+  describe('phases', () => {
+    test('should take a long break after every Nth work block', () => {
+      expect(getNextPhase('work', 1, DEFAULT_POMODORO)).toBe('shortBreak');
+      expect(getNextPhase('work', 3, DEFAULT_POMODORO)).toBe('shortBreak');
+      expect(getNextPhase('work', 4, DEFAULT_POMODORO)).toBe('longBreak');
+      expect(getNextPhase('work', 8, DEFAULT_POMODORO)).toBe('longBreak');
+      expect(getNextPhase('longBreak', 4, DEFAULT_POMODORO)).toBe('work');
+    });
+
+    test('should number work blocks within the current set', () => {
+      expect(getCyclePosition(runningTimer(), DEFAULT_POMODORO)).toBe(1);
+      expect(getCyclePosition(runningTimer({ completedWorkBlocks: 5 }), DEFAULT_POMODORO)).toBe(2);
+      expect(getCyclePosition(runningTimer({ phase: 'shortBreak', completedWorkBlocks: 2 }), DEFAULT_POMODORO)).toBe(2);
+      expect(getCyclePosition(runningTimer({ phase: 'longBreak', completedWorkBlocks: 4 }), DEFAULT_POMODORO)).toBe(4);
+    });
+
+    test('should map break phases to break kinds', () => {
+      expect(getBreakKind('shortBreak')).toBe('short');
+      expect(getBreakKind('longBreak')).toBe('long');
+    });
+  });
+
+  describe('advancePomodoro', () => {
+    test('should only update elapsed time mid-phase', () => {
+      const { timer, completed } = advancePomodoro(runningTimer(), DEFAULT_POMODORO, start + 10 * MIN_MS + 30000);
+
+      expect(completed).toEqual([]);
+      expect(timer).toMatchObject({ phase: 'work', elapsedSeconds: 630, isRunning: true });
+    });
+
+    test('should roll a finished work block into its break', () => {
+      const { timer, completed } = advancePomodoro(runningTimer(), DEFAULT_POMODORO, start + 27 * MIN_MS);
+
+      expect(completed).toEqual([{ phase: 'work', startedAt: new Date(start), durationMin: 25 }]);
+      expect(timer).toMatchObject({
+        phase: 'shortBreak',
+        completedWorkBlocks: 1,
+        startTime: start + 25 * MIN_MS,
+        elapsedSeconds: 120,
+        isRunning: true
+      });
+    });
+
+    test('should catch up on phases that ended while the page was closed', () => {
+      const { timer, completed } = advancePomodoro(runningTimer(), DEFAULT_POMODORO, start + 2 * 60 * MIN_MS);
+
+      expect(completed.map(p => p.phase)).toEqual(['work', 'shortBreak']);
+      expect(completed[1]).toEqual({ phase: 'shortBreak', startedAt: new Date(start + 25 * MIN_MS), durationMin: 5 });
+      expect(timer).toEqual({ phase: 'work', completedWorkBlocks: 1, startTime: null, elapsedSeconds: 0, isRunning: false });
+    });
+
+    test('should start a long break after the last block of a set', () => {
+      const { timer } = advancePomodoro(runningTimer({ completedWorkBlocks: 3 }), DEFAULT_POMODORO, start + 25 * MIN_MS);
+
+      expect(timer).toMatchObject({ phase: 'longBreak', completedWorkBlocks: 4, isRunning: true });
+    });
+
+    test('should leave a paused timer alone', () => {
+      const paused = runningTimer({ isRunning: false, elapsedSeconds: 600 });
+
+      expect(advancePomodoro(paused, DEFAULT_POMODORO, start + 60 * MIN_MS)).toEqual({ timer: paused, completed: [] });
+    });
+  });
+
+  describe('getFocusToBreakRatio', () => {
+    test('should divide focus minutes by break minutes', () => {
+      expect(getFocusToBreakRatio(100, 20)).toBe(5);
+    });
+
+    test('should be null without breaks', () => {
+      expect(getFocusToBreakRatio(100, 0)).toBeNull();
+    });
+  });
+});
\ No newline at end of file
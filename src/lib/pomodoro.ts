@@ -0,0 +1,125 @@
+/**
+ * Pomodoro cycles for the study timer
+ *
+ * Work blocks alternate with short breaks, and every few blocks the break is
+ * a long one. Phase transitions are computed from timestamps, so a timer
+ * restored after a refresh catches up on phases that ended in the meantime.
+ */
+
+import type { BreakLog, PomodoroSettings } from './models.js';
+
+export const DEFAULT_POMODORO: PomodoroSettings = {
+  workMin: 25,
+  shortBreakMin: 5,
+  longBreakMin: 15,
+  cyclesBeforeLongBreak: 4
+};
+
+export type PomodoroPhase = 'work' | 'shortBreak' | 'longBreak';
+
+export interface PomodoroTimer {
+  phase: PomodoroPhase;
+  completedWorkBlocks: number;
+  startTime: number | null; // ms timestamp the running phase started, shifted by pauses
+  elapsedSeconds: number;
+  isRunning: boolean;
+}
+
+export interface CompletedPhase {
+  phase: PomodoroPhase;
+  startedAt: Date;
+  durationMin: number;
+}
+
+export function getPomodoroSettings(settings: { pomodoro?: PomodoroSettings }): PomodoroSettings {
+  return { ...DEFAULT_POMODORO, ...settings.pomodoro };
+}
+
+export function getPhaseSeconds(phase: PomodoroPhase, settings: PomodoroSettings): number {
+  switch (phase) {
+    case 'work':
+      return settings.workMin * 60;
+    case 'shortBreak':
+      return settings.shortBreakMin * 60;
+    case 'longBreak':
+      return settings.longBreakMin * 60;
+  }
+}
+
+/**
+ * Phase that follows the given one. completedWorkBlocks already counts the
+ * block that just ended, so every Nth block is followed by a long break.
+ */
+export function getNextPhase(phase: PomodoroPhase, completedWorkBlocks: number, settings: PomodoroSettings): PomodoroPhase {
+  if (phase !== 'work') return 'work';
+  return completedWorkBlocks % settings.cyclesBeforeLongBreak === 0 ? 'longBreak' : 'shortBreak';
+}
+
+export function getBreakKind(phase: PomodoroPhase): BreakLog['kind'] {
+  return phase === 'longBreak' ? 'long' : 'short';
+}
+
+/**
+ * Work block number within the current set, e.g. 2 for "2 of 4"
+ */
+export function getCyclePosition(timer: PomodoroTimer, settings: PomodoroSettings): number {
+  const completedInSet = timer.completedWorkBlocks % settings.cyclesBeforeLongBreak;
+  if (timer.phase === 'work') return completedInSet + 1;
+  return completedInSet === 0 ? settings.cyclesBeforeLongBreak : completedInSet;
+}
+
+/**
+ * Finish every phase whose time is up. A finished work block rolls straight
+ * into its break; a finished break sets up the next work block but waits for
+ * the user to start it, so an unattended timer never logs phantom sessions.
+ */
+export function advancePomodoro(
+  timer: PomodoroTimer,
+  settings: PomodoroSettings,
+  now: number = Date.now()
+): { timer: PomodoroTimer; completed: CompletedPhase[] } {
+  const completed: CompletedPhase[] = [];
+  let current = { ...timer };
+
+  while (current.isRunning && current.startTime !== null) {
+    const phaseSeconds = getPhaseSeconds(current.phase, settings);
+    if (now - current.startTime < phaseSeconds * 1000) {
+      current.elapsedSeconds = Math.floor((now - current.startTime) / 1000);
+      break;
+    }
+
+    completed.push({
+      phase: current.phase,
+      startedAt: new Date(current.startTime),
+      durationMin: phaseSeconds / 60
+    });
+
+    if (current.phase === 'work') {
+      const completedWorkBlocks = current.completedWorkBlocks + 1;
+      current = {
+        phase: getNextPhase('work', completedWorkBlocks, settings),
+        completedWorkBlocks,
+        startTime: current.startTime + phaseSeconds * 1000,
+        elapsedSeconds: 0,
+        isRunning: true
+      };
+    } else {
+      current = {
+        phase: 'work',
+        completedWorkBlocks: current.completedWorkBlocks,
+        startTime: null,
+        elapsedSeconds: 0,
+        isRunning: false
+      };
+    }
+  }
+
+  return { timer: current, completed };
+}
+
+/**
+ * Minutes of focus per minute of break, or null without any breaks
+ */
+export function getFocusToBreakRatio(focusMinutes: number, breakMinutes: number): number | null {
+  return breakMinutes > 0 ? focusMinutes / breakMinutes : null;
+}
\ No newline at end of file
@@ -0,0 +1,101 @@
+/**
+ * Unit tests for server-side progress
+ */
+
+import type { DatabaseService } from './db.js';
+import { recalculateProgress } from './progress.js';
+
+const settings = { xp: 40, level: 1, streak: 2, longest_streak: 5, timezone: 'UTC' };
+
+function fakeDatabase(data: { sessions?: unknown[]; resources?: unknown[]; goals?: unknown[]; reviews?: unknown[]; xp?: number; ledgerSources?: unknown[] } = {}) {
+  return {
+    getSessionsByUserId: vi.fn(async () => data.sessions ?? []),
+    getResourcesByUserId: vi.fn(async () => data.resources ?? []),
+    getGoalsByUserId: vi.fn(async () => data.goals ?? []),
+    getReviewsByUserId: vi.fn(async () => data.reviews ?? []),
+    getAchievementsByUserId: vi.fn(async () => []),
+    getSettingsByUserId: vi.fn(async () => settings),
+    getXPLedgerSources: vi.fn(async () => data.ledgerSources ?? []),
+    reconcileXPLedger: vi.fn(async () => {}),
+    getXPTotal: vi.fn(async () => data.xp ?? settings.xp),
+    unlockAchievements: vi.fn(async () => {}),
+    updateSettings: vi.fn(async (_userId: string, patch: object) => ({ ...settings, ...patch }))
+  };
+}
+
+function asService(db: ReturnType<typeof fakeDatabase>): DatabaseService {
+  return db as unknown as DatabaseService;
+}
+
+const session = { id: 'ses-1', started_at: 1709280000, duration_min: 25, subject: 'Spanish' };
+
+describe('recalculateProgress', () => {
+  test('should reconcile only the touched session and load only sessions', async () => {
+    const db = fakeDatabase({ sessions: [session, { ...session, id: 'ses-2' }] });
+    await recalculateProgress(asService(db), 'user-1', [{ sourceType: 'session', sourceId: 'ses-1' }]);
+
+    expect(db.reconcileXPLedger).toHaveBeenCalledWith('user-1', [
+      { source_type: 'session', source_id: 'ses-1', amount: 10, reason: expect.any(String) }
+    ]);
+    expect(db.getResourcesByUserId).not.toHaveBeenCalled();
+    expect(db.getGoalsByUserId).not.toHaveBeenCalled();
+    expect(db.getXPLedgerSources).not.toHaveBeenCalled();
+    expect(db.unlockAchievements).toHaveBeenCalledWith('user-1', ['first-focus-session']);
+  });
+
+  test('should reconcile a deleted source down to zero', async () => {
+    const db = fakeDatabase();
+    await recalculateProgress(asService(db), 'user-1', [{ sourceType: 'session', sourceId: 'ses-9' }]);
+
+    expect(db.reconcileXPLedger).toHaveBeenCalledWith('user-1', [
+      { source_type: 'session', source_id: 'ses-9', amount: 0, reason: 'Session removed' }
+    ]);
+  });
+
+  test('should keep the stored streak when neither sessions nor freezes change', async () => {
+    const db = fakeDatabase({ goals: [{ id: 'goal-1', status: 'completed' }], xp: 50 });
+    const updated = await recalculateProgress(asService(db), 'user-1', [{ sourceType: 'goal', sourceId: 'goal-1' }]);
+
+    expect(db.getSessionsByUserId).not.toHaveBeenCalled();
+    expect(updated).toMatchObject({ xp: 50, streak: 2, longest_streak: 5 });
+  });
+
+  test('should recount the streak when XP buys another freeze', async () => {
+    const db = fakeDatabase({ goals: [{ id: 'goal-1', status: 'completed' }], xp: 100 });
+    await recalculateProgress(asService(db), 'user-1', [{ sourceType: 'goal', sourceId: 'goal-1' }]);
+
+    expect(db.getSessionsByUserId).toHaveBeenCalled();
+  });
+
+  test('should reconcile every source, including ones that no longer earn, without touched sources', async () => {
+    const db = fakeDatabase({
+      sessions: [session],
+      ledgerSources: [{ source_type: 'session', source_id: 'ses-1' }, { source_type: 'goal', source_id: 'goal-1' }]
+    });
+    await recalculateProgress(asService(db), 'user-1');
+
+    expect(db.reconcileXPLedger).toHaveBeenCalledWith('user-1', [
+      expect.objectContaining({ source_type: 'session', source_id: 'ses-1', amount: 10 }),
+      { source_type: 'goal', source_id: 'goal-1', amount: 0, reason: 'Goal no longer completed' }
+    ]);
+  });
+
+  test('should take back a shortened session\'s XP and the freezes it bought', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-03-10T12:00:00Z'));
+    // Down from 700 minutes (280 XP, two freezes) to 10; March 8 is missed
+    const db = fakeDatabase({
+      sessions: [
+        { ...session, started_at: Date.parse('2024-03-07T12:00:00Z') / 1000, duration_min: 10 },
+        { ...session, id: 'ses-2', started_at: Date.parse('2024-03-09T12:00:00Z') / 1000, duration_min: 30 },
+        { ...session, id: 'ses-3', started_at: Date.parse('2024-03-10T12:00:00Z') / 1000, duration_min: 30 }
+      ],
+      xp: 28
+    });
+    const updated = await recalculateProgress(asService(db), 'user-1', [{ sourceType: 'session', sourceId: 'ses-1' }]);
+    vi.useRealTimers();
+
+    expect(db.reconcileXPLedger).toHaveBeenCalledWith('user-1', [expect.objectContaining({ source_id: 'ses-1', amount: 4 })]);
+    expect(updated).toMatchObject({ xp: 28, streak: 2, longest_streak: 5 });
+  });
+});
\ No newline at end of file
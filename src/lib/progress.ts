@@ -0,0 +1,99 @@
+/**
+ * Server-side progress for ADHD Hub
+ * XP, level and streaks are derived from the user's sessions, resources,
+ * goals and reviews with the rules in xp.ts instead of being trusted from the client.
+ * Achievements are unlocked here too, with the rules in achievements.ts.
+ */
+
+import type { DatabaseService, Settings } from './db';
+import { calculateXPGrants, calculateLevel, calculateStreak, getStreakFreezes, getReversalReason, type XPSourceType } from './xp';
+import { evaluateAchievements } from './achievements';
+
+export interface ProgressSource {
+  sourceType: XPSourceType;
+  sourceId: string;
+}
+
+/**
+ * Bring the XP ledger in line with the user's data, store the derived
+ * XP, level and streaks in settings and unlock new achievements.
+ * Safe to call after any write.
+ *
+ * Pass the records a write touched to reconcile just those sources and load
+ * only the data they affect; leave it out after bulk writes (sync, import,
+ * cascading deletes) to reconcile everything.
+ */
+export async function recalculateProgress(db: DatabaseService, userId: string, touched?: ProgressSource[]): Promise<Settings | null> {
+  const full = touched === undefined;
+  const touches = (...types: XPSourceType[]) => full || touched.some(source => types.includes(source.sourceType));
+
+  const [sessions, resources, goals, reviews, achievements, settings] = await Promise.all([
+    touches('session') ? db.getSessionsByUserId(userId) : null,
+    touches('resource', 'review') ? db.getResourcesByUserId(userId) : null,
+    touches('goal') ? db.getGoalsByUserId(userId) : null,
+    touches('resource', 'review') ? db.getReviewsByUserId(userId) : null,
+    db.getAchievementsByUserId(userId),
+    db.getSettingsByUserId(userId)
+  ]);
+
+  const grants = calculateXPGrants({
+    sessions: (sessions ?? []).map(s => ({ id: s.id, durationMin: s.duration_min })),
+    resources: resources ?? [],
+    goals: goals ?? [],
+    reviews: reviews ?? []
+  });
+
+  // Sources that earn nothing (any more) are reconciled down to zero
+  const key = (source: ProgressSource) => `${source.sourceType}:${source.sourceId}`;
+  const sources = new Map<string, ProgressSource>();
+  (full ? (await db.getXPLedgerSources(userId)).map(s => ({ sourceType: s.source_type, sourceId: s.source_id })) : touched)
+    .forEach(source => sources.set(key(source), source));
+  const targets = [
+    ...grants.filter(grant => full || sources.has(key(grant))),
+    ...[...sources.values()]
+      .filter(source => !grants.some(grant => key(grant) === key(source)))
+      .map(source => ({ ...source, amount: 0, reason: getReversalReason(source.sourceType) }))
+  ];
+
+  await db.reconcileXPLedger(userId, targets.map(target => ({
+    source_type: target.sourceType,
+    source_id: target.sourceId,
+    amount: target.amount,
+    reason: target.reason
+  })));
+
+  const xp = await db.getXPTotal(userId);
+  const freezes = getStreakFreezes(xp);
+
+  // The streak only moves with sessions or with the freezes XP buys
+  const streakSessions = sessions ?? (freezes !== getStreakFreezes(settings?.xp ?? 0) ? await db.getSessionsByUserId(userId) : null);
+  const studySessions = (streakSessions ?? []).map(s => ({
+    startedAt: new Date(s.started_at * 1000),
+    durationMin: s.duration_min,
+    subject: s.subject ?? undefined
+  }));
+  // Days are counted in the user's timezone; UTC until a device reports one
+  const timeZone = settings?.timezone ?? 'UTC';
+  const streakInfo = streakSessions
+    ? calculateStreak(studySessions, { timeZone, freezes })
+    : { currentStreak: settings?.streak ?? 0, longestStreak: 0 };
+
+  // Each achievement looks at one kind of data, so ones whose data wasn't
+  // loaded just aren't met this time
+  const unlocked = evaluateAchievements({
+    sessions: studySessions,
+    resources: resources ?? [],
+    reviews: (reviews ?? []).map(r => ({ resourceId: r.resource_id, action: r.action })),
+    goals: goals ?? [],
+    xp,
+    timeZone
+  }, achievements.map(a => ({ id: a.achievement_id })));
+  await db.unlockAchievements(userId, unlocked.map(achievement => achievement.id));
+
+  return db.updateSettings(userId, {
+    xp,
+    level: calculateLevel(xp).level,
+    streak: streakInfo.currentStreak,
+    longest_streak: Math.max(settings?.longest_streak ?? 0, streakInfo.longestStreak)
+  });
+}
\ No newline at end of file
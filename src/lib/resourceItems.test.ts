@@ -0,0 +1,103 @@
+/**
+ * Unit tests for resource checklists
+ */
+
+import { getItemProgress, toggleItem, moveItem, shouldOfferReview, diffItems, type ItemChange } from './resourceItems.js';
+import type { Resource, ResourceItem } from './models.js';
+
+const items: ResourceItem[] = [
+  { id: 'a', title: 'Watch lecture 1', done: true, estimateMin: 50 },
+  { id: 'b', title: 'Problem set 1', done: false, estimateMin: 90 },
+  { id: 'c', title: 'Read notes', done: false }
+];
+
+function course(overrides: Partial<Resource> = {}): Resource {
+  const now = new Date('2024-03-15T12:00:00Z');
+  return {
+    id: 'course', title: '6.006', url: 'https://example.com/6006', subject: 'CS', type: 'course', priority: 3,
+    notes: '', tags: [], favorite: false, status: 'learning', createdAt: now, updatedAt: now,
+    items: items.map(item => ({ ...item, done: true })),
+    ...overrides
+  };
+}
+
+// Apply changes the way the items endpoint does
+function applyChanges(before: ResourceItem[], changes: ItemChange[]): ResourceItem[] {
+  let result = [...before];
+  changes.forEach(change => {
+    if (change.action === 'remove') {
+      result = result.filter(item => item.id !== change.itemId);
+    } else if (change.action === 'add') {
+      result.push(change.item);
+    } else {
+      const { position, estimateMin, ...fields } = change.changes;
+      const index = result.findIndex(item => item.id === change.itemId);
+      const [item] = result.splice(index, 1);
+      const updated = { ...item, ...fields, ...(estimateMin !== undefined && { estimateMin: estimateMin ?? undefined }) };
+      result.splice(position ?? index, 0, updated);
+    }
+  });
+  return result;
+}
+
+describe('Resource items', () => {
+  test('should count done steps and the minutes left', () => {
+    expect(getItemProgress(items)).toEqual({ done: 1, total: 3, remainingMin: 90 });
+    expect(getItemProgress(undefined)).toEqual({ done: 0, total: 0, remainingMin: 0 });
+  });
+
+  test('should toggle one step', () => {
+    const toggled = toggleItem(items, 'b');
+
+    expect(toggled.map(item => item.done)).toEqual([true, true, false]);
+    expect(items[1].done).toBe(false);
+  });
+
+  test('should move steps and keep them inside the list', () => {
+    expect(moveItem(items, 'c', -1).map(item => item.id)).toEqual(['a', 'c', 'b']);
+    expect(moveItem(items, 'a', 1).map(item => item.id)).toEqual(['b', 'a', 'c']);
+    expect(moveItem(items, 'a', -1)).toBe(items);
+    expect(moveItem(items, 'missing', 1)).toBe(items);
+  });
+
+  describe('shouldOfferReview', () => {
+    test('should offer once every step of an unreviewed resource is done', () => {
+      expect(shouldOfferReview(course())).toBe(true);
+      expect(shouldOfferReview(course({ status: 'new' }))).toBe(true);
+    });
+
+    test('should not offer with steps left, without steps or once reviewing', () => {
+      expect(shouldOfferReview(course({ items }))).toBe(false);
+      expect(shouldOfferReview(course({ items: [] }))).toBe(false);
+      expect(shouldOfferReview(course({ status: 'reviewing' }))).toBe(false);
+      expect(shouldOfferReview(course({ status: 'done' }))).toBe(false);
+    });
+  });
+
+  describe('diffItems', () => {
+    test('should send a toggle as a single step update', () => {
+      expect(diffItems(items, toggleItem(items, 'b'))).toEqual([{ action: 'update', itemId: 'b', changes: { done: true } }]);
+    });
+
+    test('should send a move as a new position', () => {
+      expect(diffItems(items, moveItem(items, 'b', 1))).toEqual([{ action: 'update', itemId: 'c', changes: { position: 1 } }]);
+    });
+
+    test('should turn one checklist into another', () => {
+      const after: ResourceItem[] = [
+        { id: 'd', title: 'Quiz 1', done: false, estimateMin: 20 },
+        { id: 'c', title: 'Read lecture notes', done: false },
+        { ...items[0], estimateMin: undefined }
+      ];
+      const changes = diffItems(items, after);
+
+      expect(changes.slice(0, 2)).toEqual([{ action: 'remove', itemId: 'b' }, { action: 'add', item: after[0] }]);
+      expect(changes).toContainEqual({ action: 'update', itemId: 'a', changes: { estimateMin: null } });
+      expect(applyChanges(items, changes)).toEqual(after);
+    });
+
+    test('should send nothing for an unchanged checklist', () => {
+      expect(diffItems(items, items.map(item => ({ ...item })))).toEqual([]);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,109 @@
+/**
+ * Resource checklists for ADHD Hub
+ *
+ * A big resource (a course, a textbook) can be broken into small ordered steps
+ * that are ticked off one at a time. Finishing the last step is a natural
+ * moment to start reviewing the resource.
+ */
+
+import type { Resource, ResourceItem } from './models.js';
+
+export const MAX_ITEMS_PER_RESOURCE = 100;
+export const MAX_ITEM_TITLE_LENGTH = 200;
+
+export interface ItemProgress {
+  done: number;
+  total: number;
+  remainingMin: number; // estimates of the steps left; unestimated steps count as 0
+}
+
+export function getItemProgress(items: ResourceItem[] = []): ItemProgress {
+  const left = items.filter(item => !item.done);
+  return {
+    done: items.length - left.length,
+    total: items.length,
+    remainingMin: left.reduce((sum, item) => sum + (item.estimateMin ?? 0), 0)
+  };
+}
+
+export function toggleItem(items: ResourceItem[], id: string): ResourceItem[] {
+  return items.map(item => item.id === id ? { ...item, done: !item.done } : item);
+}
+
+/**
+ * Move a step up (-1) or down (+1); steps already at the edge stay put
+ */
+export function moveItem(items: ResourceItem[], id: string, offset: -1 | 1): ResourceItem[] {
+  const from = items.findIndex(item => item.id === id);
+  const to = from + offset;
+  if (from === -1 || to < 0 || to >= items.length) return items;
+
+  const moved = [...items];
+  [moved[from], moved[to]] = [moved[to], moved[from]];
+  return moved;
+}
+
+/**
+ * One step-level edit, as sent to /api/resources/:resourceId/items. Edits from
+ * two devices to different steps of the same resource both survive this way.
+ */
+export interface ItemUpdate {
+  title?: string;
+  done?: boolean;
+  estimateMin?: number | null; // null clears the estimate
+  position?: number; // 0-based; later steps shift down
+}
+
+export type ItemChange =
+  | { action: 'add'; item: ResourceItem } // appended at the end
+  | { action: 'update'; itemId: string; changes: ItemUpdate }
+  | { action: 'remove'; itemId: string };
+
+/**
+ * Step-level edits that turn one checklist into another: removals, then
+ * additions, then updates in the new order, each moving its step into place.
+ */
+export function diffItems(before: ResourceItem[], after: ResourceItem[]): ItemChange[] {
+  const kept = new Set(after.map(item => item.id));
+  const previous = new Map(before.map(item => [item.id, item]));
+  const changes: ItemChange[] = [];
+
+  before
+    .filter(item => !kept.has(item.id))
+    .forEach(item => changes.push({ action: 'remove', itemId: item.id }));
+  after
+    .filter(item => !previous.has(item.id))
+    .forEach(item => changes.push({ action: 'add', item }));
+
+  // The order the server has once removals and additions are in
+  const order = [...before.filter(item => kept.has(item.id)), ...after.filter(item => !previous.has(item.id))].map(item => item.id);
+
+  after.forEach((item, position) => {
+    const old = previous.get(item.id);
+    const update: ItemUpdate = {};
+    if (old && old.title !== item.title) update.title = item.title;
+    if (old && old.done !== item.done) update.done = item.done;
+    if (old && old.estimateMin !== item.estimateMin) update.estimateMin = item.estimateMin ?? null;
+
+    if (order[position] !== item.id) {
+      order.splice(order.indexOf(item.id), 1);
+      order.splice(position, 0, item.id);
+      update.position = position;
+    }
+
+    if (Object.keys(update).length > 0) {
+      changes.push({ action: 'update', itemId: item.id, changes: update });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Every step is done and the resource hasn't been reviewed yet, so a "good"
+ * review would move it to reviewing
+ */
+export function shouldOfferReview(resource: Resource): boolean {
+  const { done, total } = getItemProgress(resource.items);
+  return total > 0 && done === total && (resource.status === 'new' || resource.status === 'learning');
+}
\ No newline at end of file
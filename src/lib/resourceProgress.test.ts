@@ -0,0 +1,90 @@
+/**
+ * Unit tests for resource progress
+ */
+
+import {
+  isTrackedResource,
+  formatUnits,
+  getProgressPct,
+  advanceProgress,
+  getRecentPace,
+  estimateCompletionDate,
+  describeCompletion,
+  type TrackedResource
+} from './resourceProgress.js';
+import type { Resource, Session } from './models.js';
+
+const now = new Date('2024-03-15T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function book(overrides: Partial<Resource> = {}): TrackedResource {
+  return {
+    id: 'book', title: 'SICP', url: 'https://example.com/sicp', subject: 'CS', type: 'book', priority: 3,
+    notes: '', tags: [], favorite: false, status: 'learning', createdAt: now, updatedAt: now,
+    progressUnit: 'chapters', totalUnits: 40, currentUnit: 10,
+    ...overrides
+  } as TrackedResource;
+}
+
+function session(daysAgo: number, unitsCompleted?: number, resourceId: string = 'book'): Session {
+  return { id: `s${daysAgo}`, startedAt: new Date(now.getTime() - daysAgo * DAY_MS), durationMin: 30, resourceId, unitsCompleted };
+}
+
+describe('Resource progress', () => {
+  test('should only track resources with a unit and a total', () => {
+    expect(isTrackedResource(book())).toBe(true);
+    expect(isTrackedResource(book({ totalUnits: 0 }))).toBe(false);
+    expect(isTrackedResource(book({ progressUnit: undefined }))).toBe(false);
+  });
+
+  test('should format unit counts', () => {
+    expect(formatUnits(1, 'pages')).toBe('1 page');
+    expect(formatUnits(12, 'lessons')).toBe('12 lessons');
+  });
+
+  test('should compute percent done and clamp advances to the total', () => {
+    expect(getProgressPct(book())).toBe(25);
+    expect(getProgressPct(book({ currentUnit: undefined }))).toBe(0);
+    expect(advanceProgress(book(), 5)).toBe(15);
+    expect(advanceProgress(book(), 50)).toBe(40);
+  });
+
+  describe('getRecentPace', () => {
+    test('should spread units over the days since the first recent session', () => {
+      const sessions = [session(4, 2), session(2, 3), session(1, 3)];
+
+      expect(getRecentPace('book', sessions, now)).toBe(2);
+    });
+
+    test('should ignore old sessions, other resources and sessions without units', () => {
+      const sessions = [session(40, 20), session(2, 4, 'other'), session(1), session(0.5, 1)];
+
+      expect(getRecentPace('book', sessions, now)).toBe(1); // one unit, counted over at least a day
+    });
+
+    test('should return null without logged units', () => {
+      expect(getRecentPace('book', [session(1)], now)).toBeNull();
+    });
+  });
+
+  describe('estimateCompletionDate', () => {
+    test('should project the remaining units at the recent pace', () => {
+      const sessions = [session(4, 2), session(2, 3), session(1, 3)]; // 2 a day, 30 left
+
+      expect(estimateCompletionDate(book(), sessions, now)).toEqual(new Date(now.getTime() + 15 * DAY_MS));
+    });
+
+    test('should not estimate finished resources or without a pace', () => {
+      expect(estimateCompletionDate(book({ currentUnit: 40 }), [session(1, 5)], now)).toBeNull();
+      expect(estimateCompletionDate(book(), [], now)).toBeNull();
+    });
+  });
+
+  describe('describeCompletion', () => {
+    test('should say finished, give the estimate or ask for logged progress', () => {
+      expect(describeCompletion(book({ currentUnit: 40 }), [], now)).toBe('Finished');
+      expect(describeCompletion(book(), [session(1, 30)], now)).toMatch(/^Done by .+ at this pace$/);
+      expect(describeCompletion(book(), [], now)).toBe("Log progress with a session to see when you'll finish");
+    });
+  });
+});
\ No newline at end of file
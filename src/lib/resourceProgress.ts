@@ -0,0 +1,100 @@
+/**
+ * Resource progress for ADHD Hub
+ *
+ * Books, courses and playlists can be tracked unit by unit (pages, chapters,
+ * lessons...) on top of their status. Sessions linked to a resource log how
+ * many units they got through; the recent pace of those sessions gives an
+ * estimated finish date.
+ */
+
+import type { ProgressUnit, Resource, Session } from './models.js';
+
+export const PROGRESS_UNITS: Record<ProgressUnit, { label: string; singular: string }> = {
+  pages: { label: 'Pages', singular: 'page' },
+  chapters: { label: 'Chapters', singular: 'chapter' },
+  lessons: { label: 'Lessons', singular: 'lesson' },
+  modules: { label: 'Modules', singular: 'module' },
+  episodes: { label: 'Episodes', singular: 'episode' },
+  videos: { label: 'Videos', singular: 'video' }
+};
+
+/**
+ * Rules:
+ * - Pace counts the units logged on the resource over the last 4 weeks
+ * - It is spread over the days since the first of those sessions (at least one),
+ *   so a resource started yesterday isn't judged on a 4-week average
+ */
+export const PACE_RULES = {
+  WINDOW_DAYS: 28
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type TrackedResource = Resource & { progressUnit: ProgressUnit; totalUnits: number };
+
+export function isTrackedResource(resource: Resource): resource is TrackedResource {
+  return resource.progressUnit !== undefined && (resource.totalUnits ?? 0) > 0;
+}
+
+export function formatUnits(count: number, unit: ProgressUnit): string {
+  return `${count} ${count === 1 ? PROGRESS_UNITS[unit].singular : PROGRESS_UNITS[unit].label.toLowerCase()}`;
+}
+
+/**
+ * Percent of the units finished, 0-100
+ */
+export function getProgressPct(resource: TrackedResource): number {
+  return Math.min(100, Math.round(((resource.currentUnit ?? 0) / resource.totalUnits) * 100));
+}
+
+/**
+ * Position after a session got through `units` more, never past the end
+ */
+export function advanceProgress(resource: TrackedResource, units: number): number {
+  return Math.min(resource.totalUnits, Math.max(0, (resource.currentUnit ?? 0) + units));
+}
+
+/**
+ * Units per day on this resource recently, or null without logged units
+ */
+export function getRecentPace(resourceId: string, sessions: Session[], now: Date = new Date()): number | null {
+  const windowStart = now.getTime() - PACE_RULES.WINDOW_DAYS * DAY_MS;
+  const recent = sessions.filter(s =>
+    s.resourceId === resourceId &&
+    (s.unitsCompleted ?? 0) > 0 &&
+    new Date(s.startedAt).getTime() >= windowStart &&
+    new Date(s.startedAt).getTime() <= now.getTime()
+  );
+  if (recent.length === 0) return null;
+
+  const units = recent.reduce((sum, s) => sum + (s.unitsCompleted ?? 0), 0);
+  const firstSession = Math.min(...recent.map(s => new Date(s.startedAt).getTime()));
+  const days = Math.max(1, (now.getTime() - firstSession) / DAY_MS);
+  return units / days;
+}
+
+/**
+ * When the resource will be finished at the recent pace; null when it's
+ * already finished or there is no recent pace to go on
+ */
+export function estimateCompletionDate(resource: TrackedResource, sessions: Session[], now: Date = new Date()): Date | null {
+  const remaining = resource.totalUnits - (resource.currentUnit ?? 0);
+  if (remaining <= 0) return null;
+
+  const pace = getRecentPace(resource.id, sessions, now);
+  if (!pace) return null;
+
+  return new Date(now.getTime() + Math.ceil(remaining / pace) * DAY_MS);
+}
+
+/**
+ * Line shown under the progress bar, e.g. "Done by Mar 30 at this pace"
+ */
+export function describeCompletion(resource: TrackedResource, sessions: Session[], now: Date = new Date()): string {
+  if ((resource.currentUnit ?? 0) >= resource.totalUnits) return 'Finished';
+
+  const estimate = estimateCompletionDate(resource, sessions, now);
+  return estimate
+    ? `Done by ${estimate.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} at this pace`
+    : 'Log progress with a session to see when you\'ll finish';
+}
\ No newline at end of file
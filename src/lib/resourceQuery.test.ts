@@ -0,0 +1,145 @@
+/**
+ * Unit tests for resource search and pagination
+ */
+
+import {
+  getSearchTokens,
+  toFtsQuery,
+  encodeResourceCursor,
+  decodeResourceCursor,
+  getEndOfToday,
+  queryLocalResources
+} from './resourceQuery.js';
+import type { Resource } from './models.js';
+
+function resource(id: string, overrides: Partial<Resource> = {}): Resource {
+  return {
+    id,
+    title: `Resource ${id}`,
+    url: `https://example.com/${id}`,
+    subject: 'Math',
+    type: 'article',
+    priority: 3,
+    notes: '',
+    tags: [],
+    favorite: false,
+    status: 'new',
+    createdAt: new Date('2024-03-01T10:00:00Z'),
+    updatedAt: new Date('2024-03-01T10:00:00Z'),
+    ...overrides
+  };
+}
+
+describe('Resource query', () => {
+  describe('search', () => {
+    test('should split search text into lowercase words', () => {
+      expect(getSearchTokens('  Linear-Algèbre, ch.3 ')).toEqual(['linear', 'algebre', 'ch', '3']);
+      expect(getSearchTokens(undefined)).toEqual([]);
+    });
+
+    test('should quote every word as an FTS5 prefix', () => {
+      expect(toFtsQuery('lin "alg" OR NEAR(')).toBe('"lin"* "alg"* "or"* "near"*');
+      expect(toFtsQuery('  --  ')).toBeNull();
+    });
+
+    test('should require every word as a prefix of the title, notes or URL', () => {
+      const resources = [
+        resource('a', { title: 'Linear Algebra Done Right' }),
+        resource('b', { title: 'Calculus', notes: 'Linear approximations' }),
+        resource('c', { title: 'Podcast', url: 'https://algebra.fm/linear' }),
+        resource('d', { title: 'Nonlinear dynamics' })
+      ];
+
+      const result = queryLocalResources(resources, { search: 'LIN alg' });
+
+      expect(result.resources.map(r => r.id).sort()).toEqual(['a', 'c']);
+    });
+  });
+
+  describe('filters', () => {
+    test('should combine filters', () => {
+      const resources = [
+        resource('a', { subject: 'Math', type: 'video', priority: 1 }),
+        resource('b', { subject: 'Math', type: 'video', priority: 2 }),
+        resource('c', { subject: 'History', type: 'video', priority: 1 })
+      ];
+
+      const result = queryLocalResources(resources, { subject: 'Math', type: 'video', priority: 1 });
+
+      expect(result.resources.map(r => r.id)).toEqual(['a']);
+    });
+
+    test('should keep resources carrying every selected tag', () => {
+      const resources = [
+        resource('a', { tags: ['exam', 'ml course'] }),
+        resource('b', { tags: ['ml course'] }),
+        resource('c')
+      ];
+
+      expect(queryLocalResources(resources, { tags: ['ml course'] }).resources.map(r => r.id).sort()).toEqual(['a', 'b']);
+      expect(queryLocalResources(resources, { tags: ['ml course', 'exam'] }).resources.map(r => r.id)).toEqual(['a']);
+    });
+
+    test('should only keep unfinished resources due before the cutoff', () => {
+      const now = new Date('2024-03-15T12:00:00');
+      const resources = [
+        resource('due', { nextReviewDate: new Date('2024-03-15T20:00:00') }),
+        resource('overdue', { nextReviewDate: new Date('2024-03-10T09:00:00') }),
+        resource('tomorrow', { nextReviewDate: new Date('2024-03-16T00:00:00') }),
+        resource('done', { status: 'done', nextReviewDate: new Date('2024-03-10T09:00:00') }),
+        resource('unscheduled')
+      ];
+
+      const result = queryLocalResources(resources, { dueBefore: getEndOfToday(now) });
+
+      expect(result.resources.map(r => r.id).sort()).toEqual(['due', 'overdue']);
+    });
+  });
+
+  describe('sorting and pagination', () => {
+    const resources = [
+      resource('a', { priority: 2, title: 'beta', createdAt: new Date('2024-03-03T10:00:00Z') }),
+      resource('b', { priority: 1, title: 'Alpha', createdAt: new Date('2024-03-01T10:00:00Z') }),
+      resource('c', { priority: 2, title: 'gamma', createdAt: new Date('2024-03-03T10:00:00Z') }),
+      resource('d', { priority: 5, title: 'delta', createdAt: new Date('2024-03-02T10:00:00Z') })
+    ];
+
+    test('should default to newest first with ties broken by id', () => {
+      expect(queryLocalResources(resources).resources.map(r => r.id)).toEqual(['c', 'a', 'd', 'b']);
+    });
+
+    test('should sort by priority and case-insensitive title ascending', () => {
+      expect(queryLocalResources(resources, { sort: 'priority' }).resources.map(r => r.id)).toEqual(['b', 'a', 'c', 'd']);
+      expect(queryLocalResources(resources, { sort: 'title' }).resources.map(r => r.id)).toEqual(['b', 'a', 'd', 'c']);
+    });
+
+    test('should walk every page exactly once', () => {
+      const ids: string[] = [];
+      let cursor: string | null = null;
+
+      do {
+        const page = queryLocalResources(resources, { sort: 'priority' }, { limit: 3, cursor });
+        ids.push(...page.resources.map(r => r.id));
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      expect(ids).toEqual(['b', 'a', 'c', 'd']);
+    });
+
+    test('should not return a cursor after the last page', () => {
+      expect(queryLocalResources(resources, {}, { limit: 4 }).nextCursor).toBeNull();
+    });
+  });
+
+  describe('cursors', () => {
+    test('should round-trip cursors', () => {
+      expect(decodeResourceCursor(encodeResourceCursor([1709287200, 'abc']))).toEqual([1709287200, 'abc']);
+    });
+
+    test('should reject malformed cursors', () => {
+      expect(decodeResourceCursor('not json')).toBeNull();
+      expect(decodeResourceCursor('[1, 2]')).toBeNull();
+      expect(decodeResourceCursor('{"id": "abc"}')).toBeNull();
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,160 @@
+/**
+ * Resource search and pagination for ADHD Hub
+ *
+ * The same rules run on the server (SQL in db.ts) and in the browser against
+ * the local copy, so guests and offline users see the same results as the
+ * cloud. Pages are cut with keyset cursors: the last row's sort value and id,
+ * with timestamps in unix seconds as the API reports them.
+ */
+
+import type { Resource, ResourcePriority, ResourceStatus, ResourceType } from './models.js';
+
+export type ResourceSort = 'priority' | 'updated' | 'created' | 'title';
+
+export interface ResourceQuery {
+  search?: string; // words matched against title, notes and URL
+  subject?: string;
+  type?: ResourceType;
+  priority?: ResourcePriority;
+  status?: ResourceStatus;
+  tags?: string[]; // resources carrying all of them
+  dueBefore?: Date; // only unfinished resources due for review before this moment
+  sort?: ResourceSort; // defaults to newest first
+}
+
+export interface ResourcePageRequest {
+  limit?: number; // all matches when omitted
+  cursor?: string | null;
+}
+
+export interface ResourcePage {
+  resources: Resource[];
+  nextCursor: string | null;
+}
+
+export type ResourceCursor = [value: number | string, id: string];
+
+export const RESOURCE_PAGE_SIZE = 30;
+
+export const RESOURCE_SORTS: Record<ResourceSort, { direction: 'asc' | 'desc' }> = {
+  priority: { direction: 'asc' },
+  updated: { direction: 'desc' },
+  created: { direction: 'desc' },
+  title: { direction: 'asc' }
+};
+
+/**
+ * Words to search for, split and folded the way SQLite's FTS5 unicode61 tokenizer does
+ */
+export function getSearchTokens(search: string | undefined): string[] {
+  return (search ?? '').normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * FTS5 MATCH expression requiring every word as a prefix, e.g. `"lin"* "alg"*`.
+ * Quoting keeps user input from being read as FTS5 syntax. Null when there is nothing to search for.
+ */
+export function toFtsQuery(search: string | undefined): string | null {
+  const tokens = getSearchTokens(search);
+  return tokens.length > 0 ? tokens.map(token => `"${token}"*`).join(' ') : null;
+}
+
+export function encodeResourceCursor(cursor: ResourceCursor): string {
+  return JSON.stringify(cursor);
+}
+
+/**
+ * Null if the cursor wasn't produced by encodeResourceCursor
+ */
+export function decodeResourceCursor(cursor: string): ResourceCursor | null {
+  try {
+    const decoded = JSON.parse(cursor);
+    const isValid = Array.isArray(decoded) && decoded.length === 2 &&
+      ['number', 'string'].includes(typeof decoded[0]) && typeof decoded[1] === 'string';
+    return isValid ? [decoded[0], decoded[1]] : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Start of tomorrow on this device, for "due today" queries
+ */
+export function getEndOfToday(now: Date = new Date()): Date {
+  const end = new Date(now);
+  end.setHours(24, 0, 0, 0);
+  return end;
+}
+
+function toEpochSeconds(date: Date): number {
+  return Math.floor(new Date(date).getTime() / 1000);
+}
+
+function getSortValue(resource: Resource, sort: ResourceSort): number | string {
+  switch (sort) {
+    case 'priority':
+      return resource.priority;
+    case 'updated':
+      return toEpochSeconds(resource.updatedAt);
+    case 'created':
+      return toEpochSeconds(resource.createdAt);
+    case 'title':
+      return resource.title.toLowerCase();
+  }
+}
+
+function compareKeys(a: ResourceCursor, b: ResourceCursor): number {
+  if (a[0] !== b[0]) return a[0] < b[0] ? -1 : 1;
+  if (a[1] !== b[1]) return a[1] < b[1] ? -1 : 1;
+  return 0;
+}
+
+function matchesQuery(resource: Resource, query: ResourceQuery, tokens: string[]): boolean {
+  if (query.subject && resource.subject !== query.subject) return false;
+  if (query.type && resource.type !== query.type) return false;
+  if (query.priority && resource.priority !== query.priority) return false;
+  if (query.status && resource.status !== query.status) return false;
+  if (query.tags && !query.tags.every(tag => resource.tags.includes(tag))) return false;
+
+  if (query.dueBefore) {
+    const isDue = resource.status !== 'done' && resource.nextReviewDate &&
+      new Date(resource.nextReviewDate) < query.dueBefore;
+    if (!isDue) return false;
+  }
+
+  if (tokens.length > 0) {
+    const words = getSearchTokens(`${resource.title} ${resource.notes} ${resource.url}`);
+    return tokens.every(token => words.some(word => word.startsWith(token)));
+  }
+
+  return true;
+}
+
+/**
+ * Filter, sort and page the local copy with the same rules as GET /api/resources
+ */
+export function queryLocalResources(
+  resources: Resource[],
+  query: ResourceQuery = {},
+  page: ResourcePageRequest = {}
+): ResourcePage {
+  const sort = query.sort ?? 'created';
+  const sign = RESOURCE_SORTS[sort].direction === 'asc' ? 1 : -1;
+  const tokens = getSearchTokens(query.search);
+  const after = page.cursor ? decodeResourceCursor(page.cursor) : null;
+
+  const keyed = resources
+    .filter(resource => matchesQuery(resource, query, tokens))
+    .map(resource => ({ resource, key: [getSortValue(resource, sort), resource.id] as ResourceCursor }))
+    .filter(({ key }) => !after || sign * compareKeys(key, after) > 0)
+    .sort((a, b) => sign * compareKeys(a.key, b.key));
+
+  const limit = page.limit ?? keyed.length;
+  const rows = keyed.slice(0, limit);
+  const hasMore = keyed.length > limit;
+
+  return {
+    resources: rows.map(({ resource }) => resource),
+    nextCursor: hasMore && rows.length > 0 ? encodeResourceCursor(rows[rows.length - 1].key) : null
+  };
+}
\ No newline at end of file
@@ -12,7 +12,11 @@ import {
   getDaysUntilReview,
   formatReviewDate,
   getReviewProgress,
-  REVIEW_INTERVALS
+  getSchedulingState,
+  calculateNextInterval,
+  previewIntervals,
+  REVIEW_INTERVALS,
+  SCHEDULER_RULES
 } from './review.js';
 import type { Resource } from './models.js';
 
@@ -25,6 +29,7 @@ const createMockResource = (overrides: Partial<Resource> = {}): Resource => ({
   type: 'article',
   priority: 3,
   notes: '',
+  tags: [],
   favorite: false,
   status: 'new',
   createdAt: new Date(),
@@ -64,45 +69,61 @@ describe('Spaced Repetition Review System', () => {
       expect(result.nextReviewDate).toBeDefined();
     });
 
-    test('should progress through reviewing intervals correctly', () => {
-      // First review (3 days)
+    test('should grow reviewing intervals by the ease factor on good reviews', () => {
+      // 3 days × 2.5 ease = 7.5 → 8 days
       const resource1 = createMockResource({ 
         status: 'reviewing', 
-        lastReviewInterval: 3 
+        lastReviewInterval: 3,
+        easeFactor: 2.5
       });
-      const result1 = calculateReviewProgression(resource1);
+      const result1 = calculateReviewProgression(resource1, 'good');
       expect(result1.status).toBe('reviewing');
-      expect(result1.lastReviewInterval).toBe(7);
+      expect(result1.lastReviewInterval).toBe(8);
+      expect(result1.easeFactor).toBe(2.5);
+      expect(result1.stability).toBe(8);
 
-      // Second review (7 days)
+      // 8 days × 2.5 ease = 20 days
       const resource2 = createMockResource({ 
         status: 'reviewing', 
-        lastReviewInterval: 7 
+        lastReviewInterval: 8,
+        easeFactor: 2.5
       });
-      const result2 = calculateReviewProgression(resource2);
+      const result2 = calculateReviewProgression(resource2, 'good');
       expect(result2.status).toBe('reviewing');
-      expect(result2.lastReviewInterval).toBe(14);
+      expect(result2.lastReviewInterval).toBe(20);
 
-      // Third review (14 days)
+      // Lower ease factor grows intervals more slowly: 20 × 1.5 = 30 days
       const resource3 = createMockResource({ 
         status: 'reviewing', 
-        lastReviewInterval: 14 
+        lastReviewInterval: 20,
+        easeFactor: 1.5
       });
-      const result3 = calculateReviewProgression(resource3);
+      const result3 = calculateReviewProgression(resource3, 'good');
       expect(result3.status).toBe('reviewing');
       expect(result3.lastReviewInterval).toBe(30);
 
-      // Final review (30 days) - should mark as done
+      // Good review at the mastery interval (30 days) - should mark as done
       const resource4 = createMockResource({ 
         status: 'reviewing', 
         lastReviewInterval: 30 
       });
-      const result4 = calculateReviewProgression(resource4);
+      const result4 = calculateReviewProgression(resource4, 'good');
       expect(result4.status).toBe('done');
       expect(result4.nextReviewDate).toBeUndefined();
       expect(result4.lastReviewInterval).toBe(30);
     });
 
+    test('should default to a good grade', () => {
+      const resource = createMockResource({ 
+        status: 'reviewing', 
+        lastReviewInterval: 3,
+        easeFactor: 2.5
+      });
+
+      expect(calculateReviewProgression(resource))
+        .toEqual(calculateReviewProgression(resource, 'good'));
+    });
+
     test('should not change done resources', () => {
       const resource = createMockResource({ 
         status: 'done',
@@ -124,7 +145,171 @@ describe('Spaced Repetition Review System', () => {
       const result = calculateReviewProgression(resource);
 
       expect(result.status).toBe('reviewing');
-      expect(result.lastReviewInterval).toBe(7); // Should progress from default 3 to 7
+      expect(result.lastReviewInterval).toBe(8); // Should progress from default 3 to 3 × 2.5
+    });
+  });
+
+  describe('graded reviews', () => {
+    test('should schedule first reviews by grade', () => {
+      const resource = createMockResource({ status: 'new' });
+
+      expect(calculateReviewProgression(resource, 'again').lastReviewInterval).toBe(1);
+      expect(calculateReviewProgression(resource, 'hard').lastReviewInterval).toBe(2);
+      expect(calculateReviewProgression(resource, 'good').lastReviewInterval).toBe(3);
+      expect(calculateReviewProgression(resource, 'easy').lastReviewInterval).toBe(5);
+    });
+
+    test('should keep a forgotten first review in learning', () => {
+      const result = calculateReviewProgression(createMockResource({ status: 'new' }), 'again');
+
+      expect(result.status).toBe('learning');
+      expect(result.easeFactor).toBe(2.3);
+
+      const expectedDate = new Date();
+      expectedDate.setHours(0, 0, 0, 0);
+      expectedDate.setDate(expectedDate.getDate() + 1);
+      expect(result.nextReviewDate?.getTime()).toBe(expectedDate.getTime());
+    });
+
+    test('should reset interval and halve stability on again', () => {
+      const resource = createMockResource({ 
+        status: 'reviewing', 
+        lastReviewInterval: 14,
+        easeFactor: 2.5,
+        stability: 14
+      });
+      const result = calculateReviewProgression(resource, 'again');
+
+      expect(result.status).toBe('learning');
+      expect(result.lastReviewInterval).toBe(1);
+      expect(result.easeFactor).toBe(2.3);
+      expect(result.stability).toBe(7);
+    });
+
+    test('should grow interval slowly and lower ease on hard', () => {
+      const resource = createMockResource({ 
+        status: 'reviewing', 
+        lastReviewInterval: 10,
+        easeFactor: 2.5
+      });
+      const result = calculateReviewProgression(resource, 'hard');
+
+      expect(result.status).toBe('reviewing');
+      expect(result.lastReviewInterval).toBe(12); // 10 × 1.2
+      expect(result.easeFactor).toBe(2.35);
+    });
+
+    test('should always grow interval by at least one day on hard', () => {
+      const resource = createMockResource({ 
+        status: 'reviewing', 
+        lastReviewInterval: 2,
+        easeFactor: 2.5
+      });
+
+      expect(calculateNextInterval(resource, 'hard')).toBe(3);
+    });
+
+    test('should grow interval fastest and raise ease on easy', () => {
+      const resource = createMockResource({ 
+        status: 'reviewing', 
+        lastReviewInterval: 10,
+        easeFactor: 2.5
+      });
+      const result = calculateReviewProgression(resource, 'easy');
+
+      expect(result.status).toBe('reviewing');
+      expect(result.lastReviewInterval).toBe(34); // 10 × 2.65 × 1.3 = 34.45
+      expect(result.easeFactor).toBe(2.65);
+    });
+
+    test('should never drop ease below the minimum', () => {
+      let resource = createMockResource({ 
+        status: 'reviewing', 
+        lastReviewInterval: 5,
+        easeFactor: SCHEDULER_RULES.MIN_EASE
+      });
+
+      for (let i = 0; i < 5; i++) {
+        resource = { ...resource, ...calculateReviewProgression(resource, 'hard') };
+      }
+
+      expect(resource.easeFactor).toBe(SCHEDULER_RULES.MIN_EASE);
+    });
+
+    test('should cap intervals at the maximum', () => {
+      const resource = createMockResource({ 
+        status: 'reviewing', 
+        lastReviewInterval: 29,
+        easeFactor: 20
+      });
+
+      expect(calculateNextInterval(resource, 'easy')).toBe(SCHEDULER_RULES.MAX_INTERVAL);
+    });
+
+    test('should not complete a resource on a hard review at mastery', () => {
+      const resource = createMockResource({ 
+        status: 'reviewing', 
+        lastReviewInterval: 30,
+        easeFactor: 2.5
+      });
+      const result = calculateReviewProgression(resource, 'hard');
+
+      expect(result.status).toBe('reviewing');
+      expect(result.lastReviewInterval).toBe(36);
+    });
+
+    test('should preview the interval for every grade', () => {
+      const resource = createMockResource({ 
+        status: 'reviewing', 
+        lastReviewInterval: 10,
+        easeFactor: 2.5
+      });
+
+      expect(previewIntervals(resource)).toEqual({
+        again: 1,
+        hard: 12,
+        good: 25,
+        easy: 34
+      });
+    });
+  });
+
+  describe('legacy ladder migration', () => {
+    test('should derive scheduling state for resources without ease or stability', () => {
+      const resource = createMockResource({ 
+        status: 'reviewing', 
+        lastReviewInterval: 14
+      });
+
+      expect(getSchedulingState(resource)).toEqual({
+        easeFactor: SCHEDULER_RULES.DEFAULT_EASE,
+        stability: 14,
+        interval: 14
+      });
+    });
+
+    test('should continue scheduling every legacy ladder interval', () => {
+      REVIEW_INTERVALS.slice(0, -1).forEach(interval => {
+        const result = calculateReviewProgression(createMockResource({ 
+          status: 'reviewing', 
+          lastReviewInterval: interval
+        }));
+
+        expect(result.status).toBe('reviewing');
+        expect(result.lastReviewInterval).toBeGreaterThan(interval);
+        expect(result.easeFactor).toBe(SCHEDULER_RULES.DEFAULT_EASE);
+      });
+    });
+
+    test('should complete legacy resources on the final ladder step', () => {
+      const result = calculateReviewProgression(createMockResource({ 
+        status: 'reviewing', 
+        lastReviewInterval: 30
+      }));
+
+      expect(result.status).toBe('done');
+      expect(result.easeFactor).toBe(SCHEDULER_RULES.DEFAULT_EASE);
+      expect(result.stability).toBe(30);
     });
   });
 
@@ -247,17 +432,18 @@ describe('Spaced Repetition Review System', () => {
       expect(getNextReviewText(createMockResource({ 
         status: 'reviewing', 
         lastReviewInterval: 3 
-      }))).toBe('Next review in 7 days');
+      }))).toBe('Next review in 8 days');
 
       expect(getNextReviewText(createMockResource({ 
         status: 'reviewing', 
         lastReviewInterval: 7 
-      }))).toBe('Next review in 14 days');
+      }))).toBe('Next review in 18 days');
 
       expect(getNextReviewText(createMockResource({ 
         status: 'reviewing', 
-        lastReviewInterval: 14 
-      }))).toBe('Next review in 30 days');
+        lastReviewInterval: 14,
+        easeFactor: 1.5
+      }))).toBe('Next review in 21 days');
 
       expect(getNextReviewText(createMockResource({ 
         status: 'reviewing', 
@@ -358,26 +544,26 @@ describe('Spaced Repetition Review System', () => {
     });
 
     test('should calculate reviewing progress correctly', () => {
-      // 25% base + (interval index + 1) * 18.75%
+      // 25% base + 75% scaled by interval / 30-day mastery interval
       expect(getReviewProgress(createMockResource({ 
         status: 'reviewing', 
         lastReviewInterval: 3 
-      }))).toBe(43.75); // 25 + 1 * 18.75
+      }))).toBe(32.5); // 25 + 0.1 * 75
 
       expect(getReviewProgress(createMockResource({ 
         status: 'reviewing', 
-        lastReviewInterval: 7 
-      }))).toBe(62.5); // 25 + 2 * 18.75
+        lastReviewInterval: 12 
+      }))).toBe(55); // 25 + 0.4 * 75
 
       expect(getReviewProgress(createMockResource({ 
         status: 'reviewing', 
-        lastReviewInterval: 14 
-      }))).toBe(81.25); // 25 + 3 * 18.75
+        lastReviewInterval: 30 
+      }))).toBe(100); // 25 + 1 * 75
 
       expect(getReviewProgress(createMockResource({ 
         status: 'reviewing', 
-        lastReviewInterval: 30 
-      }))).toBe(100); // 25 + 4 * 18.75
+        lastReviewInterval: 90 
+      }))).toBe(100); // Capped at mastery
     });
   });
 
@@ -386,30 +572,51 @@ describe('Spaced Repetition Review System', () => {
       let resource = createMockResource({ status: 'new' });
 
       // First review
-      let result = calculateReviewProgression(resource);
+      let result = calculateReviewProgression(resource, 'good');
       expect(result.status).toBe('reviewing');
       expect(result.lastReviewInterval).toBe(3);
 
-      // Simulate progression through all intervals
+      // Simulate progression through good reviews
       resource = { ...resource, ...result };
-      result = calculateReviewProgression(resource);
-      expect(result.lastReviewInterval).toBe(7);
+      result = calculateReviewProgression(resource, 'good');
+      expect(result.lastReviewInterval).toBe(8);
 
       resource = { ...resource, ...result };
-      result = calculateReviewProgression(resource);
-      expect(result.lastReviewInterval).toBe(14);
+      result = calculateReviewProgression(resource, 'good');
+      expect(result.lastReviewInterval).toBe(20);
 
       resource = { ...resource, ...result };
-      result = calculateReviewProgression(resource);
-      expect(result.lastReviewInterval).toBe(30);
+      result = calculateReviewProgression(resource, 'good');
+      expect(result.lastReviewInterval).toBe(50);
 
-      // Final review should mark as done
+      // Review past mastery should mark as done
       resource = { ...resource, ...result };
-      result = calculateReviewProgression(resource);
+      result = calculateReviewProgression(resource, 'good');
       expect(result.status).toBe('done');
       expect(result.nextReviewDate).toBeUndefined();
     });
 
+    test('should recover after forgetting a resource', () => {
+      let resource = createMockResource({ 
+        status: 'reviewing', 
+        lastReviewInterval: 20,
+        easeFactor: 2.5,
+        stability: 20
+      });
+
+      // Forgotten: back to learning tomorrow
+      let result = calculateReviewProgression(resource, 'again');
+      expect(result.status).toBe('learning');
+      expect(result.lastReviewInterval).toBe(1);
+
+      // Relearned: first review intervals apply again, with the lowered ease kept
+      resource = { ...resource, ...result };
+      result = calculateReviewProgression(resource, 'good');
+      expect(result.status).toBe('reviewing');
+      expect(result.lastReviewInterval).toBe(3);
+      expect(result.easeFactor).toBe(2.3);
+    });
+
     test('should handle snoozing correctly', () => {
       const today = new Date();
       today.setHours(0, 0, 0, 0);
@@ -1,74 +1,165 @@
 /**
  * Spaced Repetition Review System
  * 
- * Implements spaced review intervals for learning resources to optimize retention.
+ * Implements an SM-2 style adaptive scheduler for learning resources to optimize retention.
+ * Each review is graded (again / hard / good / easy) and the grade adjusts the
+ * resource's ease factor, stability and next interval.
  */
 
-import type { Resource } from './models.js';
+import type { Resource, ReviewGrade } from './models.js';
 
 /**
- * Spaced repetition intervals in days
- * Progression: 3d -> 7d -> 14d -> 30d
+ * Legacy fixed review ladder in days (3d -> 7d -> 14d -> 30d)
+ * Kept so resources scheduled before the adaptive scheduler can be migrated.
  */
 export const REVIEW_INTERVALS = [3, 7, 14, 30] as const;
 
+export const REVIEW_GRADES: readonly ReviewGrade[] = ['again', 'hard', 'good', 'easy'] as const;
+
+/**
+ * Scheduler tuning:
+ * - Ease starts at 2.5 and never drops below 1.3 (SM-2 defaults)
+ * - First review schedules 1/2/3/5 days depending on grade
+ * - A successful review at or beyond 30 days marks the resource done
+ */
+export const SCHEDULER_RULES = {
+  DEFAULT_EASE: 2.5,
+  MIN_EASE: 1.3,
+  MAX_INTERVAL: 365,
+  MASTERY_INTERVAL: 30,
+  HARD_MULTIPLIER: 1.2,
+  EASY_BONUS: 1.3,
+  LAPSE_STABILITY_FACTOR: 0.5,
+  FIRST_INTERVALS: { again: 1, hard: 2, good: 3, easy: 5 },
+  EASE_DELTAS: { again: -0.2, hard: -0.15, good: 0, easy: 0.15 }
+} as const;
+
 export interface ReviewResult {
   status: Resource['status'];
   nextReviewDate?: Date;
   lastReviewInterval?: number;
+  easeFactor?: number;
+  stability?: number;
+}
+
+export interface SchedulingState {
+  easeFactor: number;
+  stability: number;
+  interval: number;
+}
+
+/**
+ * Resolve the scheduling state of a resource, migrating resources that were
+ * scheduled on the legacy fixed ladder (no ease factor or stability stored yet)
+ */
+export function getSchedulingState(resource: Resource): SchedulingState {
+  const interval = resource.lastReviewInterval || SCHEDULER_RULES.FIRST_INTERVALS.good;
+  
+  return {
+    easeFactor: resource.easeFactor ?? SCHEDULER_RULES.DEFAULT_EASE,
+    stability: resource.stability ?? (resource.lastReviewInterval || 0),
+    interval
+  };
+}
+
+function clampEase(ease: number): number {
+  return Math.max(SCHEDULER_RULES.MIN_EASE, Math.round(ease * 100) / 100);
+}
+
+function clampInterval(days: number): number {
+  return Math.min(SCHEDULER_RULES.MAX_INTERVAL, Math.max(1, Math.round(days)));
+}
+
+/**
+ * Calculate the interval in days a grade would schedule for a resource
+ */
+export function calculateNextInterval(resource: Resource, grade: ReviewGrade): number {
+  if (resource.status === 'new' || resource.status === 'learning') {
+    return SCHEDULER_RULES.FIRST_INTERVALS[grade];
+  }
+  
+  const { easeFactor, interval } = getSchedulingState(resource);
+  const ease = clampEase(easeFactor + SCHEDULER_RULES.EASE_DELTAS[grade]);
+  
+  switch (grade) {
+    case 'again':
+      return 1;
+    case 'hard':
+      return clampInterval(Math.max(interval + 1, interval * SCHEDULER_RULES.HARD_MULTIPLIER));
+    case 'good':
+      return clampInterval(Math.max(interval + 1, interval * ease));
+    case 'easy':
+      return clampInterval(Math.max(interval + 1, interval * ease * SCHEDULER_RULES.EASY_BONUS));
+  }
+}
+
+/**
+ * Preview the interval every grade would schedule, for grade buttons in the UI
+ */
+export function previewIntervals(resource: Resource): Record<ReviewGrade, number> {
+  return {
+    again: calculateNextInterval(resource, 'again'),
+    hard: calculateNextInterval(resource, 'hard'),
+    good: calculateNextInterval(resource, 'good'),
+    easy: calculateNextInterval(resource, 'easy')
+  };
 }
 
 /**
  * Calculate next review date and status when marking a resource as reviewed
+ * Defaults to a "good" grade when no grade is given
  */
-export function calculateReviewProgression(resource: Resource): ReviewResult {
+export function calculateReviewProgression(resource: Resource, grade: ReviewGrade = 'good'): ReviewResult {
   const today = new Date();
   today.setHours(0, 0, 0, 0); // Start of day
   
-  // Handle new/learning resources
-  if (resource.status === 'new' || resource.status === 'learning') {
-    const nextReviewDate = new Date(today);
-    nextReviewDate.setDate(today.getDate() + REVIEW_INTERVALS[0]); // 3 days
-    
+  // Done resources don't change
+  if (resource.status === 'done') {
     return {
-      status: 'reviewing',
-      nextReviewDate,
-      lastReviewInterval: REVIEW_INTERVALS[0]
+      status: resource.status,
+      nextReviewDate: resource.nextReviewDate,
+      lastReviewInterval: resource.lastReviewInterval,
+      easeFactor: resource.easeFactor,
+      stability: resource.stability
     };
   }
   
-  // Handle reviewing resources - progress through intervals
-  if (resource.status === 'reviewing') {
-    const currentInterval = resource.lastReviewInterval || REVIEW_INTERVALS[0];
-    const currentIndex = REVIEW_INTERVALS.indexOf(currentInterval as typeof REVIEW_INTERVALS[number]);
-    
-    // If we're at the last interval, mark as done
-    if (currentIndex === REVIEW_INTERVALS.length - 1) {
-      return {
-        status: 'done',
-        nextReviewDate: undefined,
-        lastReviewInterval: currentInterval
-      };
-    }
-    
-    // Progress to next interval
-    const nextIntervalIndex = currentIndex + 1;
-    const nextInterval = REVIEW_INTERVALS[nextIntervalIndex];
-    const nextReviewDate = new Date(today);
-    nextReviewDate.setDate(today.getDate() + nextInterval);
-    
+  const state = getSchedulingState(resource);
+  const easeFactor = clampEase(state.easeFactor + SCHEDULER_RULES.EASE_DELTAS[grade]);
+  const isFirstReview = resource.status === 'new' || resource.status === 'learning';
+  
+  // A successful review at the mastery interval completes the resource
+  if (!isFirstReview && (grade === 'good' || grade === 'easy') && state.interval >= SCHEDULER_RULES.MASTERY_INTERVAL) {
     return {
-      status: 'reviewing',
+      status: 'done',
+      nextReviewDate: undefined,
+      lastReviewInterval: state.interval,
+      easeFactor,
+      stability: Math.max(state.stability, state.interval)
+    };
+  }
+  
+  const nextInterval = calculateNextInterval(resource, grade);
+  const nextReviewDate = new Date(today);
+  nextReviewDate.setDate(today.getDate() + nextInterval);
+  
+  // Forgetting sends the resource back to learning and halves its stability
+  if (grade === 'again') {
+    return {
+      status: 'learning',
       nextReviewDate,
-      lastReviewInterval: nextInterval
+      lastReviewInterval: nextInterval,
+      easeFactor,
+      stability: Math.max(1, Math.round(state.stability * SCHEDULER_RULES.LAPSE_STABILITY_FACTOR))
     };
   }
   
-  // Done resources don't change
   return {
-    status: resource.status,
-    nextReviewDate: resource.nextReviewDate,
-    lastReviewInterval: resource.lastReviewInterval
+    status: 'reviewing',
+    nextReviewDate,
+    lastReviewInterval: nextInterval,
+    easeFactor,
+    stability: nextInterval
   };
 }
 
@@ -120,19 +211,17 @@ export function getNextReviewText(resource: Resource): string {
   }
   
   if (resource.status === 'new' || resource.status === 'learning') {
-    return 'First review in 3 days';
+    return `First review in ${SCHEDULER_RULES.FIRST_INTERVALS.good} days`;
   }
   
   if (resource.status === 'reviewing') {
-    const currentInterval = resource.lastReviewInterval || REVIEW_INTERVALS[0];
-    const currentIndex = REVIEW_INTERVALS.indexOf(currentInterval as typeof REVIEW_INTERVALS[number]);
+    const { interval } = getSchedulingState(resource);
     
-    if (currentIndex === REVIEW_INTERVALS.length - 1) {
+    if (interval >= SCHEDULER_RULES.MASTERY_INTERVAL) {
       return 'Final review - will mark as done';
     }
     
-    const nextInterval = REVIEW_INTERVALS[currentIndex + 1];
-    return `Next review in ${nextInterval} days`;
+    return `Next review in ${calculateNextInterval(resource, 'good')} days`;
   }
   
   return '';
@@ -198,11 +287,11 @@ export function getReviewProgress(resource: Resource): number {
   if (resource.status === 'done') return 100;
   
   if (resource.status === 'reviewing') {
-    const currentInterval = resource.lastReviewInterval || REVIEW_INTERVALS[0];
-    const currentIndex = REVIEW_INTERVALS.indexOf(currentInterval as typeof REVIEW_INTERVALS[number]);
+    const { interval } = getSchedulingState(resource);
     
-    // 25% for learning -> reviewing, then 25% for each interval
-    return 25 + ((currentIndex + 1) * 18.75); // 25 + 18.75 * 4 = 100
+    // 25% for learning -> reviewing, the remaining 75% scales with the interval up to mastery
+    const mastery = Math.min(1, interval / SCHEDULER_RULES.MASTERY_INTERVAL);
+    return Math.round((25 + mastery * 75) * 100) / 100;
   }
   
   return 0;
@@ -0,0 +1,114 @@
+/**
+ * Unit tests for global search
+ */
+
+import { searchLocalData, getSnippet, getSearchResultHref } from './search.js';
+import type { AppData, Goal, Resource, Session, Subject } from './models.js';
+
+const now = new Date('2024-03-15T10:00:00Z');
+
+function resource(id: string, title: string, notes: string = ''): Resource {
+  return {
+    id, title, notes, url: `https://example.com/${id}`, subject: 'Math', type: 'article', priority: 3, tags: [],
+    favorite: false, status: 'new', createdAt: now, updatedAt: now
+  };
+}
+
+function goal(id: string, name: string): Goal {
+  return { id, name, subject: 'Math', dueDate: now, progressPct: 0, status: 'active', createdAt: now, updatedAt: now };
+}
+
+function subject(id: string, name: string, isTemplate: boolean = false, description?: string): Subject {
+  return {
+    id, name, description, isTemplate, color: '#3B82F6', createdAt: now, updatedAt: now,
+    stats: { totalStudyTime: 0, totalResources: 0, completedResources: 0, totalGoals: 0, completedGoals: 0 }
+  };
+}
+
+function session(id: string, notes?: string, subjectName?: string): Session {
+  return { id, startedAt: now, durationMin: 25, notes, subject: subjectName };
+}
+
+function data(overrides: Partial<Pick<AppData, 'resources' | 'goals' | 'subjects' | 'sessions'>>) {
+  return { resources: [], goals: [], subjects: [], sessions: [], ...overrides };
+}
+
+describe('Search', () => {
+  describe('searchLocalData', () => {
+    test('should search every entity', () => {
+      const results = searchLocalData(data({
+        resources: [resource('r1', 'Linear Algebra Done Right')],
+        goals: [goal('g1', 'Pass the linear algebra exam')],
+        subjects: [subject('sub1', 'Linear Algebra')],
+        sessions: [session('s1', 'Linear maps finally clicked', 'Math')]
+      }), 'linear');
+
+      expect(results.map(r => r.entity).sort()).toEqual(['goal', 'resource', 'session', 'subject']);
+    });
+
+    test('should rank title matches above body matches', () => {
+      const results = searchLocalData(data({
+        resources: [resource('notes', 'Calculus', 'uses vectors'), resource('title', 'Vectors 101')]
+      }), 'vec');
+
+      expect(results.map(r => r.id)).toEqual(['title', 'notes']);
+    });
+
+    test('should require every word', () => {
+      const results = searchLocalData(data({
+        resources: [resource('r1', 'Linear Algebra'), resource('r2', 'Linear Regression')]
+      }), 'linear alg');
+
+      expect(results.map(r => r.id)).toEqual(['r1']);
+    });
+
+    test('should skip subject templates and sessions without notes', () => {
+      const results = searchLocalData(data({
+        subjects: [subject('template', 'Math', true)],
+        sessions: [session('s1', undefined, 'Math')]
+      }), 'math');
+
+      expect(results).toEqual([]);
+    });
+
+    test('should only match session notes, titled with the subject', () => {
+      const results = searchLocalData(data({
+        sessions: [session('s1', 'Derivatives practice', 'Math'), session('s2', 'Essay outline', 'History')]
+      }), 'math');
+
+      expect(results).toEqual([]);
+      expect(searchLocalData(data({ sessions: [session('s1', 'Derivatives practice', 'Math')] }), 'deriv')[0])
+        .toEqual({ entity: 'session', id: 's1', title: 'Math', snippet: 'Derivatives practice', date: now });
+    });
+
+    test('should return nothing for an empty search', () => {
+      expect(searchLocalData(data({ resources: [resource('r1', 'Anything')] }), '  ')).toEqual([]);
+    });
+
+    test('should cap the number of results', () => {
+      const resources = Array.from({ length: 5 }, (_, i) => resource(`r${i}`, `Topic ${i}`));
+
+      expect(searchLocalData(data({ resources }), 'topic', 3)).toHaveLength(3);
+    });
+  });
+
+  describe('getSnippet', () => {
+    test('should cut a window around the first match', () => {
+      const body = 'one two three four five six seven eight nine ten eleven twelve thirteen fourteen fifteen sixteen';
+
+      expect(getSnippet(body, ['ten'])).toBe('…six seven eight nine ten eleven twelve thirteen fourteen fifteen sixteen');
+      expect(getSnippet(body, ['two'])).toBe('one two three four five six seven eight nine ten eleven twelve…');
+    });
+
+    test('should start at the beginning when only the title matched', () => {
+      expect(getSnippet('short notes', ['missing'])).toBe('short notes');
+    });
+  });
+
+  describe('getSearchResultHref', () => {
+    test('should open resources in the searched resources list', () => {
+      expect(getSearchResultHref({ entity: 'resource', title: 'C++ & you' })).toBe('/resources?q=C%2B%2B%20%26%20you');
+      expect(getSearchResultHref({ entity: 'session', title: 'Math' })).toBe('/stats');
+    });
+  });
+});
\ No newline at end of file
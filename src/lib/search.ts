@@ -0,0 +1,127 @@
+/**
+ * Global search for ADHD Hub
+ *
+ * The command palette searches resources, goals, subjects and session notes.
+ * Signed-in users query the D1 search index; offline and guest users get the
+ * same kind of ranking over the local copy: title matches outweigh body matches.
+ */
+
+import type { AppData } from './models.js';
+import { getSearchTokens } from './resourceQuery.js';
+
+export type SearchEntity = 'resource' | 'goal' | 'subject' | 'session';
+
+export interface SearchResult {
+  entity: SearchEntity;
+  id: string;
+  title: string; // the subject for sessions, which have no title of their own
+  snippet: string; // context from the body, e.g. resource notes or session notes
+  date?: Date; // when a session started
+}
+
+export const SEARCH_ENTITIES: Record<SearchEntity, { label: string; icon: string }> = {
+  resource: { label: 'Resource', icon: '📚' },
+  goal: { label: 'Goal', icon: '🎯' },
+  subject: { label: 'Subject', icon: '🗂️' },
+  session: { label: 'Session', icon: '⏱️' }
+};
+
+export const SEARCH_LIMIT = 20;
+
+// Same weights the server passes to bm25()
+const TITLE_WEIGHT = 10;
+const BODY_WEIGHT = 1;
+const SNIPPET_WORDS = 12;
+
+interface SearchDocument {
+  entity: SearchEntity;
+  id: string;
+  title: string;
+  body: string;
+  date?: Date;
+}
+
+/**
+ * Page a search result opens; resources open the resources list searched for their title
+ */
+export function getSearchResultHref(result: Pick<SearchResult, 'entity' | 'title'>): string {
+  switch (result.entity) {
+    case 'resource':
+      return `/resources?q=${encodeURIComponent(result.title)}`;
+    case 'goal':
+      return '/goals';
+    case 'subject':
+      return '/subjects';
+    case 'session':
+      return '/stats';
+  }
+}
+
+function toSearchDocuments(data: Pick<AppData, 'resources' | 'goals' | 'subjects' | 'sessions'>): SearchDocument[] {
+  return [
+    ...data.resources.map(r => ({ entity: 'resource' as const, id: r.id, title: r.title, body: `${r.notes} ${r.url}` })),
+    ...data.goals.map(g => ({ entity: 'goal' as const, id: g.id, title: g.name, body: '' })),
+    // Templates are built in, only the user's own subjects are searchable (as in the cloud)
+    ...data.subjects
+      .filter(s => !s.isTemplate)
+      .map(s => ({ entity: 'subject' as const, id: s.id, title: s.name, body: s.description ?? '' })),
+    ...data.sessions
+      .filter(s => s.notes)
+      .map(s => ({ entity: 'session' as const, id: s.id, title: s.subject ?? '', body: s.notes!, date: new Date(s.startedAt) }))
+  ];
+}
+
+function hasPrefix(words: string[], token: string): boolean {
+  return words.some(word => word.startsWith(token));
+}
+
+/**
+ * A window of words around the first match in the body, with ellipses where it was cut
+ */
+export function getSnippet(body: string, tokens: string[]): string {
+  const words = body.split(/\s+/).filter(Boolean);
+  const first = words.findIndex(word => tokens.some(token => hasPrefix(getSearchTokens(word), token)));
+  const start = Math.max(0, first - Math.floor(SNIPPET_WORDS / 3));
+  const end = Math.min(words.length, start + SNIPPET_WORDS);
+
+  return `${start > 0 ? '…' : ''}${words.slice(start, end).join(' ')}${end < words.length ? '…' : ''}`;
+}
+
+/**
+ * Best matches in the local copy: every search word must start a word in the
+ * title or body, and each word found in the title counts more than one in the body
+ */
+export function searchLocalData(
+  data: Pick<AppData, 'resources' | 'goals' | 'subjects' | 'sessions'>,
+  search: string,
+  limit: number = SEARCH_LIMIT
+): SearchResult[] {
+  const tokens = getSearchTokens(search);
+  if (tokens.length === 0) return [];
+
+  return toSearchDocuments(data)
+    .map(doc => {
+      // Session titles are display only, the server doesn't index them either
+      const titleWords = doc.entity === 'session' ? [] : getSearchTokens(doc.title);
+      const bodyWords = getSearchTokens(doc.body);
+      let score = 0;
+
+      for (const token of tokens) {
+        if (hasPrefix(titleWords, token)) score += TITLE_WEIGHT;
+        else if (hasPrefix(bodyWords, token)) score += BODY_WEIGHT;
+        else return null;
+      }
+
+      return { doc, score };
+    })
+    .filter((match): match is { doc: SearchDocument; score: number } => match !== null)
+    .sort((a, b) => b.score - a.score || a.doc.title.localeCompare(b.doc.title))
+    .slice(0, limit)
+    .map(({ doc }) => ({
+      entity: doc.entity,
+      id: doc.id,
+      title: doc.title,
+      snippet: getSnippet(doc.body, tokens),
+      date: doc.date
+    }));
+}
\ No newline at end of file
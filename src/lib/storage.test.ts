@@ -0,0 +1,209 @@
+/**
+ * Unit tests for local storage
+ */
+
+import {
+  getAll,
+  saveResource,
+  deleteResource,
+  reviewResource,
+  snoozeResource,
+  getReviewHistory,
+  saveSession,
+  updateSession,
+  deleteSession,
+  saveGoal,
+  saveSubject,
+  updateSubject
+} from './storage.js';
+import type { Resource } from './models.js';
+
+/**
+ * In-memory stand-in for window.localStorage
+ */
+class MemoryStorage {
+  items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+function article(overrides: Partial<Resource> = {}): Omit<Resource, 'id' | 'createdAt' | 'updatedAt'> {
+  return {
+    title: 'Closures explained',
+    url: 'https://example.com/closures',
+    subject: 'Programming',
+    type: 'article',
+    priority: 3,
+    notes: '',
+    tags: [],
+    favorite: false,
+    status: 'learning',
+    ...overrides
+  };
+}
+
+beforeEach(() => {
+  const storage = new MemoryStorage();
+  // Settings are spelled out so no test shares the module's defaults
+  storage.setItem('adhd-hub-data', JSON.stringify({
+    settings: { theme: 'dark', xp: 0, level: 1, streak: 0, longestStreak: 0 }
+  }));
+  vi.stubGlobal('localStorage', storage);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('Local storage', () => {
+  describe('review log', () => {
+    test('should log a graded review with the interval it scheduled', () => {
+      const resource = saveResource(article());
+      const reviewed = reviewResource(resource.id, 'good')!;
+
+      const [review] = getAll().reviews;
+      expect(review).toMatchObject({ resourceId: resource.id, action: 'review', grade: 'good' });
+      expect(review.intervalDays).toBe(reviewed.lastReviewInterval);
+      expect(review.nextReviewDate).toEqual(reviewed.nextReviewDate);
+    });
+
+    test('should log snoozes without a grade and without XP', () => {
+      const resource = saveResource(article({ status: 'reviewing', lastReviewInterval: 6 }));
+      const xpBefore = getAll().settings.xp;
+      snoozeResource(resource.id);
+
+      const data = getAll();
+      expect(data.reviews).toHaveLength(1);
+      expect(data.reviews[0]).toMatchObject({ action: 'snooze', intervalDays: 6 });
+      expect(data.reviews[0].grade).toBeUndefined();
+      expect(data.settings.xp).toBe(xpBefore);
+    });
+
+    test('should grant review XP once per review', () => {
+      const resource = saveResource(article());
+      const xpBefore = getAll().settings.xp;
+      reviewResource(resource.id, 'good');
+      reviewResource(resource.id, 'easy');
+
+      const ledger = getAll().xpLedger.filter(e => e.sourceType === 'review');
+      expect(ledger).toHaveLength(2);
+      expect(getAll().settings.xp).toBe(xpBefore + 4);
+    });
+
+    test('should return one resource\'s history newest first', () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2024-03-01T09:00:00Z'));
+      const resource = saveResource(article());
+      const other = saveResource(article({ url: 'https://example.com/other' }));
+      reviewResource(resource.id, 'hard');
+      reviewResource(other.id, 'good');
+      vi.setSystemTime(new Date('2024-03-05T09:00:00Z'));
+      snoozeResource(resource.id);
+
+      const history = getReviewHistory(resource.id);
+      expect(history.map(r => r.action)).toEqual(['snooze', 'review']);
+      expect(history.every(r => r.resourceId === resource.id)).toBe(true);
+    });
+
+    test('should drop the log and reverse its XP when the resource is deleted', () => {
+      const resource = saveResource(article());
+      const xpBefore = getAll().settings.xp;
+      reviewResource(resource.id, 'good');
+      deleteResource(resource.id);
+
+      const data = getAll();
+      expect(data.reviews).toEqual([]);
+      expect(data.settings.xp).toBe(xpBefore);
+      expect(data.xpLedger.some(e => e.sourceType === 'review' && e.amount < 0)).toBe(true);
+    });
+  });
+
+  describe('subjects', () => {
+    test('should carry a rename over to the subject\'s records and stats', () => {
+      const subject = saveSubject({
+        name: 'Algebra',
+        color: '#3B82F6',
+        isTemplate: false,
+        stats: { totalStudyTime: 0, totalResources: 0, completedResources: 0, totalGoals: 0, completedGoals: 0 }
+      });
+      saveResource(article({ subject: 'Algebra' }));
+      saveResource(article({ subject: 'History', url: 'https://example.com/rome' }));
+      saveSession({ startedAt: new Date(), durationMin: 30, subject: 'Algebra' });
+      saveGoal({ name: 'Finish chapter 3', subject: 'Algebra', dueDate: new Date(), progressPct: 0, status: 'active' });
+
+      const renamed = updateSubject(subject.id, { name: 'Linear Algebra' })!;
+
+      const data = getAll();
+      expect(data.resources.map(r => r.subject)).toEqual(['Linear Algebra', 'History']);
+      expect(data.sessions[0].subject).toBe('Linear Algebra');
+      expect(data.goals[0].subject).toBe('Linear Algebra');
+      expect(data.resources[0].updatedAt.getTime()).toBeGreaterThan(data.resources[0].createdAt.getTime());
+      expect(renamed.stats).toMatchObject({ totalStudyTime: 30, totalResources: 1, totalGoals: 1 });
+    });
+  });
+
+  describe('sessions', () => {
+    function studyWeek() {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2024-03-10T12:00:00Z'));
+      saveSubject({
+        name: 'Spanish',
+        color: '#10B981',
+        isTemplate: false,
+        stats: { totalStudyTime: 0, totalResources: 0, completedResources: 0, totalGoals: 0, completedGoals: 0 }
+      });
+      // March 8 is missed; the long session's XP buys the freezes that bridge it
+      const long = saveSession({ startedAt: new Date('2024-03-07T12:00:00Z'), durationMin: 700, subject: 'Spanish' });
+      saveSession({ startedAt: new Date('2024-03-09T12:00:00Z'), durationMin: 30, subject: 'Spanish' });
+      saveSession({ startedAt: new Date('2024-03-10T12:00:00Z'), durationMin: 30, subject: 'Spanish' });
+      return long;
+    }
+
+    test('should adjust XP, streak and subject time when a session is shortened', () => {
+      const long = studyWeek();
+      expect(getAll().settings).toMatchObject({ xp: 304, streak: 3 });
+
+      updateSession(long.id, { durationMin: 10 });
+
+      const data = getAll();
+      expect(data.settings).toMatchObject({ xp: 28, streak: 2 });
+      const adjustment = data.xpLedger.filter(e => e.sourceId === long.id).at(-1)!;
+      expect(adjustment).toMatchObject({ sourceType: 'session', amount: -276 });
+      expect(adjustment.reason).toMatch(/^Adjusted: /);
+      expect(data.subjects.find(s => s.name === 'Spanish' && !s.isTemplate)!.stats.totalStudyTime).toBe(70);
+    });
+
+    test('should reverse XP and recount the streak when a session is deleted', () => {
+      const long = studyWeek();
+
+      expect(deleteSession(long.id)).toBe(true);
+
+      const data = getAll();
+      expect(data.sessions).toHaveLength(2);
+      expect(data.settings).toMatchObject({ xp: 24, streak: 2, longestStreak: 3 });
+      expect(data.xpLedger.at(-1)).toMatchObject({ sourceId: long.id, amount: -280, reason: 'Session removed' });
+      expect(data.subjects.find(s => s.name === 'Spanish' && !s.isTemplate)!.stats.totalStudyTime).toBe(60);
+    });
+
+    test('should leave everything alone for an unknown session', () => {
+      studyWeek();
+
+      expect(updateSession('missing', { durationMin: 10 })).toBeNull();
+      expect(deleteSession('missing')).toBe(false);
+      expect(getAll().settings.xp).toBe(304);
+    });
+  });
+});
\ No newline at end of file
@@ -1,6 +1,11 @@
-import type { AppData, Resource, Session, Goal, Settings, Subject } from './models.js';
-import { calculateSessionXP, calculateResourceXP, calculateGoalCompletionXP, calculateStreak, calculateLevel } from './xp.js';
+import type { AppData, Resource, ResourceItem, Session, BreakLog, Distraction, Goal, Settings, Subject, ReviewGrade, ReviewLog, SyncEntity } from './models.js';
+import { calculateXPGrants, reconcileXPLedger, sumXPLedger, calculateStreak, calculateLevel, getStreakFreezes } from './xp.js';
 import { calculateReviewProgression, calculateSnoozeDate } from './review.js';
+import { evaluateAchievements, getAchievement } from './achievements.js';
+import { getUrlKey } from './bookmarkImport.js';
+import { nextVersion } from './sync.js';
+import { withGoalProgress } from './goalProgress.js';
+import { withRolledUpProgress } from './goalTree.js';
 
 const STORAGE_KEY = 'adhd-hub-data';
 
@@ -12,7 +17,7 @@ const defaultSettings: Settings = {
   longestStreak: 0
 };
 
-const defaultSubjectTemplates: Subject[] = [
+export const defaultSubjectTemplates: Subject[] = [
   {
     id: 'template-math',
     name: 'Mathematics',
@@ -78,8 +83,13 @@ const defaultSubjectTemplates: Subject[] = [
 const defaultData: AppData = {
   resources: [],
   sessions: [],
+  breaks: [],
+  distractions: [],
   goals: [],
   subjects: defaultSubjectTemplates,
+  reviews: [],
+  xpLedger: [],
+  achievements: [],
   settings: defaultSettings
 };
 
@@ -88,13 +98,23 @@ function deserializeDates(data: AppData): AppData {
     ...data,
     resources: data.resources.map(r => ({
       ...r,
+      tags: r.tags ?? [],
       createdAt: new Date(r.createdAt),
       updatedAt: new Date(r.updatedAt),
       nextReviewDate: r.nextReviewDate ? new Date(r.nextReviewDate) : undefined
     })),
     sessions: data.sessions.map(s => ({
       ...s,
-      startedAt: new Date(s.startedAt)
+      startedAt: new Date(s.startedAt),
+      updatedAt: s.updatedAt ? new Date(s.updatedAt) : undefined
+    })),
+    breaks: (data.breaks || []).map(b => ({
+      ...b,
+      startedAt: new Date(b.startedAt)
+    })),
+    distractions: (data.distractions || []).map(d => ({
+      ...d,
+      occurredAt: new Date(d.occurredAt)
     })),
     goals: data.goals.map(g => ({
       ...g,
@@ -110,10 +130,81 @@ function deserializeDates(data: AppData): AppData {
         ...s.stats,
         lastStudied: s.stats.lastStudied ? new Date(s.stats.lastStudied) : undefined
       }
-    }))
+    })),
+    reviews: (data.reviews || []).map(r => ({
+      ...r,
+      nextReviewDate: r.nextReviewDate ? new Date(r.nextReviewDate) : undefined,
+      reviewedAt: new Date(r.reviewedAt)
+    })),
+    xpLedger: (data.xpLedger || []).map(e => ({
+      ...e,
+      createdAt: new Date(e.createdAt)
+    })),
+    achievements: (data.achievements || []).map(a => ({
+      ...a,
+      unlockedAt: new Date(a.unlockedAt)
+    })),
+    sync: data.sync ? {
+      ...data.sync,
+      lastSyncedAt: data.sync.lastSyncedAt ? new Date(data.sync.lastSyncedAt) : undefined,
+      tombstones: data.sync.tombstones.map(t => ({ ...t, deletedAt: new Date(t.deletedAt) }))
+    } : undefined
+  };
+}
+
+// Remember local deletes so the next sync can push them as tombstones
+function recordTombstone(data: AppData, entity: SyncEntity, id: string): void {
+  const sync = data.sync ?? { cursor: null, tombstones: [] };
+  data.sync = {
+    ...sync,
+    tombstones: [...sync.tombstones, { entity, id, deletedAt: new Date() }]
   };
 }
 
+// Append ledger entries for XP earned, changed or lost since the last write,
+// then derive XP and level from the ledger. Data saved before the ledger
+// existed gets its history rebuilt from the records on the first call.
+function updateXPLedger(data: AppData): void {
+  const entries = reconcileXPLedger(calculateXPGrants(data), data.xpLedger);
+  if (entries.length === 0) return;
+
+  const now = new Date();
+  entries.forEach(entry => {
+    data.xpLedger.push({ ...entry, id: generateId(), createdAt: now });
+    console.log(`${entry.amount > 0 ? '🎉 +' : '↩️ '}${entry.amount} XP: ${entry.reason}`);
+  });
+
+  data.settings.xp = sumXPLedger(data.xpLedger);
+  const levelInfo = calculateLevel(data.settings.xp);
+  data.settings.level = levelInfo.level;
+  console.log(`📈 Level ${levelInfo.level} (${Math.round(levelInfo.progressToNext * 100)}% to next)`);
+}
+
+// Unlock any achievements the data now qualifies for. Unlocks are kept even
+// if the records that earned them are later deleted.
+function updateAchievements(data: AppData): void {
+  const unlocked = evaluateAchievements(
+    { ...data, xp: data.settings.xp, timeZone: data.settings.timezone },
+    data.achievements
+  );
+  unlocked.forEach(achievement => {
+    data.achievements.push(achievement);
+    const { icon, name } = getAchievement(achievement.id)!;
+    console.log(`${icon} Achievement unlocked: ${name}`);
+  });
+}
+
+// Recompute streaks from the remaining sessions, in the user's timezone
+// and with the streak freezes their XP has earned
+function updateStreak(data: AppData): void {
+  const streakInfo = calculateStreak(data.sessions, {
+    timeZone: data.settings.timezone,
+    freezes: getStreakFreezes(data.settings.xp)
+  });
+  data.settings.streak = streakInfo.currentStreak;
+  data.settings.longestStreak = Math.max(data.settings.longestStreak, streakInfo.longestStreak);
+}
+
 export function getAll(): AppData {
   if (typeof localStorage === 'undefined') {
     return defaultData;
@@ -126,13 +217,24 @@ export function getAll(): AppData {
     }
     
     const parsed = JSON.parse(stored);
-    return deserializeDates({ ...defaultData, ...parsed });
+    const data = deserializeDates({ ...defaultData, ...parsed });
+    data.goals = deriveGoalProgress(data);
+    return data;
   } catch (error) {
     console.error('Failed to parse stored data:', error);
     return defaultData;
   }
 }
 
+/**
+ * Measured goals follow the sessions and resources they're linked to, habits
+ * their current period and goals with sub-goals follow those. Derived like
+ * subject stats, so it doesn't touch updatedAt.
+ */
+function deriveGoalProgress(data: AppData): Goal[] {
+  return withRolledUpProgress(withGoalProgress(data.goals, { ...data, timeZone: data.settings.timezone }));
+}
+
 export function setAll(data: AppData): void {
   if (typeof localStorage === 'undefined') {
     return;
@@ -179,22 +281,54 @@ export function saveResource(resource: Omit<Resource, 'id' | 'createdAt' | 'upda
   data.resources.push(newResource);
   
   // Grant XP for high-priority resources
-  const xpGain = calculateResourceXP(newResource.priority);
-  if (xpGain) {
-    data.settings.xp += xpGain.amount;
-    
-    // Update level based on new XP
-    const levelInfo = calculateLevel(data.settings.xp);
-    data.settings.level = levelInfo.level;
-    
-    console.log(`🎉 +${xpGain.amount} XP: ${xpGain.reason}`);
-    console.log(`📈 Level ${levelInfo.level} (${Math.round(levelInfo.progressToNext * 100)}% to next)`);
-  }
+  updateXPLedger(data);
+  updateAchievements(data);
   
   setAll(data);
   return newResource;
 }
 
+/**
+ * Save many resources in one write, e.g. from a bookmark import. Links already
+ * saved are skipped, and subjects that don't exist yet are created.
+ */
+export function importResources(resources: Array<Omit<Resource, 'id' | 'createdAt' | 'updatedAt'>>): { resources: Resource[]; subjects: Subject[] } {
+  const data = getAll();
+  const now = new Date();
+  const saved = new Set(data.resources.map(r => getUrlKey(r.url)));
+  
+  const imported: Resource[] = [];
+  resources.forEach(resource => {
+    const key = getUrlKey(resource.url);
+    if (saved.has(key)) return;
+    saved.add(key);
+    imported.push({ ...resource, id: generateId(), createdAt: now, updatedAt: now });
+  });
+  
+  const existingSubjects = new Set(data.subjects.filter(s => !s.isTemplate).map(s => s.name));
+  const subjects: Subject[] = [...new Set(imported.map(r => r.subject))]
+    .filter(name => !existingSubjects.has(name))
+    .map(name => ({
+      id: generateId(),
+      name,
+      color: '#3B82F6',
+      isTemplate: false,
+      stats: { totalStudyTime: 0, totalResources: 0, completedResources: 0, totalGoals: 0, completedGoals: 0 },
+      createdAt: now,
+      updatedAt: now
+    }));
+  
+  data.resources.push(...imported);
+  data.subjects.push(...subjects);
+  
+  updateXPLedger(data);
+  updateAchievements(data);
+  refreshSubjectStats(data);
+  
+  setAll(data);
+  return { resources: imported, subjects };
+}
+
 export function updateResource(id: string, updates: Partial<Resource>): Resource | null {
   const data = getAll();
   const index = data.resources.findIndex(r => r.id === id);
@@ -204,13 +338,32 @@ export function updateResource(id: string, updates: Partial<Resource>): Resource
   data.resources[index] = {
     ...data.resources[index],
     ...updates,
-    updatedAt: new Date()
+    updatedAt: nextVersion(data.resources[index].updatedAt)
   };
   
+  // Priority changes can grant or reverse XP
+  updateXPLedger(data);
+  updateAchievements(data);
+  
   setAll(data);
   return data.resources[index];
 }
 
+/**
+ * Replace a resource's checklist without giving the resource a new version,
+ * for checklist edits that reach the cloud step by step rather than with it
+ */
+export function setResourceItems(id: string, items: ResourceItem[]): Resource | null {
+  const data = getAll();
+  const resource = data.resources.find(r => r.id === id);
+
+  if (!resource) return null;
+
+  resource.items = items;
+  setAll(data);
+  return resource;
+}
+
 export function deleteResource(id: string): boolean {
   const data = getAll();
   const index = data.resources.findIndex(r => r.id === id);
@@ -218,41 +371,102 @@ export function deleteResource(id: string): boolean {
   if (index === -1) return false;
   
   data.resources.splice(index, 1);
+  data.reviews = data.reviews.filter(r => r.resourceId !== id);
+  recordTombstone(data, 'resource', id);
+  
+  // Reverse XP from the resource and its reviews
+  updateXPLedger(data);
+  
   setAll(data);
   return true;
 }
 
-export function saveSession(session: Omit<Session, 'id'>): Session {
+// Sessions the server already created (e.g. from a stopped timer) keep their id
+export function saveSession(session: Omit<Session, 'id'> & { id?: string }): Session {
   const data = getAll();
   const newSession: Session = {
     ...session,
-    id: generateId()
+    id: session.id ?? generateId(),
+    updatedAt: new Date()
   };
   
   data.sessions.push(newSession);
   
-  // Grant XP for the session
-  const xpGain = calculateSessionXP(newSession.durationMin);
-  data.settings.xp += xpGain.amount;
+  // Grant XP for the session and update streak
+  updateXPLedger(data);
+  updateStreak(data);
+  updateAchievements(data);
+  refreshSubjectStats(data);
   
-  // Update level based on new XP
-  const levelInfo = calculateLevel(data.settings.xp);
-  data.settings.level = levelInfo.level;
+  setAll(data);
+  return newSession;
+}
+
+export function updateSession(id: string, updates: Partial<Omit<Session, 'id'>>): Session | null {
+  const data = getAll();
+  const index = data.sessions.findIndex(s => s.id === id);
   
-  // Update streak
-  const streakInfo = calculateStreak(data.sessions);
-  data.settings.streak = streakInfo.currentStreak;
-  data.settings.longestStreak = Math.max(data.settings.longestStreak, streakInfo.longestStreak);
+  if (index === -1) return null;
+  
+  data.sessions[index] = {
+    ...data.sessions[index],
+    ...updates,
+    updatedAt: nextVersion(data.sessions[index].updatedAt)
+  };
+  
+  // A corrected duration or date adjusts XP, streak and subject time
+  updateXPLedger(data);
+  updateStreak(data);
+  updateAchievements(data);
+  refreshSubjectStats(data);
   
   setAll(data);
+  return data.sessions[index];
+}
+
+export function deleteSession(id: string): boolean {
+  const data = getAll();
+  const index = data.sessions.findIndex(s => s.id === id);
   
-  // Log XP gain for user feedback
-  if (xpGain.amount > 0) {
-    console.log(`🎉 +${xpGain.amount} XP: ${xpGain.reason}`);
-    console.log(`📈 Level ${levelInfo.level} (${Math.round(levelInfo.progressToNext * 100)}% to next)`);
-  }
+  if (index === -1) return false;
   
-  return newSession;
+  data.sessions.splice(index, 1);
+  recordTombstone(data, 'session', id);
+  // Distractions belong to their session
+  data.distractions = data.distractions.filter(d => d.sessionId !== id);
+  
+  // Reverse the session's XP and update streak
+  updateXPLedger(data);
+  updateStreak(data);
+  refreshSubjectStats(data);
+  
+  setAll(data);
+  return true;
+}
+
+// Breaks are kept for focus-to-break stats and never earn XP
+export function saveBreak(pause: Omit<BreakLog, 'id'>): BreakLog {
+  const data = getAll();
+  const newBreak: BreakLog = {
+    ...pause,
+    id: generateId()
+  };
+  
+  data.breaks.push(newBreak);
+  setAll(data);
+  return newBreak;
+}
+
+export function saveDistraction(distraction: Omit<Distraction, 'id'>): Distraction {
+  const data = getAll();
+  const newDistraction: Distraction = {
+    ...distraction,
+    id: generateId()
+  };
+  
+  data.distractions.push(newDistraction);
+  setAll(data);
+  return newDistraction;
 }
 
 export function saveGoal(goal: Omit<Goal, 'id' | 'createdAt' | 'updatedAt'>): Goal {
@@ -266,8 +480,9 @@ export function saveGoal(goal: Omit<Goal, 'id' | 'createdAt' | 'updatedAt'>): Go
   };
   
   data.goals.push(newGoal);
+  data.goals = deriveGoalProgress(data);
   setAll(data);
-  return newGoal;
+  return data.goals.find(g => g.id === newGoal.id)!;
 }
 
 export function updateGoal(id: string, updates: Partial<Goal>): Goal | null {
@@ -277,26 +492,17 @@ export function updateGoal(id: string, updates: Partial<Goal>): Goal | null {
   if (index === -1) return null;
   
   const oldGoal = data.goals[index];
-  const updatedGoal = {
+  data.goals[index] = {
     ...oldGoal,
     ...updates,
-    updatedAt: new Date()
+    updatedAt: nextVersion(oldGoal.updatedAt)
   };
+  data.goals = deriveGoalProgress(data);
+  const updatedGoal = data.goals[index];
   
-  data.goals[index] = updatedGoal;
-  
-  // Grant XP for completing a goal
-  if (oldGoal.status !== 'completed' && updatedGoal.status === 'completed') {
-    const xpGain = calculateGoalCompletionXP();
-    data.settings.xp += xpGain.amount;
-    
-    // Update level based on new XP
-    const levelInfo = calculateLevel(data.settings.xp);
-    data.settings.level = levelInfo.level;
-    
-    console.log(`🎉 +${xpGain.amount} XP: ${xpGain.reason}`);
-    console.log(`📈 Level ${levelInfo.level} (${Math.round(levelInfo.progressToNext * 100)}% to next)`);
-  }
+  // Grant XP for completing a goal, or reverse it when un-completed
+  updateXPLedger(data);
+  updateAchievements(data);
   
   setAll(data);
   return updatedGoal;
@@ -309,6 +515,8 @@ export function deleteGoal(id: string): boolean {
   if (index === -1) return false;
   
   data.goals.splice(index, 1);
+  recordTombstone(data, 'goal', id);
+  updateXPLedger(data);
   setAll(data);
   return true;
 }
@@ -316,6 +524,12 @@ export function deleteGoal(id: string): boolean {
 export function updateSettings(updates: Partial<Settings>): Settings {
   const data = getAll();
   data.settings = { ...data.settings, ...updates };
+  
+  // Streak days depend on the timezone
+  if (updates.timezone !== undefined) {
+    updateStreak(data);
+  }
+  
   setAll(data);
   return data.settings;
 }
@@ -341,12 +555,22 @@ export function updateSubject(id: string, updates: Partial<Subject>): Subject |
   
   if (index === -1) return null;
   
+  const oldName = data.subjects[index].name;
   data.subjects[index] = {
     ...data.subjects[index],
     ...updates,
-    updatedAt: new Date()
+    updatedAt: nextVersion(data.subjects[index].updatedAt)
   };
   
+  // Records refer to their subject by name, so a rename carries over to them
+  const newName = data.subjects[index].name;
+  if (newName !== oldName) {
+    data.resources = data.resources.map(r => r.subject === oldName ? { ...r, subject: newName, updatedAt: nextVersion(r.updatedAt) } : r);
+    data.sessions = data.sessions.map(s => s.subject === oldName ? { ...s, subject: newName, updatedAt: nextVersion(s.updatedAt) } : s);
+    data.goals = data.goals.map(g => g.subject === oldName ? { ...g, subject: newName, updatedAt: nextVersion(g.updatedAt) } : g);
+    refreshSubjectStats(data);
+  }
+  
   setAll(data);
   return data.subjects[index];
 }
@@ -361,6 +585,7 @@ export function deleteSubject(id: string): boolean {
   if (data.subjects[index].isTemplate) return false;
   
   data.subjects.splice(index, 1);
+  recordTombstone(data, 'subject', id);
   setAll(data);
   return true;
 }
@@ -389,15 +614,22 @@ export function createSubjectFromTemplate(templateId: string, customName?: strin
 
 export function updateSubjectStats(): void {
   const data = getAll();
-  
-  // Update stats for each subject
+  refreshSubjectStats(data);
+  setAll(data);
+}
+
+/**
+ * Stats are derived from resources, goals and sessions, so refreshing them
+ * doesn't touch updatedAt and isn't synced as an edit
+ */
+function refreshSubjectStats(data: AppData): void {
   data.subjects.forEach(subject => {
     if (subject.isTemplate) return; // Skip templates
     
     // Calculate resource stats
     const subjectResources = data.resources.filter(r => r.subject === subject.name);
     subject.stats.totalResources = subjectResources.length;
-    subject.stats.completedResources = subjectResources.filter(r => r.status === 'completed').length;
+    subject.stats.completedResources = subjectResources.filter(r => r.status === 'done').length;
     
     // Calculate goal stats
     const subjectGoals = data.goals.filter(g => g.subject === subject.name);
@@ -411,30 +643,42 @@ export function updateSubjectStats(): void {
     const lastSession = subjectSessions
       .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime())[0];
     subject.stats.lastStudied = lastSession ? new Date(lastSession.startedAt) : undefined;
-    
-    subject.updatedAt = new Date();
   });
-  
-  setAll(data);
 }
 
-export function reviewResource(id: string): Resource | null {
+export function reviewResource(id: string, grade: ReviewGrade = 'good'): Resource | null {
   const data = getAll();
   const index = data.resources.findIndex(r => r.id === id);
   
   if (index === -1) return null;
   
   const resource = data.resources[index];
-  const reviewResult = calculateReviewProgression(resource);
+  const reviewResult = calculateReviewProgression(resource, grade);
   
   data.resources[index] = {
     ...resource,
     status: reviewResult.status,
     nextReviewDate: reviewResult.nextReviewDate,
     lastReviewInterval: reviewResult.lastReviewInterval,
-    updatedAt: new Date()
+    easeFactor: reviewResult.easeFactor,
+    stability: reviewResult.stability,
+    updatedAt: nextVersion(resource.updatedAt)
   };
   
+  data.reviews.push({
+    id: generateId(),
+    resourceId: id,
+    action: 'review',
+    grade,
+    intervalDays: reviewResult.lastReviewInterval,
+    nextReviewDate: reviewResult.nextReviewDate,
+    reviewedAt: new Date()
+  });
+  
+  // Grant XP for the review
+  updateXPLedger(data);
+  updateAchievements(data);
+  
   setAll(data);
   return data.resources[index];
 }
@@ -451,9 +695,25 @@ export function snoozeResource(id: string): Resource | null {
   data.resources[index] = {
     ...resource,
     nextReviewDate: snoozeDate,
-    updatedAt: new Date()
+    updatedAt: nextVersion(resource.updatedAt)
   };
   
+  data.reviews.push({
+    id: generateId(),
+    resourceId: id,
+    action: 'snooze',
+    intervalDays: resource.lastReviewInterval,
+    nextReviewDate: snoozeDate,
+    reviewedAt: new Date()
+  });
+  
   setAll(data);
   return data.resources[index];
+}
+
+export function getReviewHistory(resourceId: string): ReviewLog[] {
+  const data = getAll();
+  return data.reviews
+    .filter(r => r.resourceId === resourceId)
+    .sort((a, b) => b.reviewedAt.getTime() - a.reviewedAt.getTime());
 }
\ No newline at end of file
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for the cloud writes the storage service queues
+ */
+
+import { storageService } from './storageService.js';
+import { saveResource, saveSubject } from './storage.js';
+import { getOutbox } from './outbox.js';
+import type { Resource } from './models.js';
+
+vi.mock('./authService.js', () => ({
+  authService: { getState: () => ({ isAuthenticated: true, user: null }) }
+}));
+
+vi.mock('./cloudStorage.js', () => ({
+  cloudStorage: {},
+  ApiError: class ApiError extends Error {}
+}));
+
+/**
+ * In-memory stand-in for window.localStorage
+ */
+class MemoryStorage {
+  items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+function withSteps(overrides: Partial<Resource> = {}): Omit<Resource, 'id' | 'createdAt' | 'updatedAt'> {
+  return {
+    title: 'Linear algebra course',
+    url: 'https://example.com/linear-algebra',
+    subject: 'Algebra',
+    type: 'course',
+    priority: 3,
+    notes: '',
+    tags: [],
+    favorite: false,
+    status: 'reviewing',
+    items: [
+      { id: 'item-1', title: 'Vectors', done: true },
+      { id: 'item-2', title: 'Matrices', done: false }
+    ],
+    ...overrides
+  };
+}
+
+function queuedResourceChanges() {
+  return getOutbox().entries.flatMap(entry =>
+    entry.kind === 'change' && entry.change.entity === 'resource' ? [entry.change] : []
+  );
+}
+
+beforeEach(() => {
+  const storage = new MemoryStorage();
+  storage.setItem('adhd-hub-data', JSON.stringify({
+    settings: { theme: 'dark', xp: 0, level: 1, streak: 0, longestStreak: 0 }
+  }));
+  vi.stubGlobal('localStorage', storage);
+  vi.stubGlobal('window', { dispatchEvent: () => true });
+  // Offline, so queued writes stay in the outbox to be looked at
+  vi.stubGlobal('navigator', { onLine: false });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('Storage service', () => {
+  describe('queued resource changes', () => {
+    test('should leave checklists out of reviews', async () => {
+      const resource = saveResource(withSteps());
+
+      await storageService.reviewResource(resource.id, 'good');
+
+      const [change] = queuedResourceChanges();
+      expect(change.id).toBe(resource.id);
+      expect(change.data).not.toHaveProperty('items');
+      expect(getOutbox().entries.some(entry => entry.kind === 'review')).toBe(true);
+    });
+
+    test('should leave checklists out of snoozes', async () => {
+      const resource = saveResource(withSteps());
+
+      await storageService.snoozeResource(resource.id);
+
+      const [change] = queuedResourceChanges();
+      expect(change.id).toBe(resource.id);
+      expect(change.data).not.toHaveProperty('items');
+    });
+
+    test('should leave checklists out of resources carried along by a subject rename', async () => {
+      const subject = saveSubject({
+        name: 'Algebra',
+        color: '#3B82F6',
+        isTemplate: false,
+        stats: { totalStudyTime: 0, totalResources: 0, completedResources: 0, totalGoals: 0, completedGoals: 0 }
+      });
+      const resource = saveResource(withSteps());
+
+      await storageService.updateSubject(subject.id, { name: 'Linear Algebra' });
+
+      const [change] = queuedResourceChanges();
+      expect(change).toMatchObject({ id: resource.id, data: { subject: 'Linear Algebra' } });
+      expect(change.data).not.toHaveProperty('items');
+    });
+  });
+});
\ No newline at end of file
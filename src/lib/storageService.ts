@@ -1,33 +1,76 @@
 /**
  * Unified storage service that handles both local and cloud storage
- * Automatically switches based on authentication status
+ * Writes always land locally first; when authenticated they are also queued
+ * in the outbox and replayed to the cloud
  */
 
-import type { AppData, Resource, Session, Goal, Settings, Subject } from './models.js';
-import { calculateSessionXP, calculateResourceXP, calculateGoalCompletionXP, calculateStreak, calculateLevel } from './xp.js';
-import { calculateReviewProgression, calculateSnoozeDate } from './review.js';
+import type { AppData, Resource, ResourceItem, Session, SessionReflection, BreakLog, Distraction, ActiveTimer, Goal, Settings, Subject, ReviewGrade, ReviewLog, SyncEntity } from './models.js';
 import { authService } from './authService.js';
-import { cloudStorage } from './cloudStorage.js';
+import { cloudStorage, ApiError } from './cloudStorage.js';
+import { prepareSyncRequest, applyRemoteChanges, toSyncChange, toEpochSeconds, syncKey } from './sync.js';
+import { queryLocalResources, type ResourcePage, type ResourcePageRequest, type ResourceQuery } from './resourceQuery.js';
+import { searchLocalData, SEARCH_LIMIT, type SearchResult } from './search.js';
+import { guessResourceType, type UrlMetadata } from './urlMetadata.js';
+import { advanceProgress, isTrackedResource } from './resourceProgress.js';
+import { diffItems } from './resourceItems.js';
+import {
+  getOutbox,
+  setOutbox,
+  addToOutbox,
+  removeFromOutbox,
+  markAttemptFailed,
+  markRejected,
+  retryConflict,
+  discardConflict,
+  isRejectedStatus,
+  coversChanges,
+  type OutboxOperation,
+  type OutboxEntry
+} from './outbox.js';
 
 // Re-export everything from the original storage.ts for compatibility
 export * from './storage.js';
 
 class UnifiedStorageService {
+  private flushing: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      // Replay queued writes as soon as we're back online or logged in
+      window.addEventListener('online', () => this.flushOutbox());
+      authService.subscribe(state => {
+        if (state.isAuthenticated) this.flushOutbox();
+      });
+    }
+  }
+
   private isAuthenticated(): boolean {
     return authService.getState().isAuthenticated;
   }
 
   /**
-   * Get all data - from cloud if authenticated, local otherwise
+   * Get all data - from cloud if authenticated and nothing is waiting to be
+   * replayed, otherwise from the local copy (which includes pending writes)
    */
   async getAll(): Promise<AppData> {
     if (this.isAuthenticated()) {
-      try {
-        return await cloudStorage.getAll();
-      } catch (error) {
-        console.error('Failed to get cloud data, falling back to local:', error);
-        // Fallback to local storage
-        return await this.getLocalData();
+      await this.flushOutbox();
+
+      if (getOutbox().entries.length === 0) {
+        try {
+          // Push anything written while logged out before the local copy is replaced
+          if (prepareSyncRequest(await this.getLocalData()).changes.length > 0) {
+            await authService.syncLocalDataToCloud();
+          }
+
+          const startedAt = new Date();
+          const data = await cloudStorage.getAll();
+          await this.saveLocalCopy(data, startedAt);
+          return data;
+        } catch (error) {
+          console.error('Failed to get cloud data, using local copy:', error);
+        }
       }
     }
     return await this.getLocalData();
@@ -43,206 +86,504 @@ class UnifiedStorageService {
   }
 
   /**
-   * Save resource - to cloud if authenticated, local otherwise
+   * Keep the local copy in step with the cloud so it is current when offline
    */
-  async saveResource(resource: Omit<Resource, 'id' | 'createdAt' | 'updatedAt'>): Promise<Resource> {
-    if (this.isAuthenticated()) {
+  private async saveLocalCopy(data: AppData, fetchedAt: Date): Promise<void> {
+    const { getAll, setAll } = await import('./storage.js');
+    const sync = getAll().sync;
+    setAll({
+      ...data,
+      sync: { cursor: sync?.cursor ?? null, tombstones: sync?.tombstones ?? [], lastSyncedAt: fetchedAt }
+    });
+  }
+
+  /**
+   * Queue a cloud write for a change already applied locally
+   */
+  private queue(...operations: OutboxOperation[]): void {
+    if (!this.isAuthenticated()) return;
+
+    let state = getOutbox();
+    for (const operation of operations) {
+      state = addToOutbox(state, operation);
+    }
+    setOutbox(state);
+    this.flushOutbox();
+  }
+
+  private queueRecord(entity: SyncEntity, record: Resource | Session | Goal | Subject): void {
+    this.queue(this.toChangeOperation(entity, record));
+  }
+
+  private toChangeOperation(entity: SyncEntity, record: Resource | Session | Goal | Subject): OutboxOperation {
+    const change = toSyncChange(entity, record);
+    // Checklists are queued step by step (see queueItems); the server keeps them when left out
+    if (entity === 'resource' && change.data) delete change.data.items;
+    return { kind: 'change', change };
+  }
+
+  /**
+   * Queue the step-level edits from one checklist to another, so checklist
+   * edits on two devices merge per step instead of the last one winning
+   */
+  private queueItems(resourceId: string, before: ResourceItem[], after: ResourceItem[]): void {
+    const changes = diffItems(before, after);
+    if (changes.length > 0) {
+      this.queue(...changes.map(change => ({ kind: 'item' as const, resourceId, change })));
+    }
+  }
+
+  private queueDeletion(entity: SyncEntity, id: string): void {
+    this.queue({ kind: 'change', change: { entity, id, op: 'delete', updated_at: toEpochSeconds(new Date()) } });
+  }
+
+  /**
+   * Replay queued cloud writes in order. Stops at the first entry that can't be
+   * delivered yet and retries it with backoff; rejected entries become conflicts.
+   */
+  async flushOutbox(): Promise<void> {
+    if (!this.isAuthenticated()) return;
+    if (!this.flushing) {
+      this.flushing = this.replayOutbox().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async replayOutbox(): Promise<void> {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    let entry: OutboxEntry | undefined;
+    while ((entry = getOutbox().entries[0])) {
+      if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+
+      const wait = entry.nextAttemptAt ? entry.nextAttemptAt.getTime() - Date.now() : 0;
+      if (wait > 0) {
+        this.retryTimer = setTimeout(() => this.flushOutbox(), wait);
+        return;
+      }
+
       try {
-        const savedResource = await cloudStorage.saveResource(resource);
-        
-        // Grant XP for high-priority resources
-        const xpGain = calculateResourceXP(savedResource.priority);
-        if (xpGain) {
-          const currentSettings = await this.getSettings();
-          const newXP = currentSettings.xp + xpGain.amount;
-          const levelInfo = calculateLevel(newXP);
-          
-          await this.updateSettings({
-            xp: newXP,
-            level: levelInfo.level
-          });
-          
-          console.log(`🎉 +${xpGain.amount} XP: ${xpGain.reason}`);
-          console.log(`📈 Level ${levelInfo.level} (${Math.round(levelInfo.progressToNext * 100)}% to next)`);
-        }
-        
-        return savedResource;
+        await this.replay(entry);
+        setOutbox(removeFromOutbox(getOutbox(), entry.id));
       } catch (error) {
-        console.error('Failed to save resource to cloud:', error);
-        throw error;
+        const message = error instanceof Error ? error.message : 'Request failed';
+        if (error instanceof ApiError && isRejectedStatus(error.status)) {
+          console.warn(`Server rejected queued change, moved to conflicts: ${message}`);
+          setOutbox(markRejected(getOutbox(), entry.id, message));
+          continue;
+        }
+        console.error('Failed to replay queued change, will retry:', error);
+        setOutbox(markAttemptFailed(getOutbox(), entry.id, message));
       }
     }
-    
-    // Fallback to local storage
-    const { saveResource: saveLocalResource } = await import('./storage.js');
-    return saveLocalResource(resource);
+  }
+
+  private async replay(entry: OutboxEntry): Promise<void> {
+    switch (entry.kind) {
+      case 'change': {
+        const { getAll: getLocalData, setAll: setLocalData } = await import('./storage.js');
+        const startedAt = new Date();
+        const result = await cloudStorage.pushChanges(getLocalData().sync?.cursor ?? null, [entry.change]);
+        if (result.rejected.length > 0) {
+          throw new ApiError(result.rejected[0].error, 409);
+        }
+
+        // Apply whatever other devices changed in the meantime; a pushed delete no longer needs its tombstone
+        const data = applyRemoteChanges(getLocalData(), result.changes);
+        const synced = {
+          ...data,
+          sync: {
+            ...data.sync,
+            cursor: result.cursor,
+            tombstones: (data.sync?.tombstones ?? []).filter(t => syncKey(t) !== syncKey(entry.change))
+          }
+        };
+
+        // Once every local edit is in the cloud or queued, the next load has nothing to push
+        if (coversChanges(getOutbox(), prepareSyncRequest(synced).changes)) {
+          synced.sync.lastSyncedAt = startedAt;
+        }
+        setLocalData(synced);
+        break;
+      }
+      case 'review':
+        await cloudStorage.saveReview(entry.review);
+        break;
+      case 'break':
+        await cloudStorage.saveBreak(entry.breakLog);
+        break;
+      case 'distraction':
+        await cloudStorage.saveDistraction(entry.distraction);
+        break;
+      case 'item': {
+        const { resourceId, change } = entry;
+        if (change.action === 'add') {
+          await cloudStorage.createResourceItem(resourceId, change.item);
+        } else if (change.action === 'update') {
+          await cloudStorage.updateResourceItem(resourceId, change.itemId, change.changes);
+        } else {
+          try {
+            await cloudStorage.deleteResourceItem(resourceId, change.itemId);
+          } catch (error) {
+            // Already removed, e.g. on another device
+            if (!(error instanceof ApiError && error.status === 404)) throw error;
+          }
+        }
+        break;
+      }
+      case 'settings':
+        await cloudStorage.updateSettings(entry.settings);
+        break;
+      case 'import':
+        await cloudStorage.importResources(entry.resources);
+        break;
+    }
   }
 
   /**
-   * Update resource
+   * Send a rejected change again, e.g. after the server-side problem was fixed
    */
-  async updateResource(id: string, updates: Partial<Resource>): Promise<Resource | null> {
+  retryConflict(id: string): void {
+    setOutbox(retryConflict(getOutbox(), id));
+    this.flushOutbox();
+  }
+
+  /**
+   * Drop a rejected change; the cloud version is restored on the next load
+   */
+  discardConflict(id: string): void {
+    setOutbox(discardConflict(getOutbox(), id));
+  }
+
+  /**
+   * One page of resources matching the query - from the cloud if authenticated
+   * and nothing is waiting to be replayed, otherwise from the local copy
+   */
+  async queryResources(query: ResourceQuery, page: ResourcePageRequest = {}): Promise<ResourcePage> {
     if (this.isAuthenticated()) {
+      await this.flushOutbox();
+
+      if (getOutbox().entries.length === 0) {
+        try {
+          return await cloudStorage.queryResources(query, page);
+        } catch (error) {
+          console.error('Failed to query cloud resources, using local copy:', error);
+        }
+      }
+    }
+
+    const { getAll: getLocalData } = await import('./storage.js');
+    return queryLocalResources(getLocalData().resources, query, page);
+  }
+
+  /**
+   * Search everything - in the cloud if authenticated and nothing is waiting to
+   * be replayed, otherwise in the local copy
+   */
+  async search(query: string, limit: number = SEARCH_LIMIT): Promise<SearchResult[]> {
+    if (this.isAuthenticated() && getOutbox().entries.length === 0) {
       try {
-        return await cloudStorage.updateResource(id, updates);
+        return await cloudStorage.search(query, limit);
       } catch (error) {
-        console.error('Failed to update resource in cloud:', error);
-        throw error;
+        console.error('Failed to search the cloud, using local copy:', error);
       }
     }
-    
-    // Fallback to local storage
-    const { updateResource: updateLocalResource } = await import('./storage.js');
-    return updateLocalResource(id, updates);
+
+    return searchLocalData(await this.getLocalData(), query, limit);
   }
 
   /**
-   * Delete resource
+   * Metadata for a pasted URL. Fetching other sites needs the server, so logged
+   * out or offline this is the guess the URL alone allows.
    */
-  async deleteResource(id: string): Promise<boolean> {
-    if (this.isAuthenticated()) {
+  async getUrlMetadata(url: string): Promise<UrlMetadata> {
+    if (this.isAuthenticated() && navigator.onLine) {
       try {
-        return await cloudStorage.deleteResource(id);
+        return await cloudStorage.getUrlMetadata(url);
       } catch (error) {
-        console.error('Failed to delete resource from cloud:', error);
-        throw error;
+        console.error('Failed to fetch URL metadata, guessing from the URL:', error);
       }
     }
-    
-    // Fallback to local storage
+
+    return { url, type: guessResourceType(url) };
+  }
+
+  /**
+   * Save resource - locally first, queued for the cloud if authenticated
+   */
+  async saveResource(resource: Omit<Resource, 'id' | 'createdAt' | 'updatedAt'>): Promise<Resource> {
+    const { saveResource: saveLocalResource } = await import('./storage.js');
+    const savedResource = saveLocalResource(resource);
+    this.queueRecord('resource', savedResource);
+    this.queueItems(savedResource.id, [], savedResource.items ?? []);
+    return savedResource;
+  }
+
+  /**
+   * Import many resources - locally in one write, then sent to the cloud as a
+   * single bulk request. New subjects are created and queued first.
+   */
+  async importResources(resources: Array<Omit<Resource, 'id' | 'createdAt' | 'updatedAt'>>): Promise<Resource[]> {
+    const { importResources: importLocalResources } = await import('./storage.js');
+    const imported = importLocalResources(resources);
+    imported.subjects.forEach(subject => this.queueRecord('subject', subject));
+    if (imported.resources.length > 0) {
+      this.queue({ kind: 'import', resources: imported.resources });
+    }
+    return imported.resources;
+  }
+
+  /**
+   * Update resource. Signed in, checklist changes are queued step by step;
+   * a checklist-only change doesn't give the resource a new version, so the
+   * whole resource isn't pushed over newer steps from another device.
+   */
+  async updateResource(id: string, updates: Partial<Resource>): Promise<Resource | null> {
+    const { getAll: getLocalData, updateResource: updateLocalResource, setResourceItems } = await import('./storage.js');
+    const { items, ...fields } = updates;
+    if (!this.isAuthenticated() || items === undefined) {
+      const updatedResource = updateLocalResource(id, updates);
+      if (updatedResource) this.queueRecord('resource', updatedResource);
+      return updatedResource;
+    }
+
+    const before = getLocalData().resources.find(r => r.id === id)?.items ?? [];
+    const updatedResource = Object.keys(fields).length > 0 ? updateLocalResource(id, updates) : setResourceItems(id, items);
+    if (!updatedResource) return null;
+
+    if (Object.keys(fields).length > 0) this.queueRecord('resource', updatedResource);
+    this.queueItems(id, before, items);
+    return updatedResource;
+  }
+
+  /**
+   * Delete resource
+   */
+  async deleteResource(id: string): Promise<boolean> {
     const { deleteResource: deleteLocalResource } = await import('./storage.js');
-    return deleteLocalResource(id);
+    const deleted = deleteLocalResource(id);
+    if (deleted) this.queueDeletion('resource', id);
+    return deleted;
   }
 
   /**
    * Save session
    */
   async saveSession(session: Omit<Session, 'id'>): Promise<Session> {
-    if (this.isAuthenticated()) {
-      try {
-        const savedSession = await cloudStorage.saveSession(session);
-        
-        // Grant XP and update streak
-        const xpGain = calculateSessionXP(savedSession.durationMin);
-        const allSessions = (await this.getAll()).sessions;
-        const streakInfo = calculateStreak([...allSessions, savedSession]);
-        
-        const currentSettings = await this.getSettings();
-        const newXP = currentSettings.xp + xpGain.amount;
-        const levelInfo = calculateLevel(newXP);
-        
-        await this.updateSettings({
-          xp: newXP,
-          level: levelInfo.level,
-          streak: streakInfo.currentStreak,
-          longestStreak: Math.max(currentSettings.longestStreak, streakInfo.longestStreak)
-        });
-        
-        if (xpGain.amount > 0) {
-          console.log(`🎉 +${xpGain.amount} XP: ${xpGain.reason}`);
-          console.log(`📈 Level ${levelInfo.level} (${Math.round(levelInfo.progressToNext * 100)}% to next)`);
-        }
-        
-        return savedSession;
-      } catch (error) {
-        console.error('Failed to save session to cloud:', error);
-        throw error;
-      }
+    const { saveSession: saveLocalSession } = await import('./storage.js');
+    const savedSession = saveLocalSession(session);
+    this.queueRecord('session', savedSession);
+    await this.advanceResource(savedSession);
+    return savedSession;
+  }
+
+  /**
+   * Move a tracked resource on by the units a new session logged. Done on the
+   * device for every way a session is logged, so the server never counts it twice.
+   * Editing or deleting the session later leaves the position alone.
+   */
+  private async advanceResource(session: Session): Promise<void> {
+    if (!session.resourceId || !session.unitsCompleted) return;
+
+    const resource = (await this.getLocalData()).resources.find(r => r.id === session.resourceId);
+    if (resource && isTrackedResource(resource)) {
+      await this.updateResource(resource.id, { currentUnit: advanceProgress(resource, session.unitsCompleted) });
     }
-    
-    // Fallback to local storage
+  }
+
+  /**
+   * Update session, e.g. to fix a timer left running overnight
+   */
+  async updateSession(id: string, updates: Partial<Omit<Session, 'id'>>): Promise<Session | null> {
+    const { updateSession: updateLocalSession } = await import('./storage.js');
+    const updatedSession = updateLocalSession(id, updates);
+    if (updatedSession) this.queueRecord('session', updatedSession);
+    return updatedSession;
+  }
+
+  /**
+   * Save a Pomodoro break
+   */
+  async saveBreak(pause: Omit<BreakLog, 'id'>): Promise<BreakLog> {
+    const { saveBreak: saveLocalBreak } = await import('./storage.js');
+    const savedBreak = saveLocalBreak(pause);
+    this.queue({ kind: 'break', breakLog: savedBreak });
+    return savedBreak;
+  }
+
+  /**
+   * Save a distraction; queued after its session, so the session reaches the server first
+   */
+  async saveDistraction(distraction: Omit<Distraction, 'id'>): Promise<Distraction> {
+    const { saveDistraction: saveLocalDistraction } = await import('./storage.js');
+    const savedDistraction = saveLocalDistraction(distraction);
+    this.queue({ kind: 'distraction', distraction: savedDistraction });
+    return savedDistraction;
+  }
+
+  /**
+   * Get the timer running on the server, or null when signed out or there is none
+   */
+  async getActiveTimer(): Promise<ActiveTimer | null> {
+    if (!this.isAuthenticated()) return null;
+    return cloudStorage.getTimer();
+  }
+
+  /**
+   * Start the server timer so the session can be finished on any device.
+   * Returns the timer to follow, which is another device's if it started first.
+   */
+  async startTimer(timer: Pick<ActiveTimer, 'startedAt' | 'subject' | 'resourceId'>): Promise<ActiveTimer | null> {
+    if (!this.isAuthenticated()) return null;
+    return cloudStorage.startTimer(timer);
+  }
+
+  async pauseTimer(): Promise<ActiveTimer | null> {
+    if (!this.isAuthenticated()) return null;
+    return cloudStorage.setTimerRunning(false);
+  }
+
+  async resumeTimer(): Promise<ActiveTimer | null> {
+    if (!this.isAuthenticated()) return null;
+    return cloudStorage.setTimerRunning(true);
+  }
+
+  /**
+   * Stop the server timer. The server creates the session in the same step,
+   * so it is only added to the local copy here, not queued again.
+   * Returns null if the timer was already stopped on another device.
+   */
+  async stopTimer(details: Pick<Session, 'subject' | 'resourceId'> & SessionReflection): Promise<Session | null> {
+    if (!this.isAuthenticated()) return null;
+
+    const session = await cloudStorage.stopTimer(details);
+    if (!session) return null;
+
     const { saveSession: saveLocalSession } = await import('./storage.js');
-    return saveLocalSession(session);
+    const savedSession = saveLocalSession(session);
+    await this.advanceResource(savedSession);
+    return savedSession;
+  }
+
+  /**
+   * Throw away the server timer without logging a session
+   */
+  async discardTimer(): Promise<boolean> {
+    if (!this.isAuthenticated()) return false;
+    return cloudStorage.discardTimer();
+  }
+
+  /**
+   * Delete session
+   */
+  async deleteSession(id: string): Promise<boolean> {
+    const { deleteSession: deleteLocalSession } = await import('./storage.js');
+    const deleted = deleteLocalSession(id);
+    if (deleted) this.queueDeletion('session', id);
+    return deleted;
   }
 
   /**
    * Save goal
    */
   async saveGoal(goal: Omit<Goal, 'id' | 'createdAt' | 'updatedAt'>): Promise<Goal> {
-    if (this.isAuthenticated()) {
-      try {
-        return await cloudStorage.saveGoal(goal);
-      } catch (error) {
-        console.error('Failed to save goal to cloud:', error);
-        throw error;
-      }
-    }
-    
-    // Fallback to local storage
     const { saveGoal: saveLocalGoal } = await import('./storage.js');
-    return saveLocalGoal(goal);
+    const savedGoal = saveLocalGoal(goal);
+    this.queueRecord('goal', savedGoal);
+    return savedGoal;
   }
 
   /**
    * Update goal
    */
   async updateGoal(id: string, updates: Partial<Goal>): Promise<Goal | null> {
-    if (this.isAuthenticated()) {
-      try {
-        const updatedGoal = await cloudStorage.updateGoal(id, updates);
-        
-        // Grant XP for completing a goal
-        if (updates.status === 'completed') {
-          const xpGain = calculateGoalCompletionXP();
-          const currentSettings = await this.getSettings();
-          const newXP = currentSettings.xp + xpGain.amount;
-          const levelInfo = calculateLevel(newXP);
-          
-          await this.updateSettings({
-            xp: newXP,
-            level: levelInfo.level
-          });
-          
-          console.log(`🎉 +${xpGain.amount} XP: ${xpGain.reason}`);
-          console.log(`📈 Level ${levelInfo.level} (${Math.round(levelInfo.progressToNext * 100)}% to next)`);
-        }
-        
-        return updatedGoal;
-      } catch (error) {
-        console.error('Failed to update goal in cloud:', error);
-        throw error;
-      }
-    }
-    
-    // Fallback to local storage
     const { updateGoal: updateLocalGoal } = await import('./storage.js');
-    return updateLocalGoal(id, updates);
+    const updatedGoal = updateLocalGoal(id, updates);
+    if (updatedGoal) this.queueRecord('goal', updatedGoal);
+    return updatedGoal;
   }
 
   /**
    * Delete goal
    */
   async deleteGoal(id: string): Promise<boolean> {
-    if (this.isAuthenticated()) {
-      try {
-        return await cloudStorage.deleteGoal(id);
-      } catch (error) {
-        console.error('Failed to delete goal from cloud:', error);
-        throw error;
-      }
-    }
-    
-    // Fallback to local storage
     const { deleteGoal: deleteLocalGoal } = await import('./storage.js');
-    return deleteLocalGoal(id);
+    const deleted = deleteLocalGoal(id);
+    if (deleted) this.queueDeletion('goal', id);
+    return deleted;
   }
 
   /**
-   * Update settings
+   * Save subject
    */
-  async updateSettings(updates: Partial<Settings>): Promise<Settings> {
-    if (this.isAuthenticated()) {
-      try {
-        return await cloudStorage.updateSettings(updates);
-      } catch (error) {
-        console.error('Failed to update settings in cloud:', error);
-        throw error;
-      }
-    }
+  async saveSubject(subject: Omit<Subject, 'id' | 'createdAt' | 'updatedAt'>): Promise<Subject> {
+    const { saveSubject: saveLocalSubject } = await import('./storage.js');
+    const savedSubject = saveLocalSubject(subject);
+    this.queueRecord('subject', savedSubject);
+    return savedSubject;
+  }
+
+  /**
+   * Update subject
+   */
+  async updateSubject(id: string, updates: Partial<Subject>): Promise<Subject | null> {
+    const { updateSubject: updateLocalSubject, getAll: getLocalData } = await import('./storage.js');
+    const oldName = getLocalData().subjects.find(s => s.id === id)?.name;
+    const updatedSubject = updateLocalSubject(id, updates);
+    if (!updatedSubject) return null;
+    
+    if (!updatedSubject.isTemplate) this.queueRecord('subject', updatedSubject);
     
-    // Fallback to local storage
+    // A rename was carried over to the subject's records, which sync on their own
+    if (updatedSubject.name !== oldName) {
+      const data = getLocalData();
+      const renamed = (record: { subject?: string }) => record.subject === updatedSubject.name;
+      this.queue(
+        ...data.resources.filter(renamed).map(r => this.toChangeOperation('resource', r)),
+        ...data.sessions.filter(renamed).map(s => this.toChangeOperation('session', s)),
+        ...data.goals.filter(renamed).map(g => this.toChangeOperation('goal', g))
+      );
+    }
+    return updatedSubject;
+  }
+
+  /**
+   * Delete subject (templates cannot be deleted)
+   */
+  async deleteSubject(id: string): Promise<boolean> {
+    const { deleteSubject: deleteLocalSubject } = await import('./storage.js');
+    const deleted = deleteLocalSubject(id);
+    if (deleted) this.queueDeletion('subject', id);
+    return deleted;
+  }
+
+  /**
+   * Create a custom subject from a built-in template
+   */
+  async createSubjectFromTemplate(templateId: string, customName?: string): Promise<Subject | null> {
+    const { createSubjectFromTemplate: createLocalSubjectFromTemplate } = await import('./storage.js');
+    const subject = createLocalSubjectFromTemplate(templateId, customName);
+    if (subject) this.queueRecord('subject', subject);
+    return subject;
+  }
+
+  /**
+   * Update settings. Only preferences go to the cloud; the server derives
+   * XP, level and streaks from the synced data.
+   */
+  async updateSettings(updates: Partial<Settings>): Promise<Settings> {
     const { updateSettings: updateLocalSettings } = await import('./storage.js');
-    return updateLocalSettings(updates);
+    const settings = updateLocalSettings(updates);
+    const { theme, selectedSubjectId, timezone, pomodoro } = updates;
+    if (theme !== undefined || selectedSubjectId !== undefined || timezone !== undefined || pomodoro !== undefined) {
+      this.queue({ kind: 'settings', settings: { theme, selectedSubjectId, timezone, pomodoro } });
+    }
+    return settings;
   }
 
   /**
@@ -256,61 +597,52 @@ class UnifiedStorageService {
   /**
    * Review resource (spaced repetition)
    */
-  async reviewResource(id: string): Promise<Resource | null> {
-    if (this.isAuthenticated()) {
-      try {
-        // Get current resource
-        const allData = await this.getAll();
-        const resource = allData.resources.find(r => r.id === id);
-        if (!resource) return null;
-        
-        // Calculate review progression
-        const reviewResult = calculateReviewProgression(resource);
-        
-        // Update resource with new review data
-        return await this.updateResource(id, {
-          status: reviewResult.status,
-          nextReviewDate: reviewResult.nextReviewDate,
-          lastReviewInterval: reviewResult.lastReviewInterval
-        });
-      } catch (error) {
-        console.error('Failed to review resource in cloud:', error);
-        throw error;
-      }
-    }
-    
-    // Fallback to local storage
+  async reviewResource(id: string, grade: ReviewGrade = 'good'): Promise<Resource | null> {
     const { reviewResource: reviewLocalResource } = await import('./storage.js');
-    return reviewLocalResource(id);
+    const reviewedResource = reviewLocalResource(id, grade);
+    if (reviewedResource) await this.queueReview(reviewedResource);
+    return reviewedResource;
   }
 
   /**
    * Snooze resource
    */
   async snoozeResource(id: string): Promise<Resource | null> {
-    if (this.isAuthenticated()) {
+    const { snoozeResource: snoozeLocalResource } = await import('./storage.js');
+    const snoozedResource = snoozeLocalResource(id);
+    if (snoozedResource) await this.queueReview(snoozedResource);
+    return snoozedResource;
+  }
+
+  /**
+   * Queue the resource change together with the review log entry it produced
+   */
+  private async queueReview(resource: Resource): Promise<void> {
+    const { getReviewHistory: getLocalReviewHistory } = await import('./storage.js');
+    const [latest] = getLocalReviewHistory(resource.id);
+    if (!latest) return;
+
+    const { reviewedAt, ...review } = latest;
+    this.queue(
+      this.toChangeOperation('resource', resource),
+      { kind: 'review', review }
+    );
+  }
+
+  /**
+   * Get review history for a resource, most recent first
+   */
+  async getReviewHistory(resourceId: string): Promise<ReviewLog[]> {
+    if (this.isAuthenticated() && getOutbox().entries.length === 0) {
       try {
-        // Get current resource
-        const allData = await this.getAll();
-        const resource = allData.resources.find(r => r.id === id);
-        if (!resource) return null;
-        
-        // Calculate snooze date
-        const snoozeDate = calculateSnoozeDate(resource);
-        
-        // Update resource with new review date
-        return await this.updateResource(id, {
-          nextReviewDate: snoozeDate
-        });
+        return await cloudStorage.getReviews(resourceId);
       } catch (error) {
-        console.error('Failed to snooze resource in cloud:', error);
-        throw error;
+        console.error('Failed to get review history from cloud, using local copy:', error);
       }
     }
     
-    // Fallback to local storage
-    const { snoozeResource: snoozeLocalResource } = await import('./storage.js');
-    return snoozeLocalResource(id);
+    const { getReviewHistory: getLocalReviewHistory } = await import('./storage.js');
+    return getLocalReviewHistory(resourceId);
   }
 
   /**
@@ -339,10 +671,26 @@ export async function getAll(): Promise<AppData> {
   return storageService.getAll();
 }
 
+export async function queryResources(query: ResourceQuery, page?: ResourcePageRequest): Promise<ResourcePage> {
+  return storageService.queryResources(query, page);
+}
+
+export async function search(query: string, limit?: number): Promise<SearchResult[]> {
+  return storageService.search(query, limit);
+}
+
+export async function getUrlMetadata(url: string): Promise<UrlMetadata> {
+  return storageService.getUrlMetadata(url);
+}
+
 export async function saveResource(resource: Omit<Resource, 'id' | 'createdAt' | 'updatedAt'>): Promise<Resource> {
   return storageService.saveResource(resource);
 }
 
+export async function importResources(resources: Array<Omit<Resource, 'id' | 'createdAt' | 'updatedAt'>>): Promise<Resource[]> {
+  return storageService.importResources(resources);
+}
+
 export async function updateResource(id: string, updates: Partial<Resource>): Promise<Resource | null> {
   return storageService.updateResource(id, updates);
 }
@@ -355,6 +703,22 @@ export async function saveSession(session: Omit<Session, 'id'>): Promise<Session
   return storageService.saveSession(session);
 }
 
+export async function updateSession(id: string, updates: Partial<Omit<Session, 'id'>>): Promise<Session | null> {
+  return storageService.updateSession(id, updates);
+}
+
+export async function saveBreak(pause: Omit<BreakLog, 'id'>): Promise<BreakLog> {
+  return storageService.saveBreak(pause);
+}
+
+export async function saveDistraction(distraction: Omit<Distraction, 'id'>): Promise<Distraction> {
+  return storageService.saveDistraction(distraction);
+}
+
+export async function deleteSession(id: string): Promise<boolean> {
+  return storageService.deleteSession(id);
+}
+
 export async function saveGoal(goal: Omit<Goal, 'id' | 'createdAt' | 'updatedAt'>): Promise<Goal> {
   return storageService.saveGoal(goal);
 }
@@ -367,18 +731,42 @@ export async function deleteGoal(id: string): Promise<boolean> {
   return storageService.deleteGoal(id);
 }
 
+export async function saveSubject(subject: Omit<Subject, 'id' | 'createdAt' | 'updatedAt'>): Promise<Subject> {
+  return storageService.saveSubject(subject);
+}
+
+export async function updateSubject(id: string, updates: Partial<Subject>): Promise<Subject | null> {
+  return storageService.updateSubject(id, updates);
+}
+
+export async function deleteSubject(id: string): Promise<boolean> {
+  return storageService.deleteSubject(id);
+}
+
+export async function createSubjectFromTemplate(templateId: string, customName?: string): Promise<Subject | null> {
+  return storageService.createSubjectFromTemplate(templateId, customName);
+}
+
 export async function updateSettings(updates: Partial<Settings>): Promise<Settings> {
   return storageService.updateSettings(updates);
 }
 
-export async function reviewResource(id: string): Promise<Resource | null> {
-  return storageService.reviewResource(id);
+export async function reviewResource(id: string, grade: ReviewGrade = 'good'): Promise<Resource | null> {
+  return storageService.reviewResource(id, grade);
 }
 
 export async function snoozeResource(id: string): Promise<Resource | null> {
   return storageService.snoozeResource(id);
 }
 
+export async function getReviewHistory(resourceId: string): Promise<ReviewLog[]> {
+  return storageService.getReviewHistory(resourceId);
+}
+
+export async function flushOutbox(): Promise<void> {
+  return storageService.flushOutbox();
+}
+
 export async function exportJSON(): Promise<string> {
   return storageService.exportJSON();
 }
\ No newline at end of file
@@ -0,0 +1,336 @@
+/**
+ * Unit tests for the two-way sync protocol
+ */
+
+import {
+  processSyncPush,
+  prepareSyncRequest,
+  completeSync,
+  applyRemoteChanges,
+  toSyncChange,
+  fromSyncChange,
+  syncKey,
+  isSameChange,
+  nextVersion,
+  type SyncChange,
+  type SyncStore,
+  type SyncVersion
+} from './sync.js';
+import type { AppData, Goal, Resource } from './models.js';
+
+/**
+ * In-memory stand-in for the D1 tables and sync_changes log
+ */
+class MemoryStore implements SyncStore {
+  records = new Map<string, SyncChange>();
+  log: Array<SyncChange & { seq: number }> = [];
+  writes = 0;
+
+  async getVersion(entity: SyncChange['entity'], id: string): Promise<SyncVersion | null> {
+    const change = await this.getChange(entity, id);
+    return change ? { op: change.op, updated_at: change.updated_at } : null;
+  }
+
+  async getChange(entity: SyncChange['entity'], id: string): Promise<SyncChange | null> {
+    const key = syncKey({ entity, id });
+    const record = this.records.get(key);
+    if (record) return record;
+    const tombstone = [...this.log].reverse().find(c => syncKey(c) === key && c.op === 'delete');
+    return tombstone ? { entity, id, op: 'delete', updated_at: tombstone.updated_at } : null;
+  }
+
+  async upsert(change: SyncChange): Promise<void> {
+    this.writes++;
+    this.records.set(syncKey(change), change);
+    this.log.push({ ...change, seq: this.log.length + 1 });
+  }
+
+  async remove(change: SyncChange): Promise<void> {
+    this.writes++;
+    this.records.delete(syncKey(change));
+    this.log.push({ entity: change.entity, id: change.id, op: 'delete', updated_at: change.updated_at, seq: this.log.length + 1 });
+  }
+
+  async getChangesSince(cursor: number) {
+    const latest = new Map<string, SyncChange & { seq: number }>();
+    this.log.filter(c => c.seq > cursor).forEach(c => latest.set(syncKey(c), c));
+
+    const changes = [...latest.values()].map(c =>
+      c.op === 'delete' ? { entity: c.entity, id: c.id, op: c.op, updated_at: c.updated_at } : this.records.get(syncKey(c))!
+    );
+    return { cursor: this.log.length, changes };
+  }
+}
+
+function emptyData(): AppData {
+  return {
+    resources: [],
+    sessions: [],
+    breaks: [],
+    distractions: [],
+    goals: [],
+    subjects: [],
+    reviews: [],
+    xpLedger: [],
+    achievements: [],
+    settings: { theme: 'dark', xp: 0, level: 1, streak: 0, longestStreak: 0 }
+  };
+}
+
+function makeGoal(overrides: Partial<Goal> = {}): Goal {
+  return {
+    id: 'goal-1',
+    name: 'Finish linear algebra',
+    subject: 'Math',
+    dueDate: new Date('2024-03-01T00:00:00Z'),
+    progressPct: 0,
+    status: 'active',
+    createdAt: new Date('2024-01-01T10:00:00Z'),
+    updatedAt: new Date('2024-01-01T10:00:00Z'),
+    ...overrides
+  };
+}
+
+async function sync(data: AppData, store: MemoryStore, at: Date) {
+  const request = prepareSyncRequest(data);
+  const result = await processSyncPush(store, request.cursor, request.changes);
+  return { data: completeSync(data, result, at), result };
+}
+
+function editGoal(data: AppData, updates: Partial<Goal>): AppData {
+  return { ...data, goals: data.goals.map(g => g.id === 'goal-1' ? { ...g, ...updates } : g) };
+}
+
+function deleteGoal(data: AppData, at: Date): AppData {
+  return {
+    ...data,
+    goals: data.goals.filter(g => g.id !== 'goal-1'),
+    sync: {
+      cursor: data.sync?.cursor ?? null,
+      ...data.sync,
+      tombstones: [...(data.sync?.tombstones ?? []), { entity: 'goal', id: 'goal-1', deletedAt: at }]
+    }
+  };
+}
+
+describe('Sync Protocol', () => {
+  let store: MemoryStore;
+  let laptop: AppData;
+  let phone: AppData;
+
+  // Both devices start out in sync with the same goal
+  beforeEach(async () => {
+    store = new MemoryStore();
+    laptop = { ...emptyData(), goals: [makeGoal()] };
+    ({ data: laptop } = await sync(laptop, store, new Date('2024-01-01T12:00:00Z')));
+    ({ data: phone } = await sync(emptyData(), store, new Date('2024-01-01T12:05:00Z')));
+  });
+
+  test('should pull records created on another device', () => {
+    expect(phone.goals).toHaveLength(1);
+    expect(phone.goals[0]).toMatchObject({ id: 'goal-1', name: 'Finish linear algebra', progressPct: 0 });
+  });
+
+  describe('two devices editing the same goal offline', () => {
+    test('should keep the later edit on both devices', async () => {
+      laptop = editGoal(laptop, { progressPct: 40, updatedAt: new Date('2024-01-02T09:00:00Z') });
+      phone = editGoal(phone, { progressPct: 25, name: 'Finish LA', updatedAt: new Date('2024-01-02T18:00:00Z') });
+
+      // Laptop reconnects first, then the phone, then the laptop again
+      ({ data: laptop } = await sync(laptop, store, new Date('2024-01-03T08:00:00Z')));
+      const phoneSync = await sync(phone, store, new Date('2024-01-03T08:05:00Z'));
+      phone = phoneSync.data;
+      ({ data: laptop } = await sync(laptop, store, new Date('2024-01-03T08:10:00Z')));
+
+      expect(phoneSync.result.applied).toEqual([{ entity: 'goal', id: 'goal-1' }]);
+      expect(laptop.goals).toEqual(phone.goals);
+      expect(laptop.goals[0]).toMatchObject({ name: 'Finish LA', progressPct: 25 });
+    });
+
+    test('should send the server version back when the pushed edit is older', async () => {
+      phone = editGoal(phone, { progressPct: 80, updatedAt: new Date('2024-01-02T18:00:00Z') });
+      laptop = editGoal(laptop, { progressPct: 40, updatedAt: new Date('2024-01-02T09:00:00Z') });
+
+      ({ data: phone } = await sync(phone, store, new Date('2024-01-03T08:00:00Z')));
+      const laptopSync = await sync(laptop, store, new Date('2024-01-03T08:05:00Z'));
+
+      expect(laptopSync.result.conflicts).toEqual([{ entity: 'goal', id: 'goal-1' }]);
+      expect(laptopSync.data.goals[0].progressPct).toBe(80);
+    });
+
+    test('should not acknowledge a different edit made in the same second', async () => {
+      laptop = editGoal(laptop, { progressPct: 40, updatedAt: new Date('2024-01-02T09:00:00.200Z') });
+      phone = editGoal(phone, { progressPct: 70, updatedAt: new Date('2024-01-02T09:00:00.800Z') });
+
+      ({ data: laptop } = await sync(laptop, store, new Date('2024-01-03T08:00:00Z')));
+      const phoneSync = await sync(phone, store, new Date('2024-01-03T08:05:00Z'));
+      phone = phoneSync.data;
+      ({ data: laptop } = await sync(laptop, store, new Date('2024-01-03T08:10:00Z')));
+
+      expect(phoneSync.result.applied).toEqual([]);
+      expect(phoneSync.result.conflicts).toEqual([{ entity: 'goal', id: 'goal-1' }]);
+      expect(phone.goals[0].progressPct).toBe(40);
+      expect(toSyncChange('goal', phone.goals[0])).toEqual(toSyncChange('goal', laptop.goals[0]));
+    });
+
+    test('should let a delete win over an older edit', async () => {
+      phone = editGoal(phone, { progressPct: 60, updatedAt: new Date('2024-01-02T09:00:00Z') });
+      laptop = deleteGoal(laptop, new Date('2024-01-02T10:00:00Z'));
+
+      ({ data: laptop } = await sync(laptop, store, new Date('2024-01-03T08:00:00Z')));
+      ({ data: phone } = await sync(phone, store, new Date('2024-01-03T08:05:00Z')));
+
+      expect(laptop.goals).toHaveLength(0);
+      expect(laptop.sync?.tombstones).toHaveLength(0);
+      expect(phone.goals).toHaveLength(0);
+    });
+
+    test('should let an edit made after a delete bring the goal back', async () => {
+      laptop = deleteGoal(laptop, new Date('2024-01-02T09:00:00Z'));
+      phone = editGoal(phone, { progressPct: 60, updatedAt: new Date('2024-01-02T10:00:00Z') });
+
+      ({ data: laptop } = await sync(laptop, store, new Date('2024-01-03T08:00:00Z')));
+      ({ data: phone } = await sync(phone, store, new Date('2024-01-03T08:05:00Z')));
+      ({ data: laptop } = await sync(laptop, store, new Date('2024-01-03T08:10:00Z')));
+
+      expect(phone.goals[0].progressPct).toBe(60);
+      expect(laptop.goals).toHaveLength(1);
+      expect(laptop.goals[0].progressPct).toBe(60);
+    });
+  });
+
+  describe('idempotency', () => {
+    test('should not duplicate records when the same push is replayed', async () => {
+      laptop = editGoal(laptop, { progressPct: 40, updatedAt: new Date('2024-01-02T09:00:00Z') });
+      const request = prepareSyncRequest(laptop);
+
+      await processSyncPush(store, request.cursor, request.changes);
+      const writes = store.writes;
+      const replay = await processSyncPush(store, request.cursor, request.changes);
+
+      expect(store.writes).toBe(writes);
+      expect(replay.applied).toEqual([{ entity: 'goal', id: 'goal-1' }]);
+      expect(replay.conflicts).toEqual([]);
+      expect(store.records.size).toBe(1);
+    });
+
+    test('should treat a replayed push as the same change whatever order its fields come in', async () => {
+      laptop = editGoal(laptop, { progressPct: 40, updatedAt: new Date('2024-01-02T09:00:00Z') });
+      const [change] = prepareSyncRequest(laptop).changes;
+      await processSyncPush(store, null, [change]);
+
+      const reordered = { ...change, data: Object.fromEntries(Object.entries(change.data!).reverse()) };
+      const replay = await processSyncPush(store, null, [reordered]);
+
+      expect(replay.applied).toEqual([{ entity: 'goal', id: 'goal-1' }]);
+      expect(isSameChange(reordered, change)).toBe(true);
+      expect(isSameChange({ ...change, data: { ...change.data, progress_pct: 41 } }, change)).toBe(false);
+    });
+
+    test('should give a second edit within the same second a newer version', () => {
+      const first = new Date('2024-01-02T09:00:00.200Z');
+
+      expect(nextVersion(first, new Date('2024-01-02T09:00:00.900Z'))).toEqual(new Date('2024-01-02T09:00:01Z'));
+      expect(nextVersion(first, new Date('2024-01-02T09:00:05Z'))).toEqual(new Date('2024-01-02T09:00:05Z'));
+      expect(nextVersion(undefined, first)).toBe(first);
+    });
+
+    test('should push nothing when no local edits happened since the last sync', () => {
+      expect(prepareSyncRequest(laptop).changes).toEqual([]);
+    });
+
+    test('should not echo pushed changes back to the device', async () => {
+      laptop = editGoal(laptop, { progressPct: 40, updatedAt: new Date('2024-01-02T09:00:00Z') });
+      const { result } = await sync(laptop, store, new Date('2024-01-03T08:00:00Z'));
+
+      expect(result.changes).toEqual([]);
+    });
+  });
+
+  describe('applyRemoteChanges', () => {
+    test('should keep a local edit that is newer than the pulled version', () => {
+      const local = editGoal(laptop, { progressPct: 90, updatedAt: new Date('2024-01-05T00:00:00Z') });
+      const remote = toSyncChange('goal', makeGoal({ progressPct: 10, updatedAt: new Date('2024-01-04T00:00:00Z') }));
+
+      expect(applyRemoteChanges(local, [remote]).goals[0].progressPct).toBe(90);
+    });
+
+    test('should drop reviews of a resource deleted remotely', () => {
+      const local: AppData = {
+        ...emptyData(),
+        resources: [{
+          id: 'res-1', title: 'Khan Academy', url: 'https://example.com', subject: 'Math', type: 'video',
+          priority: 2, notes: '', tags: [], favorite: false, status: 'reviewing',
+          createdAt: new Date('2024-01-01T00:00:00Z'), updatedAt: new Date('2024-01-01T00:00:00Z')
+        }],
+        reviews: [{ id: 'rev-1', resourceId: 'res-1', action: 'review', grade: 'good', reviewedAt: new Date('2024-01-01T00:00:00Z') }]
+      };
+
+      const result = applyRemoteChanges(local, [
+        { entity: 'resource', id: 'res-1', op: 'delete', updated_at: Date.parse('2024-01-02T00:00:00Z') / 1000 }
+      ]);
+
+      expect(result.resources).toHaveLength(0);
+      expect(result.reviews).toHaveLength(0);
+    });
+  });
+
+  describe('resource items', () => {
+    const resource: Resource = {
+      id: 'res-1', title: 'Linear Algebra', url: 'https://example.com', subject: 'Math', type: 'course',
+      priority: 2, notes: '', tags: [], favorite: false, status: 'learning',
+      items: [{ id: 'step-1', title: 'Lecture 1', done: true, estimateMin: 40 }, { id: 'step-2', title: 'Problem set', done: false }],
+      createdAt: new Date('2024-01-01T00:00:00Z'), updatedAt: new Date('2024-01-02T00:00:00Z')
+    };
+
+    test('should carry the checklist in order through a round trip', () => {
+      const change = toSyncChange('resource', resource);
+
+      expect(change.data!.items).toEqual([
+        { id: 'step-1', title: 'Lecture 1', done: true, estimate_min: 40 },
+        { id: 'step-2', title: 'Problem set', done: false, estimate_min: null }
+      ]);
+      expect((fromSyncChange(change) as Resource).items).toEqual(resource.items);
+    });
+
+    test('should leave items out for resources without a checklist', () => {
+      const change = toSyncChange('resource', { ...resource, items: undefined });
+
+      expect(change.data!.items).toBeUndefined();
+    });
+  });
+
+  describe('measured goals, sub-goals and habits', () => {
+    test('should carry the measure and linked resources through a round trip', () => {
+      const goal = makeGoal({ measure: 'resources', resourceIds: ['res-1', 'res-2'] });
+      const change = toSyncChange('goal', goal);
+
+      expect(change.data).toMatchObject({ measure: 'resources', target_minutes: null, resource_ids: ['res-1', 'res-2'] });
+      expect(fromSyncChange(change)).toMatchObject({ measure: 'resources', resourceIds: ['res-1', 'res-2'] });
+    });
+
+    test('should send manual goals as manual and leave links out when never set', () => {
+      const change = toSyncChange('goal', makeGoal());
+
+      expect(change.data!.measure).toBe('manual');
+      expect(change.data!.resource_ids).toBeUndefined();
+    });
+
+    test('should carry the parent of sub-goals and clear it on top-level goals', () => {
+      const change = toSyncChange('goal', makeGoal({ id: 'goal-2', parentId: 'goal-1' }));
+
+      expect(change.data!.parent_id).toBe('goal-1');
+      expect((fromSyncChange(change) as Goal).parentId).toBe('goal-1');
+      expect(toSyncChange('goal', makeGoal()).data!.parent_id).toBeNull();
+    });
+
+    test('should carry the recurrence of habits through a round trip', () => {
+      const habit = makeGoal({ recurrence: 'weekly', timesPerWeek: 3, dailyMinutes: 20 });
+      const change = toSyncChange('goal', habit);
+
+      expect(change.data).toMatchObject({ recurrence: 'weekly', times_per_week: 3, daily_minutes: 20 });
+      expect(fromSyncChange(change)).toMatchObject({ recurrence: 'weekly', timesPerWeek: 3, dailyMinutes: 20 });
+      expect(toSyncChange('goal', makeGoal()).data).toMatchObject({ recurrence: null, times_per_week: null, daily_minutes: null });
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,472 @@
+/**
+ * Two-way Sync Protocol
+ *
+ * Shared by the /api/sync route and the client. Records keep their client-generated
+ * IDs and carry an updated_at version (unix seconds). Conflicts resolve
+ * last-writer-wins, and deletes travel as tombstones so a delete beats older
+ * edits but loses to newer ones.
+ */
+
+import type { AppData, Resource, Session, Goal, Subject, SyncEntity, SyncTombstone } from './models.js';
+
+/**
+ * Order changes are applied in, so records exist before the sessions pointing at them
+ */
+export const SYNC_ENTITIES: readonly SyncEntity[] = ['subject', 'resource', 'goal', 'session'] as const;
+
+export interface SyncChange {
+  entity: SyncEntity;
+  id: string;
+  op: 'upsert' | 'delete';
+  updated_at: number; // record version, or deletion time for tombstones
+  data?: Record<string, any>; // API (snake_case) row for upserts
+}
+
+export type SyncRef = Pick<SyncChange, 'entity' | 'id'>;
+
+export interface SyncVersion {
+  op: SyncChange['op'];
+  updated_at: number;
+}
+
+export interface SyncRequest {
+  cursor: number | null;
+  changes: SyncChange[];
+}
+
+export interface SyncResult {
+  cursor: number;
+  changes: SyncChange[]; // everything the device should apply locally
+  applied: SyncRef[];
+  conflicts: SyncRef[]; // pushed changes that lost to a newer server version
+  rejected: Array<SyncRef & { error: string }>;
+}
+
+/**
+ * Server-side persistence used by processSyncPush
+ */
+export interface SyncStore {
+  getVersion(entity: SyncEntity, id: string): Promise<SyncVersion | null>;
+  getChange(entity: SyncEntity, id: string): Promise<SyncChange | null>;
+  upsert(change: SyncChange): Promise<void>;
+  remove(change: SyncChange): Promise<void>;
+  getChangesSince(cursor: number): Promise<{ cursor: number; changes: SyncChange[] }>;
+}
+
+type SyncCollection = 'resources' | 'sessions' | 'goals' | 'subjects';
+
+const COLLECTIONS: Record<SyncEntity, SyncCollection> = {
+  resource: 'resources',
+  session: 'sessions',
+  goal: 'goals',
+  subject: 'subjects'
+};
+
+export function syncKey(ref: SyncRef): string {
+  return `${ref.entity}:${ref.id}`;
+}
+
+export function toEpochSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
+/**
+ * Version for a record edited now. Versions are whole seconds, so a second
+ * edit within the same second moves on to the next one to stay newer.
+ */
+export function nextVersion(previous?: Date, now: Date = new Date()): Date {
+  if (!previous || toEpochSeconds(now) > toEpochSeconds(previous)) return now;
+  return new Date((toEpochSeconds(previous) + 1) * 1000);
+}
+
+/**
+ * Last-writer-wins: an incoming change only replaces a strictly older version
+ */
+export function isNewerVersion(incoming: SyncVersion, current: SyncVersion | null): boolean {
+  return !current || incoming.updated_at > current.updated_at;
+}
+
+function isSameVersion(incoming: SyncVersion, current: SyncVersion | null): boolean {
+  return !!current && current.op === incoming.op && current.updated_at === incoming.updated_at;
+}
+
+// Booleans may come back from D1 as 0/1 and undefined as null, and key order doesn't matter
+function canonicalize(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (typeof value === 'object') {
+    return Object.fromEntries(Object.keys(value).sort().map(key => [key, canonicalize((value as Record<string, unknown>)[key])]));
+  }
+  return value;
+}
+
+/**
+ * Versions are whole seconds, so two devices editing a record in the same
+ * second write the same version. Only a change that also carries the stored
+ * data is the same change; fields the device didn't send are ignored.
+ */
+export function isSameChange(incoming: SyncChange, current: SyncChange | null): boolean {
+  if (!current || !isSameVersion(incoming, current)) return false;
+  if (incoming.op === 'delete') return true;
+
+  const stored = current.data ?? {};
+  return Object.entries(incoming.data ?? {}).every(([key, value]) =>
+    value === undefined || JSON.stringify(canonicalize(value)) === JSON.stringify(canonicalize(stored[key]))
+  );
+}
+
+/**
+ * Apply a device's pushed changes and collect what it needs to pull back.
+ * Replaying the same push is a no-op, so retries never duplicate records.
+ * A different change with the same version loses to the stored one, like an
+ * older change would, so both devices end up with the stored version.
+ */
+export async function processSyncPush(store: SyncStore, cursor: number | null, changes: SyncChange[]): Promise<SyncResult> {
+  const applied: SyncChange[] = [];
+  const conflicts: SyncRef[] = [];
+  const rejected: SyncResult['rejected'] = [];
+
+  const ordered = [...changes].sort(
+    (a, b) => SYNC_ENTITIES.indexOf(a.entity) - SYNC_ENTITIES.indexOf(b.entity)
+  );
+
+  for (const change of ordered) {
+    const ref = { entity: change.entity, id: change.id };
+    const current = await store.getVersion(change.entity, change.id);
+
+    if (isSameVersion(change, current)) {
+      if (change.op === 'delete' || isSameChange(change, await store.getChange(change.entity, change.id))) {
+        applied.push(change);
+      } else {
+        conflicts.push(ref);
+      }
+      continue;
+    }
+
+    if (!isNewerVersion(change, current)) {
+      conflicts.push(ref);
+      continue;
+    }
+
+    try {
+      if (change.op === 'upsert') {
+        await store.upsert(change);
+      } else if (current?.op === 'upsert') {
+        await store.remove(change);
+      }
+      applied.push(change);
+    } catch (error) {
+      rejected.push({ ...ref, error: error instanceof Error ? error.message : 'Failed to apply change' });
+    }
+  }
+
+  const pulled = await store.getChangesSince(cursor ?? 0);
+
+  // Don't echo back what this device just wrote
+  const outgoing = pulled.changes.filter(remote => {
+    const own = applied.find(change => syncKey(change) === syncKey(remote));
+    return !own || !isSameChange(own, remote);
+  });
+
+  // Losing changes may predate the cursor, so send the winning version explicitly
+  for (const ref of conflicts) {
+    if (outgoing.some(change => syncKey(change) === syncKey(ref))) continue;
+    const winner = await store.getChange(ref.entity, ref.id);
+    if (winner) outgoing.push(winner);
+  }
+
+  return {
+    cursor: pulled.cursor,
+    changes: outgoing,
+    applied: applied.map(change => ({ entity: change.entity, id: change.id })),
+    conflicts,
+    rejected
+  };
+}
+
+function getVersionDate(entity: SyncEntity, record: any): Date {
+  if (entity === 'session') {
+    return (record as Session).updatedAt ?? (record as Session).startedAt;
+  }
+  return record.updatedAt;
+}
+
+/**
+ * Convert a local record into an upsert change
+ */
+export function toSyncChange(entity: SyncEntity, record: Resource | Session | Goal | Subject): SyncChange {
+  const updatedAt = toEpochSeconds(getVersionDate(entity, record));
+  let data: Record<string, any>;
+
+  switch (entity) {
+    case 'resource': {
+      const r = record as Resource;
+      data = {
+        title: r.title,
+        url: r.url,
+        subject: r.subject,
+        type: r.type,
+        priority: r.priority,
+        notes: r.notes,
+        tags: r.tags,
+        favorite: r.favorite,
+        status: r.status,
+        next_review_date: r.nextReviewDate ? toEpochSeconds(r.nextReviewDate) : null,
+        interval_days: r.lastReviewInterval ?? null,
+        ease_factor: r.easeFactor ?? null,
+        stability: r.stability ?? null,
+        progress_unit: r.progressUnit ?? null,
+        total_units: r.totalUnits ?? null,
+        current_unit: r.currentUnit ?? null,
+        // Left out for resources that never had a checklist, so stale devices can't wipe one
+        items: r.items?.map(item => ({
+          id: item.id,
+          title: item.title,
+          done: item.done,
+          estimate_min: item.estimateMin ?? null
+        })),
+        created_at: toEpochSeconds(r.createdAt),
+        updated_at: updatedAt
+      };
+      break;
+    }
+    case 'session': {
+      const s = record as Session;
+      data = {
+        started_at: toEpochSeconds(s.startedAt),
+        duration_min: s.durationMin,
+        subject: s.subject ?? null,
+        resource_id: s.resourceId ?? null,
+        notes: s.notes ?? null,
+        focus_rating: s.focusRating ?? null,
+        energy: s.energy ?? null,
+        units_completed: s.unitsCompleted ?? null,
+        created_at: toEpochSeconds(s.startedAt),
+        updated_at: updatedAt
+      };
+      break;
+    }
+    case 'goal': {
+      const g = record as Goal;
+      data = {
+        name: g.name,
+        subject: g.subject,
+        due_date: toEpochSeconds(g.dueDate),
+        progress_pct: g.progressPct,
+        status: g.status,
+        measure: g.measure ?? 'manual',
+        target_minutes: g.targetMinutes ?? null,
+        resource_ids: g.resourceIds, // left out when never linked, like resource items
+        parent_id: g.parentId ?? null,
+        recurrence: g.recurrence ?? null,
+        times_per_week: g.timesPerWeek ?? null,
+        daily_minutes: g.dailyMinutes ?? null,
+        created_at: toEpochSeconds(g.createdAt),
+        updated_at: updatedAt
+      };
+      break;
+    }
+    case 'subject': {
+      const s = record as Subject;
+      data = {
+        name: s.name,
+        description: s.description ?? null,
+        color: s.color,
+        created_at: toEpochSeconds(s.createdAt),
+        updated_at: updatedAt
+      };
+      break;
+    }
+  }
+
+  return { entity, id: record.id, op: 'upsert', updated_at: updatedAt, data };
+}
+
+/**
+ * Convert a pulled upsert back into a local record
+ */
+export function fromSyncChange(change: SyncChange, existing?: any): Resource | Session | Goal | Subject {
+  const d = change.data ?? {};
+  const updatedAt = new Date(change.updated_at * 1000);
+
+  switch (change.entity) {
+    case 'resource':
+      return {
+        id: change.id,
+        title: d.title,
+        url: d.url,
+        subject: d.subject,
+        type: d.type,
+        priority: d.priority,
+        notes: d.notes ?? '',
+        tags: d.tags ?? [],
+        favorite: Boolean(d.favorite),
+        status: d.status,
+        nextReviewDate: d.next_review_date ? new Date(d.next_review_date * 1000) : undefined,
+        lastReviewInterval: d.interval_days ?? undefined,
+        easeFactor: d.ease_factor ?? undefined,
+        stability: d.stability ?? undefined,
+        progressUnit: d.progress_unit ?? undefined,
+        totalUnits: d.total_units ?? undefined,
+        currentUnit: d.current_unit ?? undefined,
+        items: d.items?.map((item: any) => ({
+          id: item.id,
+          title: item.title,
+          done: Boolean(item.done),
+          estimateMin: item.estimate_min ?? undefined
+        })),
+        createdAt: new Date(d.created_at * 1000),
+        updatedAt
+      };
+    case 'session':
+      return {
+        id: change.id,
+        startedAt: new Date(d.started_at * 1000),
+        durationMin: d.duration_min,
+        subject: d.subject ?? undefined,
+        resourceId: d.resource_id ?? undefined,
+        notes: d.notes ?? undefined,
+        focusRating: d.focus_rating ?? undefined,
+        energy: d.energy ?? undefined,
+        unitsCompleted: d.units_completed ?? undefined,
+        updatedAt
+      };
+    case 'goal':
+      return {
+        id: change.id,
+        name: d.name,
+        subject: d.subject,
+        dueDate: new Date(d.due_date * 1000),
+        progressPct: d.progress_pct,
+        status: d.status,
+        measure: d.measure ?? undefined,
+        targetMinutes: d.target_minutes ?? undefined,
+        resourceIds: d.resource_ids ?? undefined,
+        parentId: d.parent_id ?? undefined,
+        recurrence: d.recurrence ?? undefined,
+        timesPerWeek: d.times_per_week ?? undefined,
+        dailyMinutes: d.daily_minutes ?? undefined,
+        createdAt: new Date(d.created_at * 1000),
+        updatedAt
+      };
+    case 'subject':
+      return {
+        id: change.id,
+        name: d.name,
+        description: d.description ?? undefined,
+        color: d.color,
+        isTemplate: false,
+        // Stats are derived locally, keep whatever the device already computed
+        stats: existing?.stats ?? {
+          totalStudyTime: 0,
+          totalResources: 0,
+          completedResources: 0,
+          totalGoals: 0,
+          completedGoals: 0
+        },
+        createdAt: new Date(d.created_at * 1000),
+        updatedAt
+      };
+  }
+}
+
+/**
+ * Collect local records edited since the last sync, plus pending deletes
+ */
+export function prepareSyncRequest(data: AppData): SyncRequest {
+  const lastSyncedAt = data.sync?.lastSyncedAt?.getTime() ?? 0;
+  const changes: SyncChange[] = [];
+
+  for (const entity of SYNC_ENTITIES) {
+    const records: Array<Resource | Session | Goal | Subject> = data[COLLECTIONS[entity]];
+    records
+      .filter(record => !(entity === 'subject' && (record as Subject).isTemplate))
+      .filter(record => getVersionDate(entity, record).getTime() > lastSyncedAt)
+      .forEach(record => changes.push(toSyncChange(entity, record)));
+  }
+
+  for (const tombstone of data.sync?.tombstones ?? []) {
+    changes.push({
+      entity: tombstone.entity,
+      id: tombstone.id,
+      op: 'delete',
+      updated_at: toEpochSeconds(tombstone.deletedAt)
+    });
+  }
+
+  return { cursor: data.sync?.cursor ?? null, changes };
+}
+
+/**
+ * Apply pulled changes to local data. A local edit newer than the pulled
+ * version is kept so it can be pushed on the next sync.
+ */
+export function applyRemoteChanges(data: AppData, changes: SyncChange[]): AppData {
+  const result: AppData = {
+    ...data,
+    resources: [...data.resources],
+    sessions: [...data.sessions],
+    goals: [...data.goals],
+    subjects: [...data.subjects],
+    reviews: [...data.reviews]
+  };
+  let tombstones: SyncTombstone[] = [...(data.sync?.tombstones ?? [])];
+
+  for (const change of changes) {
+    const records: any[] = result[COLLECTIONS[change.entity]];
+    const index = records.findIndex(record => record.id === change.id);
+    const tombstoneIndex = tombstones.findIndex(t => syncKey(t) === syncKey(change));
+
+    const local: SyncVersion | null = index !== -1
+      ? { op: 'upsert', updated_at: toEpochSeconds(getVersionDate(change.entity, records[index])) }
+      : tombstoneIndex !== -1
+        ? { op: 'delete', updated_at: toEpochSeconds(tombstones[tombstoneIndex].deletedAt) }
+        : null;
+
+    if (local && local.updated_at > change.updated_at) continue;
+
+    if (change.op === 'upsert') {
+      const record = fromSyncChange(change, index !== -1 ? records[index] : undefined);
+      if (index !== -1) {
+        records[index] = record;
+      } else {
+        records.push(record);
+      }
+    } else if (index !== -1) {
+      records.splice(index, 1);
+      if (change.entity === 'resource') {
+        result.reviews = result.reviews.filter(r => r.resourceId !== change.id);
+      }
+    }
+
+    if (tombstoneIndex !== -1) {
+      tombstones = tombstones.filter((_, i) => i !== tombstoneIndex);
+    }
+  }
+
+  return {
+    ...result,
+    sync: { cursor: data.sync?.cursor ?? null, ...data.sync, tombstones }
+  };
+}
+
+/**
+ * Fold a sync response into local data and advance the cursor.
+ * Records edited after startedAt stay pending for the next sync.
+ */
+export function completeSync(data: AppData, result: SyncResult, startedAt: Date): AppData {
+  const merged = applyRemoteChanges(data, result.changes);
+  const rejected = new Set(result.rejected.map(syncKey));
+
+  return {
+    ...merged,
+    sync: {
+      cursor: result.cursor,
+      lastSyncedAt: startedAt,
+      tombstones: (merged.sync?.tombstones ?? []).filter(
+        t => t.deletedAt.getTime() > startedAt.getTime() || rejected.has(syncKey(t))
+      )
+    }
+  };
+}
\ No newline at end of file
@@ -0,0 +1,55 @@
+/**
+ * Unit tests for tags
+ */
+
+import { normalizeTag, normalizeTags, getTagCounts, getTagSuggestions, MAX_TAG_LENGTH } from './tags.js';
+
+describe('Tags', () => {
+  describe('normalizeTags', () => {
+    test('should trim, collapse spaces and lowercase', () => {
+      expect(normalizeTag('  ML   Course ')).toBe('ml course');
+    });
+
+    test('should cap the length', () => {
+      expect(normalizeTag('x'.repeat(50))).toHaveLength(MAX_TAG_LENGTH);
+    });
+
+    test('should drop blanks and duplicates and sort', () => {
+      expect(normalizeTags(['Lecture', 'ml course', ' ', 'ML Course', 'exam'])).toEqual(['exam', 'lecture', 'ml course']);
+    });
+  });
+
+  describe('getTagCounts', () => {
+    test('should count resources per tag, most used first', () => {
+      const resources = [{ tags: ['exam', 'lecture'] }, { tags: ['lecture'] }, { tags: [] }, { tags: ['algebra'] }];
+
+      expect(getTagCounts(resources)).toEqual([
+        { name: 'lecture', count: 2 },
+        { name: 'algebra', count: 1 },
+        { name: 'exam', count: 1 }
+      ]);
+    });
+  });
+
+  describe('getTagSuggestions', () => {
+    const tags = [
+      { name: 'machine learning', count: 5 },
+      { name: 'ml course', count: 3 },
+      { name: 'html', count: 2 },
+      { name: 'exam', count: 1 }
+    ];
+
+    test('should put prefix matches before other matches', () => {
+      expect(getTagSuggestions(tags, 'M')).toEqual(['machine learning', 'ml course', 'html', 'exam']);
+      expect(getTagSuggestions(tags, 'ml')).toEqual(['ml course', 'html']);
+    });
+
+    test('should skip tags already chosen', () => {
+      expect(getTagSuggestions(tags, 'm', ['ml course'])).toEqual(['machine learning', 'html', 'exam']);
+    });
+
+    test('should offer the most used tags before anything is typed', () => {
+      expect(getTagSuggestions(tags, '', [], 2)).toEqual(['machine learning', 'ml course']);
+    });
+  });
+});
\ No newline at end of file
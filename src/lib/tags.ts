@@ -0,0 +1,57 @@
+/**
+ * Tags for ADHD Hub
+ *
+ * A resource has one subject but any number of tags, so a lecture can live under
+ * "Math" and still show up for "ml course". Tags compare case-insensitively and
+ * are stored trimmed and lowercase, the same on every device and in the cloud.
+ */
+
+import type { Resource } from './models.js';
+
+export const MAX_TAG_LENGTH = 30;
+export const MAX_TAGS_PER_RESOURCE = 20;
+
+export interface TagCount {
+  name: string;
+  count: number; // resources carrying the tag
+}
+
+export function normalizeTag(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase().slice(0, MAX_TAG_LENGTH).trim();
+}
+
+/**
+ * Normalized, without blanks or duplicates, alphabetical
+ */
+export function normalizeTags(names: string[]): string[] {
+  return [...new Set(names.map(normalizeTag).filter(Boolean))].sort();
+}
+
+/**
+ * Every tag in use, most used first
+ */
+export function getTagCounts(resources: Array<Pick<Resource, 'tags'>>): TagCount[] {
+  const counts = new Map<string, number>();
+  resources.forEach(resource => {
+    resource.tags.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+  });
+
+  return [...counts.entries()]
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+/**
+ * Tags to offer while typing: those starting with the input before those only
+ * containing it, skipping tags the resource already has
+ */
+export function getTagSuggestions(tags: TagCount[], input: string, selected: string[] = [], limit: number = 8): string[] {
+  const search = normalizeTag(input);
+  const available = tags.map(tag => tag.name).filter(name => !selected.includes(name));
+  if (!search) return available.slice(0, limit);
+
+  return [
+    ...available.filter(name => name.startsWith(search)),
+    ...available.filter(name => !name.startsWith(search) && name.includes(search))
+  ].slice(0, limit);
+}
\ No newline at end of file
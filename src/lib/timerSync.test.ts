@@ -0,0 +1,72 @@
+/**
+ * Unit tests for cross-tab timer coordination
+ */
+
+import { canTakeLease, isStaleRevision, getActiveTimerSeconds, TIMER_SYNC_RULES } from './timerSync.js';
+
+const now = new Date('2024-03-18T09:00:00Z').getTime();
+
+describe('Timer Sync', () => {
+  describe('canTakeLease', () => {
+    test('should take a lease nobody holds', () => {
+      expect(canTakeLease(null, 'tab-a', now)).toBe(true);
+    });
+
+    test('should let the holder renew its lease', () => {
+      expect(canTakeLease({ tabId: 'tab-a', expiresAt: now + 1000 }, 'tab-a', now)).toBe(true);
+    });
+
+    test('should not take a lease another tab holds', () => {
+      expect(canTakeLease({ tabId: 'tab-a', expiresAt: now + 1000 }, 'tab-b', now)).toBe(false);
+    });
+
+    test('should take over once the leader stops renewing', () => {
+      const lease = { tabId: 'tab-a', expiresAt: now };
+
+      expect(canTakeLease(lease, 'tab-b', now - 1)).toBe(false);
+      expect(canTakeLease(lease, 'tab-b', now)).toBe(true);
+    });
+
+    test('should renew well before the lease runs out', () => {
+      expect(TIMER_SYNC_RULES.HEARTBEAT_MS * 2).toBeLessThan(TIMER_SYNC_RULES.LEASE_MS);
+    });
+  });
+
+  describe('isStaleRevision', () => {
+    test('should accept the revision this tab last saw', () => {
+      expect(isStaleRevision('rev-1', { revision: 'rev-1' })).toBe(false);
+      expect(isStaleRevision(null, null)).toBe(false);
+    });
+
+    test('should flag a write from another tab', () => {
+      expect(isStaleRevision('rev-1', { revision: 'rev-2' })).toBe(true);
+      expect(isStaleRevision(null, { revision: 'rev-1' })).toBe(true);
+    });
+
+    test('should flag cleared timer state', () => {
+      expect(isStaleRevision('rev-1', null)).toBe(true);
+    });
+
+    test('should treat state saved before revisions as unseen only when this tab has one', () => {
+      expect(isStaleRevision(null, {})).toBe(false);
+      expect(isStaleRevision('rev-1', {})).toBe(true);
+    });
+  });
+
+  describe('getActiveTimerSeconds', () => {
+    const startedAt = new Date(now - 60 * 60 * 1000);
+
+    test('should add the time since the timer was resumed', () => {
+      const timer = { startedAt, resumedAt: new Date(now - 90 * 1000), elapsedSeconds: 600 };
+      expect(getActiveTimerSeconds(timer, now)).toBe(690);
+    });
+
+    test('should only count banked time while paused', () => {
+      expect(getActiveTimerSeconds({ startedAt, resumedAt: null, elapsedSeconds: 600 }, now)).toBe(600);
+    });
+
+    test('should ignore a resume time ahead of this device clock', () => {
+      expect(getActiveTimerSeconds({ startedAt, resumedAt: new Date(now + 5000), elapsedSeconds: 0 }, now)).toBe(0);
+    });
+  });
+});
\ No newline at end of file
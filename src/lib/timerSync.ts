@@ -0,0 +1,151 @@
+/**
+ * Cross-tab coordination for the study timer
+ *
+ * Only one tab leads the timer: it runs the clock, logs sessions and breaks
+ * and writes `timer-state`. Other tabs mirror that state through storage
+ * events and forward button presses to the leader over a BroadcastChannel.
+ * Leadership is a short lease in localStorage the leader keeps renewing, so
+ * when the leading tab closes another one takes over.
+ *
+ * For signed-in users the leader also mirrors the stopwatch to the server's
+ * active timer, which is how a session follows the user across devices.
+ */
+
+import type { ActiveTimer, DistractionCategory, SessionReflection } from './models.js';
+import { generateId } from './storage.js';
+
+const LEASE_KEY = 'timer-leader';
+const CHANNEL_NAME = 'adhd-hub-timer';
+
+export const TIMER_STATE_KEY = 'timer-state';
+
+/**
+ * Lease rules:
+ * - The leader renews its lease every 2 seconds
+ * - A lease not renewed for 5 seconds is up for grabs
+ */
+export const TIMER_SYNC_RULES = {
+  HEARTBEAT_MS: 2000,
+  LEASE_MS: 5000
+} as const;
+
+export interface TimerLease {
+  tabId: string;
+  expiresAt: number; // ms timestamp
+}
+
+export type TimerCommand =
+  | { type: 'toggle' }
+  | { type: 'reset' }
+  | { type: 'stopAndLog'; reflection?: SessionReflection }
+  | { type: 'setMode'; mode: 'stopwatch' | 'pomodoro' }
+  | { type: 'select'; subject: string; resourceId: string }
+  | { type: 'distracted'; occurredAt: number }
+  | { type: 'tagDistraction'; occurredAt: number; category: DistractionCategory }
+  | { type: 'refresh' }; // re-read the server timer
+
+export function canTakeLease(lease: TimerLease | null, tabId: string, now: number = Date.now()): boolean {
+  return !lease || lease.tabId === tabId || lease.expiresAt <= now;
+}
+
+/**
+ * Every write to `timer-state` stamps a new revision. A stored revision other
+ * than the one a tab last saw means another tab acted first (or the data was
+ * cleared), so the tab must adopt the stored state before changing anything.
+ */
+export function isStaleRevision(seenRevision: string | null, stored: { revision?: string } | null): boolean {
+  return (stored?.revision ?? null) !== seenRevision;
+}
+
+/**
+ * Seconds on a server timer, counting time since it was last resumed
+ */
+export function getActiveTimerSeconds(timer: ActiveTimer, now: number = Date.now()): number {
+  const running = timer.resumedAt ? Math.max(0, now - timer.resumedAt.getTime()) : 0;
+  return timer.elapsedSeconds + Math.floor(running / 1000);
+}
+
+export function readStoredTimerState<T extends { revision?: string }>(): T | null {
+  if (typeof localStorage === 'undefined') {
+    return null;
+  }
+
+  try {
+    const stored = localStorage.getItem(TIMER_STATE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Failed to load timer state:', error);
+    return null;
+  }
+}
+
+function readLease(): TimerLease | null {
+  try {
+    const stored = localStorage.getItem(LEASE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+export class TimerCoordinator {
+  readonly tabId = generateId();
+  private channel: BroadcastChannel | null = null;
+
+  constructor(private onCommand: (command: TimerCommand) => void) {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<TimerCommand>) => {
+        if (this.isLeader()) {
+          this.onCommand(event.data);
+        }
+      };
+    }
+
+    window.setInterval(() => {
+      if (this.isLeader()) {
+        this.tryLead();
+      }
+    }, TIMER_SYNC_RULES.HEARTBEAT_MS);
+
+    // Hand over straight away instead of waiting for the lease to run out
+    window.addEventListener('pagehide', () => this.releaseLead());
+  }
+
+  isLeader(): boolean {
+    const lease = readLease();
+    return lease?.tabId === this.tabId && lease.expiresAt > Date.now();
+  }
+
+  /**
+   * Take or renew the lease if nobody else holds it. Returns whether this tab leads.
+   */
+  tryLead(): boolean {
+    if (!canTakeLease(readLease(), this.tabId)) {
+      return false;
+    }
+
+    localStorage.setItem(LEASE_KEY, JSON.stringify({
+      tabId: this.tabId,
+      expiresAt: Date.now() + TIMER_SYNC_RULES.LEASE_MS
+    }));
+    return readLease()?.tabId === this.tabId;
+  }
+
+  /**
+   * Run a command here if this tab leads (or can take over), otherwise hand it to the leader
+   */
+  dispatch(command: TimerCommand) {
+    if (this.isLeader() || this.tryLead() || !this.channel) {
+      this.onCommand(command);
+    } else {
+      this.channel.postMessage(command);
+    }
+  }
+
+  releaseLead() {
+    if (this.isLeader()) {
+      localStorage.removeItem(LEASE_KEY);
+    }
+  }
+}
\ No newline at end of file
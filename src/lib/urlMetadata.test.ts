@@ -0,0 +1,181 @@
+/**
+ * Unit tests for URL metadata, fetched from a local stub server
+ */
+
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { isFetchableUrl, guessResourceType, parseDuration, extractMetadata, fetchUrlMetadata } from './urlMetadata.js';
+
+const PAGE = `<!doctype html>
+<html>
+<head>
+  <title>Fallback title</title>
+  <meta property="og:title" content="Linear Algebra &amp; You">
+  <meta content="Vectors, matrices and why they matter" property='og:description'>
+  <meta name="description" content="Plain description">
+  <meta property="og:site_name" content="Example Academy">
+  <meta property="og:type" content="video.other">
+  <meta property="og:video:duration" content="754">
+</head>
+<body>Lecture</body>
+</html>`;
+
+describe('URL metadata', () => {
+  describe('isFetchableUrl', () => {
+    test('should allow public http(s) URLs only', () => {
+      expect(isFetchableUrl('https://example.com/post')).toBe(true);
+      expect(isFetchableUrl('http://93.184.216.34/')).toBe(true);
+      expect(isFetchableUrl('ftp://example.com/file')).toBe(false);
+      expect(isFetchableUrl('example.com')).toBe(false);
+    });
+
+    test('should reject local and private addresses', () => {
+      ['http://localhost:4321/', 'http://127.0.0.1/', 'http://10.0.0.5/', 'http://172.20.1.1/', 'http://192.168.1.1/',
+        'http://169.254.169.254/latest/meta-data', 'http://[::1]/', 'http://printer.local/']
+        .forEach(url => expect(isFetchableUrl(url)).toBe(false));
+    });
+
+    test('should reject shared, benchmarking, multicast and reserved ranges', () => {
+      ['http://100.64.0.1/', 'http://100.127.255.254/', 'http://198.18.0.1/', 'http://198.19.255.1/', 'http://224.0.0.251/',
+        'http://239.255.255.250/', 'http://255.255.255.255/', 'http://192.0.2.10/', 'http://[fe90::1]/', 'http://[ff02::1]/',
+        'http://[64:ff9b::a9fe:a9fe]/']
+        .forEach(url => expect(isFetchableUrl(url)).toBe(false));
+    });
+
+    test('should see through shorthand IPv4 hosts and keep neighbouring public ranges', () => {
+      expect(isFetchableUrl('http://2130706433/')).toBe(false);
+      expect(isFetchableUrl('http://0x7f.1/')).toBe(false);
+      expect(isFetchableUrl('http://100.128.0.1/')).toBe(true);
+      expect(isFetchableUrl('http://198.20.0.1/')).toBe(true);
+      expect(isFetchableUrl('http://[2606:4700::1111]/')).toBe(true);
+    });
+
+    test('should only apply IPv6 ranges to IPv6 hosts', () => {
+      ['https://ffmpeg.org/docs', 'https://fda.gov/x', 'https://fcc.gov/', 'https://fe80.example.com/']
+        .forEach(url => expect(isFetchableUrl(url)).toBe(true));
+      expect(isFetchableUrl('http://[::7f00:1]/')).toBe(false);
+      expect(isFetchableUrl('http://[::127.0.0.1]/')).toBe(false);
+    });
+  });
+
+  describe('guessResourceType', () => {
+    test('should recognize hosts, including subdomains', () => {
+      expect(guessResourceType('https://www.youtube.com/watch?v=abc')).toBe('video');
+      expect(guessResourceType('https://youtu.be/abc')).toBe('video');
+      expect(guessResourceType('https://www.coursera.org/learn/ml')).toBe('course');
+      expect(guessResourceType('https://podcasts.apple.com/us/podcast/x/id1')).toBe('podcast');
+      expect(guessResourceType('https://open.spotify.com/episode/123')).toBe('podcast');
+    });
+
+    test('should recognize file extensions', () => {
+      expect(guessResourceType('https://example.com/papers/attention.PDF')).toBe('article');
+      expect(guessResourceType('https://example.com/books/sicp.epub')).toBe('book');
+      expect(guessResourceType('https://example.com/talk.mp4')).toBe('video');
+    });
+
+    test('should fall back to page hints, then other', () => {
+      expect(guessResourceType('https://example.com/post', { ogType: 'article' })).toBe('article');
+      expect(guessResourceType('https://example.com/file', { contentType: 'audio/mpeg' })).toBe('podcast');
+      expect(guessResourceType('https://example.com/')).toBe('other');
+      expect(guessResourceType('not a url')).toBe('other');
+    });
+  });
+
+  describe('parseDuration', () => {
+    test('should read ISO 8601 durations and seconds as whole minutes', () => {
+      expect(parseDuration('PT1H2M30S')).toBe(63);
+      expect(parseDuration('PT45S')).toBe(1);
+      expect(parseDuration('600')).toBe(10);
+      expect(parseDuration('P')).toBeUndefined();
+      expect(parseDuration('soon')).toBeUndefined();
+    });
+  });
+
+  describe('extractMetadata', () => {
+    test('should prefer Open Graph tags, whatever the attribute order', () => {
+      expect(extractMetadata(PAGE, 'https://example.com/lecture', 'text/html')).toEqual({
+        url: 'https://example.com/lecture',
+        type: 'video',
+        title: 'Linear Algebra & You',
+        description: 'Vectors, matrices and why they matter',
+        siteName: 'Example Academy',
+        durationMin: 13
+      });
+    });
+
+    test('should fall back to <title>, meta description and JSON-LD duration', () => {
+      const html = `<title>
+        Plain   page
+      </title><meta name="description" content="It&#39;s short">
+      <script type="application/ld+json">{"@type":"VideoObject","duration":"PT4M"}</script>`;
+
+      expect(extractMetadata(html, 'https://example.com/page', 'text/html')).toMatchObject({
+        title: 'Plain page',
+        description: "It's short",
+        durationMin: 4,
+        type: 'article'
+      });
+    });
+  });
+
+  describe('fetchUrlMetadata', () => {
+    let server: Server;
+    let baseUrl: string;
+
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        if (req.url === '/lecture') {
+          res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+          res.end(PAGE);
+        } else if (req.url === '/moved') {
+          res.writeHead(301, { Location: '/lecture' });
+          res.end();
+        } else if (req.url === '/paper') {
+          res.writeHead(200, { 'Content-Type': 'application/pdf' });
+          res.end('%PDF-1.4');
+        } else if (req.url === '/slow') {
+          setTimeout(() => res.end('<title>Too late</title>'), 500);
+        } else {
+          res.writeHead(404);
+          res.end();
+        }
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    test('should read metadata from the page', async () => {
+      const metadata = await fetchUrlMetadata(`${baseUrl}/lecture`);
+
+      expect(metadata).toMatchObject({ title: 'Linear Algebra & You', type: 'video', durationMin: 13 });
+    });
+
+    test('should follow redirects and report the final URL', async () => {
+      const metadata = await fetchUrlMetadata(`${baseUrl}/moved`);
+
+      expect(metadata.url).toBe(`${baseUrl}/lecture`);
+      expect(metadata.title).toBe('Linear Algebra & You');
+    });
+
+    test('should not follow redirects to URLs that are not allowed', async () => {
+      const metadata = await fetchUrlMetadata(`${baseUrl}/moved`, { allowUrl: url => !url.endsWith('/lecture') });
+
+      expect(metadata).toEqual({ url: `${baseUrl}/moved`, type: 'other' });
+    });
+
+    test('should type non-HTML responses by Content-Type without reading them', async () => {
+      expect(await fetchUrlMetadata(`${baseUrl}/paper`)).toEqual({ url: `${baseUrl}/paper`, type: 'article' });
+    });
+
+    test('should fall back to the URL guess on errors, timeouts and unreachable hosts', async () => {
+      expect(await fetchUrlMetadata(`${baseUrl}/missing.pdf`)).toEqual({ url: `${baseUrl}/missing.pdf`, type: 'article' });
+      expect(await fetchUrlMetadata(`${baseUrl}/slow`, { timeoutMs: 50 })).toEqual({ url: `${baseUrl}/slow`, type: 'other' });
+      expect(await fetchUrlMetadata('http://127.0.0.1:1/video.mp4')).toEqual({ url: 'http://127.0.0.1:1/video.mp4', type: 'video' });
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,295 @@
+/**
+ * URL metadata for ADHD Hub
+ *
+ * Pasting a link into the resource form should be enough: the page's Open Graph
+ * tags, <title> and description fill in the rest, and the URL itself says a lot
+ * about the type. Parsing is plain string work so it runs in a Worker, in Node
+ * tests and in the browser (for the offline, URL-only guess).
+ */
+
+import type { ResourceType } from './models.js';
+
+export const METADATA_TIMEOUT_MS = 5000;
+export const METADATA_MAX_BYTES = 512 * 1024; // metadata lives in <head>, no need for the whole page
+const MAX_REDIRECTS = 5;
+
+export interface UrlMetadata {
+  url: string; // after redirects
+  type: ResourceType;
+  title?: string;
+  description?: string;
+  siteName?: string;
+  durationMin?: number;
+}
+
+interface TypeRule {
+  type: ResourceType;
+  hosts?: string[]; // matches the host and its subdomains
+  extensions?: string[];
+  path?: RegExp;
+}
+
+// First match wins, so specific paths come before whole hosts
+const TYPE_RULES: TypeRule[] = [
+  { type: 'podcast', hosts: ['open.spotify.com'], path: /^\/(episode|show)\// },
+  { type: 'podcast', hosts: ['podcasts.apple.com', 'podcasts.google.com', 'overcast.fm', 'pca.st'] },
+  { type: 'video', hosts: ['youtube.com', 'youtu.be', 'vimeo.com', 'twitch.tv', 'dailymotion.com', 'loom.com', 'ted.com'] },
+  { type: 'course', hosts: ['coursera.org', 'udemy.com', 'edx.org', 'khanacademy.org', 'skillshare.com', 'pluralsight.com', 'codecademy.com'] },
+  { type: 'book', hosts: ['goodreads.com', 'openlibrary.org', 'books.google.com', 'gutenberg.org'] },
+  { type: 'article', extensions: ['pdf', 'html', 'htm'] },
+  { type: 'book', extensions: ['epub', 'mobi', 'azw3'] },
+  { type: 'video', extensions: ['mp4', 'webm', 'mov', 'mkv'] },
+  { type: 'podcast', extensions: ['mp3', 'm4a', 'ogg', 'wav'] },
+  { type: 'course', path: /\/courses?\// }
+];
+
+function matchesHost(hostname: string, hosts: string[]): boolean {
+  const host = hostname.replace(/^www\./, '');
+  return hosts.some(h => host === h || host.endsWith(`.${h}`));
+}
+
+// IPv4 ranges that aren't publicly routable (RFC 6890 special-purpose registry)
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, incl. cloud metadata
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.0.2.0', 24], // documentation
+  ['192.88.99.0', 24], // 6to4 relay anycast
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['198.51.100.0', 24], // documentation
+  ['203.0.113.0', 24], // documentation
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4] // reserved, incl. broadcast
+];
+
+function toIPv4Number(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+function isBlockedIPv4(address: string): boolean {
+  const value = toIPv4Number(address);
+  return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+    const size = 2 ** (32 - bits);
+    return Math.floor(value / size) === Math.floor(toIPv4Number(base) / size);
+  });
+}
+
+/**
+ * Only public http(s) URLs are fetched on the server, so the route can't be
+ * pointed at the Worker's own network or at link-local cloud metadata.
+ *
+ * This only looks at the URL: a public hostname that resolves to a private
+ * address passes. Workers have no DNS lookup to check it with, and their
+ * fetch() leaves through Cloudflare's network rather than the one the app
+ * is deployed next to, so that is left to the runtime. Check resolved
+ * addresses too before running this route on any other server.
+ */
+export function isFetchableUrl(url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return false;
+
+  const host = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) return false;
+
+  // The URL parser has already turned shorthand like 0x7f.1 or 2130706433 into dotted form
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(host)) return !isBlockedIPv4(host);
+
+  if (!host.includes(':')) return true;
+
+  // IPv6 unspecified, loopback, IPv4-compatible, IPv4-mapped, NAT64, unique local, link-local, documentation and multicast
+  return !(host === '::' || host === '::1' || /^::[0-9a-f]{1,4}:[0-9a-f]{1,4}$/.test(host) ||
+    host.startsWith('::ffff:') || host.startsWith('64:ff9b:') ||
+    /^f[cd]/.test(host) || /^fe[89ab]/.test(host) || host.startsWith('2001:db8:') || host.startsWith('ff'));
+}
+
+/**
+ * Best guess at a resource type from the URL, then from what the page says
+ * about itself (og:type, Content-Type). Falls back to 'other'.
+ */
+export function guessResourceType(url: string, hints: { ogType?: string; contentType?: string } = {}): ResourceType {
+  let parsed: URL | undefined;
+  try {
+    parsed = new URL(url);
+  } catch {
+    // Not a URL yet, the hints may still help
+  }
+
+  if (parsed) {
+    const extension = parsed.pathname.match(/\.([a-z0-9]+)$/i)?.[1].toLowerCase();
+    const rule = TYPE_RULES.find(r =>
+      (!r.hosts || matchesHost(parsed!.hostname, r.hosts)) &&
+      (!r.extensions || (extension !== undefined && r.extensions.includes(extension))) &&
+      (!r.path || r.path.test(parsed!.pathname))
+    );
+    if (rule) return rule.type;
+  }
+
+  const ogType = hints.ogType?.toLowerCase() ?? '';
+  if (ogType.startsWith('video')) return 'video';
+  if (ogType === 'book' || ogType.startsWith('books')) return 'book';
+  if (ogType === 'article') return 'article';
+
+  const contentType = hints.contentType?.toLowerCase() ?? '';
+  if (contentType.startsWith('video/')) return 'video';
+  if (contentType.startsWith('audio/')) return 'podcast';
+  if (contentType.includes('pdf') || contentType.includes('html')) return 'article';
+
+  return 'other';
+}
+
+/**
+ * Minutes from an ISO 8601 duration (PT1H2M30S) or a number of seconds,
+ * rounded up so short clips don't come out as 0
+ */
+export function parseDuration(value: string): number | undefined {
+  const trimmed = value.trim();
+  let seconds: number | undefined;
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    seconds = Number(trimmed);
+  } else {
+    const match = trimmed.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i);
+    if (match && match.slice(1).some(Boolean)) {
+      const [, days, hours, minutes, secs] = match.map(part => Number(part ?? 0));
+      seconds = ((days * 24 + hours) * 60 + minutes) * 60 + secs;
+    }
+  }
+
+  return seconds && seconds > 0 ? Math.ceil(seconds / 60) : undefined;
+}
+
+export function decodeEntities(text: string): string {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
+
+function clean(text: string | undefined): string | undefined {
+  const cleaned = text && decodeEntities(text).replace(/\s+/g, ' ').trim();
+  return cleaned || undefined;
+}
+
+/**
+ * Attributes of an HTML/XML start tag, names lowercased
+ */
+export function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, doubleQuoted, singleQuoted, bare] of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+    attributes[name.toLowerCase()] = doubleQuoted ?? singleQuoted ?? bare;
+  }
+  return attributes;
+}
+
+/**
+ * Pull title, description, site name, duration and type out of an HTML page
+ */
+export function extractMetadata(html: string, url: string, contentType?: string): UrlMetadata {
+  const meta: Record<string, string> = {};
+  for (const [tag] of html.matchAll(/<meta\s[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    const key = (attributes.property ?? attributes.name ?? attributes.itemprop)?.toLowerCase();
+    // The first occurrence wins, pages often repeat tags further down
+    if (key && attributes.content !== undefined && !(key in meta)) meta[key] = attributes.content;
+  }
+
+  const titleTag = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  // JSON-LD VideoObject/PodcastEpisode durations, for pages without duration meta tags
+  const jsonLdDuration = html.match(/"duration"\s*:\s*"([^"]+)"/)?.[1];
+  const duration = meta['og:video:duration'] ?? meta['video:duration'] ?? meta['duration'] ?? jsonLdDuration;
+
+  return {
+    url,
+    type: guessResourceType(url, { ogType: meta['og:type'], contentType }),
+    title: clean(meta['og:title'] ?? meta['twitter:title'] ?? titleTag),
+    description: clean(meta['og:description'] ?? meta['twitter:description'] ?? meta['description']),
+    siteName: clean(meta['og:site_name']),
+    durationMin: duration ? parseDuration(duration) : undefined
+  };
+}
+
+async function readText(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) return (await response.text()).slice(0, maxBytes);
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let bytes = 0;
+  while (bytes < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes += value.byteLength;
+    text += decoder.decode(value, { stream: true });
+  }
+  await reader.cancel().catch(() => undefined);
+  return text;
+}
+
+/**
+ * Fetch a page and read its metadata. Never throws: when the page can't be
+ * reached (offline, timeout, error status) the URL-based guess comes back alone.
+ * Redirects are followed by hand so `allowUrl` vets every hop, not just the first.
+ */
+export async function fetchUrlMetadata(
+  url: string,
+  options: { timeoutMs?: number; maxBytes?: number; allowUrl?: (url: string) => boolean } = {}
+): Promise<UrlMetadata> {
+  const { timeoutMs = METADATA_TIMEOUT_MS, maxBytes = METADATA_MAX_BYTES, allowUrl = () => true } = options;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const fallback = { url, type: guessResourceType(url) };
+
+  try {
+    let currentUrl = url;
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      if (!allowUrl(currentUrl)) return fallback;
+
+      const response = await fetch(currentUrl, {
+        redirect: 'manual',
+        signal: controller.signal,
+        headers: {
+          'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8',
+          'User-Agent': 'Mozilla/5.0 (compatible; ADHDHub/1.0; +metadata)'
+        }
+      });
+
+      const location = response.headers.get('Location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+        currentUrl = new URL(location, currentUrl).href;
+        continue;
+      }
+      if (!response.ok) {
+        await response.body?.cancel();
+        return fallback;
+      }
+
+      const contentType = response.headers.get('Content-Type') ?? '';
+      if (!contentType.includes('html')) {
+        await response.body?.cancel();
+        return { url: currentUrl, type: guessResourceType(currentUrl, { contentType }) };
+      }
+
+      return extractMetadata(await readText(response, maxBytes), currentUrl, contentType);
+    }
+    return fallback; // too many redirects
+  } catch {
+    return fallback;
+  } finally {
+    clearTimeout(timer);
+  }
+}
\ No newline at end of file
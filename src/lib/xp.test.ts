@@ -9,7 +9,14 @@ import {
   calculateLevel,
   getXPForLevel,
   calculateStreak,
-  XP_RULES 
+  getDayNumber,
+  getStreakFreezes,
+  isValidTimeZone,
+  calculateXPGrants,
+  reconcileXPLedger,
+  sumXPLedger,
+  XP_RULES,
+  STREAK_RULES
 } from './xp.js';
 
 // Mock session data for testing
@@ -144,7 +151,8 @@ describe('XP System', () => {
         const result = calculateStreak([]);
         expect(result).toEqual({
           currentStreak: 0,
-          longestStreak: 0
+          longestStreak: 0,
+          freezesUsed: 0
         });
       });
 
@@ -216,6 +224,197 @@ describe('XP System', () => {
         expect(result.currentStreak).toBe(1); // Should ignore 0-duration sessions
         expect(result.longestStreak).toBe(1);
       });
+
+      describe('timezones and DST', () => {
+        const newYork = 'America/New_York';
+
+        test('should count calendar days across DST changes as consecutive', () => {
+          const day = (iso: string) => getDayNumber(new Date(iso), newYork);
+
+          // One minute apart, either side of local midnight
+          expect(day('2024-03-10T05:00:00Z') - day('2024-03-10T04:59:00Z')).toBe(1);
+          // Midnight to midnight over spring forward is 23 hours
+          expect(day('2024-03-11T04:00:00Z') - day('2024-03-10T05:00:00Z')).toBe(1);
+          // Midnight to midnight over fall back is 25 hours
+          expect(day('2024-11-04T05:00:00Z') - day('2024-11-03T04:00:00Z')).toBe(1);
+        });
+
+        test('should keep a late-night streak going over spring forward', () => {
+          // 23:30 local on March 9, 10 and 11 (EST, then EDT)
+          const sessions = [
+            { startedAt: new Date('2024-03-10T04:30:00Z'), durationMin: 25 },
+            { startedAt: new Date('2024-03-11T03:30:00Z'), durationMin: 25 },
+            { startedAt: new Date('2024-03-12T03:30:00Z'), durationMin: 25 }
+          ];
+
+          const result = calculateStreak(sessions, { timeZone: newYork, now: new Date('2024-03-12T12:00:00Z') });
+          expect(result.currentStreak).toBe(3);
+          expect(result.longestStreak).toBe(3);
+        });
+
+        test('should keep an early-morning streak going over fall back', () => {
+          // 00:30 local on November 2, 3 and 4 (EDT, then EST)
+          const sessions = [
+            { startedAt: new Date('2024-11-02T04:30:00Z'), durationMin: 25 },
+            { startedAt: new Date('2024-11-03T04:30:00Z'), durationMin: 25 },
+            { startedAt: new Date('2024-11-04T05:30:00Z'), durationMin: 25 }
+          ];
+
+          const result = calculateStreak(sessions, { timeZone: newYork, now: new Date('2024-11-04T20:00:00Z') });
+          expect(result.currentStreak).toBe(3);
+        });
+
+        test('should bucket days in the user timezone rather than UTC', () => {
+          // 21:00 in New York is already the next day in UTC
+          const sessions = [
+            { startedAt: new Date('2024-06-01T14:00:00Z'), durationMin: 25 }, // June 1, 10:00
+            { startedAt: new Date('2024-06-02T01:00:00Z'), durationMin: 25 } // June 1, 21:00
+          ];
+
+          expect(calculateStreak(sessions, { timeZone: newYork, now: new Date('2024-06-02T12:00:00Z') }).longestStreak).toBe(1);
+          expect(calculateStreak(sessions, { timeZone: 'UTC', now: new Date('2024-06-02T12:00:00Z') }).longestStreak).toBe(2);
+        });
+
+        test('should validate IANA timezones', () => {
+          expect(isValidTimeZone(newYork)).toBe(true);
+          expect(isValidTimeZone('Not/AZone')).toBe(false);
+        });
+      });
+
+      describe('streak freezes', () => {
+        const day = (d: number) => new Date(Date.UTC(2024, 0, d, 12));
+        const options = { timeZone: 'UTC', now: day(6) };
+
+        // Studied January 1, 2, 4 and 5, missing the 3rd
+        const sessions = [1, 2, 4, 5].map(d => ({ startedAt: day(d), durationMin: 25 }));
+
+        test('should earn one freeze per 100 XP', () => {
+          expect(getStreakFreezes(99)).toBe(0);
+          expect(getStreakFreezes(STREAK_RULES.XP_PER_FREEZE * 2 + 50)).toBe(2);
+        });
+
+        test('should bridge a single missed day with a freeze', () => {
+          expect(calculateStreak(sessions, { ...options, freezes: 1 })).toEqual({
+            currentStreak: 4,
+            longestStreak: 4,
+            freezesUsed: 1
+          });
+        });
+
+        test('should break the streak without a freeze', () => {
+          const result = calculateStreak(sessions, options);
+          expect(result.currentStreak).toBe(2);
+          expect(result.longestStreak).toBe(2);
+        });
+
+        test('should not bridge more than one missed day', () => {
+          const longGap = [1, 2, 5, 6].map(d => ({ startedAt: day(d), durationMin: 25 }));
+          const result = calculateStreak(longGap, { ...options, freezes: 5 });
+
+          expect(result.currentStreak).toBe(2);
+          expect(result.freezesUsed).toBe(0);
+        });
+
+        test('should keep the current streak alive when yesterday was missed', () => {
+          const result = calculateStreak(sessions, { ...options, now: day(7), freezes: 2 });
+
+          expect(result.currentStreak).toBe(4);
+          expect(result.freezesUsed).toBe(2);
+          expect(calculateStreak(sessions, { ...options, now: day(7), freezes: 1 }).currentStreak).toBe(0);
+        });
+      });
+    });
+  });
+
+  describe('XP Ledger', () => {
+    const data = {
+      sessions: [
+        { id: 'session-1', durationMin: 25 },
+        { id: 'session-2', durationMin: 3 } // Too short to earn XP
+      ],
+      resources: [
+        { id: 'resource-1', priority: 1 },
+        { id: 'resource-2', priority: 3 }
+      ],
+      goals: [
+        { id: 'goal-1', status: 'completed' },
+        { id: 'goal-2', status: 'active' }
+      ],
+      reviews: [
+        { id: 'review-1', action: 'review' },
+        { id: 'review-2', action: 'snooze' } // Snoozes don't earn XP
+      ]
+    };
+
+    test('should derive one grant per qualifying source', () => {
+      const grants = calculateXPGrants(data);
+
+      expect(grants.map(g => [g.sourceType, g.sourceId, g.amount])).toEqual([
+        ['session', 'session-1', 10],
+        ['resource', 'resource-1', XP_RULES.HIGH_PRIORITY_RESOURCE],
+        ['goal', 'goal-1', XP_RULES.COMPLETED_GOAL],
+        ['review', 'review-1', XP_RULES.COMPLETED_REVIEW]
+      ]);
+    });
+
+    test('should append every grant to an empty ledger', () => {
+      const grants = calculateXPGrants(data);
+      expect(reconcileXPLedger(grants, [])).toEqual(grants);
+    });
+
+    test('should append nothing when the ledger is up to date', () => {
+      const grants = calculateXPGrants(data);
+      expect(reconcileXPLedger(grants, grants)).toEqual([]);
+    });
+
+    test('should reverse XP for sources that no longer qualify', () => {
+      const ledger = calculateXPGrants(data);
+      const expected = calculateXPGrants({
+        ...data,
+        goals: [{ id: 'goal-1', status: 'active' }] // Un-completed
+      });
+
+      expect(reconcileXPLedger(expected, ledger)).toEqual([
+        { sourceType: 'goal', sourceId: 'goal-1', amount: -XP_RULES.COMPLETED_GOAL, reason: 'Goal no longer completed' }
+      ]);
+    });
+
+    test('should adjust XP when a source is worth a different amount', () => {
+      const ledger = calculateXPGrants(data);
+      const expected = calculateXPGrants({
+        ...data,
+        sessions: [{ id: 'session-1', durationMin: 50 }]
+      });
+
+      expect(reconcileXPLedger(expected, ledger)).toEqual([
+        expect.objectContaining({ sourceId: 'session-1', amount: 10, reason: 'Adjusted: 50 minutes of study (10 blocks)' })
+      ]);
+    });
+
+    test('should grant again after a reversal', () => {
+      const grants = calculateXPGrants(data);
+      const reversal = reconcileXPLedger([], grants);
+      const ledger = [...grants, ...reversal];
+
+      expect(reversal.reduce((sum, e) => sum + e.amount, 0)).toBe(-27);
+      expect(reconcileXPLedger(grants, ledger)).toEqual(grants);
+    });
+
+    test('should reverse XP when a session is deleted', () => {
+      const ledger = calculateXPGrants(data);
+      const expected = calculateXPGrants({ ...data, sessions: [] });
+
+      expect(reconcileXPLedger(expected, ledger)).toEqual([
+        { sourceType: 'session', sourceId: 'session-1', amount: -10, reason: 'Session removed' }
+      ]);
+    });
+
+    test('should total the ledger without going below zero', () => {
+      const grants = calculateXPGrants(data);
+
+      expect(sumXPLedger(grants)).toBe(27);
+      expect(sumXPLedger([...grants, ...reconcileXPLedger([], grants)])).toBe(0);
+      expect(sumXPLedger([{ amount: -5, reason: 'Session removed' }])).toBe(0);
     });
   });
 
@@ -4,6 +4,8 @@
  * Simple, transparent progression system to gamify learning activities.
  */
 
+import type { XPLedgerEntry } from './models.js';
+
 export interface XPGain {
   amount: number;
   reason: string;
@@ -22,12 +24,14 @@ export interface LevelInfo {
  * - +2 XP per 5 minutes of study (rounded down)
  * - +5 XP for creating a new resource with priority High (1)
  * - +10 XP for marking a goal Completed
+ * - +2 XP for each completed review (snoozes don't count)
  */
 export const XP_RULES = {
   STUDY_MINUTES_PER_XP: 5,
   XP_PER_STUDY_BLOCK: 2,
   HIGH_PRIORITY_RESOURCE: 5,
-  COMPLETED_GOAL: 10
+  COMPLETED_GOAL: 10,
+  COMPLETED_REVIEW: 2
 } as const;
 
 /**
@@ -69,6 +73,125 @@ export function calculateGoalCompletionXP(): XPGain {
   };
 }
 
+/**
+ * Calculate XP for reviewing a resource
+ * Rule: +2 XP for each completed review (snoozes don't count)
+ */
+export function calculateReviewXP(): XPGain {
+  return {
+    amount: XP_RULES.COMPLETED_REVIEW,
+    reason: 'Reviewed a resource'
+  };
+}
+
+export type XPSourceType = XPLedgerEntry['sourceType'];
+
+/**
+ * XP tied to the record that earned it, as stored in the XP ledger
+ */
+export interface XPGrant extends XPGain {
+  sourceType: XPSourceType;
+  sourceId: string;
+}
+
+const REVERSAL_REASONS: Record<XPSourceType, string> = {
+  session: 'Session removed',
+  resource: 'Resource removed or no longer high priority',
+  goal: 'Goal no longer completed',
+  review: 'Review removed'
+};
+
+/**
+ * Reason recorded when a source's XP is taken back
+ */
+export function getReversalReason(sourceType: XPSourceType): string {
+  return REVERSAL_REASONS[sourceType];
+}
+
+/**
+ * Every XP grant the given data is worth, one per source record
+ */
+export function calculateXPGrants(data: {
+  sessions: Array<{ id: string; durationMin: number }>;
+  resources: Array<{ id: string; priority: number }>;
+  goals: Array<{ id: string; status: string }>;
+  reviews: Array<{ id: string; action: string }>;
+}): XPGrant[] {
+  const grants: XPGrant[] = [];
+
+  data.sessions.forEach(session => {
+    const gain = calculateSessionXP(session.durationMin);
+    if (gain.amount > 0) {
+      grants.push({ ...gain, sourceType: 'session', sourceId: session.id });
+    }
+  });
+
+  data.resources.forEach(resource => {
+    const gain = calculateResourceXP(resource.priority);
+    if (gain) {
+      grants.push({ ...gain, sourceType: 'resource', sourceId: resource.id });
+    }
+  });
+
+  data.goals
+    .filter(goal => goal.status === 'completed')
+    .forEach(goal => grants.push({ ...calculateGoalCompletionXP(), sourceType: 'goal', sourceId: goal.id }));
+
+  data.reviews
+    .filter(review => review.action === 'review')
+    .forEach(review => grants.push({ ...calculateReviewXP(), sourceType: 'review', sourceId: review.id }));
+
+  return grants;
+}
+
+/**
+ * New ledger entries needed so each source's ledger total matches what it is
+ * currently worth. The ledger is append-only: changed sources get an adjusting
+ * entry and sources that no longer earn XP get a reversing one.
+ */
+export function reconcileXPLedger(expected: XPGrant[], ledger: XPGrant[]): XPGrant[] {
+  const key = (grant: XPGrant) => `${grant.sourceType}:${grant.sourceId}`;
+  const totals = new Map<string, XPGrant>();
+
+  ledger.forEach(entry => {
+    const existing = totals.get(key(entry));
+    totals.set(key(entry), {
+      sourceType: entry.sourceType,
+      sourceId: entry.sourceId,
+      amount: (existing?.amount ?? 0) + entry.amount,
+      reason: entry.reason
+    });
+  });
+
+  const entries: XPGrant[] = [];
+
+  expected.forEach(grant => {
+    const recorded = totals.get(key(grant))?.amount ?? 0;
+    totals.delete(key(grant));
+
+    if (recorded === 0) {
+      entries.push(grant);
+    } else if (recorded !== grant.amount) {
+      entries.push({ ...grant, amount: grant.amount - recorded, reason: `Adjusted: ${grant.reason}` });
+    }
+  });
+
+  totals.forEach(total => {
+    if (total.amount !== 0) {
+      entries.push({ ...total, amount: -total.amount, reason: REVERSAL_REASONS[total.sourceType] });
+    }
+  });
+
+  return entries;
+}
+
+/**
+ * Total XP recorded in a ledger, never below zero
+ */
+export function sumXPLedger(ledger: XPGain[]): number {
+  return Math.max(0, ledger.reduce((total, entry) => total + entry.amount, 0));
+}
+
 /**
  * Level Formula: Level = floor(sqrt(XP) / 2) + 1
  * This creates a smooth progression curve where each level requires more XP
@@ -103,87 +226,124 @@ export function getXPForLevel(level: number): number {
   return Math.pow(2 * (level - 1), 2);
 }
 
+/**
+ * Streak Rules:
+ * - Days are calendar days in the user's IANA timezone, so DST changes and
+ *   server-side evaluation don't break streaks
+ * - A streak freeze bridges a single missed day
+ * - One streak freeze is earned per 100 XP; freezes are spent oldest gap first
+ */
+export const STREAK_RULES = {
+  XP_PER_FREEZE: 100,
+  MAX_MISSED_DAYS: 1
+} as const;
+
+export interface StreakOptions {
+  timeZone?: string; // IANA timezone, defaults to the runtime's
+  freezes?: number; // streak freezes available, defaults to none
+  now?: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const dayFormatters = new Map<string, Intl.DateTimeFormat>();
+
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calendar day a moment falls on in the given timezone, as days since the epoch.
+ * Consecutive calendar days always differ by exactly 1, even across DST changes.
+ */
+export function getDayNumber(date: Date, timeZone: string): number {
+  let formatter = dayFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: 'numeric', day: 'numeric' });
+    dayFormatters.set(timeZone, formatter);
+  }
+
+  const parts = formatter.formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)!.value);
+  return Date.UTC(part('year'), part('month') - 1, part('day')) / DAY_MS;
+}
+
+/**
+ * Streak freezes earned from total XP
+ */
+export function getStreakFreezes(totalXP: number): number {
+  return Math.floor(Math.max(0, totalXP) / STREAK_RULES.XP_PER_FREEZE);
+}
+
 /**
  * Calculate streak based on study sessions
- * Streak continues if user studies at least once per day
- * Resets if gap is >1 day
+ * Streak continues if user studies at least once per day, or a streak
+ * freeze covers a single missed day. Resets on longer gaps.
  */
-export function calculateStreak(sessions: Array<{ startedAt: Date; durationMin: number }>): {
+export function calculateStreak(
+  sessions: Array<{ startedAt: Date; durationMin: number }>,
+  options: StreakOptions = {}
+): {
   currentStreak: number;
   longestStreak: number;
+  freezesUsed: number;
 } {
-  if (sessions.length === 0) {
-    return { currentStreak: 0, longestStreak: 0 };
-  }
+  const timeZone = options.timeZone ?? getDeviceTimeZone();
 
-  // Group sessions by date and calculate daily totals
-  const dailyMinutes = new Map<string, number>();
+  // Group sessions by calendar day and calculate daily totals
+  const dailyMinutes = new Map<number, number>();
   sessions.forEach(session => {
-    const date = new Date(session.startedAt);
-    date.setHours(0, 0, 0, 0);
-    const dateKey = date.getTime().toString();
-    
-    const existing = dailyMinutes.get(dateKey) || 0;
-    dailyMinutes.set(dateKey, existing + session.durationMin);
+    const day = getDayNumber(new Date(session.startedAt), timeZone);
+    dailyMinutes.set(day, (dailyMinutes.get(day) || 0) + session.durationMin);
   });
 
-  // Get all study dates (days with >0 minutes) in descending order
-  const studyDates = Array.from(dailyMinutes.entries())
+  // Get all study days (days with >0 minutes) in ascending order
+  const studyDays = Array.from(dailyMinutes.entries())
     .filter(([_, minutes]) => minutes > 0)
-    .map(([dateKey, _]) => parseInt(dateKey))
-    .sort((a, b) => b - a); // Most recent first
+    .map(([day, _]) => day)
+    .sort((a, b) => a - b);
 
-  if (studyDates.length === 0) {
-    return { currentStreak: 0, longestStreak: 0 };
+  if (studyDays.length === 0) {
+    return { currentStreak: 0, longestStreak: 0, freezesUsed: 0 };
   }
 
-  // Calculate current streak
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const todayTime = today.getTime();
-  
-  let currentStreak = 0;
-  let longestStreak = 0;
-  let tempStreak = 0;
+  let freezesLeft = options.freezes ?? 0;
+  let freezesUsed = 0;
 
-  // Check current streak from today backwards
-  for (let i = 0; i < studyDates.length; i++) {
-    const expectedDate = todayTime - (i * 24 * 60 * 60 * 1000);
-    
-    if (studyDates[i] === expectedDate) {
-      if (i === 0 || currentStreak === i) {
-        currentStreak++;
-      }
-    } else if (i === 0) {
-      // If no study today, check yesterday
-      const yesterdayTime = todayTime - (24 * 60 * 60 * 1000);
-      if (studyDates[0] === yesterdayTime) {
-        currentStreak = 1;
-      }
-      break;
-    } else {
-      break;
+  // Spend freezes on a gap if it is short enough and enough are left
+  const bridge = (missedDays: number): boolean => {
+    if (missedDays > STREAK_RULES.MAX_MISSED_DAYS || missedDays > freezesLeft) {
+      return false;
     }
-  }
+    freezesLeft -= missedDays;
+    freezesUsed += missedDays;
+    return true;
+  };
 
-  // Calculate longest streak ever
-  tempStreak = 1;
-  longestStreak = 1;
-  
-  for (let i = 1; i < studyDates.length; i++) {
-    const currentDate = studyDates[i];
-    const previousDate = studyDates[i - 1];
-    const daysDiff = (previousDate - currentDate) / (24 * 60 * 60 * 1000);
-    
-    if (daysDiff === 1) {
-      tempStreak++;
-      longestStreak = Math.max(longestStreak, tempStreak);
-    } else {
-      tempStreak = 1;
-    }
+  // Walk forward through study days, tracking the run ending at each one
+  let runLength = 1;
+  let longestStreak = 1;
+
+  for (let i = 1; i < studyDays.length; i++) {
+    const missedDays = studyDays[i] - studyDays[i - 1] - 1;
+    runLength = bridge(missedDays) ? runLength + 1 : 1;
+    longestStreak = Math.max(longestStreak, runLength);
   }
 
-  return { currentStreak, longestStreak };
+  // The latest run is current if it reaches today or yesterday, or a freeze covers the gap
+  const today = getDayNumber(options.now ?? new Date(), timeZone);
+  const missedSinceLast = Math.max(0, today - studyDays[studyDays.length - 1] - 1);
+  const currentStreak = missedSinceLast === 0 || bridge(missedSinceLast) ? runLength : 0;
+
+  return { currentStreak, longestStreak, freezesUsed };
 }
 
 /**
@@ -0,0 +1,122 @@
+/**
+ * Unit tests for /api/goals
+ */
+
+import type { APIContext } from 'astro';
+import { POST, PUT } from '../goals.js';
+
+const mocks = vi.hoisted(() => ({
+  db: {
+    getGoalsByUserId: vi.fn(),
+    getSessionsByUserId: vi.fn(),
+    getResourcesByUserId: vi.fn(),
+    getSettingsByUserId: vi.fn(),
+    createGoal: vi.fn(),
+    updateGoal: vi.fn()
+  },
+  recalculateProgress: vi.fn()
+}));
+
+vi.mock('../../../lib/db', () => ({
+  DatabaseService: vi.fn(() => mocks.db)
+}));
+
+vi.mock('../../../lib/auth', () => ({
+  getUserFromContext: () => ({ userId: 'user-1', email: 'sam@example.com' })
+}));
+
+vi.mock('../../../lib/progress', () => ({
+  recalculateProgress: mocks.recalculateProgress
+}));
+
+function send(method: string, query: string, body: unknown): APIContext {
+  const url = `https://hub.test/api/goals${query}`;
+  return {
+    request: new Request(url, { method, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) }),
+    url: new URL(url),
+    locals: { runtime: { env: { DB: {} } } }
+  } as unknown as APIContext;
+}
+
+const goal = {
+  id: 'goal-1',
+  user_id: 'user-1',
+  name: 'Study Spanish',
+  subject: 'Spanish',
+  due_date: 1712000000,
+  progress_pct: 0,
+  status: 'active',
+  measure: 'manual',
+  target_minutes: null,
+  resource_ids: [],
+  parent_id: null,
+  recurrence: null,
+  times_per_week: null,
+  daily_minutes: null,
+  created_at: 1709280000,
+  updated_at: 1709280000
+};
+
+const minutesGoal = { ...goal, measure: 'minutes', target_minutes: 600 };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.db.getGoalsByUserId.mockResolvedValue([goal]);
+  mocks.db.getSessionsByUserId.mockResolvedValue([
+    { id: 'ses-1', started_at: 1709290000, duration_min: 150, subject: 'Spanish' }
+  ]);
+  mocks.db.getResourcesByUserId.mockResolvedValue([]);
+  mocks.db.getSettingsByUserId.mockResolvedValue({ timezone: 'UTC' });
+});
+
+describe('/api/goals', () => {
+  test('should return a new measured goal with its progress so far', async () => {
+    mocks.db.createGoal.mockResolvedValue(minutesGoal);
+    mocks.db.getGoalsByUserId.mockResolvedValue([minutesGoal]);
+    const response = await POST(send('POST', '', { name: 'Study Spanish', subject: 'Spanish', due_date: 1712000000, measure: 'minutes', target_minutes: 600 }));
+
+    expect(response.status).toBe(201);
+    expect((await response.json()).goal).toMatchObject({ id: 'goal-1', progress_pct: 25, habit: null });
+  });
+
+  test('should check an update against the goal it produces', async () => {
+    const response = await PUT(send('PUT', '?id=goal-1', { measure: 'minutes' }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).details[0].message).toBe('Measured goals need target minutes or linked resources');
+    expect(mocks.db.updateGoal).not.toHaveBeenCalled();
+  });
+
+  test('should accept an update completed by what is stored', async () => {
+    mocks.db.getGoalsByUserId.mockResolvedValue([minutesGoal]);
+    mocks.db.updateGoal.mockResolvedValue({ ...minutesGoal, target_minutes: 300 });
+    const response = await PUT(send('PUT', '?id=goal-1', { target_minutes: 300 }));
+
+    expect(response.status).toBe(200);
+    expect(mocks.db.updateGoal).toHaveBeenCalledWith('goal-1', 'user-1', { target_minutes: 300 });
+  });
+
+  test('should not turn a goal into a habit without its daily minutes', async () => {
+    expect((await PUT(send('PUT', '?id=goal-1', { recurrence: 'daily' }))).status).toBe(400);
+
+    const habit = { ...goal, recurrence: 'daily', daily_minutes: 20 };
+    mocks.db.getGoalsByUserId.mockResolvedValue([habit]);
+    expect((await PUT(send('PUT', '?id=goal-1', { recurrence: 'weekly' }))).status).toBe(400);
+  });
+
+  test('should return the updated goal with derived progress', async () => {
+    mocks.db.updateGoal.mockResolvedValue(minutesGoal);
+    mocks.db.getGoalsByUserId.mockResolvedValueOnce([goal]).mockResolvedValue([minutesGoal]);
+    const response = await PUT(send('PUT', '?id=goal-1', { measure: 'minutes', target_minutes: 600 }));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).goal.progress_pct).toBe(25);
+    expect(mocks.recalculateProgress).toHaveBeenCalledWith(mocks.db, 'user-1', [{ sourceType: 'goal', sourceId: 'goal-1' }]);
+  });
+
+  test('should return 404 for a goal the user doesn\'t own', async () => {
+    mocks.db.getGoalsByUserId.mockResolvedValue([]);
+
+    expect((await PUT(send('PUT', '?id=goal-9', { name: 'Renamed' }))).status).toBe(404);
+  });
+});
\ No newline at end of file
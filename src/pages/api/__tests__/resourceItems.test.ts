@@ -0,0 +1,137 @@
+/**
+ * Unit tests for /api/resources/:resourceId/items
+ */
+
+import type { APIContext } from 'astro';
+import { GET, POST, PUT, DELETE } from '../resources/[resourceId]/items.js';
+
+const mocks = vi.hoisted(() => ({
+  db: {
+    getResourceItems: vi.fn(),
+    createResourceItem: vi.fn(),
+    updateResourceItem: vi.fn(),
+    deleteResourceItem: vi.fn()
+  },
+  user: { userId: 'user-1', email: 'sam@example.com' } as { userId: string; email: string } | null
+}));
+
+vi.mock('../../../lib/db', () => ({
+  DatabaseService: vi.fn(() => mocks.db)
+}));
+
+vi.mock('../../../lib/auth', () => ({
+  getUserFromContext: () => mocks.user
+}));
+
+function context(query: string, init?: RequestInit): APIContext {
+  const url = `https://hub.test/api/resources/res-1/items${query}`;
+  return {
+    request: new Request(url, init),
+    url: new URL(url),
+    params: { resourceId: 'res-1' },
+    locals: { runtime: { env: { DB: {} } } }
+  } as unknown as APIContext;
+}
+
+function send(method: string, query: string, body: unknown): APIContext {
+  return context(query, { method, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+}
+
+const item = {
+  id: 'item-1',
+  user_id: 'user-1',
+  resource_id: 'res-1',
+  position: 0,
+  title: 'Watch lecture 1',
+  done: 0,
+  estimate_min: 50,
+  created_at: 1710500000,
+  updated_at: 1710500000
+};
+
+beforeEach(() => {
+  mocks.user = { userId: 'user-1', email: 'sam@example.com' };
+  vi.clearAllMocks();
+});
+
+describe('/api/resources/:resourceId/items', () => {
+  test('should require authentication', async () => {
+    mocks.user = null;
+
+    expect((await GET(context(''))).status).toBe(401);
+    expect((await POST(send('POST', '', { title: 'Quiz' }))).status).toBe(401);
+    expect((await PUT(send('PUT', '?id=item-1', { done: true }))).status).toBe(401);
+    expect((await DELETE(context('?id=item-1', { method: 'DELETE' }))).status).toBe(401);
+  });
+
+  test('should list a resource\'s steps with done as a boolean', async () => {
+    mocks.db.getResourceItems.mockResolvedValue([item, { ...item, id: 'item-2', position: 1, done: 1 }]);
+    const response = await GET(context(''));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).items.map((i: { done: boolean }) => i.done)).toEqual([false, true]);
+    expect(mocks.db.getResourceItems).toHaveBeenCalledWith('user-1', 'res-1');
+  });
+
+  test('should add a step under the device\'s id', async () => {
+    mocks.db.getResourceItems.mockResolvedValue([]);
+    mocks.db.createResourceItem.mockResolvedValue(item);
+    const response = await POST(send('POST', '', { id: 'item-1', title: '  Watch lecture 1 ', estimate_min: 50 }));
+
+    expect(response.status).toBe(201);
+    expect((await response.json()).item).toMatchObject({ id: 'item-1', done: false });
+    expect(mocks.db.createResourceItem).toHaveBeenCalledWith('user-1', 'res-1', {
+      id: 'item-1', title: 'Watch lecture 1', done: 0, estimate_min: 50
+    });
+  });
+
+  test('should cap the steps per resource but still answer a retried add', async () => {
+    const full = Array.from({ length: 100 }, (_, i) => ({ ...item, id: `item-${i + 1}`, position: i }));
+    mocks.db.getResourceItems.mockResolvedValue(full);
+    mocks.db.createResourceItem.mockResolvedValue(item);
+
+    expect((await POST(send('POST', '', { title: 'One too many' }))).status).toBe(400);
+    expect((await POST(send('POST', '', { id: 'item-1', title: 'Watch lecture 1' }))).status).toBe(201);
+  });
+
+  test('should reject steps without a title and resources the user doesn\'t own', async () => {
+    expect((await POST(send('POST', '', { title: '   ' }))).status).toBe(400);
+
+    mocks.db.getResourceItems.mockResolvedValue([]);
+    mocks.db.createResourceItem.mockResolvedValue(null);
+    expect((await POST(send('POST', '', { title: 'Quiz' }))).status).toBe(404);
+  });
+
+  test('should tick off and move a single step', async () => {
+    mocks.db.updateResourceItem.mockResolvedValue({ ...item, done: 1, position: 2 });
+    const response = await PUT(send('PUT', '?id=item-1', { done: true, position: 2 }));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).item).toMatchObject({ done: true, position: 2 });
+    expect(mocks.db.updateResourceItem).toHaveBeenCalledWith('user-1', 'res-1', 'item-1', { done: 1, position: 2 });
+  });
+
+  test('should clear an estimate and leave fields that weren\'t sent alone', async () => {
+    mocks.db.updateResourceItem.mockResolvedValue({ ...item, estimate_min: null });
+    await PUT(send('PUT', '?id=item-1', { estimate_min: null }));
+
+    expect(mocks.db.updateResourceItem).toHaveBeenCalledWith('user-1', 'res-1', 'item-1', { estimate_min: null, done: undefined });
+  });
+
+  test('should validate updates and report missing steps', async () => {
+    expect((await PUT(send('PUT', '', { done: true }))).status).toBe(400);
+    expect((await PUT(send('PUT', '?id=item-1', { position: -1 }))).status).toBe(400);
+
+    mocks.db.updateResourceItem.mockResolvedValue(null);
+    expect((await PUT(send('PUT', '?id=item-9', { done: true }))).status).toBe(404);
+  });
+
+  test('should remove a step', async () => {
+    mocks.db.deleteResourceItem.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+    expect((await DELETE(context('?id=item-1', { method: 'DELETE' }))).status).toBe(200);
+    expect(mocks.db.deleteResourceItem).toHaveBeenCalledWith('user-1', 'res-1', 'item-1');
+    expect((await DELETE(context('?id=item-1', { method: 'DELETE' }))).status).toBe(404);
+    expect((await DELETE(context('', { method: 'DELETE' }))).status).toBe(400);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for /api/reviews
+ */
+
+import type { APIContext } from 'astro';
+import { GET, POST } from '../reviews.js';
+
+const mocks = vi.hoisted(() => ({
+  db: {
+    getReviewsByUserId: vi.fn(),
+    createReview: vi.fn()
+  },
+  user: { userId: 'user-1', email: 'sam@example.com' } as { userId: string; email: string } | null,
+  recalculateProgress: vi.fn()
+}));
+
+vi.mock('../../../lib/db', () => ({
+  DatabaseService: vi.fn(() => mocks.db)
+}));
+
+vi.mock('../../../lib/auth', () => ({
+  getUserFromContext: () => mocks.user
+}));
+
+vi.mock('../../../lib/progress', () => ({
+  recalculateProgress: mocks.recalculateProgress
+}));
+
+function context(url: string, init?: RequestInit): APIContext {
+  return {
+    request: new Request(url, init),
+    url: new URL(url),
+    locals: { runtime: { env: { DB: {} } } }
+  } as unknown as APIContext;
+}
+
+function post(body: unknown): APIContext {
+  return context('https://hub.test/api/reviews', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+}
+
+const review = {
+  id: 'rev-1',
+  user_id: 'user-1',
+  resource_id: 'res-1',
+  action: 'review',
+  grade: 'good',
+  interval_days: 6,
+  next_review_date: 1709800000,
+  reviewed_at: 1709280000
+};
+
+beforeEach(() => {
+  mocks.user = { userId: 'user-1', email: 'sam@example.com' };
+  vi.clearAllMocks();
+});
+
+describe('/api/reviews', () => {
+  test('should require authentication', async () => {
+    mocks.user = null;
+
+    expect((await GET(context('https://hub.test/api/reviews'))).status).toBe(401);
+    expect((await POST(post({ resource_id: 'res-1', action: 'snooze' }))).status).toBe(401);
+  });
+
+  test('should list the history of one resource', async () => {
+    mocks.db.getReviewsByUserId.mockResolvedValue([review]);
+    const response = await GET(context('https://hub.test/api/reviews?resource_id=res-1'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ reviews: [review] });
+    expect(mocks.db.getReviewsByUserId).toHaveBeenCalledWith('user-1', 'res-1');
+  });
+
+  test('should log a review and recalculate XP', async () => {
+    mocks.db.createReview.mockResolvedValue(review);
+    const response = await POST(post({ id: 'rev-1', resource_id: 'res-1', action: 'review', grade: 'good', interval_days: 6, next_review_date: 1709800000 }));
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toEqual({ review });
+    expect(mocks.db.createReview).toHaveBeenCalledWith('user-1', expect.objectContaining({ id: 'rev-1' }));
+    expect(mocks.recalculateProgress).toHaveBeenCalledWith(mocks.db, 'user-1', [{ sourceType: 'review', sourceId: 'rev-1' }]);
+  });
+
+  test('should require a grade for reviews but drop it from snoozes', async () => {
+    expect((await POST(post({ resource_id: 'res-1', action: 'review' }))).status).toBe(400);
+
+    mocks.db.createReview.mockResolvedValue({ ...review, action: 'snooze', grade: null });
+    await POST(post({ resource_id: 'res-1', action: 'snooze', grade: 'easy' }));
+    expect(mocks.db.createReview).toHaveBeenCalledWith('user-1', expect.objectContaining({ action: 'snooze', grade: null }));
+  });
+
+  test('should return 404 for a resource the user doesn\'t own', async () => {
+    mocks.db.createReview.mockResolvedValue(null);
+    const response = await POST(post({ resource_id: 'res-9', action: 'review', grade: 'hard' }));
+
+    expect(response.status).toBe(404);
+    expect(mocks.recalculateProgress).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,123 @@
+/**
+ * Unit tests for /api/sessions
+ */
+
+import type { APIContext } from 'astro';
+import { PUT, DELETE } from '../sessions.js';
+
+const mocks = vi.hoisted(() => ({
+  db: {
+    updateSession: vi.fn(),
+    deleteSession: vi.fn()
+  },
+  user: { userId: 'user-1', email: 'sam@example.com' } as { userId: string; email: string } | null,
+  recalculateProgress: vi.fn()
+}));
+
+vi.mock('../../../lib/db', () => ({
+  DatabaseService: vi.fn(() => mocks.db)
+}));
+
+vi.mock('../../../lib/auth', () => ({
+  getUserFromContext: () => mocks.user
+}));
+
+vi.mock('../../../lib/progress', () => ({
+  recalculateProgress: mocks.recalculateProgress
+}));
+
+function context(url: string, init?: RequestInit): APIContext {
+  return {
+    request: new Request(url, init),
+    url: new URL(url),
+    locals: { runtime: { env: { DB: {} } } }
+  } as unknown as APIContext;
+}
+
+function put(id: string, body: unknown): APIContext {
+  return context(`https://hub.test/api/sessions?id=${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+}
+
+function del(id: string): APIContext {
+  return context(`https://hub.test/api/sessions?id=${id}`, { method: 'DELETE' });
+}
+
+const session = {
+  id: 'ses-1',
+  user_id: 'user-1',
+  started_at: 1709812800,
+  duration_min: 10,
+  subject: 'Spanish',
+  resource_id: null,
+  notes: null,
+  created_at: 1709812800,
+  updated_at: 1710072000
+};
+
+beforeEach(() => {
+  mocks.user = { userId: 'user-1', email: 'sam@example.com' };
+  vi.clearAllMocks();
+});
+
+describe('/api/sessions', () => {
+  test('should require authentication', async () => {
+    mocks.user = null;
+
+    expect((await PUT(put('ses-1', { duration_min: 10 }))).status).toBe(401);
+    expect((await DELETE(del('ses-1'))).status).toBe(401);
+  });
+
+  test('should shorten a session and recalculate its XP and streak', async () => {
+    mocks.db.updateSession.mockResolvedValue(session);
+    const response = await PUT(put('ses-1', { duration_min: 10 }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ session });
+    expect(mocks.db.updateSession).toHaveBeenCalledWith('ses-1', 'user-1', expect.objectContaining({ duration_min: 10 }));
+    expect(mocks.recalculateProgress).toHaveBeenCalledWith(mocks.db, 'user-1', [{ sourceType: 'session', sourceId: 'ses-1' }]);
+  });
+
+  test('should clear the subject with an empty string', async () => {
+    mocks.db.updateSession.mockResolvedValue({ ...session, subject: null });
+    await PUT(put('ses-1', { subject: '' }));
+
+    expect(mocks.db.updateSession).toHaveBeenCalledWith('ses-1', 'user-1', expect.objectContaining({ subject: null }));
+  });
+
+  test('should reject invalid updates', async () => {
+    expect((await PUT(put('ses-1', { duration_min: -5 }))).status).toBe(400);
+    expect((await PUT(context('https://hub.test/api/sessions', { method: 'PUT', body: '{}' }))).status).toBe(400);
+    expect(mocks.db.updateSession).not.toHaveBeenCalled();
+  });
+
+  test('should reject updates with no fields to change', async () => {
+    const response = await PUT(put('ses-1', {}));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: 'Validation failed' });
+    expect((await PUT(put('ses-1', { mood: 'great' }))).status).toBe(400);
+    expect(mocks.db.updateSession).not.toHaveBeenCalled();
+  });
+
+  test('should delete a session and reverse its XP', async () => {
+    mocks.db.deleteSession.mockResolvedValue(true);
+    const response = await DELETE(del('ses-1'));
+
+    expect(response.status).toBe(200);
+    expect(mocks.db.deleteSession).toHaveBeenCalledWith('ses-1', 'user-1');
+    expect(mocks.recalculateProgress).toHaveBeenCalledWith(mocks.db, 'user-1', [{ sourceType: 'session', sourceId: 'ses-1' }]);
+  });
+
+  test('should return 404 for a session the user doesn\'t own', async () => {
+    mocks.db.updateSession.mockResolvedValue(null);
+    mocks.db.deleteSession.mockResolvedValue(false);
+
+    expect((await PUT(put('ses-9', { duration_min: 10 }))).status).toBe(404);
+    expect((await DELETE(del('ses-9'))).status).toBe(404);
+    expect(mocks.recalculateProgress).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
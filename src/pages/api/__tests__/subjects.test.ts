@@ -0,0 +1,58 @@
+/**
+ * Unit tests for /api/subjects
+ */
+
+import type { APIContext } from 'astro';
+import { PUT } from '../subjects.js';
+
+const mocks = vi.hoisted(() => ({
+  db: {
+    getSubjectByName: vi.fn(),
+    updateSubject: vi.fn()
+  }
+}));
+
+vi.mock('../../../lib/db', () => ({
+  DatabaseService: vi.fn(() => mocks.db)
+}));
+
+vi.mock('../../../lib/auth', () => ({
+  getUserFromContext: () => ({ userId: 'user-1', email: 'sam@example.com' })
+}));
+
+function put(body: unknown): APIContext {
+  const url = 'https://hub.test/api/subjects?id=sub-1';
+  return {
+    request: new Request(url, { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) }),
+    url: new URL(url),
+    locals: { runtime: { env: { DB: {} } } }
+  } as unknown as APIContext;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('/api/subjects', () => {
+  test('should reject an empty update instead of reporting the subject missing', async () => {
+    const response = await PUT(put({}));
+
+    expect(response.status).toBe(400);
+    expect(mocks.db.updateSubject).not.toHaveBeenCalled();
+  });
+
+  test('should rename a subject', async () => {
+    mocks.db.getSubjectByName.mockResolvedValue(null);
+    mocks.db.updateSubject.mockResolvedValue({ id: 'sub-1', name: 'Linear Algebra' });
+    const response = await PUT(put({ name: 'Linear Algebra' }));
+
+    expect(response.status).toBe(200);
+    expect(mocks.db.updateSubject).toHaveBeenCalledWith('sub-1', 'user-1', { name: 'Linear Algebra' });
+  });
+
+  test('should not rename onto another subject', async () => {
+    mocks.db.getSubjectByName.mockResolvedValue({ id: 'sub-2', name: 'Linear Algebra' });
+
+    expect((await PUT(put({ name: 'Linear Algebra' }))).status).toBe(409);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,48 @@
+/**
+ * /api/achievements
+ * Unlocked achievements, oldest first
+ */
+
+import type { APIRoute } from 'astro';
+import { DatabaseService } from '../../lib/db';
+import { getUserFromContext } from '../../lib/auth';
+
+export const prerender = false;
+
+// GET /api/achievements - Get the user's unlocked achievements
+export const GET: APIRoute = async (context) => {
+  try {
+    const { locals } = context;
+    const db = new DatabaseService(locals.runtime.env.DB);
+    
+    // Check authentication
+    const user = getUserFromContext(context);
+    if (!user) {
+      return new Response(JSON.stringify({
+        error: 'Authentication required'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Achievements are unlocked whenever progress is recalculated after a write
+    const achievements = await db.getAchievementsByUserId(user.userId);
+
+    return new Response(JSON.stringify({
+      achievements
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Get achievements error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
\ No newline at end of file
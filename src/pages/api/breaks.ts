@@ -0,0 +1,108 @@
+/**
+ * /api/breaks
+ * Pomodoro break log, kept apart from sessions so breaks never earn XP
+ */
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { DatabaseService } from '../../lib/db';
+import { getUserFromContext } from '../../lib/auth';
+
+const CreateBreakSchema = z.object({
+  id: z.string().min(1).max(64).optional(), // generated on the device, so a retried request isn't logged twice
+  started_at: z.number().int().positive('Started at must be a valid timestamp'),
+  duration_min: z.number().min(0, 'Duration must be non-negative'),
+  kind: z.enum(['short', 'long'])
+});
+
+export const prerender = false;
+
+// GET /api/breaks - Get all breaks for authenticated user
+export const GET: APIRoute = async (context) => {
+  try {
+    const { locals } = context;
+    const db = new DatabaseService(locals.runtime.env.DB);
+    
+    // Check authentication
+    const user = getUserFromContext(context);
+    if (!user) {
+      return new Response(JSON.stringify({
+        error: 'Authentication required'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Get user's breaks
+    const breaks = await db.getBreaksByUserId(user.userId);
+
+    return new Response(JSON.stringify({
+      breaks
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Get breaks error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
+
+// POST /api/breaks - Record a break
+export const POST: APIRoute = async (context) => {
+  try {
+    const { request, locals } = context;
+    const db = new DatabaseService(locals.runtime.env.DB);
+    
+    // Check authentication
+    const user = getUserFromContext(context);
+    if (!user) {
+      return new Response(JSON.stringify({
+        error: 'Authentication required'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Parse and validate request body
+    const body = await request.json().catch(() => ({}));
+    const validation = CreateBreakSchema.safeParse(body);
+    
+    if (!validation.success) {
+      return new Response(JSON.stringify({
+        error: 'Validation failed',
+        details: validation.error.errors
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Create break
+    const pause = await db.createBreak(user.userId, validation.data);
+
+    return new Response(JSON.stringify({
+      break: pause
+    }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Create break error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
\ No newline at end of file
@@ -0,0 +1,117 @@
+/**
+ * /api/distractions
+ * Interruptions logged during focus sessions, each owned by the session it interrupted
+ */
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { DatabaseService } from '../../lib/db';
+import { getUserFromContext } from '../../lib/auth';
+
+const CreateDistractionSchema = z.object({
+  id: z.string().min(1).max(64).optional(), // generated on the device, so a retried request isn't logged twice
+  session_id: z.string().min(1, 'Session ID is required'),
+  occurred_at: z.number().int().positive('Occurred at must be a valid timestamp'),
+  category: z.enum(['phone', 'noise', 'hunger', 'people', 'thoughts', 'other']).nullable().default(null)
+});
+
+export const prerender = false;
+
+// GET /api/distractions - Get all distractions for authenticated user
+export const GET: APIRoute = async (context) => {
+  try {
+    const { locals } = context;
+    const db = new DatabaseService(locals.runtime.env.DB);
+    
+    // Check authentication
+    const user = getUserFromContext(context);
+    if (!user) {
+      return new Response(JSON.stringify({
+        error: 'Authentication required'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Get user's distractions
+    const distractions = await db.getDistractionsByUserId(user.userId);
+
+    return new Response(JSON.stringify({
+      distractions
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Get distractions error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
+
+// POST /api/distractions - Log a distraction against a session
+export const POST: APIRoute = async (context) => {
+  try {
+    const { request, locals } = context;
+    const db = new DatabaseService(locals.runtime.env.DB);
+    
+    // Check authentication
+    const user = getUserFromContext(context);
+    if (!user) {
+      return new Response(JSON.stringify({
+        error: 'Authentication required'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Parse and validate request body
+    const body = await request.json().catch(() => ({}));
+    const validation = CreateDistractionSchema.safeParse(body);
+    
+    if (!validation.success) {
+      return new Response(JSON.stringify({
+        error: 'Validation failed',
+        details: validation.error.errors
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Create distraction
+    const distraction = await db.createDistraction(user.userId, validation.data);
+
+    if (!distraction) {
+      return new Response(JSON.stringify({
+        error: 'Session not found or not authorized'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    return new Response(JSON.stringify({
+      distraction
+    }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Create distraction error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
\ No newline at end of file
@@ -5,18 +5,128 @@
 
 import type { APIRoute } from 'astro';
 import { z } from 'zod';
-import { DatabaseService } from '../../lib/db';
+import { DatabaseService, type Goal, type Resource, type Session } from '../../lib/db';
 import { getUserFromContext } from '../../lib/auth';
+import { recalculateProgress } from '../../lib/progress';
+import { getGoalProgress, MAX_GOAL_RESOURCES } from '../../lib/goalProgress';
+import { canNestUnder, rollUpProgress } from '../../lib/goalTree';
+import { getHabitPeriods, calculateHabitStreak } from '../../lib/habits';
 
-const CreateGoalSchema = z.object({
+const GoalFieldsSchema = z.object({
   name: z.string().min(1, 'Name is required'),
   subject: z.string().min(1, 'Subject is required'),
   due_date: z.number().int().positive('Due date must be a valid timestamp'),
-  progress_pct: z.number().min(0).max(100).default(0),
-  status: z.enum(['active', 'completed', 'paused', 'cancelled']).default('active')
+  progress_pct: z.number().min(0).max(100).default(0), // ignored for measured goals
+  status: z.enum(['active', 'completed', 'paused', 'cancelled']).default('active'),
+  measure: z.enum(['manual', 'minutes', 'resources', 'items']).default('manual'),
+  target_minutes: z.number().int().positive().nullable().default(null),
+  resource_ids: z.array(z.string()).max(MAX_GOAL_RESOURCES).default([]),
+  parent_id: z.string().nullable().default(null), // set on sub-goals
+  recurrence: z.enum(['daily', 'weekdays', 'weekly']).nullable().default(null), // set on habits
+  times_per_week: z.number().int().min(1).max(7).nullable().default(null),
+  daily_minutes: z.number().int().positive().nullable().default(null)
 });
 
-const UpdateGoalSchema = CreateGoalSchema.partial();
+type GoalRuleFields = Pick<z.infer<typeof GoalFieldsSchema>,
+  'measure' | 'target_minutes' | 'resource_ids' | 'recurrence' | 'times_per_week' | 'daily_minutes'>;
+
+// Rules spanning several fields, so an update is checked against the goal it produces
+function checkGoalRules(goal: GoalRuleFields, ctx: z.RefinementCtx) {
+  if (goal.measure !== 'manual' &&
+    (goal.measure === 'minutes' ? goal.target_minutes === null : goal.resource_ids.length === 0)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Measured goals need target minutes or linked resources', path: ['measure'] });
+  }
+  if (goal.recurrence !== null &&
+    (goal.daily_minutes === null || (goal.recurrence === 'weekly' && goal.times_per_week === null))) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Habits need daily minutes, and weekly habits times per week', path: ['recurrence'] });
+  }
+}
+
+const CreateGoalSchema = GoalFieldsSchema.superRefine(checkGoalRules);
+
+const UpdateGoalSchema = GoalFieldsSchema.partial();
+
+// The stored goal with an update applied
+const MergedGoalSchema = GoalFieldsSchema.pick({
+  measure: true,
+  target_minutes: true,
+  resource_ids: true,
+  recurrence: true,
+  times_per_week: true,
+  daily_minutes: true
+}).superRefine(checkGoalRules);
+
+function toProgressGoal(goal: Goal) {
+  return {
+    id: goal.id,
+    parentId: goal.parent_id ?? undefined,
+    status: goal.status,
+    subject: goal.subject,
+    progressPct: goal.progress_pct,
+    measure: goal.measure,
+    targetMinutes: goal.target_minutes ?? undefined,
+    resourceIds: goal.resource_ids,
+    recurrence: goal.recurrence ?? undefined,
+    timesPerWeek: goal.times_per_week ?? undefined,
+    dailyMinutes: goal.daily_minutes ?? undefined,
+    createdAt: new Date(goal.created_at * 1000)
+  };
+}
+
+/**
+ * Fill in progress_pct of measured goals and habits from the user's sessions
+ * and resources, then of goals with sub-goals from those. Habits also get
+ * their streaks and the current period in `habit`.
+ */
+function withDerivedProgress(goals: Goal[], sessions: Session[], resources: Resource[], timeZone: string) {
+  const data = {
+    sessions: sessions.map(s => ({
+      startedAt: new Date(s.started_at * 1000),
+      durationMin: s.duration_min,
+      subject: s.subject ?? undefined
+    })),
+    resources: resources.map(r => ({ id: r.id, status: r.status, items: r.items })),
+    timeZone
+  };
+
+  const progressGoals = goals.map(toProgressGoal);
+  const progress = rollUpProgress(progressGoals.map(goal => ({ ...goal, progressPct: getGoalProgress(goal, data) })));
+
+  return goals.map((goal, index) => {
+    const progressGoal = progressGoals[index];
+    const period = progressGoal.recurrence
+      ? getHabitPeriods(progressGoal, data.sessions, { timeZone }).at(-1)
+      : undefined;
+    const streak = progressGoal.recurrence
+      ? calculateHabitStreak(progressGoal, data.sessions, { timeZone })
+      : undefined;
+
+    return {
+      ...goal,
+      progress_pct: progress.get(goal.id)!,
+      habit: streak ? {
+        current_streak: streak.currentStreak,
+        longest_streak: streak.longestStreak,
+        period: period ? { done: period.done, target: period.target, met: period.met } : null
+      } : null
+    };
+  });
+}
+
+/**
+ * All of the user's goals with derived progress, as GET returns them
+ */
+async function getGoalsWithProgress(db: DatabaseService, userId: string) {
+  const [goals, sessions, resources, settings] = await Promise.all([
+    db.getGoalsByUserId(userId),
+    db.getSessionsByUserId(userId),
+    db.getResourcesByUserId(userId),
+    db.getSettingsByUserId(userId)
+  ]);
+
+  // Habit days are counted in the user's timezone; UTC until a device reports one
+  return withDerivedProgress(goals, sessions, resources, settings?.timezone ?? 'UTC');
+}
 
 export const prerender = false;
 
@@ -37,8 +147,8 @@ export const GET: APIRoute = async (context) => {
       });
     }
 
-    // Get user's goals
-    const goals = await db.getGoalsByUserId(user.userId);
+    // Get user's goals, measured on their sessions and resources
+    const goals = await getGoalsWithProgress(db, user.userId);
 
     return new Response(JSON.stringify({
       goals
@@ -91,11 +201,29 @@ export const POST: APIRoute = async (context) => {
 
     const data = validation.data;
 
+    if (data.parent_id) {
+      const goals = await db.getGoalsByUserId(user.userId);
+      if (!goals.some(goal => goal.id === data.parent_id)) {
+        return new Response(JSON.stringify({
+          error: 'Parent goal not found or not authorized'
+        }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
     // Create goal
     const goal = await db.createGoal(user.userId, data);
 
+    // XP, level and streak are derived server-side
+    await recalculateProgress(db, user.userId, [{ sourceType: 'goal', sourceId: goal.id }]);
+
+    // Measured goals and habits start out with their progress so far
+    const goals = await getGoalsWithProgress(db, user.userId);
+
     return new Response(JSON.stringify({
-      goal
+      goal: goals.find(g => g.id === goal.id) ?? goal
     }), {
       status: 201,
       headers: { 'Content-Type': 'application/json' }
@@ -156,6 +284,41 @@ export const PUT: APIRoute = async (context) => {
 
     const data = validation.data;
 
+    const goals = await db.getGoalsByUserId(user.userId);
+    const stored = goals.find(goal => goal.id === goalId);
+    if (!stored) {
+      return new Response(JSON.stringify({
+        error: 'Goal not found or not authorized'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // E.g. switching a goal to minutes needs target minutes, sent now or stored already
+    const merged = MergedGoalSchema.safeParse({ ...stored, ...data });
+    if (!merged.success) {
+      return new Response(JSON.stringify({
+        error: 'Validation failed',
+        details: merged.error.errors
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (data.parent_id) {
+      const tree = goals.map(goal => ({ id: goal.id, parentId: goal.parent_id ?? undefined }));
+      if (!canNestUnder(tree, goalId, data.parent_id)) {
+        return new Response(JSON.stringify({
+          error: 'A goal can only be nested under another of your goals that is not one of its sub-goals'
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
     // Update goal
     const goal = await db.updateGoal(goalId, user.userId, data);
 
@@ -168,8 +331,13 @@ export const PUT: APIRoute = async (context) => {
       });
     }
 
+    // XP, level and streak are derived server-side
+    await recalculateProgress(db, user.userId, [{ sourceType: 'goal', sourceId: goal.id }]);
+
+    const updatedGoals = await getGoalsWithProgress(db, user.userId);
+
     return new Response(JSON.stringify({
-      goal
+      goal: updatedGoals.find(g => g.id === goal.id) ?? goal
     }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' }
@@ -226,6 +394,9 @@ export const DELETE: APIRoute = async (context) => {
       });
     }
 
+    // XP, level and streak are derived server-side
+    await recalculateProgress(db, user.userId, [{ sourceType: 'goal', sourceId: goalId }]);
+
     return new Response(JSON.stringify({
       success: true,
       message: 'Goal deleted successfully'
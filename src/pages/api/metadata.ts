@@ -0,0 +1,62 @@
+/**
+ * /api/metadata
+ * Title, description, duration and a type guess for a pasted URL, to pre-fill the resource form
+ */
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { getUserFromContext } from '../../lib/auth';
+import { fetchUrlMetadata, isFetchableUrl } from '../../lib/urlMetadata';
+
+const MetadataSchema = z.object({
+  url: z.string().url().max(2000).refine(isFetchableUrl, 'URL must be a public http(s) address')
+});
+
+export const prerender = false;
+
+// GET /api/metadata?url=... - Falls back to a URL-only guess when the page can't be fetched
+export const GET: APIRoute = async (context) => {
+  try {
+    const { url } = context;
+
+    // Check authentication
+    const user = getUserFromContext(context);
+    if (!user) {
+      return new Response(JSON.stringify({
+        error: 'Authentication required'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const validation = MetadataSchema.safeParse({ url: url.searchParams.get('url') ?? '' });
+    if (!validation.success) {
+      return new Response(JSON.stringify({
+        error: 'Validation failed',
+        details: validation.error.errors
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const metadata = await fetchUrlMetadata(validation.data.url, { allowUrl: isFetchableUrl });
+
+    return new Response(JSON.stringify({
+      metadata
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Metadata error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
\ No newline at end of file
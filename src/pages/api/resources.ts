@@ -1,12 +1,15 @@
 /**
  * /api/resources
- * CRUD endpoints for resources
+ * CRUD endpoints for resources, with filtering, search, sorting and cursor pagination on GET
  */
 
 import type { APIRoute } from 'astro';
 import { z } from 'zod';
 import { DatabaseService } from '../../lib/db';
 import { getUserFromContext } from '../../lib/auth';
+import { recalculateProgress } from '../../lib/progress';
+import { decodeResourceCursor, encodeResourceCursor } from '../../lib/resourceQuery';
+import { normalizeTags, MAX_TAG_LENGTH, MAX_TAGS_PER_RESOURCE } from '../../lib/tags';
 
 const CreateResourceSchema = z.object({
   title: z.string().min(1, 'Title is required'),
@@ -15,20 +18,40 @@ const CreateResourceSchema = z.object({
   type: z.enum(['video', 'article', 'book', 'course', 'podcast', 'other']),
   priority: z.number().min(1).max(5),
   notes: z.string().default(''),
+  tags: z.array(z.string().max(MAX_TAG_LENGTH)).max(MAX_TAGS_PER_RESOURCE).default([]).transform(normalizeTags),
   favorite: z.boolean().default(false),
   status: z.enum(['new', 'learning', 'reviewing', 'done']).default('new'),
   next_review_date: z.number().nullable().optional(),
-  interval_days: z.number().nullable().optional()
+  interval_days: z.number().nullable().optional(),
+  ease_factor: z.number().min(1.3).nullable().optional(),
+  stability: z.number().min(0).nullable().optional(),
+  progress_unit: z.enum(['pages', 'chapters', 'lessons', 'modules', 'episodes', 'videos']).nullable().optional(),
+  total_units: z.number().int().positive().nullable().optional(),
+  current_unit: z.number().int().min(0).nullable().optional()
 });
 
 const UpdateResourceSchema = CreateResourceSchema.partial();
 
+// Query string of GET /api/resources; tag may repeat, and without a limit every match is returned
+const ListResourcesSchema = z.object({
+  q: z.string().max(200).optional(),
+  subject: z.string().optional(),
+  type: CreateResourceSchema.shape.type.optional(),
+  priority: z.coerce.number().int().min(1).max(5).optional(),
+  status: z.enum(['new', 'learning', 'reviewing', 'done']).optional(),
+  tag: z.array(z.string().max(MAX_TAG_LENGTH)).max(MAX_TAGS_PER_RESOURCE).transform(normalizeTags),
+  due_before: z.coerce.number().int().optional(),
+  sort: z.enum(['priority', 'updated', 'created', 'title']).default('created'),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  cursor: z.string().optional()
+});
+
 export const prerender = false;
 
-// GET /api/resources - Get all resources for authenticated user
+// GET /api/resources - List the authenticated user's resources, one page at a time
 export const GET: APIRoute = async (context) => {
   try {
-    const { locals } = context;
+    const { url, locals } = context;
     const db = new DatabaseService(locals.runtime.env.DB);
     
     // Check authentication
@@ -42,14 +65,47 @@ export const GET: APIRoute = async (context) => {
       });
     }
 
-    // Get user's resources
-    const resources = await db.getResourcesByUserId(user.userId);
+    // Empty parameters count as not given, e.g. ?subject= from a cleared filter
+    const params = Object.fromEntries([...url.searchParams].filter(([, value]) => value !== ''));
+    const validation = ListResourcesSchema.safeParse({
+      ...params,
+      tag: url.searchParams.getAll('tag').filter(tag => tag !== '')
+    });
+    if (!validation.success) {
+      return new Response(JSON.stringify({
+        error: 'Validation failed',
+        details: validation.error.errors
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { q, tag, cursor, ...query } = validation.data;
+    const after = cursor ? decodeResourceCursor(cursor) : undefined;
+    if (after === null) {
+      return new Response(JSON.stringify({
+        error: 'Invalid cursor'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Get one page of the user's resources
+    const { resources, next_cursor } = await db.queryResources(user.userId, {
+      ...query,
+      search: q,
+      tags: tag,
+      after
+    });
 
     return new Response(JSON.stringify({
       resources: resources.map(resource => ({
         ...resource,
         favorite: Boolean(resource.favorite)
-      }))
+      })),
+      next_cursor: next_cursor ? encodeResourceCursor(next_cursor) : null
     }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' }
@@ -105,6 +161,9 @@ export const POST: APIRoute = async (context) => {
       favorite: data.favorite ? 1 : 0
     });
 
+    // XP, level and streak are derived server-side
+    await recalculateProgress(db, user.userId, [{ sourceType: 'resource', sourceId: resource.id }]);
+
     return new Response(JSON.stringify({
       resource: {
         ...resource,
@@ -185,6 +244,9 @@ export const PUT: APIRoute = async (context) => {
       });
     }
 
+    // XP, level and streak are derived server-side
+    await recalculateProgress(db, user.userId, [{ sourceType: 'resource', sourceId: resource.id }]);
+
     return new Response(JSON.stringify({
       resource: {
         ...resource,
@@ -246,6 +308,9 @@ export const DELETE: APIRoute = async (context) => {
       });
     }
 
+    // Deleting a resource also deletes its reviews, so everything is reconciled
+    await recalculateProgress(db, user.userId);
+
     return new Response(JSON.stringify({
       success: true,
       message: 'Resource deleted successfully'
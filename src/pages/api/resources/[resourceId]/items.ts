@@ -0,0 +1,275 @@
+/**
+ * /api/resources/:resourceId/items
+ * CRUD endpoints for the checklist steps a resource is broken into
+ */
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { DatabaseService, type ResourceItem } from '../../../../lib/db';
+import { getUserFromContext } from '../../../../lib/auth';
+import { MAX_ITEMS_PER_RESOURCE, MAX_ITEM_TITLE_LENGTH } from '../../../../lib/resourceItems';
+
+const CreateItemSchema = z.object({
+  // Devices send their local id so a retried request can't add the step twice
+  id: z.string().min(1).max(64).optional(),
+  title: z.string().trim().min(1, 'Title is required').max(MAX_ITEM_TITLE_LENGTH),
+  done: z.boolean().default(false),
+  estimate_min: z.number().int().positive().nullable().default(null)
+});
+
+const UpdateItemSchema = z.object({
+  title: CreateItemSchema.shape.title.optional(),
+  done: z.boolean().optional(),
+  estimate_min: z.number().int().positive().nullable().optional(),
+  position: z.number().int().min(0).optional() // 0-based; later steps shift down
+});
+
+function toApiItem(item: ResourceItem) {
+  return { ...item, done: Boolean(item.done) };
+}
+
+export const prerender = false;
+
+// GET /api/resources/123/items - Get a resource's items in order
+export const GET: APIRoute = async (context) => {
+  try {
+    const { locals, params } = context;
+    const db = new DatabaseService(locals.runtime.env.DB);
+
+    // Check authentication
+    const user = getUserFromContext(context);
+    if (!user) {
+      return new Response(JSON.stringify({
+        error: 'Authentication required'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const items = await db.getResourceItems(user.userId, params.resourceId!);
+
+    return new Response(JSON.stringify({
+      items: items.map(toApiItem)
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Get resource items error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
+
+// POST /api/resources/123/items - Add a step at the end
+export const POST: APIRoute = async (context) => {
+  try {
+    const { request, locals, params } = context;
+    const db = new DatabaseService(locals.runtime.env.DB);
+
+    // Check authentication
+    const user = getUserFromContext(context);
+    if (!user) {
+      return new Response(JSON.stringify({
+        error: 'Authentication required'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Parse and validate request body
+    const body = await request.json().catch(() => ({}));
+    const validation = CreateItemSchema.safeParse(body);
+
+    if (!validation.success) {
+      return new Response(JSON.stringify({
+        error: 'Validation failed',
+        details: validation.error.errors
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const existing = await db.getResourceItems(user.userId, params.resourceId!);
+    if (existing.length >= MAX_ITEMS_PER_RESOURCE && !existing.some(item => item.id === validation.data.id)) {
+      return new Response(JSON.stringify({
+        error: `A resource can have at most ${MAX_ITEMS_PER_RESOURCE} items`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const item = await db.createResourceItem(user.userId, params.resourceId!, {
+      ...validation.data,
+      done: validation.data.done ? 1 : 0
+    });
+
+    if (!item) {
+      return new Response(JSON.stringify({
+        error: 'Resource not found or not authorized'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    return new Response(JSON.stringify({
+      item: toApiItem(item)
+    }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Create resource item error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
+
+// PUT /api/resources/123/items?id=456 - Update, tick off or move a step
+export const PUT: APIRoute = async (context) => {
+  try {
+    const { request, locals, params, url } = context;
+    const db = new DatabaseService(locals.runtime.env.DB);
+
+    // Check authentication
+    const user = getUserFromContext(context);
+    if (!user) {
+      return new Response(JSON.stringify({
+        error: 'Authentication required'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Get item ID from query params
+    const itemId = url.searchParams.get('id');
+    if (!itemId) {
+      return new Response(JSON.stringify({
+        error: 'Item ID is required'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Parse and validate request body
+    const body = await request.json().catch(() => ({}));
+    const validation = UpdateItemSchema.safeParse(body);
+
+    if (!validation.success) {
+      return new Response(JSON.stringify({
+        error: 'Validation failed',
+        details: validation.error.errors
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const data = validation.data;
+
+    const item = await db.updateResourceItem(user.userId, params.resourceId!, itemId, {
+      ...data,
+      done: data.done !== undefined ? (data.done ? 1 : 0) : undefined
+    });
+
+    if (!item) {
+      return new Response(JSON.stringify({
+        error: 'Item not found or not authorized'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    return new Response(JSON.stringify({
+      item: toApiItem(item)
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Update resource item error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
+
+// DELETE /api/resources/123/items?id=456 - Remove a step
+export const DELETE: APIRoute = async (context) => {
+  try {
+    const { locals, params, url } = context;
+    const db = new DatabaseService(locals.runtime.env.DB);
+
+    // Check authentication
+    const user = getUserFromContext(context);
+    if (!user) {
+      return new Response(JSON.stringify({
+        error: 'Authentication required'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Get item ID from query params
+    const itemId = url.searchParams.get('id');
+    if (!itemId) {
+      return new Response(JSON.stringify({
+        error: 'Item ID is required'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const deleted = await db.deleteResourceItem(user.userId, params.resourceId!, itemId);
+
+    if (!deleted) {
+      return new Response(JSON.stringify({
+        error: 'Item not found or not authorized'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      message: 'Item deleted successfully'
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Delete resource item error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
\ No newline at end of file
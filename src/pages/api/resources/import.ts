@@ -0,0 +1,96 @@
+/**
+ * /api/resources/import
+ * Bulk create for bookmark imports; links the user already saved are skipped
+ */
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { DatabaseService } from '../../../lib/db';
+import { getUserFromContext } from '../../../lib/auth';
+import { recalculateProgress } from '../../../lib/progress';
+import { MAX_IMPORT_RESOURCES } from '../../../lib/bookmarkImport';
+import { normalizeTags, MAX_TAG_LENGTH, MAX_TAGS_PER_RESOURCE } from '../../../lib/tags';
+
+const ImportResourceSchema = z.object({
+  id: z.string().min(1).max(64).optional(), // client-generated, kept so the device's copy matches
+  title: z.string().min(1, 'Title is required'),
+  url: z.string().url('Invalid URL'),
+  subject: z.string().min(1, 'Subject is required'),
+  type: z.enum(['video', 'article', 'book', 'course', 'podcast', 'other']),
+  priority: z.number().min(1).max(5).default(3),
+  notes: z.string().default(''),
+  tags: z.array(z.string().max(MAX_TAG_LENGTH)).max(MAX_TAGS_PER_RESOURCE).default([]).transform(normalizeTags),
+  favorite: z.boolean().default(false),
+  status: z.enum(['new', 'learning', 'reviewing', 'done']).default('new')
+});
+
+const ImportSchema = z.object({
+  resources: z.array(ImportResourceSchema).min(1).max(MAX_IMPORT_RESOURCES)
+});
+
+export const prerender = false;
+
+// POST /api/resources/import - Create up to 1000 resources at once
+export const POST: APIRoute = async (context) => {
+  try {
+    const { request, locals } = context;
+    const db = new DatabaseService(locals.runtime.env.DB);
+
+    // Check authentication
+    const user = getUserFromContext(context);
+    if (!user) {
+      return new Response(JSON.stringify({
+        error: 'Authentication required'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validation = ImportSchema.safeParse(body);
+    if (!validation.success) {
+      return new Response(JSON.stringify({
+        error: 'Validation failed',
+        details: validation.error.errors
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { resources, skipped } = await db.importResources(user.userId, validation.data.resources.map(resource => ({
+      ...resource,
+      favorite: resource.favorite ? 1 : 0,
+      next_review_date: null,
+      interval_days: null,
+      ease_factor: null,
+      stability: null,
+      progress_unit: null,
+      total_units: null,
+      current_unit: null
+    })));
+
+    // XP, level and streak are derived server-side
+    if (resources.length > 0) {
+      await recalculateProgress(db, user.userId);
+    }
+
+    return new Response(JSON.stringify({
+      resources: resources.map(resource => ({ ...resource, favorite: Boolean(resource.favorite) })),
+      skipped
+    }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Import resources error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
\ No newline at end of file
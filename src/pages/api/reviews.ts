@@ -0,0 +1,136 @@
+/**
+ * /api/reviews
+ * Review history endpoints for spaced repetition
+ */
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { DatabaseService } from '../../lib/db';
+import { getUserFromContext } from '../../lib/auth';
+import { recalculateProgress } from '../../lib/progress';
+
+const CreateReviewSchema = z.object({
+  id: z.string().min(1).max(64).optional(), // generated on the device, so a retried request isn't logged twice
+  resource_id: z.string().min(1, 'Resource ID is required'),
+  action: z.enum(['review', 'snooze']),
+  grade: z.enum(['again', 'hard', 'good', 'easy']).nullable().optional(),
+  interval_days: z.number().int().min(0).nullable().optional(),
+  next_review_date: z.number().int().positive().nullable().optional()
+}).refine(data => data.action !== 'review' || !!data.grade, {
+  message: 'Grade is required for reviews',
+  path: ['grade']
+});
+
+export const prerender = false;
+
+// GET /api/reviews?resource_id=123 - Get review history, optionally for one resource
+export const GET: APIRoute = async (context) => {
+  try {
+    const { locals, url } = context;
+    const db = new DatabaseService(locals.runtime.env.DB);
+    
+    // Check authentication
+    const user = getUserFromContext(context);
+    if (!user) {
+      return new Response(JSON.stringify({
+        error: 'Authentication required'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Get user's reviews
+    const resourceId = url.searchParams.get('resource_id') || undefined;
+    const reviews = await db.getReviewsByUserId(user.userId, resourceId);
+
+    return new Response(JSON.stringify({
+      reviews
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Get reviews error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
+
+// POST /api/reviews - Record a review or snooze
+export const POST: APIRoute = async (context) => {
+  try {
+    const { request, locals } = context;
+    const db = new DatabaseService(locals.runtime.env.DB);
+    
+    // Check authentication
+    const user = getUserFromContext(context);
+    if (!user) {
+      return new Response(JSON.stringify({
+        error: 'Authentication required'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Parse and validate request body
+    const body = await request.json().catch(() => ({}));
+    const validation = CreateReviewSchema.safeParse(body);
+    
+    if (!validation.success) {
+      return new Response(JSON.stringify({
+        error: 'Validation failed',
+        details: validation.error.errors
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const data = validation.data;
+
+    // Create review
+    const review = await db.createReview(user.userId, {
+      id: data.id,
+      resource_id: data.resource_id,
+      action: data.action,
+      grade: data.action === 'review' ? data.grade ?? null : null,
+      interval_days: data.interval_days ?? null,
+      next_review_date: data.next_review_date ?? null
+    });
+
+    if (!review) {
+      return new Response(JSON.stringify({
+        error: 'Resource not found or not authorized'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Reviews earn XP, which is derived server-side
+    await recalculateProgress(db, user.userId, [{ sourceType: 'review', sourceId: review.id }]);
+
+    return new Response(JSON.stringify({
+      review
+    }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Create review error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
\ No newline at end of file
@@ -0,0 +1,67 @@
+/**
+ * /api/search
+ * Full-text search across resources, goals, subjects and session notes for the command palette
+ */
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { DatabaseService } from '../../lib/db';
+import { getUserFromContext } from '../../lib/auth';
+import { SEARCH_LIMIT } from '../../lib/search';
+
+const SearchSchema = z.object({
+  q: z.string().max(200).default(''),
+  limit: z.coerce.number().int().min(1).max(50).default(SEARCH_LIMIT)
+});
+
+export const prerender = false;
+
+// GET /api/search?q=... - Best matches first
+export const GET: APIRoute = async (context) => {
+  try {
+    const { url, locals } = context;
+    const db = new DatabaseService(locals.runtime.env.DB);
+
+    // Check authentication
+    const user = getUserFromContext(context);
+    if (!user) {
+      return new Response(JSON.stringify({
+        error: 'Authentication required'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const validation = SearchSchema.safeParse(
+      Object.fromEntries([...url.searchParams].filter(([, value]) => value !== ''))
+    );
+    if (!validation.success) {
+      return new Response(JSON.stringify({
+        error: 'Validation failed',
+        details: validation.error.errors
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const results = await db.search(user.userId, validation.data.q, validation.data.limit);
+
+    return new Response(JSON.stringify({
+      results
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Search error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
\ No newline at end of file
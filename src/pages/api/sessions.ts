@@ -7,14 +7,24 @@ import type { APIRoute } from 'astro';
 import { z } from 'zod';
 import { DatabaseService } from '../../lib/db';
 import { getUserFromContext } from '../../lib/auth';
+import { recalculateProgress } from '../../lib/progress';
 
 const CreateSessionSchema = z.object({
   started_at: z.number().int().positive('Started at must be a valid timestamp'),
   duration_min: z.number().min(0, 'Duration must be non-negative'),
   subject: z.string().optional(),
-  resource_id: z.string().optional()
+  resource_id: z.string().optional(),
+  notes: z.string().max(1000, 'Notes must be 1000 characters or less').optional(),
+  focus_rating: z.number().int().min(1).max(5, 'Focus rating must be between 1 and 5').nullable().optional(),
+  energy: z.enum(['low', 'medium', 'high']).nullable().optional(),
+  units_completed: z.number().int().min(0).nullable().optional()
 });
 
+const UpdateSessionSchema = CreateSessionSchema.partial().refine(
+  data => Object.values(data).some(value => value !== undefined),
+  'At least one field is required'
+);
+
 export const prerender = false;
 
 // GET /api/sessions - Get all sessions for authenticated user
@@ -93,9 +103,16 @@ export const POST: APIRoute = async (context) => {
       started_at: data.started_at,
       duration_min: data.duration_min,
       subject: data.subject || null,
-      resource_id: data.resource_id || null
+      resource_id: data.resource_id || null,
+      notes: data.notes || null,
+      focus_rating: data.focus_rating ?? null,
+      energy: data.energy ?? null,
+      units_completed: data.units_completed ?? null
     });
 
+    // XP, level and streak are derived server-side
+    await recalculateProgress(db, user.userId, [{ sourceType: 'session', sourceId: session.id }]);
+
     return new Response(JSON.stringify({
       session
     }), {
@@ -112,4 +129,148 @@ export const POST: APIRoute = async (context) => {
       headers: { 'Content-Type': 'application/json' }
     });
   }
+};
+
+// PUT /api/sessions?id=123 - Update session
+export const PUT: APIRoute = async (context) => {
+  try {
+    const { request, locals, url } = context;
+    const db = new DatabaseService(locals.runtime.env.DB);
+    
+    // Check authentication
+    const user = getUserFromContext(context);
+    if (!user) {
+      return new Response(JSON.stringify({
+        error: 'Authentication required'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Get session ID from query params
+    const sessionId = url.searchParams.get('id');
+    if (!sessionId) {
+      return new Response(JSON.stringify({
+        error: 'Session ID is required'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Parse and validate request body
+    const body = await request.json().catch(() => ({}));
+    const validation = UpdateSessionSchema.safeParse(body);
+    
+    if (!validation.success) {
+      return new Response(JSON.stringify({
+        error: 'Validation failed',
+        details: validation.error.errors
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const data = validation.data;
+
+    // Update session; empty strings clear the subject, resource or notes, as on create
+    const session = await db.updateSession(sessionId, user.userId, {
+      ...data,
+      subject: data.subject === '' ? null : data.subject,
+      resource_id: data.resource_id === '' ? null : data.resource_id,
+      notes: data.notes === '' ? null : data.notes
+    });
+
+    if (!session) {
+      return new Response(JSON.stringify({
+        error: 'Session not found or not authorized'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // XP, level and streak are derived server-side
+    await recalculateProgress(db, user.userId, [{ sourceType: 'session', sourceId: session.id }]);
+
+    return new Response(JSON.stringify({
+      session
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Update session error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
+
+// DELETE /api/sessions?id=123 - Delete session
+export const DELETE: APIRoute = async (context) => {
+  try {
+    const { locals, url } = context;
+    const db = new DatabaseService(locals.runtime.env.DB);
+    
+    // Check authentication
+    const user = getUserFromContext(context);
+    if (!user) {
+      return new Response(JSON.stringify({
+        error: 'Authentication required'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Get session ID from query params
+    const sessionId = url.searchParams.get('id');
+    if (!sessionId) {
+      return new Response(JSON.stringify({
+        error: 'Session ID is required'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Delete session
+    const deleted = await db.deleteSession(sessionId, user.userId);
+
+    if (!deleted) {
+      return new Response(JSON.stringify({
+        error: 'Session not found or not authorized'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // XP, level and streak are derived server-side
+    await recalculateProgress(db, user.userId, [{ sourceType: 'session', sourceId: sessionId }]);
+
+    return new Response(JSON.stringify({
+      success: true,
+      message: 'Session deleted successfully'
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Delete session error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
 };
\ No newline at end of file
@@ -7,15 +7,19 @@ import type { APIRoute } from 'astro';
 import { z } from 'zod';
 import { DatabaseService } from '../../lib/db';
 import { getUserFromContext } from '../../lib/auth';
+import { recalculateProgress } from '../../lib/progress';
+import { isValidTimeZone } from '../../lib/xp';
 
+// XP, level and streaks are derived server-side, so only preferences can be set
 const UpdateSettingsSchema = z.object({
   theme: z.enum(['dark', 'light']).optional(),
-  xp: z.number().min(0).optional(),
-  level: z.number().min(1).optional(),
-  streak: z.number().min(0).optional(),
-  longest_streak: z.number().min(0).optional(),
-  selected_subject_id: z.string().optional()
-});
+  selected_subject_id: z.string().optional(),
+  timezone: z.string().refine(isValidTimeZone, 'Invalid timezone').optional(),
+  pomodoro_work_min: z.number().int().min(1).max(180).optional(),
+  pomodoro_short_break_min: z.number().int().min(1).max(60).optional(),
+  pomodoro_long_break_min: z.number().int().min(1).max(120).optional(),
+  pomodoro_cycles: z.number().int().min(1).max(12).optional()
+}).strict();
 
 export const prerender = false;
 
@@ -36,8 +40,8 @@ export const GET: APIRoute = async (context) => {
       });
     }
 
-    // Get user's settings
-    const settings = await db.getSettingsByUserId(user.userId);
+    // Get user's settings with freshly derived XP, level and streak
+    const settings = await recalculateProgress(db, user.userId);
 
     if (!settings) {
       return new Response(JSON.stringify({
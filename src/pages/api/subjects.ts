@@ -0,0 +1,275 @@
+/**
+ * /api/subjects
+ * CRUD endpoints for subjects
+ */
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { DatabaseService } from '../../lib/db';
+import { getUserFromContext } from '../../lib/auth';
+
+const CreateSubjectSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().max(500).nullable().optional(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #3B82F6')
+});
+
+const UpdateSubjectSchema = CreateSubjectSchema.partial().refine(
+  data => Object.values(data).some(value => value !== undefined),
+  'At least one field is required'
+);
+
+export const prerender = false;
+
+// GET /api/subjects - Get all subjects with computed stats for authenticated user
+export const GET: APIRoute = async (context) => {
+  try {
+    const { locals } = context;
+    const db = new DatabaseService(locals.runtime.env.DB);
+    
+    // Check authentication
+    const user = getUserFromContext(context);
+    if (!user) {
+      return new Response(JSON.stringify({
+        error: 'Authentication required'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Get user's subjects
+    const subjects = await db.getSubjectsByUserId(user.userId);
+
+    return new Response(JSON.stringify({
+      subjects
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Get subjects error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
+
+// POST /api/subjects - Create new subject
+export const POST: APIRoute = async (context) => {
+  try {
+    const { request, locals } = context;
+    const db = new DatabaseService(locals.runtime.env.DB);
+    
+    // Check authentication
+    const user = getUserFromContext(context);
+    if (!user) {
+      return new Response(JSON.stringify({
+        error: 'Authentication required'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Parse and validate request body
+    const body = await request.json().catch(() => ({}));
+    const validation = CreateSubjectSchema.safeParse(body);
+    
+    if (!validation.success) {
+      return new Response(JSON.stringify({
+        error: 'Validation failed',
+        details: validation.error.errors
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const data = validation.data;
+
+    // Check if subject already exists
+    const existingSubject = await db.getSubjectByName(data.name, user.userId);
+    if (existingSubject) {
+      return new Response(JSON.stringify({
+        error: 'Subject already exists with this name'
+      }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Create subject
+    const subject = await db.createSubject(user.userId, {
+      name: data.name,
+      description: data.description || null,
+      color: data.color
+    });
+
+    return new Response(JSON.stringify({
+      subject
+    }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Create subject error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
+
+// PUT /api/subjects?id=123 - Update subject
+export const PUT: APIRoute = async (context) => {
+  try {
+    const { request, locals, url } = context;
+    const db = new DatabaseService(locals.runtime.env.DB);
+    
+    // Check authentication
+    const user = getUserFromContext(context);
+    if (!user) {
+      return new Response(JSON.stringify({
+        error: 'Authentication required'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Get subject ID from query params
+    const subjectId = url.searchParams.get('id');
+    if (!subjectId) {
+      return new Response(JSON.stringify({
+        error: 'Subject ID is required'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Parse and validate request body
+    const body = await request.json().catch(() => ({}));
+    const validation = UpdateSubjectSchema.safeParse(body);
+    
+    if (!validation.success) {
+      return new Response(JSON.stringify({
+        error: 'Validation failed',
+        details: validation.error.errors
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const data = validation.data;
+
+    // Renaming must not collide with another subject
+    if (data.name) {
+      const existingSubject = await db.getSubjectByName(data.name, user.userId);
+      if (existingSubject && existingSubject.id !== subjectId) {
+        return new Response(JSON.stringify({
+          error: 'Subject already exists with this name'
+        }), {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    // Update subject
+    const subject = await db.updateSubject(subjectId, user.userId, data);
+
+    if (!subject) {
+      return new Response(JSON.stringify({
+        error: 'Subject not found or not authorized'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    return new Response(JSON.stringify({
+      subject
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Update subject error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
+
+// DELETE /api/subjects?id=123 - Delete subject
+export const DELETE: APIRoute = async (context) => {
+  try {
+    const { locals, url } = context;
+    const db = new DatabaseService(locals.runtime.env.DB);
+    
+    // Check authentication
+    const user = getUserFromContext(context);
+    if (!user) {
+      return new Response(JSON.stringify({
+        error: 'Authentication required'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Get subject ID from query params
+    const subjectId = url.searchParams.get('id');
+    if (!subjectId) {
+      return new Response(JSON.stringify({
+        error: 'Subject ID is required'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Delete subject
+    const deleted = await db.deleteSubject(subjectId, user.userId);
+
+    if (!deleted) {
+      return new Response(JSON.stringify({
+        error: 'Subject not found or not authorized'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      message: 'Subject deleted successfully'
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Delete subject error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
\ No newline at end of file
@@ -1,55 +1,175 @@
 /**
- * POST /api/sync
- * Bulk sync endpoint for transferring local data to cloud
+ * /api/sync
+ * Two-way sync: devices push their changes and pull everything newer than their cursor
  */
 
 import type { APIRoute } from 'astro';
 import { z } from 'zod';
 import { DatabaseService } from '../../lib/db';
 import { getUserFromContext } from '../../lib/auth';
+import { processSyncPush, type SyncStore } from '../../lib/sync';
+import { recalculateProgress } from '../../lib/progress';
+import { isValidTimeZone } from '../../lib/xp';
+import { normalizeTags, MAX_TAG_LENGTH, MAX_TAGS_PER_RESOURCE } from '../../lib/tags';
+import { MAX_ITEMS_PER_RESOURCE, MAX_ITEM_TITLE_LENGTH } from '../../lib/resourceItems';
+import { MAX_GOAL_RESOURCES } from '../../lib/goalProgress';
 
-const SyncDataSchema = z.object({
-  resources: z.array(z.object({
-    title: z.string(),
-    url: z.string().url(),
-    subject: z.string(),
-    type: z.enum(['video', 'article', 'book', 'course', 'podcast', 'other']),
-    priority: z.number().min(1).max(5),
-    notes: z.string(),
-    favorite: z.boolean(),
-    status: z.enum(['new', 'learning', 'reviewing', 'done']),
-    next_review_date: z.number().nullable().optional(),
-    interval_days: z.number().nullable().optional(),
-    created_at: z.number(),
-    updated_at: z.number()
-  })).default([]),
-  sessions: z.array(z.object({
-    started_at: z.number(),
-    duration_min: z.number().min(0),
-    subject: z.string().nullable().optional(),
-    resource_id: z.string().nullable().optional()
-  })).default([]),
-  goals: z.array(z.object({
-    name: z.string(),
-    subject: z.string(),
-    due_date: z.number(),
-    progress_pct: z.number().min(0).max(100),
-    status: z.enum(['active', 'completed', 'paused', 'cancelled']),
-    created_at: z.number(),
-    updated_at: z.number()
-  })).default([]),
+const ResourceDataSchema = z.object({
+  title: z.string(),
+  url: z.string().url(),
+  subject: z.string(),
+  type: z.enum(['video', 'article', 'book', 'course', 'podcast', 'other']),
+  priority: z.number().min(1).max(5),
+  notes: z.string(),
+  tags: z.array(z.string().max(MAX_TAG_LENGTH)).max(MAX_TAGS_PER_RESOURCE).transform(normalizeTags).optional(),
+  favorite: z.boolean(),
+  status: z.enum(['new', 'learning', 'reviewing', 'done']),
+  next_review_date: z.number().nullable().optional(),
+  interval_days: z.number().nullable().optional(),
+  ease_factor: z.number().min(1.3).nullable().optional(),
+  stability: z.number().min(0).nullable().optional(),
+  progress_unit: z.enum(['pages', 'chapters', 'lessons', 'modules', 'episodes', 'videos']).nullable().optional(),
+  total_units: z.number().int().positive().nullable().optional(),
+  current_unit: z.number().int().min(0).nullable().optional(),
+  items: z.array(z.object({
+    id: z.string().min(1).max(64),
+    title: z.string().min(1).max(MAX_ITEM_TITLE_LENGTH),
+    done: z.boolean(),
+    estimate_min: z.number().int().positive().nullable()
+  })).max(MAX_ITEMS_PER_RESOURCE).optional(),
+  created_at: z.number()
+});
+
+const SessionDataSchema = z.object({
+  started_at: z.number(),
+  duration_min: z.number().min(0),
+  subject: z.string().nullable().optional(),
+  resource_id: z.string().nullable().optional(),
+  notes: z.string().max(1000).nullable().optional(),
+  focus_rating: z.number().int().min(1).max(5).nullable().optional(),
+  energy: z.enum(['low', 'medium', 'high']).nullable().optional(),
+  units_completed: z.number().int().min(0).nullable().optional(),
+  created_at: z.number()
+});
+
+const GoalDataSchema = z.object({
+  name: z.string(),
+  subject: z.string(),
+  due_date: z.number(),
+  progress_pct: z.number().min(0).max(100),
+  status: z.enum(['active', 'completed', 'paused', 'cancelled']),
+  measure: z.enum(['manual', 'minutes', 'resources', 'items']).default('manual'),
+  target_minutes: z.number().int().positive().nullable().optional(),
+  resource_ids: z.array(z.string()).max(MAX_GOAL_RESOURCES).optional(),
+  parent_id: z.string().nullable().optional(),
+  recurrence: z.enum(['daily', 'weekdays', 'weekly']).nullable().optional(),
+  times_per_week: z.number().int().min(1).max(7).nullable().optional(),
+  daily_minutes: z.number().int().positive().nullable().optional(),
+  created_at: z.number()
+});
+
+const SubjectDataSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).nullable().optional(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+  created_at: z.number()
+});
+
+const syncChange = <E extends string, T extends z.ZodTypeAny>(entity: E, data: T) => z.object({
+  entity: z.literal(entity),
+  id: z.string().min(1).max(64),
+  op: z.enum(['upsert', 'delete']),
+  updated_at: z.number().int().min(0),
+  data: data.optional()
+});
+
+const SyncChangeSchema = z.discriminatedUnion('entity', [
+  syncChange('resource', ResourceDataSchema),
+  syncChange('session', SessionDataSchema),
+  syncChange('goal', GoalDataSchema),
+  syncChange('subject', SubjectDataSchema)
+]).refine(change => change.op === 'delete' || change.data !== undefined, {
+  message: 'Upserts must include data',
+  path: ['data']
+});
+
+const SyncRequestSchema = z.object({
+  cursor: z.number().int().min(0).nullable().default(null),
+  changes: z.array(SyncChangeSchema).max(1000).default([]),
   settings: z.object({
     theme: z.enum(['dark', 'light']),
-    xp: z.number().min(0),
-    level: z.number().min(1),
-    streak: z.number().min(0),
-    longest_streak: z.number().min(0),
-    selected_subject_id: z.string().optional()
+    selected_subject_id: z.string().optional(),
+    timezone: z.string().refine(isValidTimeZone, 'Invalid timezone').optional(),
+    pomodoro_work_min: z.number().int().min(1).max(180).optional(),
+    pomodoro_short_break_min: z.number().int().min(1).max(60).optional(),
+    pomodoro_long_break_min: z.number().int().min(1).max(120).optional(),
+    pomodoro_cycles: z.number().int().min(1).max(12).optional()
   }).optional()
 });
 
+function createSyncStore(db: DatabaseService, userId: string): SyncStore {
+  return {
+    getVersion: (entity, id) => db.getSyncVersion(userId, entity, id),
+    getChange: (entity, id) => db.getSyncChange(userId, entity, id),
+    async upsert(change) {
+      const written = await db.upsertSyncRecord(userId, change);
+      if (!written) {
+        throw new Error('Record belongs to another user');
+      }
+    },
+    async remove(change) {
+      await db.deleteSyncRecord(userId, change);
+    },
+    getChangesSince: (cursor) => db.getSyncChangesSince(userId, cursor)
+  };
+}
+
 export const prerender = false;
 
+export const GET: APIRoute = async (context) => {
+  try {
+    const { url, locals } = context;
+    const db = new DatabaseService(locals.runtime.env.DB);
+    
+    // Check authentication
+    const user = getUserFromContext(context);
+    if (!user) {
+      return new Response(JSON.stringify({
+        error: 'Authentication required'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const since = Number(url.searchParams.get('since') ?? 0);
+    if (!Number.isInteger(since) || since < 0) {
+      return new Response(JSON.stringify({
+        error: 'Invalid cursor'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const result = await db.getSyncChangesSince(user.userId, since);
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Get sync changes error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
+
 export const POST: APIRoute = async (context) => {
   try {
     const { request, locals } = context;
@@ -68,7 +188,7 @@ export const POST: APIRoute = async (context) => {
 
     // Parse and validate request body
     const body = await request.json().catch(() => ({}));
-    const validation = SyncDataSchema.safeParse(body);
+    const validation = SyncRequestSchema.safeParse(body);
     
     if (!validation.success) {
       return new Response(JSON.stringify({
@@ -80,66 +200,18 @@ export const POST: APIRoute = async (context) => {
       });
     }
 
-    const data = validation.data;
-    const results = {
-      resources: 0,
-      sessions: 0,
-      goals: 0,
-      settings_updated: false
-    };
-
-    // Sync resources
-    for (const resource of data.resources) {
-      try {
-        await db.createResource(user.userId, {
-          ...resource,
-          favorite: resource.favorite ? 1 : 0
-        });
-        results.resources++;
-      } catch (error) {
-        console.warn('Failed to sync resource:', resource.title, error);
-      }
-    }
-
-    // Sync sessions  
-    for (const session of data.sessions) {
-      try {
-        await db.createSession(user.userId, {
-          started_at: session.started_at,
-          duration_min: session.duration_min,
-          subject: session.subject || null,
-          resource_id: session.resource_id || null
-        });
-        results.sessions++;
-      } catch (error) {
-        console.warn('Failed to sync session:', error);
-      }
-    }
+    const { cursor, changes, settings } = validation.data;
+    const result = await processSyncPush(createSyncStore(db, user.userId), cursor, changes);
 
-    // Sync goals
-    for (const goal of data.goals) {
-      try {
-        await db.createGoal(user.userId, goal);
-        results.goals++;
-      } catch (error) {
-        console.warn('Failed to sync goal:', goal.name, error);
-      }
-    }
-
-    // Sync settings
-    if (data.settings) {
-      try {
-        await db.updateSettings(user.userId, data.settings);
-        results.settings_updated = true;
-      } catch (error) {
-        console.warn('Failed to sync settings:', error);
-      }
+    if (settings) {
+      await db.updateSettings(user.userId, settings);
     }
 
     return new Response(JSON.stringify({
       success: true,
-      message: 'Data synced successfully',
-      synced: results
+      ...result,
+      // XP, level and streak are derived from the synced data
+      settings: await recalculateProgress(db, user.userId)
     }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' }
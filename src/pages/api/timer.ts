@@ -0,0 +1,239 @@
+/**
+ * /api/timer
+ * The user's active study timer, shared across devices.
+ * Stopping the timer turns it into a session.
+ */
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { DatabaseService } from '../../lib/db';
+import { getUserFromContext } from '../../lib/auth';
+import { recalculateProgress } from '../../lib/progress';
+
+const TimerActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('start'),
+    started_at: z.number().int().positive('Started at must be a valid timestamp'),
+    subject: z.string().optional(),
+    resource_id: z.string().optional()
+  }),
+  z.object({ action: z.literal('pause') }),
+  z.object({ action: z.literal('resume') }),
+  z.object({
+    action: z.literal('stop'),
+    subject: z.string().optional(),
+    resource_id: z.string().optional(),
+    notes: z.string().max(1000, 'Notes must be 1000 characters or less').optional(),
+    focus_rating: z.number().int().min(1).max(5, 'Focus rating must be between 1 and 5').optional(),
+    energy: z.enum(['low', 'medium', 'high']).optional(),
+    units_completed: z.number().int().min(0).optional()
+  })
+]);
+
+export const prerender = false;
+
+// GET /api/timer - Get the active timer, if any
+export const GET: APIRoute = async (context) => {
+  try {
+    const { locals } = context;
+    const db = new DatabaseService(locals.runtime.env.DB);
+    
+    // Check authentication
+    const user = getUserFromContext(context);
+    if (!user) {
+      return new Response(JSON.stringify({
+        error: 'Authentication required'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const timer = await db.getActiveTimer(user.userId);
+
+    return new Response(JSON.stringify({
+      timer
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Get timer error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
+
+// POST /api/timer - Start, pause, resume or stop the timer
+export const POST: APIRoute = async (context) => {
+  try {
+    const { request, locals } = context;
+    const db = new DatabaseService(locals.runtime.env.DB);
+    
+    // Check authentication
+    const user = getUserFromContext(context);
+    if (!user) {
+      return new Response(JSON.stringify({
+        error: 'Authentication required'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Parse and validate request body
+    const body = await request.json().catch(() => ({}));
+    const validation = TimerActionSchema.safeParse(body);
+    
+    if (!validation.success) {
+      return new Response(JSON.stringify({
+        error: 'Validation failed',
+        details: validation.error.errors
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const data = validation.data;
+
+    if (data.action === 'start') {
+      const timer = await db.startActiveTimer(user.userId, {
+        started_at: data.started_at,
+        subject: data.subject || null,
+        resource_id: data.resource_id || null
+      });
+
+      // Another device got there first; hand back its timer to follow
+      if (!timer) {
+        return new Response(JSON.stringify({
+          error: 'Timer already running',
+          timer: await db.getActiveTimer(user.userId)
+        }), {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      return new Response(JSON.stringify({
+        timer
+      }), {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (data.action === 'stop') {
+      const session = await db.stopActiveTimer(user.userId, {
+        subject: data.subject || null,
+        resource_id: data.resource_id || null,
+        notes: data.notes || null,
+        focus_rating: data.focus_rating ?? null,
+        energy: data.energy ?? null,
+        units_completed: data.units_completed ?? null
+      });
+
+      if (!session) {
+        return new Response(JSON.stringify({
+          error: 'No active timer'
+        }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      // XP, level and streak are derived server-side
+      await recalculateProgress(db, user.userId, [{ sourceType: 'session', sourceId: session.id }]);
+
+      return new Response(JSON.stringify({
+        session
+      }), {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const timer = data.action === 'pause'
+      ? await db.pauseActiveTimer(user.userId)
+      : await db.resumeActiveTimer(user.userId);
+
+    // Already paused or running, or stopped on another device
+    if (!timer) {
+      return new Response(JSON.stringify({
+        error: `Timer can't ${data.action} from its current state`,
+        timer: await db.getActiveTimer(user.userId)
+      }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    return new Response(JSON.stringify({
+      timer
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Update timer error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
+
+// DELETE /api/timer - Discard the timer without logging a session
+export const DELETE: APIRoute = async (context) => {
+  try {
+    const { locals } = context;
+    const db = new DatabaseService(locals.runtime.env.DB);
+    
+    // Check authentication
+    const user = getUserFromContext(context);
+    if (!user) {
+      return new Response(JSON.stringify({
+        error: 'Authentication required'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const deleted = await db.discardActiveTimer(user.userId);
+
+    if (!deleted) {
+      return new Response(JSON.stringify({
+        error: 'No active timer'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      message: 'Timer discarded'
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Delete timer error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
\ No newline at end of file
@@ -0,0 +1,48 @@
+/**
+ * /api/xp-ledger
+ * XP history: every grant, adjustment and reversal, newest first
+ */
+
+import type { APIRoute } from 'astro';
+import { DatabaseService } from '../../lib/db';
+import { getUserFromContext } from '../../lib/auth';
+
+export const prerender = false;
+
+// GET /api/xp-ledger - Get the user's XP ledger
+export const GET: APIRoute = async (context) => {
+  try {
+    const { locals } = context;
+    const db = new DatabaseService(locals.runtime.env.DB);
+    
+    // Check authentication
+    const user = getUserFromContext(context);
+    if (!user) {
+      return new Response(JSON.stringify({
+        error: 'Authentication required'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Entries are appended whenever progress is recalculated after a write
+    const entries = await db.getXPLedgerByUserId(user.userId);
+
+    return new Response(JSON.stringify({
+      entries
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Get XP ledger error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
\ No newline at end of file